@@ -0,0 +1,73 @@
+/**
+ * Live Event Stream
+ *
+ * Server-Sent Events endpoint that pushes upstream changes to the dashboard.
+ * Query parameters name the upstream: mainApiUrl and autoDispatchApiUrl.
+ * Only the base URLs of the built-in environment profiles and those listed in
+ * LIVE_EVENTS_UPSTREAMS are accepted; the server never polls any other URL.
+ * Each message carries one LiveEvent as JSON.
+ */
+import { liveEventHub, resolveLiveUpstream } from "@/services/live-event-hub"
+
+export const dynamic = "force-dynamic"
+export const runtime = "nodejs"
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000
+// Delay before the browser reconnects a dropped stream
+const RECONNECT_DELAY_MS = 3000
+
+export function GET(request: Request): Response {
+  const params = new URL(request.url).searchParams
+  const upstream = resolveLiveUpstream(params.get("mainApiUrl"), params.get("autoDispatchApiUrl"))
+  if (!upstream) {
+    return Response.json(
+      { error: "mainApiUrl and autoDispatchApiUrl must be base URLs of a configured environment" },
+      { status: 403 },
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let close = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          close()
+        }
+      }
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+      const unsubscribe = liveEventHub.subscribe(upstream, (event) =>
+        send(`data: ${JSON.stringify(event)}\n\n`),
+      )
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS)
+
+      close = () => {
+        close = () => {}
+        clearInterval(heartbeat)
+        unsubscribe()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+      request.signal.addEventListener("abort", () => close())
+    },
+    cancel() {
+      close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
@@ -0,0 +1,188 @@
+/**
+ * Benchmark CLI
+ *
+ * Runs every strategy on the same seeds and writes a comparison report as
+ * Markdown, CSV and JSON. The JSON (or CSV) file can be loaded in the
+ * dashboard's Benchmarks tab.
+ *
+ * Usage: npm run benchmark -- --api-url emulator --seed-count 5 --target-dispatches 500
+ *        npm run benchmark -- --seeds alpha,beta --strategies nearest,optimal --out reports
+ */
+import { mkdir, writeFile } from "node:fs/promises"
+import { join } from "node:path"
+import { parseArgs } from "node:util"
+import { logger } from "@/components/logger"
+import { enableApiEmulator, setMainApiUrl } from "@/services/api"
+import {
+  createBenchmarkRun,
+  formatBenchmarkCsv,
+  formatBenchmarkMarkdown,
+  summarizeBenchmark,
+  type BenchmarkReport,
+  type BenchmarkRun,
+} from "@/services/benchmark-report"
+import { DISPATCH_STRATEGIES, getDispatchStrategy, type DispatchStrategyName } from "@/services/dispatch-strategies"
+import { runHeadlessSimulation } from "@/services/headless-simulation"
+import { DEFAULT_DISTANCE_MODEL, DISTANCE_MODELS, type DistanceModelId } from "@/utils/distance"
+
+const USAGE = `Usage: npm run benchmark -- [options]
+
+Options:
+  --seeds <a,b,...>            Seeds to run (default: seed-1 ... seed-N)
+  --seed-count <n>             Number of generated seeds when --seeds is not given (default: 3)
+  --strategies <a,b,...>       Strategies to compare (default: ${Object.keys(DISPATCH_STRATEGIES).join(",")})
+  --target-dispatches <n>      Units to dispatch per run (default: 1000)
+  --max-active-calls <n>       Open calls kept in the queue (default: 100)
+  --distance-model <id>        ${Object.keys(DISTANCE_MODELS).join(" | ")} (default: ${DEFAULT_DISTANCE_MODEL})
+  --api-url <url>              Main API URL, or "emulator" for the in-process emulator (default: http://localhost:5000)
+  --out <dir>                  Directory for benchmark.md, benchmark.csv and benchmark.json (default: benchmarks)
+  --verbose                    Show API request logs
+  --help                       Show this message`
+
+interface BenchmarkOptions {
+  seeds: string[]
+  strategies: DispatchStrategyName[]
+  targetDispatches: number
+  maxActiveCalls: number
+  distanceModel: DistanceModelId
+  apiUrl: string
+  out: string
+  verbose: boolean
+}
+
+/**
+ * Parses a positive integer flag
+ *
+ * @throws Error if the value is not a positive integer
+ */
+function parsePositiveInt(name: string, value: string): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive integer, got "${value}"`)
+  }
+  return parsed
+}
+
+const parseList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+
+function parseOptions(argv: string[]): BenchmarkOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      seeds: { type: "string" },
+      "seed-count": { type: "string", default: "3" },
+      strategies: { type: "string", default: Object.keys(DISPATCH_STRATEGIES).join(",") },
+      "target-dispatches": { type: "string", default: "1000" },
+      "max-active-calls": { type: "string", default: "100" },
+      "distance-model": { type: "string", default: DEFAULT_DISTANCE_MODEL },
+      "api-url": { type: "string", default: "http://localhost:5000" },
+      out: { type: "string", default: "benchmarks" },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  })
+
+  if (values.help) return null
+
+  const seedCount = parsePositiveInt("seed-count", values["seed-count"])
+  const seeds = values.seeds
+    ? parseList(values.seeds)
+    : Array.from({ length: seedCount }, (_, index) => `seed-${index + 1}`)
+
+  const distanceModel = values["distance-model"] as DistanceModelId
+  if (!DISTANCE_MODELS[distanceModel]) {
+    throw new Error(
+      `Unknown distance model "${distanceModel}". Available: ${Object.keys(DISTANCE_MODELS).join(", ")}`,
+    )
+  }
+
+  return {
+    seeds,
+    strategies: parseList(values.strategies).map((name) => getDispatchStrategy(name).name),
+    targetDispatches: parsePositiveInt("target-dispatches", values["target-dispatches"]),
+    maxActiveCalls: parsePositiveInt("max-active-calls", values["max-active-calls"]),
+    distanceModel,
+    apiUrl: values["api-url"],
+    out: values.out,
+    verbose: values.verbose,
+  }
+}
+
+async function main() {
+  let options: BenchmarkOptions | null
+  try {
+    options = parseOptions(process.argv.slice(2))
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error)
+    console.error(USAGE)
+    process.exit(2)
+  }
+
+  if (!options) {
+    console.log(USAGE)
+    return
+  }
+
+  logger.configure({ enableConsole: options.verbose })
+
+  if (options.apiUrl === "emulator") {
+    enableApiEmulator(true)
+  } else {
+    setMainApiUrl(options.apiUrl)
+  }
+
+  const runs: BenchmarkRun[] = []
+  const total = options.seeds.length * options.strategies.length
+
+  // Seeds in the outer loop so a partial benchmark still compares strategies seed by seed
+  for (const seed of options.seeds) {
+    for (const strategy of options.strategies) {
+      process.stderr.write(`[${runs.length + 1}/${total}] ${strategy} on ${seed}... `)
+
+      const { status, callLatencies } = await runHeadlessSimulation({
+        seed,
+        strategy,
+        targetDispatches: options.targetDispatches,
+        maxActiveCalls: options.maxActiveCalls,
+        distanceModel: options.distanceModel,
+      })
+      const run = createBenchmarkRun(strategy, status, callLatencies)
+      runs.push(run)
+
+      process.stderr.write(`score ${run.score.toFixed(2)}, penalty ${run.penalty}\n`)
+    }
+  }
+
+  const report: BenchmarkReport = {
+    generatedAt: new Date().toISOString(),
+    apiUrl: options.apiUrl,
+    targetDispatches: options.targetDispatches,
+    maxActiveCalls: options.maxActiveCalls,
+    seeds: options.seeds,
+    strategies: options.strategies,
+    runs,
+    summaries: summarizeBenchmark(runs),
+  }
+
+  const markdown = formatBenchmarkMarkdown(report)
+  await mkdir(options.out, { recursive: true })
+  await Promise.all([
+    writeFile(join(options.out, "benchmark.md"), markdown),
+    writeFile(join(options.out, "benchmark.csv"), formatBenchmarkCsv(report)),
+    writeFile(join(options.out, "benchmark.json"), JSON.stringify(report, null, 2)),
+  ])
+
+  console.log(markdown)
+  process.stderr.write(`Reports written to ${options.out}/benchmark.{md,csv,json}\n`)
+}
+
+main().catch((error) => {
+  // api.ts rejects with plain ApiError objects, not Error instances
+  const message = (error as { message?: string } | null)?.message ?? String(error)
+  console.error(`Benchmark failed: ${message}`)
+  process.exit(1)
+})
@@ -0,0 +1,154 @@
+/**
+ * Simulate CLI
+ *
+ * Runs a full dispatch simulation headlessly through the services/api.ts
+ * functions and prints the final /control/status, so strategies can be
+ * benchmarked without the dashboard.
+ *
+ * Usage: npm run simulate -- --seed demo --target-dispatches 500 --strategy nearest
+ *        npm run simulate -- --api-url emulator --json
+ */
+import { parseArgs } from "node:util"
+import { logger } from "@/components/logger"
+import { enableApiEmulator, setMainApiUrl } from "@/services/api"
+import {
+  DEFAULT_DISPATCH_STRATEGY,
+  DISPATCH_STRATEGIES,
+  getDispatchStrategy,
+  type DispatchStrategyName,
+} from "@/services/dispatch-strategies"
+import { runHeadlessSimulation } from "@/services/headless-simulation"
+import type { ControlStatus } from "@/types"
+import { DEFAULT_DISTANCE_MODEL, DISTANCE_MODELS, type DistanceModelId } from "@/utils/distance"
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+Options:
+  --seed <seed>                Simulation seed (default: "default")
+  --target-dispatches <n>      Units to dispatch before the run ends (default: 10000)
+  --max-active-calls <n>       Open calls kept in the queue (default: 100)
+  --strategy <name>            ${Object.keys(DISPATCH_STRATEGIES).join(" | ")} (default: ${DEFAULT_DISPATCH_STRATEGY})
+  --distance-model <id>        ${Object.keys(DISTANCE_MODELS).join(" | ")} (default: ${DEFAULT_DISTANCE_MODEL})
+  --api-url <url>              Main API URL, or "emulator" for the in-process emulator (default: http://localhost:5000)
+  --json                       Print the final status as JSON
+  --verbose                    Show API request logs
+  --help                       Show this message`
+
+interface SimulateOptions {
+  seed: string
+  targetDispatches: number
+  maxActiveCalls: number
+  strategy: DispatchStrategyName
+  distanceModel: DistanceModelId
+  apiUrl: string
+  json: boolean
+  verbose: boolean
+}
+
+/**
+ * Parses a positive integer flag
+ *
+ * @throws Error if the value is not a positive integer
+ */
+function parsePositiveInt(name: string, value: string): number {
+  const parsed = Number(value)
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive integer, got "${value}"`)
+  }
+  return parsed
+}
+
+function parseOptions(argv: string[]): SimulateOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      seed: { type: "string", default: "default" },
+      "target-dispatches": { type: "string", default: "10000" },
+      "max-active-calls": { type: "string", default: "100" },
+      strategy: { type: "string", default: DEFAULT_DISPATCH_STRATEGY },
+      "distance-model": { type: "string", default: DEFAULT_DISTANCE_MODEL },
+      "api-url": { type: "string", default: "http://localhost:5000" },
+      json: { type: "boolean", default: false },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  })
+
+  if (values.help) return null
+
+  const distanceModel = values["distance-model"] as DistanceModelId
+  if (!DISTANCE_MODELS[distanceModel]) {
+    throw new Error(
+      `Unknown distance model "${distanceModel}". Available: ${Object.keys(DISTANCE_MODELS).join(", ")}`,
+    )
+  }
+
+  return {
+    seed: values.seed,
+    targetDispatches: parsePositiveInt("target-dispatches", values["target-dispatches"]),
+    maxActiveCalls: parsePositiveInt("max-active-calls", values["max-active-calls"]),
+    strategy: getDispatchStrategy(values.strategy).name,
+    distanceModel,
+    apiUrl: values["api-url"],
+    json: values.json,
+    verbose: values.verbose,
+  }
+}
+
+function formatTable(status: ControlStatus, options: SimulateOptions): string {
+  const rows: [string, string | number][] = [
+    ["Strategy", options.strategy],
+    ["Seed", status.seed],
+    ["Status", status.status],
+    ["Running time", status.runningTime],
+    ["Dispatches", `${status.totalDispatches} / ${status.targetDispatches}`],
+    ["Distance", status.distance.toFixed(2)],
+    ["Penalty", status.penalty],
+    ["Missed", status.errors.missed],
+    ["Over-dispatched", status.errors.overDispatched],
+    ["HTTP requests", status.httpRequests],
+  ]
+
+  const width = Math.max(...rows.map(([label]) => label.length))
+  return rows.map(([label, value]) => `${label.padEnd(width)}  ${value}`).join("\n")
+}
+
+async function main() {
+  let options: SimulateOptions | null
+  try {
+    options = parseOptions(process.argv.slice(2))
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error)
+    console.error(USAGE)
+    process.exit(2)
+  }
+
+  if (!options) {
+    console.log(USAGE)
+    return
+  }
+
+  logger.configure({ enableConsole: options.verbose })
+
+  if (options.apiUrl === "emulator") {
+    enableApiEmulator(true)
+  } else {
+    setMainApiUrl(options.apiUrl)
+  }
+
+  const { status } = await runHeadlessSimulation(options, (dispatched, openCalls) => {
+    if (!options.json) {
+      process.stderr.write(`\r${dispatched}/${options.targetDispatches} units dispatched, ${openCalls} open calls`)
+    }
+  })
+  if (!options.json) process.stderr.write("\n")
+
+  console.log(options.json ? JSON.stringify({ strategy: options.strategy, ...status }, null, 2) : formatTable(status, options))
+}
+
+main().catch((error) => {
+  // api.ts rejects with plain ApiError objects, not Error instances
+  const message = (error as { message?: string } | null)?.message ?? String(error)
+  console.error(`Simulation failed: ${message}`)
+  process.exit(1)
+})
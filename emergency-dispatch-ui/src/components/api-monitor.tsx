@@ -5,7 +5,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { AlertCircle, X, RefreshCw, Download, Trash2 } from "lucide-react"
-import { logger } from "@/utils/logger"
+import { logger } from "./logger"
+import type { SchemaIssue } from "@/utils/schema"
 import { Badge } from "@/components/ui/badge"
 
 export function ApiErrorMonitor() {
@@ -24,8 +25,8 @@ export function ApiErrorMonitor() {
 
   // Check for new errors periodically
   useEffect(() => {
-    const checkForNewErrors = () => {
-      const currentErrors = logger.getErrors()
+    const checkForNewErrors = async () => {
+      const currentErrors = await logger.getErrors()
       if (currentErrors.length > errors.length && !isVisible) {
         setHasNewErrors(true)
       }
@@ -35,19 +36,19 @@ export function ApiErrorMonitor() {
     return () => clearInterval(interval)
   }, [errors.length, isVisible])
 
-  const loadErrors = () => {
-    const loggedErrors = logger.getErrors()
+  const loadErrors = async () => {
+    const loggedErrors = await logger.getErrors()
     setErrors(loggedErrors)
   }
 
-  const clearErrors = () => {
-    logger.clearErrors()
+  const clearErrors = async () => {
+    await logger.clearErrors()
     setErrors([])
     setHasNewErrors(false)
   }
 
-  const exportErrors = () => {
-    const json = logger.exportErrors()
+  const exportErrors = async () => {
+    const json = await logger.exportErrors()
     const blob = new Blob([json], { type: "application/json" })
     const url = URL.createObjectURL(blob)
 
@@ -73,6 +74,9 @@ export function ApiErrorMonitor() {
 
   // Get error category color
   const getErrorColor = (error: any) => {
+    if (Array.isArray(error.issues)) {
+      return "bg-pink-100 text-pink-800 border-pink-300"
+    }
     if (error.message?.includes("timeout") || error.message?.includes("AbortError")) {
       return "bg-yellow-100 text-yellow-800 border-yellow-300"
     }
@@ -90,6 +94,9 @@ export function ApiErrorMonitor() {
 
   // Get error category name
   const getErrorCategory = (error: any) => {
+    if (Array.isArray(error.issues)) {
+      return error.strict ? "Schema (rejected)" : "Schema"
+    }
     if (error.message?.includes("timeout") || error.message?.includes("AbortError")) {
       return "Timeout"
     }
@@ -222,6 +229,17 @@ export function ApiErrorMonitor() {
                         )}
                       </div>
                       {error.retries && <div className="text-xs text-gray-600">Retries: {error.retries}</div>}
+                      {Array.isArray(error.issues) && (
+                        <ul className="mt-1 space-y-0.5">
+                          {(error.issues as SchemaIssue[]).map((issue, issueIndex) => (
+                            <li key={issueIndex} className="text-xs font-mono text-gray-700">
+                              <span className="text-pink-700">{issue.path}</span>: {issue.message}
+                              <span className="text-gray-400"> (got {JSON.stringify(issue.received) ?? "undefined"})</span>
+                              {issue.patched && <span className="text-gray-500"> · patched</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                       {error.stack && (
                         <details className="mt-1">
                           <summary className="text-xs text-gray-500 cursor-pointer">Stack trace</summary>
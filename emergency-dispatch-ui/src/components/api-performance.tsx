@@ -33,10 +33,10 @@ export function ApiPerformance() {
   const [isRefreshing, setIsRefreshing] = useState(false)
 
   // Calculate performance metrics from logs
-  const calculateMetrics = () => {
+  const calculateMetrics = async () => {
     setIsRefreshing(true)
     try {
-      const logs = logger.getLogs()
+      const logs = await logger.getLogs()
 
       // Filter API response logs that have timing info
       const apiLogs = logs.filter((log) => log.message.includes("API Response") && log.responseTime !== undefined)
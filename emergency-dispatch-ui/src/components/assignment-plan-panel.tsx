@@ -0,0 +1,209 @@
+"use client"
+
+import { useState } from "react"
+import { EMERGENCY_TYPE_COLORS } from "@/types"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { ArrowRight, CheckCircle2, Loader2, Route, X, XCircle } from "lucide-react"
+import { toast } from "sonner"
+import { fetchAllAvailableResources, fetchEmergencyCalls } from "@/services/api"
+import {
+  executeAssignmentPlan,
+  optimizeAssignments,
+  type AssignmentPlan,
+  type PlanExecutionResult,
+} from "@/services/assignment-optimizer"
+import { useDistanceModel } from "@/hooks/use-distance-model"
+import { logger } from "./logger"
+
+interface AssignmentPlanPanelProps {
+  isRunning: boolean
+  onExecuted: (results: PlanExecutionResult[]) => void | Promise<void>
+}
+
+export function AssignmentPlanPanel({ isRunning, onExecuted }: AssignmentPlanPanelProps) {
+  const [plan, setPlan] = useState<AssignmentPlan | null>(null)
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [isExecuting, setIsExecuting] = useState(false)
+  const [results, setResults] = useState<PlanExecutionResult[]>([])
+  const { model: distanceModel } = useDistanceModel()
+
+  // Build a plan from a fresh snapshot of the queue and inventory
+  const handleOptimize = async () => {
+    setIsPlanning(true)
+    setResults([])
+
+    try {
+      const [calls, resources] = await Promise.all([fetchEmergencyCalls(), fetchAllAvailableResources()])
+      const nextPlan = optimizeAssignments(calls, resources, distanceModel)
+      setPlan(nextPlan)
+
+      logger.info("Assignment plan computed", {
+        calls: calls.length,
+        dispatches: nextPlan.dispatches.length,
+        units: nextPlan.totalUnits,
+        unmet: nextPlan.unmet.length,
+        totalDistance: nextPlan.totalDistance,
+      })
+    } catch (error) {
+      logger.error("Failed to compute assignment plan", { error })
+      toast.error("Optimization Failed", {
+        description: "Could not load the queue or inventory. Please try again.",
+      })
+    } finally {
+      setIsPlanning(false)
+    }
+  }
+
+  const handleExecute = async () => {
+    if (!plan) return
+
+    setIsExecuting(true)
+    setResults([])
+
+    // Failed dispatches are reported per entry; executeAssignmentPlan never throws
+    const executed = await executeAssignmentPlan(plan, (result) => {
+      setResults((prev) => [...prev, result])
+    })
+    setIsExecuting(false)
+
+    const failed = executed.filter((result) => !result.success)
+    if (failed.length === 0) {
+      toast.success("Plan Executed", {
+        description: `Dispatched ${plan.totalUnits} unit(s) in ${executed.length} dispatch(es)`,
+      })
+      setPlan(null)
+    } else {
+      toast.error("Plan Partially Executed", {
+        description: `${failed.length} of ${executed.length} dispatches failed. Re-optimize to plan the rest.`,
+      })
+    }
+
+    await onExecuted(executed)
+  }
+
+  const handleDiscard = () => {
+    setPlan(null)
+    setResults([])
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center">
+            <Route className="h-5 w-5 mr-2 text-blue-500" />
+            Queue Optimizer
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleOptimize}
+            disabled={!isRunning || isPlanning || isExecuting}
+            className="h-8"
+          >
+            {isPlanning ? <Loader2 className="h-4 w-4 animate-spin" /> : "Optimize Queue"}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!plan && (
+          <p className="text-sm text-gray-500">
+            Plans every open call at once, minimizing the total {distanceModel.unit} travelled.
+          </p>
+        )}
+
+        {plan && (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-center text-sm">
+              <div className="bg-gray-50 p-2 rounded-md">
+                <div className="text-gray-500 text-xs">Units</div>
+                <div className="font-medium">{plan.totalUnits}</div>
+              </div>
+              <div className="bg-gray-50 p-2 rounded-md">
+                <div className="text-gray-500 text-xs">Distance</div>
+                <div className="font-medium">{plan.model.format(plan.totalDistance)}</div>
+              </div>
+              <div className="bg-gray-50 p-2 rounded-md">
+                <div className="text-gray-500 text-xs">Unmet</div>
+                <div className={`font-medium ${plan.unmet.length > 0 ? "text-red-500" : ""}`}>
+                  {plan.unmet.reduce((sum, need) => sum + need.quantity, 0)}
+                </div>
+              </div>
+            </div>
+
+            {plan.dispatches.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center">Nothing to dispatch.</p>
+            ) : (
+              <ScrollArea className="h-[220px] pr-2">
+                <div className="space-y-1">
+                  {plan.dispatches.map((dispatch, index) => {
+                    const result = results[index]
+                    return (
+                      <div
+                        key={`${dispatch.type}-${dispatch.source.city}-${dispatch.call.city}-${index}`}
+                        className="flex items-center justify-between text-xs border rounded-md p-2"
+                      >
+                        <div className="flex items-center gap-1 min-w-0">
+                          <Badge
+                            variant="outline"
+                            className="text-[10px]"
+                            style={{ borderColor: EMERGENCY_TYPE_COLORS[dispatch.type] }}
+                          >
+                            {dispatch.type}
+                          </Badge>
+                          <span className="truncate">{dispatch.source.city}</span>
+                          <ArrowRight className="h-3 w-3 shrink-0 text-gray-400" />
+                          <span className="truncate">{dispatch.call.city}</span>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span className="font-medium">×{dispatch.quantity}</span>
+                          <span className="text-gray-500">{plan.model.format(dispatch.distance)}</span>
+                          {result &&
+                            (result.success ? (
+                              <CheckCircle2 className="h-3 w-3 text-green-500" />
+                            ) : (
+                              <span title={result.error}>
+                                <XCircle className="h-3 w-3 text-red-500" />
+                              </span>
+                            ))}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </ScrollArea>
+            )}
+
+            {isExecuting && (
+              <Progress value={(results.length / Math.max(1, plan.dispatches.length)) * 100} className="h-2" />
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                className="flex-1"
+                onClick={handleExecute}
+                disabled={isExecuting || plan.dispatches.length === 0 || results.length > 0}
+              >
+                {isExecuting ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Executing...
+                  </>
+                ) : (
+                  "Approve & Execute"
+                )}
+              </Button>
+              <Button variant="outline" onClick={handleDiscard} disabled={isExecuting}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,9 +5,27 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Loader2, Play, StopCircle, RefreshCw } from "lucide-react"
-import type { ControlStatus, SimulationConfig } from "@/types"
+import { Switch } from "@/components/ui/switch"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChevronDown, Loader2, Play, StopCircle, RefreshCw } from "lucide-react"
+import type { AutoDispatchEngineKind, ControlStatus, SimulationConfig } from "@/types"
 import { startSimulation, stopSimulation, getSimulationStatus } from "@/services/api"
+import { browserAutoDispatch } from "@/services/browser-auto-dispatch"
+import { getTriageRules } from "@/services/triage-settings"
+import {
+  DEFAULT_DISPATCH_STRATEGY,
+  DISPATCH_STRATEGIES,
+  type DispatchStrategyName,
+} from "@/services/dispatch-strategies"
+import { useEnvironmentProfile } from "@/hooks/use-environment-profile"
+import { useDistanceModel } from "@/hooks/use-distance-model"
+import { useLiveUpdates } from "@/hooks/use-live-updates"
 import { toast } from "sonner"
 import { Badge } from "@/components/ui/badge"
 import { logger } from "./logger"
@@ -18,7 +36,7 @@ interface AutoDispatchPanelProps {
   onEmergenciesUpdate: () => Promise<void>
   status: ControlStatus | null
   isManualRunning: boolean
-  onAutoStart: () => Promise<void>
+  onAutoStart: (engine: AutoDispatchEngineKind) => Promise<void>
   onAutoStop: () => Promise<void>
 }
 
@@ -31,7 +49,6 @@ export function AutoDispatchPanel({
   onAutoStop,
 }: AutoDispatchPanelProps) {
   const [config, setConfig] = useState<SimulationConfig>({
-    api_url: "http://localhost:5000", // Default to the main API URL
     seed: "default",
     targetDispatches: 10000,
     maxActiveCalls: 100,
@@ -45,9 +62,39 @@ export function AutoDispatchPanel({
   const [lastAutoStatus, setLastAutoStatus] = useState<any>(null) // Store the last known status
   const [, setStatusInterval] = useState<NodeJS.Timeout | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [engine, setEngine] = useState<AutoDispatchEngineKind>("remote")
+  const [strategy, setStrategy] = useState<DispatchStrategyName>(DEFAULT_DISPATCH_STRATEGY)
+  const { model: distanceModel } = useDistanceModel()
+  const { profile } = useEnvironmentProfile()
 
-  // Fetch auto dispatch status periodically
+  // Follow the in-browser engine through its own updates instead of polling :8000
   useEffect(() => {
+    if (engine !== "in-browser") return
+
+    const handleStatus = (status: typeof autoStatus) => {
+      setAutoStatus(status)
+      if (status) {
+        setLastAutoStatus(status)
+      }
+    }
+
+    handleStatus(browserAutoDispatch.getStatus())
+    return browserAutoDispatch.subscribe(handleStatus)
+  }, [engine])
+
+  // Follow the :8000 service through the live event stream while it is up
+  const { streaming } = useLiveUpdates((event) => {
+    if (event.kind !== "auto-dispatch" || engine === "in-browser") return
+    setAutoStatus(event.status)
+    if (event.status && Object.keys(event.status).length > 0) {
+      setLastAutoStatus(event.status)
+    }
+  })
+
+  // Fetch auto dispatch status periodically while the live event stream is down
+  useEffect(() => {
+    if (engine === "in-browser" || streaming) return
+
     const fetchAutoStatus = async () => {
       try {
         const status = await getSimulationStatus()
@@ -77,7 +124,7 @@ export function AutoDispatchPanel({
         clearInterval(interval)
       }
     }
-  }, [isStarting, autoStatus])
+  }, [engine, streaming, isStarting, autoStatus])
 
   const handleStart = async () => {
     // Check if manual dispatch is running
@@ -93,7 +140,7 @@ export function AutoDispatchPanel({
 
       // Ensure the config matches the backend's expected structure
       const simulationConfig = {
-        api_url: config.api_url,
+        api_url: profile.mainApiUrl,
         seed: config.seed,
         targetDispatches: config.targetDispatches,
         maxActiveCalls: config.maxActiveCalls,
@@ -101,7 +148,20 @@ export function AutoDispatchPanel({
         status_interval: config.status_interval,
       }
 
-      await startSimulation(simulationConfig)
+      if (engine === "in-browser") {
+        browserAutoDispatch.start({
+          apiUrl: profile.mainApiUrl,
+          seed: config.seed,
+          targetDispatches: config.targetDispatches,
+          maxActiveCalls: config.maxActiveCalls,
+          pollInterval: config.poll_interval,
+          strategy,
+          distanceModel: distanceModel.id,
+          triageRules: getTriageRules(),
+        })
+      } else {
+        await startSimulation(simulationConfig)
+      }
 
       toast.success("Automatic Dispatch Started", {
         description: "The automatic dispatch simulation has been started successfully.",
@@ -110,9 +170,9 @@ export function AutoDispatchPanel({
       await onEmergenciesUpdate()
 
       // Notify parent component that auto dispatch has started
-      await onAutoStart()
+      await onAutoStart(engine)
 
-      logger.info("Auto dispatch started", { config: simulationConfig })
+      logger.info("Auto dispatch started", { config: simulationConfig, engine, strategy })
     } catch (error) {
       console.error(error)
       logger.error("Failed to start auto dispatch", { error })
@@ -127,7 +187,11 @@ export function AutoDispatchPanel({
   const handleStop = async () => {
     try {
       setIsStopping(true)
-      await stopSimulation()
+      if (engine === "in-browser") {
+        browserAutoDispatch.stop()
+      } else {
+        await stopSimulation()
+      }
       toast.success("Automatic Dispatch Stopped", {
         description: "The automatic dispatch simulation has been stopped successfully.",
       })
@@ -152,7 +216,7 @@ export function AutoDispatchPanel({
   const handleRefreshStatus = async () => {
     setIsRefreshing(true)
     try {
-      const status = await getSimulationStatus()
+      const status = engine === "in-browser" ? browserAutoDispatch.getStatus() : await getSimulationStatus()
       setAutoStatus(status)
 
       // If we have a valid status, store it as the last known status
@@ -193,17 +257,60 @@ export function AutoDispatchPanel({
           <CardTitle className="text-lg">Automatic Dispatch Configuration</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="auto-api_url">API URL:</Label>
-            <Input
-              id="auto-api_url"
-              value={config.api_url}
-              onChange={(e) => updateConfig("api_url", e.target.value)}
-              placeholder="http://localhost:5000"
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="auto-engine">Run in browser</Label>
+              <p className="text-xs text-gray-500">
+                {engine === "in-browser"
+                  ? "Dispatches from this page; the :8000 service is not needed."
+                  : "Uses the auto dispatch service on :8000."}
+              </p>
+            </div>
+            <Switch
+              id="auto-engine"
+              checked={engine === "in-browser"}
+              onCheckedChange={(checked) => setEngine(checked ? "in-browser" : "remote")}
               disabled={isRunning || isManualRunning}
             />
           </div>
 
+          {engine === "in-browser" && (
+            <div className="space-y-2">
+              <Label>Strategy:</Label>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-between"
+                    disabled={isRunning || isManualRunning}
+                  >
+                    {DISPATCH_STRATEGIES[strategy].label}
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuRadioGroup
+                    value={strategy}
+                    onValueChange={(value) => setStrategy(value as DispatchStrategyName)}
+                  >
+                    {Object.values(DISPATCH_STRATEGIES).map((option) => (
+                      <DropdownMenuRadioItem key={option.name} value={option.name}>
+                        {option.label}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <p className="text-xs text-gray-500">{DISPATCH_STRATEGIES[strategy].description}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="auto-api_url">API URL:</Label>
+            <Input id="auto-api_url" value={profile.mainApiUrl} readOnly disabled />
+            <p className="text-xs text-gray-500">From the {profile.label} environment profile (Settings).</p>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="auto-seed">Seed:</Label>
             <Input
@@ -260,7 +367,7 @@ export function AutoDispatchPanel({
               min={1}
               value={config.status_interval}
               onChange={(e) => updateConfig("status_interval", Number.parseInt(e.target.value) || 5)}
-              disabled={isRunning || isManualRunning}
+              disabled={isRunning || isManualRunning || engine === "in-browser"}
             />
           </div>
         </CardContent>
@@ -0,0 +1,175 @@
+"use client"
+
+import { useRef, useState, type ChangeEvent } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { BarChart3, Upload, X } from "lucide-react"
+import { toast } from "sonner"
+import { parseBenchmarkReport, type BenchmarkReport } from "@/services/benchmark-report"
+import { logger } from "./logger"
+
+// Bar colors per strategy, in report order
+const STRATEGY_COLORS = ["#3b82f6", "#f97316", "#10b981", "#8b5cf6", "#ef4444"]
+
+interface BarProps {
+  label: string
+  value: number
+  max: number
+  color: string
+  format: (value: number) => string
+}
+
+function Bar({ label, value, max, color, format }: BarProps) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="w-20 truncate text-gray-600">{label}</span>
+      <div className="flex-1 bg-gray-100 rounded h-3">
+        <div className="h-3 rounded" style={{ width: `${max > 0 ? (value / max) * 100 : 0}%`, backgroundColor: color }} />
+      </div>
+      <span className="w-20 text-right font-medium">{format(value)}</span>
+    </div>
+  )
+}
+
+export function BenchmarkPanel() {
+  const [report, setReport] = useState<BenchmarkReport | null>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const loaded = parseBenchmarkReport(await file.text())
+      setReport(loaded)
+      setFileName(file.name)
+      logger.info("Benchmark report loaded", { file: file.name, runs: loaded.runs.length })
+    } catch (error) {
+      logger.error("Failed to load benchmark report", { error, file: file.name })
+      toast.error("Invalid Report", {
+        description: error instanceof Error ? error.message : "Could not read the benchmark report.",
+      })
+    }
+  }
+
+  const colorOf = (strategy: string) =>
+    STRATEGY_COLORS[(report?.strategies.indexOf(strategy) ?? 0) % STRATEGY_COLORS.length]
+
+  const maxScore = report ? Math.max(...report.runs.map((run) => run.score)) : 0
+  const maxPenalty = report ? Math.max(...report.summaries.map((summary) => summary.worstPenalty)) : 0
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center justify-between">
+            <span className="flex items-center">
+              <BarChart3 className="h-5 w-5 mr-2 text-blue-500" />
+              Strategy Benchmarks
+            </span>
+            <div className="flex gap-2">
+              {report && (
+                <Button variant="outline" size="sm" className="h-8" onClick={() => setReport(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+              <Button variant="outline" size="sm" className="h-8" onClick={() => inputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-1" />
+                Load Report
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <input ref={inputRef} type="file" accept=".json,.csv" className="hidden" onChange={handleFile} />
+          {report ? (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+              <span className="font-medium text-gray-700">{fileName}</span>
+              <span>
+                {report.seeds.length} seed(s) × {report.strategies.length} strateg{report.strategies.length === 1 ? "y" : "ies"}
+              </span>
+              {report.generatedAt && <span>· {new Date(report.generatedAt).toLocaleString()}</span>}
+              {report.apiUrl && <Badge variant="outline">{report.apiUrl}</Badge>}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Run <code>npm run benchmark</code> and load the generated <code>benchmark.json</code> or{" "}
+              <code>benchmark.csv</code> to compare strategies.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && (
+        <>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Penalty by strategy</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {report.summaries.map((summary) => (
+                <div key={summary.strategy} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">{summary.strategy}</span>
+                    <span className="text-gray-500">
+                      score {summary.meanScore.toFixed(2)} · {summary.meanLatencyMs.toFixed(1)} ms/call
+                    </span>
+                  </div>
+                  <Bar
+                    label="Mean"
+                    value={summary.meanPenalty}
+                    max={maxPenalty}
+                    color={colorOf(summary.strategy)}
+                    format={(value) => value.toFixed(1)}
+                  />
+                  <Bar
+                    label="Median"
+                    value={summary.medianPenalty}
+                    max={maxPenalty}
+                    color={colorOf(summary.strategy)}
+                    format={(value) => value.toFixed(0)}
+                  />
+                  <Bar
+                    label="Worst"
+                    value={summary.worstPenalty}
+                    max={maxPenalty}
+                    color={colorOf(summary.strategy)}
+                    format={(value) => value.toFixed(0)}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Score by seed (lower is better)</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {report.seeds.map((seed) => (
+                <div key={seed} className="space-y-1">
+                  <div className="text-sm font-medium">{seed}</div>
+                  {report.runs
+                    .filter((run) => run.seed === seed)
+                    .map((run) => (
+                      <Bar
+                        key={run.strategy}
+                        label={run.strategy}
+                        value={run.score}
+                        max={maxScore}
+                        color={colorOf(run.strategy)}
+                        format={(value) => value.toFixed(0)}
+                      />
+                    ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useRef, useCallback } from "react"
+import { useEffect, useState, useRef, useCallback, useMemo } from "react"
 import { LeafletMap } from "./leaflet-map"
 import { EmergencyPanel } from "./emergency-panel"
 import { ResourcePanel } from "./resource-panel"
@@ -16,6 +16,8 @@ import type {
   EmergencyType,
   ResourceAvailability,
   EmergencyStats,
+  AutoDispatchEngineKind,
+  SavedSimulationState,
 } from "@/types"
 import {
   fetchAllAvailableResources,
@@ -38,14 +40,47 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Slider } from "@/components/ui/slider"
-import { Clock, AlertCircle, BarChart3 } from "lucide-react"
+import { Clock, AlertCircle, BarChart3, Settings } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { ResourceStats } from "./resource-stats"
 // Add the ApiPerformance import
 import { ApiPerformance } from "./api-performance"
 // Add the ResourceCache import
 import { ResourceCache } from "@/utils/resource-cache"
+import {
+  clearSimulationStartTime,
+  clearSimulationState as clearSavedSimulationState,
+  loadRecovery,
+  markRecoveryNotificationShown,
+  saveSimulationStartTime,
+  saveSimulationState as storeSimulationState,
+  updateSimulationState,
+} from "@/services/simulation-recovery"
 import { ApiErrorMonitor } from "./api-monitor"
+import { DispatchLedgerPanel } from "./dispatch-ledger-panel"
+import { DispatchOutboxPanel } from "./dispatch-outbox-panel"
+import { useScoreProjection } from "@/hooks/use-score-projection"
+import { useTriage } from "@/hooks/use-triage"
+import { useMissForecast } from "@/hooks/use-miss-forecast"
+import { MissedCallAlerts } from "./missed-call-alerts"
+import { useDistanceModel } from "@/hooks/use-distance-model"
+import { scoringSession } from "@/services/scoring-session"
+import { browserAutoDispatch } from "@/services/browser-auto-dispatch"
+import { DistanceModelSelector } from "./distance-model-selector"
+import { AssignmentPlanPanel } from "./assignment-plan-panel"
+import { BenchmarkPanel } from "./benchmark-panel"
+import { SessionReplayPanel } from "./session-replay-panel"
+import { TimelineScrubber } from "./timeline-scrubber"
+import { EnvironmentSettings } from "./environment-settings"
+import { useRunTimeline } from "@/hooks/use-run-timeline"
+import { useLiveUpdates } from "@/hooks/use-live-updates"
+import { liveUpdates } from "@/services/live-updates"
+import { useTabCoordination } from "@/hooks/use-tab-coordination"
+import { tabCoordinator } from "@/services/tab-coordinator"
+import { callDensity } from "@/services/coverage-planner"
+import { dispatchGuard } from "@/services/dispatch-guard"
+import { callIdentities } from "@/services/entity-ids"
+import type { PlanExecutionResult } from "@/services/assignment-optimizer"
 
 export default function Dashboard() {
   const [locations, setLocations] = useState<Location[]>([])
@@ -93,6 +128,7 @@ export default function Dashboard() {
   const [systemStatus, setSystemStatus] = useState<SystemStatus | null>(null)
   const [showHealthCheck, setShowHealthCheck] = useState(false)
   const [showStats, setShowStats] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
 
   // Local progress tracking
   const [totalDispatched, setTotalDispatched] = useState(0)
@@ -100,20 +136,32 @@ export default function Dashboard() {
   const [startTime, setStartTime] = useState<Date | null>(null)
   const [elapsedTime, setElapsedTime] = useState("00:00:00")
   const timerRef = useRef<NodeJS.Timeout | null>(null)
+  const scoreProjection = useScoreProjection(status)
+  // Moment of the run shown by the timeline scrubber, null for the live state
+  const [timelineAt, setTimelineAt] = useState<number | null>(null)
+  const { range: timelineRange, snapshot: timelineSnapshot } = useRunTimeline(timelineAt, status)
+  // While rewound, the panels show history, so nothing may be dispatched or fetched from them
+  const isRewound = timelineAt !== null
+
+  // A new run starts the timeline over, so return to the live view
+  useEffect(() => {
+    if (timelineAt !== null && (!timelineRange || timelineAt < timelineRange.start)) setTimelineAt(null)
+  }, [timelineAt, timelineRange])
+  const { model: distanceModel } = useDistanceModel()
+
+  // Learn where calls come from, for the coverage-aware depot ranking
+  useEffect(() => callDensity.start(), [])
+  useEffect(() => callDensity.setLocations(locations), [locations])
+  useEffect(() => callDensity.record(emergencies), [emergencies])
+
   const autoFetchIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  // Whether the live event stream is open, read by the refresh intervals
+  const liveStreamingRef = useRef(false)
 
   // Recovery state
   const [recoveryState, setRecoveryState] = useState<{
     isRecovering: boolean
-    lastState?: {
-      seed: string
-      targetDispatches: number
-      maxActiveCalls: number
-      totalDispatched: number
-      totalDistance: number
-      startTime: string
-      isAutoDispatch: boolean
-    }
+    lastState?: SavedSimulationState
   }>({ isRecovering: false })
 
   // Check system health on component mount
@@ -210,6 +258,8 @@ export default function Dashboard() {
       // Use type assertion to resolve type conflicts
       setLocations(locationsData as any)
       setResources(resourcesData)
+      // Keep the selected depot's quantity current
+      setSelectedResource((selected) => (selected ? (resourcesData.find((r) => r.id === selected.id) ?? null) : null))
 
       // Cache the resources for fallback
       ResourceCache.saveResources(resourcesData)
@@ -217,6 +267,10 @@ export default function Dashboard() {
       setResourceStats(resourceStatsData)
       setStatus(statusData)
 
+      // Mirror the fresh inventory and status to the other tabs
+      tabCoordinator.publish({ kind: "inventory", resources: resourcesData, stats: resourceStatsData })
+      if (statusData) tabCoordinator.publish({ kind: "status", status: statusData })
+
       // Check if simulation is running based on status
       const isRunning = statusData?.status === "Running"
       setIsSimulationRunning(isRunning)
@@ -241,7 +295,7 @@ export default function Dashboard() {
       return true
     } catch (err) {
       // Try to use cached resources if available
-      const cachedResources = ResourceCache.getResources()
+      const cachedResources = await ResourceCache.getResources()
       if (cachedResources && cachedResources.length > 0) {
         logger.warn("Using cached resources due to API error", {
           cachedCount: cachedResources.length,
@@ -271,11 +325,9 @@ export default function Dashboard() {
     }
   }, [isSimulationRunning])
 
-  // Separate function to fetch emergencies queue with better error handling
-  const fetchEmergenciesQueue = useCallback(async () => {
-    try {
-      const emergenciesData = await fetchEmergencyCalls()
-
+  // Merge a fresh queue into the emergencies state, preserving dispatched counts
+  const applyEmergenciesQueue = useCallback(
+    (emergenciesData: EmergencyCall[]) => {
       // Cache the emergencies for fallback
       ResourceCache.saveEmergencies(emergenciesData)
 
@@ -283,9 +335,7 @@ export default function Dashboard() {
       setEmergencies((prevEmergencies) => {
         const updatedEmergencies = emergenciesData.map((newEmergency) => {
           // Try to find this emergency in the previous list
-          const prevEmergency = prevEmergencies.find(
-            (e) => e.city === newEmergency.city && e.county === newEmergency.county,
-          )
+          const prevEmergency = prevEmergencies.find((e) => e.id === newEmergency.id)
 
           // If found, preserve the dispatched count
           if (prevEmergency && prevEmergency.dispatched) {
@@ -315,9 +365,7 @@ export default function Dashboard() {
 
       // If we have a selected emergency, check if it needs to be updated
       if (selectedEmergency) {
-        const updatedEmergency = emergenciesData.find(
-          (e) => e.city === selectedEmergency.city && e.county === selectedEmergency.county,
-        )
+        const updatedEmergency = emergenciesData.find((e) => e.id === selectedEmergency.id)
 
         if (updatedEmergency) {
           // Update the selected emergency with the latest data
@@ -331,11 +379,22 @@ export default function Dashboard() {
           setSelectedEmergency(null)
         }
       }
+    },
+    [selectedEmergency, calculateEmergencyStats],
+  )
+
+  // Separate function to fetch emergencies queue with better error handling
+  const fetchEmergenciesQueue = useCallback(async () => {
+    try {
+      const emergenciesData = await fetchEmergencyCalls()
+      applyEmergenciesQueue(emergenciesData)
+      // The leading tab numbers the calls for every tab
+      if (tabCoordinator.isLeader()) tabCoordinator.publish({ kind: "queue", queue: emergenciesData })
 
       logger.info("Emergencies queue fetched", { count: emergenciesData.length })
     } catch (err) {
       // Try to use cached emergencies if available
-      const cachedEmergencies = ResourceCache.getEmergencies()
+      const cachedEmergencies = await ResourceCache.getEmergencies()
       if (cachedEmergencies && cachedEmergencies.length > 0) {
         logger.warn("Using cached emergencies due to API error", {
           cachedCount: cachedEmergencies.length,
@@ -356,7 +415,7 @@ export default function Dashboard() {
         })
       }
     }
-  }, [selectedEmergency, isSimulationRunning, calculateEmergencyStats])
+  }, [isSimulationRunning, applyEmergenciesQueue, calculateEmergencyStats])
 
   // Start timer for tracking elapsed time
   const startTimer = useCallback(() => {
@@ -367,8 +426,8 @@ export default function Dashboard() {
     const now = new Date()
     setStartTime(now)
 
-    // Save start time to localStorage for recovery
-    localStorage.setItem("simulationStartTime", now.toISOString())
+    // Save start time for recovery
+    saveSimulationStartTime(now)
 
     timerRef.current = setInterval(() => {
       if (startTime) {
@@ -399,7 +458,7 @@ export default function Dashboard() {
     }
 
     // Clear the saved start time
-    localStorage.removeItem("simulationStartTime")
+    clearSimulationStartTime()
   }, [])
 
   const startRefreshInterval = useCallback(() => {
@@ -407,8 +466,9 @@ export default function Dashboard() {
       clearInterval(refreshInterval)
     }
 
-    // Fetch data every 2 seconds
+    // Fetch data every 2 seconds, unless the live event stream pushes it or another tab leads
     const interval = setInterval(() => {
+      if (liveStreamingRef.current || !tabCoordinator.isLeader()) return
       fetchData()
       fetchEmergenciesQueue() // Specifically fetch emergencies queue
     }, 2000)
@@ -431,8 +491,10 @@ export default function Dashboard() {
 
     // Fetch status every second (changed from 1000ms to 500ms for more frequent updates)
     const interval = setInterval(async () => {
+      if (liveStreamingRef.current || !tabCoordinator.isLeader()) return
       try {
         const statusData = await fetchControlStatus()
+        if (statusData) tabCoordinator.publish({ kind: "status", status: statusData })
 
         // Check if simulation is still running
         if (statusData && statusData.status !== "Running") {
@@ -467,6 +529,154 @@ export default function Dashboard() {
     }
   }, [statusRefreshInterval])
 
+  // Apply pushed changes; the refresh intervals above skip their polls while the stream is open
+  const { streaming: liveStreaming } = useLiveUpdates((event) => {
+    if (event.kind === "status") {
+      const statusData = liveUpdates.getStatus()
+      if (!statusData || !isSimulationRunning) return
+
+      if (statusData.status !== "Running") {
+        setStatus(null)
+        setIsSimulationRunning(false)
+        stopStatusRefreshInterval()
+        stopRefreshInterval()
+        return
+      }
+
+      setStatus(statusData)
+      setTotalDispatched(statusData.totalDispatches)
+      setTotalDistance(statusData.distance)
+    } else if (event.kind === "calls") {
+      applyEmergenciesQueue(event.queue)
+    } else if (event.kind === "inventory") {
+      const available = event.resources.reduce((sum, resource) => sum + resource.quantity, 0)
+      setResources((prev) => [...prev.filter((resource) => resource.type !== event.type), ...event.resources])
+      setSelectedResource((selected) =>
+        selected?.type === event.type ? (event.resources.find((r) => r.id === selected.id) ?? null) : selected,
+      )
+      setResourceStats((prev) =>
+        prev.map((stats) =>
+          stats.type === event.type
+            ? { ...stats, available, total: available, locations: event.resources.length }
+            : stats,
+        ),
+      )
+    }
+  })
+
+  useEffect(() => {
+    liveStreamingRef.current = liveStreaming
+  }, [liveStreaming])
+
+  // Refresh like the leading tab does, so this tab can take over polling if it closes
+  const followRun = () => {
+    setIsSimulationRunning(true)
+    if (!refreshInterval) startRefreshInterval()
+    if (!statusRefreshInterval) startStatusRefreshInterval()
+  }
+
+  // Apply what other dashboard tabs share; only the leading tab polls and auto-fetches
+  const { isLeader: isLeaderTab, tabCount } = useTabCoordination((update) => {
+    switch (update.kind) {
+      case "run":
+        setIsAutoDispatch(update.isAutoDispatch)
+        if (update.running) {
+          if (!timerRef.current) startTimer()
+          followRun()
+        } else {
+          stopTimer()
+          stopRefreshInterval()
+          stopStatusRefreshInterval()
+          setEmergencies([])
+          setResources([])
+          setSelectedEmergency(null)
+          setSelectedResource(null)
+          setStatus(null)
+          setTotalDispatched(0)
+          setTotalDistance(0)
+          setIsSimulationRunning(false)
+          setAutoFetchEnabled(false)
+        }
+        break
+      case "auto-fetch":
+        setAutoFetchEnabled(update.enabled)
+        setAutoFetchSeconds(update.seconds)
+        break
+      case "status":
+        if (update.status.status !== "Running") {
+          if (!isSimulationRunning) break
+          setStatus(null)
+          setIsSimulationRunning(false)
+          stopStatusRefreshInterval()
+          stopRefreshInterval()
+          break
+        }
+        followRun()
+        setStatus(update.status)
+        setTotalDispatched(update.status.totalDispatches)
+        setTotalDistance(update.status.distance)
+        break
+      case "queue":
+        // Number calls like the leading tab, so locks and mirrored dispatches name the same call
+        if (!tabCoordinator.isLeader()) callIdentities.adopt(update.queue)
+        applyEmergenciesQueue(update.queue)
+        break
+      case "inventory":
+        setResources(update.resources)
+        setResourceStats(update.stats)
+        setSelectedResource((selected) =>
+          selected ? (update.resources.find((r) => r.id === selected.id) ?? null) : null,
+        )
+        break
+      case "dispatch": {
+        const { callId, resourceId, type, quantity, source, target } = update
+        const distance =
+          distanceModel.measure(source.latitude, source.longitude, target.latitude, target.longitude) * quantity
+        const addDispatch = (emergency: EmergencyCall): EmergencyCall => ({
+          ...emergency,
+          dispatched: {
+            ...(emergency.dispatched as Record<EmergencyType, number>),
+            [type]: (emergency.dispatched?.[type] || 0) + quantity,
+          },
+        })
+        const takeUnits = (resource: EmergencyResource) => ({
+          ...resource,
+          quantity: Math.max(0, resource.quantity - quantity),
+        })
+
+        // Another tab's units count against the call here too, until the next queue read reports them
+        dispatchGuard.recordDispatch(callId, type, quantity)
+        setTotalDispatched((prev) => prev + quantity)
+        setTotalDistance((prev) => prev + distance)
+        setEmergencies((prevEmergencies) => {
+          const updatedEmergencies = prevEmergencies.map((emergency) =>
+            emergency.id === callId ? addDispatch(emergency) : emergency,
+          )
+          setEmergencyStats(calculateEmergencyStats(updatedEmergencies))
+          return updatedEmergencies
+        })
+        setSelectedEmergency((selected) => (selected?.id === callId ? addDispatch(selected) : selected))
+        setResources((prevResources) =>
+          prevResources.map((resource) => (resource.id === resourceId ? takeUnits(resource) : resource)),
+        )
+        setSelectedResource((selected) => (selected?.id === resourceId ? takeUnits(selected) : selected))
+        setResourceStats((prevStats) =>
+          prevStats.map((stat) =>
+            stat.type === type ? { ...stat, available: Math.max(0, stat.available - quantity) } : stat,
+          ),
+        )
+        break
+      }
+    }
+  })
+
+  // Change the auto-fetch settings of every tab; only the leading one acts on them
+  const changeAutoFetch = (enabled: boolean, seconds: number) => {
+    setAutoFetchEnabled(enabled)
+    setAutoFetchSeconds(seconds)
+    tabCoordinator.publish({ kind: "auto-fetch", enabled, seconds })
+  }
+
   // Auto-fetch emergencies when enabled
   useEffect(() => {
     // Clear any existing interval first
@@ -475,14 +685,17 @@ export default function Dashboard() {
       autoFetchIntervalRef.current = null
     }
 
-    // Only set up auto-fetch if enabled and simulation is running but not in auto dispatch mode
-    if (autoFetchEnabled && isSimulationRunning && !isAutoDispatch) {
+    // Only auto-fetch while the simulation runs in manual mode and the timeline is live
+    if (autoFetchEnabled && isSimulationRunning && !isAutoDispatch && !isRewound) {
       logger.info("Setting up auto-fetch interval", {
         intervalSeconds: autoFetchSeconds,
       })
 
       // Set up new interval to check and fetch emergencies
       const autoFetch = async () => {
+        // Only the leading tab fetches, so several open tabs do not fill the queue together
+        if (!tabCoordinator.isLeader()) return
+
         try {
           // Check current status
           const statusData = await fetchControlStatus()
@@ -533,12 +746,12 @@ export default function Dashboard() {
         autoFetchIntervalRef.current = null
       }
     }
-  }, [autoFetchEnabled, isSimulationRunning, isAutoDispatch, autoFetchSeconds, fetchEmergenciesQueue])
+  }, [autoFetchEnabled, isSimulationRunning, isAutoDispatch, isRewound, autoFetchSeconds, fetchEmergenciesQueue])
 
-  // Save simulation state to localStorage
+  // Save simulation state for recovery
   const saveSimulationState = useCallback(
     (seed: string, targetDispatches: number, maxActiveCalls: number, isAuto = false) => {
-      const state = {
+      const state: SavedSimulationState = {
         seed,
         targetDispatches,
         maxActiveCalls,
@@ -550,7 +763,7 @@ export default function Dashboard() {
         lastUpdated: new Date().toISOString(),
       }
 
-      localStorage.setItem("simulationState", JSON.stringify(state))
+      storeSimulationState(state)
       logger.info("Simulation state saved", { state })
     },
     [totalDispatched, totalDistance, startTime],
@@ -558,8 +771,7 @@ export default function Dashboard() {
 
   // Clear saved simulation state
   const clearSimulationState = useCallback(() => {
-    localStorage.removeItem("simulationState")
-    localStorage.removeItem("recoveryNotificationShown")
+    clearSavedSimulationState()
     logger.info("Simulation state cleared")
   }, [])
 
@@ -595,6 +807,7 @@ export default function Dashboard() {
         if (result) {
           // Start the timer
           startTimer()
+          tabCoordinator.publish({ kind: "run", running: true, isAutoDispatch: false })
 
           // Save the simulation state
           saveSimulationState(seed, targetDispatches, maxActiveCalls, false)
@@ -670,11 +883,9 @@ export default function Dashboard() {
       stopRefreshInterval()
       stopStatusRefreshInterval()
 
-      // Clear the saved simulation state
+      // Clear the saved simulation state and the recovery notification flag
       clearSimulationState()
-
-      // Clear the recovery notification flag
-      localStorage.removeItem("recoveryNotificationShown")
+      tabCoordinator.publish({ kind: "run", running: false, isAutoDispatch: false })
 
       // Clear all data and selections
       setEmergencies([])
@@ -785,16 +996,7 @@ export default function Dashboard() {
       }
 
       setResources((prevResources) => {
-        return prevResources.map((resource) => {
-          if (
-            resource.city === selectedResource.city &&
-            resource.county === selectedResource.county &&
-            resource.type === selectedResource.type
-          ) {
-            return updatedResource
-          }
-          return resource
-        })
+        return prevResources.map((resource) => (resource.id === selectedResource.id ? updatedResource : resource))
       })
 
       // Update the selected resource to reflect the new quantity
@@ -807,7 +1009,7 @@ export default function Dashboard() {
     // Update the emergencies list to reflect the dispatch
     setEmergencies((prevEmergencies) => {
       const updatedEmergencies = prevEmergencies.map((emergency) => {
-        if (emergency.city === selectedEmergency?.city && emergency.county === selectedEmergency?.county) {
+        if (emergency.id === selectedEmergency?.id) {
           // Create a new dispatched object with updated count for this type
           const updatedDispatched = { ...(emergency.dispatched as Record<EmergencyType, number>) }
           updatedDispatched[type] = (updatedDispatched[type] || 0) + quantity
@@ -823,9 +1025,6 @@ export default function Dashboard() {
       // Update emergency statistics
       setEmergencyStats(calculateEmergencyStats(updatedEmergencies))
 
-      // Update emergencies in cache
-      ResourceCache.saveEmergencies(updatedEmergencies)
-
       return updatedEmergencies
     })
 
@@ -842,14 +1041,12 @@ export default function Dashboard() {
       })
     })
 
-    // Save updated state to localStorage
-    const state = JSON.parse(localStorage.getItem("simulationState") || "{}")
-    if (state.isRunning) {
-      state.totalDispatched = totalDispatched + quantity
-      state.totalDistance = totalDistance + distance
-      state.lastUpdated = new Date().toISOString()
-      localStorage.setItem("simulationState", JSON.stringify(state))
-    }
+    // Save updated state for recovery
+    updateSimulationState({
+      totalDispatched: totalDispatched + quantity,
+      totalDistance: totalDistance + distance,
+      lastUpdated: new Date().toISOString(),
+    })
 
     // Log the dispatch
     logger.info(`${type} resource dispatched successfully`, {
@@ -862,6 +1059,18 @@ export default function Dashboard() {
       totalDistance: totalDistance + distance,
     })
 
+    if (selectedEmergency && selectedResource) {
+      tabCoordinator.publish({
+        kind: "dispatch",
+        callId: selectedEmergency.id,
+        resourceId: selectedResource.id,
+        type,
+        quantity,
+        source: { latitude: selectedResource.latitude, longitude: selectedResource.longitude },
+        target: { latitude: selectedEmergency.latitude, longitude: selectedEmergency.longitude },
+      })
+    }
+
     // Clear selections after successful dispatch
     setSelectedEmergency(null)
     setSelectedResource(null)
@@ -871,57 +1080,93 @@ export default function Dashboard() {
     await fetchData()
   }
 
+  // Account for an executed optimizer plan and refresh everything
+  const handlePlanExecuted = async (results: PlanExecutionResult[]) => {
+    const succeeded = results.filter((result) => result.success).map((result) => result.dispatch)
+    setTotalDispatched((prev) => prev + succeeded.reduce((sum, dispatch) => sum + dispatch.quantity, 0))
+    setTotalDistance((prev) => prev + succeeded.reduce((sum, dispatch) => sum + dispatch.distance, 0))
+    succeeded.forEach((dispatch) =>
+      tabCoordinator.publish({
+        kind: "dispatch",
+        callId: dispatch.call.id,
+        resourceId: dispatch.source.id,
+        type: dispatch.type,
+        quantity: dispatch.quantity,
+        source: { latitude: dispatch.source.latitude, longitude: dispatch.source.longitude },
+        target: { latitude: dispatch.call.latitude, longitude: dispatch.call.longitude },
+      }),
+    )
+
+    setSelectedEmergency(null)
+    setSelectedResource(null)
+    await fetchEmergenciesQueue()
+    await fetchData()
+  }
+
+  // Queued dispatches were sent or dropped; refresh what they changed
+  const handleOutboxFlushed = async () => {
+    await fetchEmergenciesQueue()
+    await fetchData()
+  }
+
   // Handle auto dispatch start
-  const handleAutoDispatchStart = useCallback(async () => {
-    // Check system health before starting
-    const health = await getSystemHealth()
+  const handleAutoDispatchStart = useCallback(
+    async (engine: AutoDispatchEngineKind = "remote") => {
+      // The in-browser engine does not depend on the auto dispatch API
+      if (engine === "remote") {
+        const health = await getSystemHealth()
 
-    if (health.autoDispatchApi.status === "unhealthy") {
-      toast.error("Cannot Start Auto Dispatch", {
-        description: "The auto dispatch API is currently unavailable. Please try again later.",
-        duration: 5000,
-      })
-      return
-    }
+        if (health.autoDispatchApi.status === "unhealthy") {
+          toast.error("Cannot Start Auto Dispatch", {
+            description: "The auto dispatch API is currently unavailable. Please try again later.",
+            duration: 5000,
+          })
+          return
+        }
+      }
 
-    // Update state to indicate auto dispatch is running
-    setIsAutoDispatch(true)
+      // Update state to indicate auto dispatch is running
+      setIsAutoDispatch(true)
+      tabCoordinator.publish({ kind: "run", running: true, isAutoDispatch: true })
 
-    // Start the timer if it's not already running
-    if (!startTime) {
-      startTimer()
-    }
+      // Start the timer if it's not already running
+      if (!startTime) {
+        startTimer()
+      }
 
-    // Start the refresh interval for regular data
-    startRefreshInterval()
+      // Start the refresh interval for regular data
+      startRefreshInterval()
 
-    // Start the status refresh interval
-    startStatusRefreshInterval()
+      // Start the status refresh interval
+      startStatusRefreshInterval()
 
-    // Try to get the auto dispatch status
-    try {
-      const autoStatus = await getSimulationStatus()
-      logger.info("Auto dispatch status", { autoStatus })
-    } catch (error) {
-      logger.error("Failed to get auto dispatch status", { error })
-    }
+      // Try to get the auto dispatch status
+      try {
+        const autoStatus = engine === "remote" ? await getSimulationStatus() : browserAutoDispatch.getStatus()
+        logger.info("Auto dispatch status", { autoStatus, engine })
+      } catch (error) {
+        logger.error("Failed to get auto dispatch status", { error })
+      }
 
-    // Save simulation state with auto flag
-    const status = await fetchControlStatus()
-    if (status) {
-      saveSimulationState(status.seed || "default", status.targetDispatches, status.maxActiveCalls, true)
-    }
+      // Save simulation state with auto flag
+      const status = await fetchControlStatus()
+      if (status) {
+        saveSimulationState(status.seed || "default", status.targetDispatches, status.maxActiveCalls, true)
+      }
 
-    // Disable auto-fetch when auto-dispatch is running
-    setAutoFetchEnabled(false)
+      // Disable auto-fetch when auto-dispatch is running
+      setAutoFetchEnabled(false)
 
-    logger.info("Auto dispatch started")
-  }, [fetchControlStatus, saveSimulationState, startRefreshInterval, startStatusRefreshInterval, startTime, startTimer])
+      logger.info("Auto dispatch started")
+    },
+    [fetchControlStatus, saveSimulationState, startRefreshInterval, startStatusRefreshInterval, startTime, startTimer],
+  )
 
   // Handle auto dispatch stop
   const handleAutoDispatchStop = useCallback(async () => {
     // Update state to indicate auto dispatch is stopped
     setIsAutoDispatch(false)
+    tabCoordinator.publish({ kind: "run", running: true, isAutoDispatch: false })
 
     // Try to get the updated auto dispatch status
     try {
@@ -937,19 +1182,54 @@ export default function Dashboard() {
     logger.info("Auto dispatch stopped")
   }, [])
 
+  // Drive the dashboard from a session replay: the replay transport answers every poll
+  const handleReplayStart = useCallback(async () => {
+    setAutoFetchEnabled(false)
+    setSelectedEmergency(null)
+    setSelectedResource(null)
+
+    await fetchData()
+    await fetchEmergenciesQueue()
+    startRefreshInterval()
+    startStatusRefreshInterval()
+
+    logger.info("Session replay attached to dashboard")
+  }, [fetchData, fetchEmergenciesQueue, startRefreshInterval, startStatusRefreshInterval])
+
+  const handleReplayStop = useCallback(async () => {
+    stopRefreshInterval()
+    stopStatusRefreshInterval()
+
+    setEmergencies([])
+    setSelectedEmergency(null)
+    setSelectedResource(null)
+    setStatus(null)
+    setIsSimulationRunning(false)
+
+    // Show the live backend again
+    await fetchData()
+
+    logger.info("Session replay detached from dashboard")
+  }, [fetchData, stopRefreshInterval, stopStatusRefreshInterval])
+
   // Check for saved simulation state on component mount
   useEffect(() => {
     const checkForSavedState = async () => {
-      // Add a flag to localStorage to prevent showing the recovery toast multiple times
-      const recoveryShown = localStorage.getItem("recoveryNotificationShown")
-
-      const savedStateJson = localStorage.getItem("simulationState")
-      const savedStartTimeJson = localStorage.getItem("simulationStartTime")
+      // Only the leading tab offers to resume, so the prompt shows once however many tabs are open
+      if (!(await tabCoordinator.waitForElection())) return
+
+      // A stored flag prevents showing the recovery toast multiple times
+      const {
+        state: savedState,
+        startTime: savedStartTime,
+        notificationShown: recoveryShown,
+      } = await loadRecovery().catch((error) => {
+        logger.error("Error reading saved simulation state", { error })
+        return { state: null, startTime: null, notificationShown: false }
+      })
 
-      if (savedStateJson && !recoveryShown) {
+      if (savedState && !recoveryShown) {
         try {
-          const savedState = JSON.parse(savedStateJson)
-
           // Check if the saved state is recent (within the last hour)
           const lastUpdated = new Date(savedState.lastUpdated)
           const now = new Date()
@@ -958,7 +1238,7 @@ export default function Dashboard() {
 
           if (savedState.isRunning && isRecent) {
             // Set flag to prevent showing the toast again
-            localStorage.setItem("recoveryNotificationShown", "true")
+            markRecoveryNotificationShown()
 
             setRecoveryState({
               isRecovering: true,
@@ -976,8 +1256,8 @@ export default function Dashboard() {
                   setTotalDistance(savedState.totalDistance || 0)
                   setIsAutoDispatch(savedState.isAutoDispatch || false)
 
-                  if (savedStartTimeJson) {
-                    setStartTime(new Date(savedStartTimeJson))
+                  if (savedStartTime) {
+                    setStartTime(new Date(savedStartTime))
                   }
 
                   // Set the active tab based on the simulation type
@@ -1006,7 +1286,7 @@ export default function Dashboard() {
             clearSimulationState()
           }
         } catch (error) {
-          logger.error("Error parsing saved simulation state", { error })
+          logger.error("Error restoring saved simulation state", { error })
           clearSimulationState()
         }
       }
@@ -1043,16 +1323,53 @@ export default function Dashboard() {
     }
   }, [clearSimulationState, handleReset, refreshInterval, statusRefreshInterval])
 
+  // Distance travelled in the selected model's unit. Prefer the scoring session's
+  // totals when it saw the whole run; they stay exact if the model is switched mid-run.
+  const displayDistance = scoreProjection.complete ? scoringSession.getDistance(distanceModel.id) : totalDistance
+
   // Create a local status object that includes our tracked metrics
   const localStatus = status
     ? {
         ...status,
         runningTime: elapsedTime,
         totalDispatches: totalDispatched,
-        distance: totalDistance,
+        distance: displayDistance,
       }
     : null
 
+  // While rewound, the map and panels show the run as it was at the scrubber position
+  const shownEmergencies = timelineSnapshot?.emergencies ?? emergencies
+  const shownResources = timelineSnapshot && timelineSnapshot.resources.length > 0 ? timelineSnapshot.resources : resources
+  const triage = useTriage(shownEmergencies, shownResources, status?.maxActiveCalls)
+  const missForecast = useMissForecast(emergencies, status)
+  const atRiskCallIds = useMemo(
+    () => new Set(missForecast.atRisk.map((forecast) => forecast.call.id)),
+    [missForecast.atRisk],
+  )
+
+  // With auto-fetch on, work the queue in priority order: whenever no call is selected, take the most pressing one
+  const nextCall = !timelineSnapshot && triage[0]?.score > 0 ? triage[0].call : null
+  useEffect(() => {
+    if (autoFetchEnabled && isSimulationRunning && !isAutoDispatch && !selectedEmergency && nextCall) {
+      setSelectedEmergency(nextCall)
+    }
+  }, [autoFetchEnabled, isSimulationRunning, isAutoDispatch, selectedEmergency, nextCall])
+  const shownDistance = timelineSnapshot
+    ? timelineSnapshot.dispatches.reduce(
+        (sum, dispatch) =>
+          sum +
+          distanceModel.measure(
+            dispatch.source.latitude,
+            dispatch.source.longitude,
+            dispatch.target.latitude,
+            dispatch.target.longitude,
+          ) *
+            dispatch.quantity,
+        0,
+      )
+    : displayDistance
+  const shownStatus = timelineSnapshot ? { ...timelineSnapshot.status, distance: shownDistance } : localStatus
+
   // Toggle health check panel
   const toggleHealthCheck = () => {
     setShowHealthCheck(!showHealthCheck)
@@ -1067,7 +1384,20 @@ export default function Dashboard() {
     <div className="flex flex-col h-screen">
       <header className="bg-blue-700 text-white p-4 shadow-md flex justify-between items-center">
         <h1 className="text-2xl font-bold">Emercery - Emergency Dispatch System</h1>
-        <div className="flex gap-2">
+        <div className="flex gap-2 items-center">
+          {tabCount > 1 && (
+            <span
+              className="text-xs text-blue-100"
+              title={
+                isLeaderTab
+                  ? "This tab polls the API and auto-fetches for every open dashboard tab"
+                  : "Another dashboard tab polls the API and auto-fetches; this one follows it"
+              }
+            >
+              {isLeaderTab ? `Leading ${tabCount} tabs` : `Following another tab (${tabCount} open)`}
+            </span>
+          )}
+          <DistanceModelSelector className="bg-blue-600 hover:bg-blue-700 text-white border-blue-500" />
           <Button
             variant="outline"
             size="sm"
@@ -1085,9 +1415,25 @@ export default function Dashboard() {
           >
             System Health
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowSettings(!showSettings)}
+            className="bg-blue-600 hover:bg-blue-700 text-white border-blue-500"
+          >
+            <Settings className="h-4 w-4 mr-1" />
+            Settings
+          </Button>
         </div>
       </header>
 
+      {/* Environment settings panel */}
+      {showSettings && (
+        <div className="p-4">
+          <EnvironmentSettings isRunning={isSimulationRunning} />
+        </div>
+      )}
+
       {/* System health panel */}
       {showHealthCheck && (
         <div className="p-4">
@@ -1095,6 +1441,9 @@ export default function Dashboard() {
           <div className="mt-4">
             <ApiPerformance />
           </div>
+          <div className="mt-4">
+            <DispatchLedgerPanel />
+          </div>
         </div>
       )}
 
@@ -1132,24 +1481,52 @@ export default function Dashboard() {
 
       <main className="flex-1 flex flex-col md:flex-row overflow-hidden">
         <div className="w-full md:w-3/4 h-full flex flex-col">
+          {!timelineSnapshot && missForecast.atRisk.length > 0 && (
+            <div className="mx-4 mt-4">
+              <MissedCallAlerts
+                atRisk={missForecast.atRisk}
+                threshold={missForecast.threshold}
+                selectedEmergency={selectedEmergency}
+                onSelect={handleEmergencySelect}
+              />
+            </div>
+          )}
           <div className="flex-1 m-4 relative overflow-hidden">
             <LeafletMap
               locations={locations}
-              resources={resources}
-              emergencies={emergencies}
+              resources={shownResources}
+              emergencies={shownEmergencies}
               selectedEmergency={selectedEmergency}
               selectedResource={selectedResource}
+              dispatchLines={timelineSnapshot?.dispatches}
+              atRiskCallIds={timelineSnapshot ? undefined : atRiskCallIds}
+            />
+          </div>
+
+          <div className="mx-4">
+            <TimelineScrubber
+              range={timelineRange}
+              value={timelineAt}
+              snapshot={timelineSnapshot}
+              onChange={setTimelineAt}
             />
           </div>
 
-          <StatusPanel status={localStatus} isLoading={isLoading} error={error} />
+          <StatusPanel
+            status={shownStatus}
+            projection={scoreProjection}
+            distanceLabel={distanceModel.format(shownDistance)}
+            isLoading={isLoading}
+            error={error}
+          />
         </div>
 
         <div className="w-full md:w-1/4 h-full overflow-y-auto bg-gray-50 border-l">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="w-full grid grid-cols-2">
+            <TabsList className="w-full grid grid-cols-3">
               <TabsTrigger value="manual">Manual Dispatch</TabsTrigger>
               <TabsTrigger value="auto">Auto Dispatch</TabsTrigger>
+              <TabsTrigger value="benchmarks">Benchmarks</TabsTrigger>
             </TabsList>
 
             <TabsContent value="manual" className="space-y-4 p-4">
@@ -1169,7 +1546,7 @@ export default function Dashboard() {
                         <Button
                           variant={autoFetchEnabled ? "default" : "outline"}
                           size="sm"
-                          onClick={() => setAutoFetchEnabled(!autoFetchEnabled)}
+                          onClick={() => changeAutoFetch(!autoFetchEnabled, autoFetchSeconds)}
                           className="h-8"
                         >
                           {autoFetchEnabled ? "Disable" : "Enable"} Auto-fetch
@@ -1198,7 +1575,7 @@ export default function Dashboard() {
                             step={1}
                             onValueCommit={(value) => {
                               // Only update when the user finishes dragging
-                              setAutoFetchSeconds(value[0])
+                              changeAutoFetch(autoFetchEnabled, value[0])
                             }}
                             disabled={!autoFetchEnabled}
                           />
@@ -1208,7 +1585,9 @@ export default function Dashboard() {
 
                       {autoFetchEnabled && (
                         <div className="text-xs text-blue-600 mt-1">
-                          Auto-fetching emergencies when count &lt; {status?.maxActiveCalls || "max"}
+                          {isRewound
+                            ? "Auto-fetch is paused while the timeline is rewound"
+                            : `Auto-fetching emergencies when count < ${status?.maxActiveCalls || "max"}`}
                         </div>
                       )}
                     </div>
@@ -1226,19 +1605,46 @@ export default function Dashboard() {
                 </Card>
               )}
 
+              {isRewound && (
+                <Card className="bg-yellow-50 border-yellow-200">
+                  <CardContent className="p-4 text-yellow-700 space-y-2">
+                    <p className="text-center font-medium">
+                      Showing an earlier moment of the run. Dispatching and auto-fetch are paused until you return to
+                      live.
+                    </p>
+                    <Button variant="outline" size="sm" className="w-full" onClick={() => setTimelineAt(null)}>
+                      Back to live
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
               <EmergencyPanel
-                emergencies={emergencies}
+                emergencies={shownEmergencies}
+                triage={triage}
                 onSelect={handleEmergencySelect}
                 selectedEmergency={selectedEmergency}
+                readOnly={isRewound}
               />
 
               <ResourcePanel
-                resources={resources}
+                resources={shownResources}
                 onSelect={handleResourceSelect}
                 selectedResource={selectedResource}
                 selectedEmergency={selectedEmergency}
                 onDispatchSuccess={handleDispatchSuccess}
+                onBatchDispatched={handlePlanExecuted}
+                readOnly={isRewound}
+              />
+
+              <DispatchOutboxPanel onFlushed={handleOutboxFlushed} isLeader={isLeaderTab} />
+
+              <AssignmentPlanPanel
+                isRunning={isSimulationRunning && !isAutoDispatch && !isRewound}
+                onExecuted={handlePlanExecuted}
               />
+
+              <SessionReplayPanel onReplayStart={handleReplayStart} onReplayStop={handleReplayStop} />
             </TabsContent>
 
             <TabsContent value="auto" className="p-4">
@@ -1251,6 +1657,10 @@ export default function Dashboard() {
                 onAutoStop={handleAutoDispatchStop}
               />
             </TabsContent>
+
+            <TabsContent value="benchmarks" className="p-4">
+              <BenchmarkPanel />
+            </TabsContent>
           </Tabs>
         </div>
         <ApiErrorMonitor />
@@ -15,17 +15,17 @@ export function DebugPanel() {
   const [logs, setLogs] = useState<unknown[]>([])
   const [isVisible, setIsVisible] = useState(false)
 
-  const loadLogs = () => {
-    setLogs(logger.getLogs())
+  const loadLogs = async () => {
+    setLogs(await logger.getLogs())
   }
 
-  const clearLogs = () => {
-    logger.clearLogs()
+  const clearLogs = async () => {
+    await logger.clearLogs()
     setLogs([])
   }
 
-  const exportLogs = () => {
-    const json = logger.exportLogs()
+  const exportLogs = async () => {
+    const json = await logger.exportLogs()
     const blob = new Blob([json], { type: "application/json" })
     const url = URL.createObjectURL(blob)
 
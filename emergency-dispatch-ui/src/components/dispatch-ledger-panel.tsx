@@ -0,0 +1,92 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { BookCheck } from "lucide-react"
+import type { DispatchLedgerEntry, DispatchLedgerState } from "@/types"
+import { dispatchLedger } from "@/services/dispatch-ledger"
+
+// Entries listed; the counts cover the whole ledger
+const VISIBLE_ENTRIES = 50
+
+const STATE_STYLES: Record<DispatchLedgerState, string> = {
+  pending: "bg-blue-100 text-blue-800 border-blue-300",
+  confirmed: "bg-green-100 text-green-800 border-green-300",
+  failed: "bg-gray-100 text-gray-800 border-gray-300",
+  unconfirmed: "bg-red-100 text-red-800 border-red-300",
+}
+
+/**
+ * Dispatch Ledger Panel
+ *
+ * Lists recent dispatches with their idempotency keys and outcome, including
+ * the ones settled by reconciliation after a lost response.
+ */
+export function DispatchLedgerPanel() {
+  const [entries, setEntries] = useState<DispatchLedgerEntry[]>([])
+
+  useEffect(() => {
+    // Entries are mutated in place, so copy them for React to see the change
+    const update = () => setEntries(dispatchLedger.getEntries().map((entry) => ({ ...entry })))
+    update()
+    return dispatchLedger.subscribe(update)
+  }, [])
+
+  const counts = entries.reduce(
+    (acc, entry) => ({ ...acc, [entry.state]: acc[entry.state] + 1 }),
+    { pending: 0, confirmed: 0, failed: 0, unconfirmed: 0 } as Record<DispatchLedgerState, number>,
+  )
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <BookCheck className="h-5 w-5 mr-2 text-blue-500" />
+          Dispatch Ledger
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(counts) as DispatchLedgerState[]).map((state) => (
+            <Badge key={state} className={STATE_STYLES[state]}>
+              {state}: {counts[state]}
+            </Badge>
+          ))}
+        </div>
+
+        {counts.unconfirmed > 0 && (
+          <p className="text-xs text-red-700">
+            Unconfirmed dispatches may or may not have been applied. They are never retried automatically; check the
+            target call before sending units again.
+          </p>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No dispatches yet.</p>
+        ) : (
+          <ScrollArea className="h-48">
+            <div className="space-y-1 text-xs">
+              {entries.slice(0, VISIBLE_ENTRIES).map((entry) => (
+                <div key={entry.key} className="flex justify-between items-center bg-gray-50 p-2 rounded-md">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">
+                      {entry.request.quantity} {entry.type}: {entry.request.sourceCity} → {entry.request.targetCity}
+                    </div>
+                    <div className="text-gray-500 truncate">
+                      {entry.key.slice(0, 8)} · {entry.attempts} attempt(s)
+                      {entry.reconciled && " · reconciled"}
+                      {entry.error && ` · ${entry.error}`}
+                    </div>
+                  </div>
+                  <Badge className={STATE_STYLES[entry.state]}>{entry.state}</Badge>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Inbox, Loader2, Send, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import type { OutboxIntent, OutboxIntentState } from "@/types"
+import { dispatchOutbox, type OutboxFlushReport } from "@/services/dispatch-outbox"
+
+interface DispatchOutboxPanelProps {
+  /** Called after a flush reached the API, so the dashboard can refresh */
+  onFlushed?: () => void
+  /** Whether this tab leads; only the leading tab sends the outbox */
+  isLeader?: boolean
+}
+
+const STATE_STYLES: Record<OutboxIntentState, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  submitting: "bg-blue-100 text-blue-800 border-blue-300",
+  dispatched: "bg-green-100 text-green-800 border-green-300",
+  dropped: "bg-gray-100 text-gray-800 border-gray-300",
+  failed: "bg-red-100 text-red-800 border-red-300",
+}
+
+/**
+ * Summarises a flush in a toast
+ */
+function reportFlush(report: OutboxFlushReport) {
+  if (!report.reachable) {
+    toast.error("API Still Unreachable", { description: "Queued dispatches stay pending." })
+    return
+  }
+  if (report.settled.length === 0) return
+
+  const count = (state: OutboxIntentState) => report.settled.filter((intent) => intent.state === state).length
+  const description = `${count("dispatched")} dispatched, ${count("dropped")} dropped, ${count("failed")} failed${
+    report.remaining > 0 ? `, ${report.remaining} still pending` : ""
+  }`
+  if (count("dropped") + count("failed") > 0) {
+    toast.warning("Outbox Flushed", { description })
+  } else {
+    toast.success("Outbox Flushed", { description })
+  }
+}
+
+/**
+ * Dispatch Outbox Panel
+ *
+ * Lists dispatches queued during an outage with their outcome, and sends
+ * them once the API answers again.
+ */
+export function DispatchOutboxPanel({ onFlushed, isLeader = true }: DispatchOutboxPanelProps) {
+  const [intents, setIntents] = useState<OutboxIntent[]>([])
+  const [isFlushing, setIsFlushing] = useState(false)
+  const onFlushedRef = useRef(onFlushed)
+
+  useEffect(() => {
+    onFlushedRef.current = onFlushed
+  })
+
+  useEffect(() => {
+    const update = () => {
+      setIntents(dispatchOutbox.getIntents())
+      setIsFlushing(dispatchOutbox.isFlushing())
+    }
+    update()
+    return dispatchOutbox.subscribe(update)
+  }, [])
+
+  // Send queued intents as soon as the API is back
+  useEffect(() => {
+    return dispatchOutbox.watch((report) => {
+      reportFlush(report)
+      onFlushedRef.current?.()
+    })
+  }, [])
+
+  const handleFlush = async () => {
+    const report = await dispatchOutbox.flush()
+    reportFlush(report)
+    if (report.reachable) onFlushed?.()
+  }
+
+  if (intents.length === 0) return null
+
+  const pending = intents.filter((intent) => intent.state === "pending").length
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex flex-row justify-between items-center">
+        <CardTitle className="text-lg flex items-center">
+          <Inbox className="h-5 w-5 mr-2 text-yellow-600" />
+          Dispatch Outbox
+          {pending > 0 && (
+            <Badge className="ml-2 bg-yellow-100 text-yellow-800 border-yellow-300">{pending} pending</Badge>
+          )}
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="h-8" onClick={() => dispatchOutbox.clearSettled()}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Clear finished
+          </Button>
+          <Button
+            size="sm"
+            className="h-8"
+            onClick={handleFlush}
+            disabled={pending === 0 || isFlushing || !isLeader}
+            title={isLeader ? undefined : "The leading tab sends queued dispatches"}
+          >
+            {isFlushing ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+            Send now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-1 text-sm">
+        <p className="text-xs text-gray-500 mb-2">
+          Queued dispatches are checked against fresh inventory and call needs before they are sent, in order.
+          {!isLeader && " The leading tab sends them."}
+        </p>
+        {intents.map((intent) => (
+          <div key={intent.id} className="flex justify-between items-center bg-gray-50 p-2 rounded-md">
+            <div className="min-w-0">
+              <div className="font-medium truncate">
+                {intent.request.quantity} {intent.type}: {intent.request.sourceCity} → {intent.request.targetCity}
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                Queued {new Date(intent.queuedAt).toLocaleTimeString()}
+                {intent.reason && ` · ${intent.reason}`}
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              <Badge className={STATE_STYLES[intent.state]}>{intent.state}</Badge>
+              {intent.state !== "submitting" && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => dispatchOutbox.remove(intent.id)}
+                  aria-label="Remove from outbox"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
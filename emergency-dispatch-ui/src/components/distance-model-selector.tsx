@@ -0,0 +1,45 @@
+"use client"
+
+import { Ruler } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useDistanceModel } from "@/hooks/use-distance-model"
+import { DISTANCE_MODELS, type DistanceModelId } from "@/utils/distance"
+
+interface DistanceModelSelectorProps {
+  className?: string
+}
+
+export function DistanceModelSelector({ className }: DistanceModelSelectorProps) {
+  const { model, setModel } = useDistanceModel()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <Ruler className="h-4 w-4 mr-1" />
+          {model.label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Distance Model</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={model.id} onValueChange={(value) => setModel(value as DistanceModelId)}>
+          {Object.values(DISTANCE_MODELS).map((option) => (
+            <DropdownMenuRadioItem key={option.id} value={option.id}>
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
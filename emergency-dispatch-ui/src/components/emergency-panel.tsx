@@ -6,7 +6,7 @@ import { EMERGENCY_TYPE_COLORS } from "@/types"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Button } from "@/components/ui/button"
-import { AlertCircle, Loader2, Filter } from "lucide-react"
+import { AlertCircle, Loader2, Filter, Sliders } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import {
@@ -15,15 +15,48 @@ import {
   DropdownMenuCheckboxItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { useTabCoordination } from "@/hooks/use-tab-coordination"
+import { useTriageRules } from "@/hooks/use-triage-rules"
+import { TRIAGE_FACTORS, type TriageFactorName, type TriageResult, type TriageRules } from "@/services/triage"
 
 interface EmergencyPanelProps {
   emergencies: EmergencyCall[]
+  /** Triage of the same calls, most pressing first */
+  triage: TriageResult[]
   onSelect: (emergency: EmergencyCall) => void
   selectedEmergency: EmergencyCall | null
+  /** Lists the calls without selecting any, e.g. while they show an earlier moment of the run */
+  readOnly?: boolean
 }
 
-export function EmergencyPanel({ emergencies, onSelect, selectedEmergency }: EmergencyPanelProps) {
+// Upper end of each weight slider in the rules editor
+const WEIGHT_SLIDER_MAX: Record<TriageFactorName, number> = {
+  units: 10,
+  types: 20,
+  age: 10,
+  distance: 50,
+  urgency: 200,
+}
+
+// Factors shown as the reason for a call's rank
+const SHOWN_REASONS = 3
+
+export function EmergencyPanel({
+  emergencies,
+  triage,
+  onSelect,
+  selectedEmergency,
+  readOnly = false,
+}: EmergencyPanelProps) {
   const [isUpdating, setIsUpdating] = useState(false)
+  const { lockedCallIds } = useTabCoordination()
+  const { rules, setRules, resetRules } = useTriageRules()
+  const [sortByPriority, setSortByPriority] = useState(true)
+  const [showRules, setShowRules] = useState(false)
+  // Rules being dragged in the editor, saved when the slider is released
+  const [draftRules, setDraftRules] = useState<TriageRules | null>(null)
   const [prevEmergencyCount, setPrevEmergencyCount] = useState(0)
   const [highlightedEmergencies, setHighlightedEmergencies] = useState<Record<string, boolean>>({})
   const [typeFilters, setTypeFilters] = useState<Record<EmergencyType, boolean>>({
@@ -43,8 +76,7 @@ export function EmergencyPanel({ emergencies, onSelect, selectedEmergency }: Eme
       const newHighlights: Record<string, boolean> = {}
 
       emergencies.forEach((emergency) => {
-        const id = `${emergency.city}-${emergency.county}`
-        newHighlights[id] = true
+        newHighlights[emergency.id] = true
       })
 
       setHighlightedEmergencies(newHighlights)
@@ -66,28 +98,20 @@ export function EmergencyPanel({ emergencies, onSelect, selectedEmergency }: Eme
     // When emergencies change, ensure UI is updated
     setPrevEmergencyCount(emergencies.length)
 
-    // If we have a selected emergency, update it with the latest data
-    if (selectedEmergency) {
-      const updatedEmergency = emergencies.find(
-        (e) => e.city === selectedEmergency.city && e.county === selectedEmergency.county,
-      )
+    // If we have a selected emergency, update it with the latest data; listed history must not replace it
+    if (selectedEmergency && !readOnly) {
+      const updatedEmergency = emergencies.find((e) => e.id === selectedEmergency.id)
 
       if (updatedEmergency) {
         // Update the selected emergency without triggering a full selection change
         onSelect(updatedEmergency)
       }
     }
-  }, [emergencies, selectedEmergency, onSelect])
-
-  // Generate a unique ID for an emergency
-  const getEmergencyId = (emergency: EmergencyCall, index: number) => {
-    return `${emergency.city}-${emergency.county}-${index}`
-  }
+  }, [emergencies, selectedEmergency, onSelect, readOnly])
 
   // Check if an emergency is highlighted
   const isHighlighted = (emergency: EmergencyCall) => {
-    const id = `${emergency.city}-${emergency.county}`
-    return highlightedEmergencies[id]
+    return highlightedEmergencies[emergency.id]
   }
 
   // Calculate emergency status (total, dispatched, remaining) for a specific type
@@ -136,8 +160,12 @@ export function EmergencyPanel({ emergencies, onSelect, selectedEmergency }: Eme
     return emergency.requests.some((req) => req.Type === type)
   }
 
-  // Filter emergencies based on selected types
-  const filteredEmergencies = emergencies.filter((emergency) => {
+  const triageById = new Map(triage.map((result) => [result.call.id, result]))
+  const shownRules = draftRules ?? rules
+
+  // Filter emergencies based on selected types, most pressing first unless sorted by arrival
+  const orderedEmergencies = sortByPriority ? triage.map((result) => result.call) : emergencies
+  const filteredEmergencies = orderedEmergencies.filter((emergency) => {
     // Check if any of the emergency's request types match our active filters
     return emergency.requests.some((req) => typeFilters[req.Type])
   })
@@ -204,6 +232,24 @@ export function EmergencyPanel({ emergencies, onSelect, selectedEmergency }: Eme
           </div>
           <div className="flex items-center">
             {isUpdating && <Loader2 className="h-4 w-4 animate-spin text-blue-500 mr-2" />}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 px-2 mr-1"
+              onClick={() => setSortByPriority((prev) => !prev)}
+              title="Sort by triage score or by arrival"
+            >
+              {sortByPriority ? "Priority" : "Arrival"}
+            </Button>
+            <Button
+              variant={showRules ? "default" : "outline"}
+              size="sm"
+              className="h-8 px-2 mr-1"
+              onClick={() => setShowRules((prev) => !prev)}
+              aria-label="Triage rules"
+            >
+              <Sliders className="h-4 w-4" />
+            </Button>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" size="sm" className="h-8 px-2">
@@ -263,6 +309,62 @@ export function EmergencyPanel({ emergencies, onSelect, selectedEmergency }: Eme
         </CardTitle>
       </CardHeader>
       <CardContent className="p-0">
+        {showRules && (
+          <div className="border-b px-4 pb-3 space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Triage rules</span>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={resetRules}>
+                Reset
+              </Button>
+            </div>
+            {TRIAGE_FACTORS.map(({ name, label }) => (
+              <div key={name} className="space-y-1">
+                <div className="flex justify-between">
+                  <Label htmlFor={`triage-${name}`} className="text-xs">
+                    {label}
+                  </Label>
+                  <span className="text-xs text-muted-foreground">{shownRules.weights[name]} pts</span>
+                </div>
+                <Slider
+                  id={`triage-${name}`}
+                  min={0}
+                  max={WEIGHT_SLIDER_MAX[name]}
+                  step={1}
+                  value={[shownRules.weights[name]]}
+                  onValueChange={(value) =>
+                    setDraftRules({ ...shownRules, weights: { ...shownRules.weights, [name]: value[0] } })
+                  }
+                  onValueCommit={() => {
+                    if (draftRules) setRules(draftRules)
+                    setDraftRules(null)
+                  }}
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <div className="flex justify-between">
+                <Label htmlFor="triage-urgency-start" className="text-xs">
+                  Urgency starts at
+                </Label>
+                <span className="text-xs text-muted-foreground">
+                  {Math.round(shownRules.urgencyStart * 100)}% of a call&apos;s lifetime
+                </span>
+              </div>
+              <Slider
+                id="triage-urgency-start"
+                min={0}
+                max={0.95}
+                step={0.05}
+                value={[shownRules.urgencyStart]}
+                onValueChange={(value) => setDraftRules({ ...shownRules, urgencyStart: value[0] })}
+                onValueCommit={() => {
+                  if (draftRules) setRules(draftRules)
+                  setDraftRules(null)
+                }}
+              />
+            </div>
+          </div>
+        )}
         <ScrollArea className="h-[200px]">
           {filteredEmergencies.length === 0 ? (
             <div className="p-4 text-center text-gray-500">
@@ -272,32 +374,51 @@ export function EmergencyPanel({ emergencies, onSelect, selectedEmergency }: Eme
             </div>
           ) : (
             <div className="space-y-1 p-2">
-              {filteredEmergencies.map((emergency, index) => {
+              {filteredEmergencies.map((emergency) => {
                 const status = getEmergencyStatus(emergency)
-                const isSelected =
-                  selectedEmergency &&
-                  emergency.city === selectedEmergency.city &&
-                  emergency.county === selectedEmergency.county
+                const isSelected = selectedEmergency?.id === emergency.id
+                const result = triageById.get(emergency.id)
 
                 return (
                   <Button
-                    key={getEmergencyId(emergency, index)}
+                    key={emergency.id}
                     variant={isSelected ? "default" : "outline"}
                     className={`w-full justify-start h-auto py-2 text-left transition-colors ${
                       isHighlighted(emergency) ? "bg-yellow-50 border-yellow-200" : ""
                     }`}
-                    onClick={() => onSelect(emergency)}
+                    onClick={() => !readOnly && onSelect(emergency)}
                   >
                     <div className="flex flex-col w-full">
                       <div className="font-medium flex justify-between items-center">
                         <span>
+                          {result && result.score > 0 && (
+                            <span className="text-xs text-muted-foreground mr-1">#{result.rank}</span>
+                          )}
                           {emergency.city}, {emergency.county}
                         </span>
+                        {result && result.score > 0 && (
+                          <Badge
+                            variant="outline"
+                            className={`ml-auto ${
+                              result.factors.some((factor) => factor.name === "urgency")
+                                ? "bg-red-100 text-red-800 border-red-300"
+                                : ""
+                            }`}
+                            title="Triage score"
+                          >
+                            {Math.round(result.score)}
+                          </Badge>
+                        )}
                         {isHighlighted(emergency) && (
                           <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-300 ml-2">
                             Updated
                           </Badge>
                         )}
+                        {lockedCallIds.has(emergency.id) && (
+                          <Badge variant="outline" className="bg-purple-100 text-purple-800 border-purple-300 ml-2">
+                            Dispatching in another tab
+                          </Badge>
+                        )}
                       </div>
                       <div className="text-sm text-muted-foreground mt-1">
                         <div className="flex flex-wrap mb-1">{getEmergencyTypeBadges(emergency)}</div>
@@ -312,6 +433,14 @@ export function EmergencyPanel({ emergencies, onSelect, selectedEmergency }: Eme
                             </Badge>
                           )}
                         </div>
+                        {result && result.factors.length > 0 && (
+                          <div className="text-xs mb-1 truncate" title={result.factors.map((f) => f.label).join(", ")}>
+                            {result.factors
+                              .slice(0, SHOWN_REASONS)
+                              .map((factor) => `${factor.label} +${Math.round(factor.points)}`)
+                              .join(" · ")}
+                          </div>
+                        )}
                         <Progress
                           value={getProgressPercentage(status)}
                           className="h-1.5"
@@ -0,0 +1,166 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { RotateCcw, Save, Server } from "lucide-react"
+import { toast } from "sonner"
+import type { EnvironmentProfile } from "@/types"
+import type { EnvironmentProfileSettings } from "@/services/environment-profile"
+import { useEnvironmentProfile } from "@/hooks/use-environment-profile"
+
+interface EnvironmentSettingsProps {
+  /** Whether a simulation is running; switching backends mid-run is blocked */
+  isRunning?: boolean
+}
+
+const toSettings = (profile: EnvironmentProfile): EnvironmentProfileSettings => ({
+  mainApiUrl: profile.mainApiUrl,
+  autoDispatchApiUrl: profile.autoDispatchApiUrl,
+  useEmulator: profile.useEmulator,
+  timeoutMs: profile.timeoutMs,
+  maxRetries: profile.maxRetries,
+  retryDelayMs: profile.retryDelayMs,
+})
+
+export function EnvironmentSettings({ isRunning = false }: EnvironmentSettingsProps) {
+  const { profile, profiles, selectProfile, updateProfile, resetProfile } = useEnvironmentProfile()
+  const [draft, setDraft] = useState<EnvironmentProfileSettings>(() => toSettings(profile))
+
+  // Edit the active profile's current settings whenever it changes
+  useEffect(() => {
+    setDraft(toSettings(profile))
+  }, [profile])
+
+  const updateDraft = <K extends keyof EnvironmentProfileSettings>(key: K, value: EnvironmentProfileSettings[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const handleSave = () => {
+    try {
+      new URL(draft.mainApiUrl)
+      new URL(draft.autoDispatchApiUrl)
+    } catch {
+      toast.error("Invalid URL", { description: "Base URLs must be absolute, e.g. http://localhost:5000" })
+      return
+    }
+    if (draft.timeoutMs <= 0 || draft.maxRetries < 1 || draft.retryDelayMs < 0) {
+      toast.error("Invalid Request Policy", {
+        description: "Timeout must be positive, with at least one attempt and a non-negative delay.",
+      })
+      return
+    }
+
+    updateProfile(profile.id, draft)
+    toast.success("Profile Saved", { description: `${profile.label} settings updated.` })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center">
+          <Server className="h-5 w-5 mr-2 text-blue-500" />
+          Environment
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {profiles.map((option) => (
+            <Button
+              key={option.id}
+              variant={option.id === profile.id ? "default" : "outline"}
+              className="h-auto flex flex-col items-start p-2 text-left"
+              onClick={() => selectProfile(option.id)}
+              disabled={isRunning && option.id !== profile.id}
+            >
+              <span className="font-medium">{option.label}</span>
+              <span className="text-xs opacity-70 truncate w-full">
+                {option.useEmulator ? "in-process emulator" : option.mainApiUrl}
+              </span>
+            </Button>
+          ))}
+        </div>
+
+        {isRunning && (
+          <p className="text-xs text-yellow-700">Stop the running simulation to switch environments.</p>
+        )}
+        <p className="text-sm text-gray-500">{profile.description}</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="env-main-url">Main API URL</Label>
+            <Input
+              id="env-main-url"
+              value={draft.mainApiUrl}
+              onChange={(e) => updateDraft("mainApiUrl", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="env-auto-url">Auto-dispatch API URL</Label>
+            <Input
+              id="env-auto-url"
+              value={draft.autoDispatchApiUrl}
+              onChange={(e) => updateDraft("autoDispatchApiUrl", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="env-timeout">Timeout (ms)</Label>
+            <Input
+              id="env-timeout"
+              type="number"
+              min={1}
+              value={draft.timeoutMs}
+              onChange={(e) => updateDraft("timeoutMs", Number(e.target.value))}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="env-retries">Attempts</Label>
+              <Input
+                id="env-retries"
+                type="number"
+                min={1}
+                value={draft.maxRetries}
+                onChange={(e) => updateDraft("maxRetries", Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="env-retry-delay">Retry delay (ms)</Label>
+              <Input
+                id="env-retry-delay"
+                type="number"
+                min={0}
+                value={draft.retryDelayMs}
+                onChange={(e) => updateDraft("retryDelayMs", Number(e.target.value))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="env-emulator"
+              checked={draft.useEmulator}
+              onCheckedChange={(checked) => updateDraft("useEmulator", checked)}
+            />
+            <Label htmlFor="env-emulator">Serve the main API from the in-process emulator</Label>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => resetProfile(profile.id)}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Defaults
+            </Button>
+            <Button size="sm" onClick={handleSave}>
+              <Save className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
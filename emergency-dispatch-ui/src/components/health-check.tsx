@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Loader2, RefreshCw, CheckCircle, AlertTriangle, XCircle } from "lucide-react"
 import { getSystemHealth } from "@/services/api"
+import { circuitBreakers, type CircuitSnapshot } from "@/services/circuit-breaker"
 import type { SystemStatus, HealthStatus } from "@/types"
 import { logger } from "./logger"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
@@ -21,6 +22,20 @@ export function HealthCheck() {
   const [isLoading, setIsLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [circuits, setCircuits] = useState<CircuitSnapshot[]>([])
+
+  // Follow the shared circuit breakers, refreshing open circuits' countdowns every second
+  useEffect(() => {
+    const update = () => setCircuits(circuitBreakers.getSnapshot())
+    update()
+
+    const unsubscribe = circuitBreakers.subscribe(update)
+    const interval = setInterval(update, 1000)
+    return () => {
+      unsubscribe()
+      clearInterval(interval)
+    }
+  }, [])
 
   // Function to fetch health status
   const fetchHealthStatus = async (showLoading = true) => {
@@ -87,6 +102,22 @@ export function HealthCheck() {
     }
   }
 
+  // Function to get circuit state badge
+  const getCircuitBadge = (circuit: CircuitSnapshot) => {
+    switch (circuit.state) {
+      case "open":
+        return (
+          <Badge className="bg-red-100 text-red-800 border-red-300">
+            Open · {Math.max(0, Math.ceil(((circuit.retryAt ?? Date.now()) - Date.now()) / 1000))}s
+          </Badge>
+        )
+      case "half-open":
+        return <Badge className="bg-yellow-100 text-yellow-800 border-yellow-300">Half-open</Badge>
+      default:
+        return <Badge className="bg-green-100 text-green-800 border-green-300">Closed</Badge>
+    }
+  }
+
   // Function to handle manual refresh
   const handleRefresh = () => {
     fetchHealthStatus()
@@ -216,6 +247,32 @@ export function HealthCheck() {
               </Alert>
             )}
 
+            {circuits.length > 0 && (
+              <div className="bg-gray-50 p-3 rounded-md">
+                <div className="flex justify-between items-center mb-2">
+                  <div className="font-medium">Circuit Breakers</div>
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => circuitBreakers.reset()}>
+                    Reset all
+                  </Button>
+                </div>
+                <div className="space-y-1">
+                  {circuits.map((circuit) => (
+                    <div key={circuit.endpoint} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="font-mono truncate" title={circuit.lastError ?? undefined}>
+                        {circuit.endpoint}
+                      </span>
+                      <span className="flex items-center gap-2 shrink-0">
+                        <span className={circuit.failureRate > 0 ? "text-orange-600" : "text-gray-500"}>
+                          {(circuit.failureRate * 100).toFixed(0)}% of {circuit.requests} failed
+                        </span>
+                        {getCircuitBadge(circuit)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="text-xs text-gray-500 text-right">
               Last updated: {new Date(systemStatus.lastUpdated).toLocaleTimeString()}
             </div>
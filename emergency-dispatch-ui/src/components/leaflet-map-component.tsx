@@ -155,16 +155,12 @@ export default function LeafletMapComponent({
         ))}
 
         {/* Render resources */}
-        {resources.map((resource, index) => {
-          const isSelected =
-            selectedResource &&
-            resource.city === selectedResource.city &&
-            resource.county === selectedResource.county &&
-            resource.type === selectedResource.type
+        {resources.map((resource) => {
+          const isSelected = selectedResource?.id === resource.id
 
           return (
             <Marker
-              key={`res-${resource.city}-${resource.county}-${resource.type}-${index}`}
+              key={`res-${resource.id}`}
               position={[resource.latitude, resource.longitude]}
               icon={createResourceIcon(resource.type, resource.quantity, isSelected)}
               opacity={isSelected ? 1 : 0.8}
@@ -206,17 +202,14 @@ export default function LeafletMapComponent({
         })}
 
         {/* Render emergencies */}
-        {emergencies.map((emergency, index) => {
-          const isSelected =
-            selectedEmergency &&
-            emergency.city === selectedEmergency.city &&
-            emergency.county === selectedEmergency.county
+        {emergencies.map((emergency) => {
+          const isSelected = selectedEmergency?.id === emergency.id
 
           const totalNeeded = emergency.requests.reduce((sum, req) => sum + req.Quantity, 0)
 
           return (
             <Marker
-              key={`emg-${emergency.city}-${index}`}
+              key={`emg-${emergency.id}`}
               position={[emergency.latitude, emergency.longitude]}
               icon={emergencyIcon}
               opacity={isSelected ? 1 : 0.8}
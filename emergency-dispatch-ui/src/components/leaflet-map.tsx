@@ -1,6 +1,7 @@
 "use client"
 import dynamic from "next/dynamic"
 import type { EmergencyResource, EmergencyCall, Location } from "@/types"
+import type { TimelineDispatch } from "@/services/run-timeline"
 import { useState } from "react"
 import { logger } from "./logger"
 
@@ -23,6 +24,9 @@ export interface LeafletMapProps {
   emergencies: EmergencyCall[]
   selectedEmergency: EmergencyCall | null
   selectedResource: EmergencyResource | null
+  dispatchLines?: TimelineDispatch[]
+  /** Calls projected to be missed soon; their markers pulse */
+  atRiskCallIds?: Set<string>
 }
 
 // Dynamically import the map component with SSR disabled
@@ -1,15 +1,23 @@
 /**
  * Enhanced Logger utility for the application
  * Provides consistent logging with severity levels, structured data, and error tracking
+ *
+ * Log lines, tracked errors and API timings are appended to the app's
+ * IndexedDB store, one record per entry, so reading them is asynchronous.
  */
+import { appStorage, type AppendStoreName, type AppStoreSchema } from "@/services/app-storage"
+import type { ErrorRecord, LogRecord } from "@/types"
 
-type LogLevel = "debug" | "info" | "warn" | "error"
+type LogLevel = LogRecord["level"]
+
+// Append stores the logger writes to
+type LogStoreName = Exclude<AppendStoreName, "missObservations">
 
 interface LoggerOptions {
   enableConsole: boolean
   minLevel: LogLevel
-  enableLocalStorage: boolean
-  maxLocalStorageLogs: number
+  enablePersistence: boolean
+  maxStoredLogs: number
   enableErrorTracking: boolean
   errorSampleRate: number
 }
@@ -18,12 +26,26 @@ interface LoggerOptions {
 const defaultOptions: LoggerOptions = {
   enableConsole: true,
   minLevel: "info",
-  enableLocalStorage: true,
-  maxLocalStorageLogs: 1000,
+  enablePersistence: true,
+  maxStoredLogs: 1000,
   enableErrorTracking: true,
   errorSampleRate: 1.0, // Sample 100% of errors by default
 }
 
+// Tracked errors and API timings kept
+const MAX_STORED_ERRORS = 100
+const MAX_STORED_TIMINGS = 100
+
+// Appends between two trims of a store, so trimming does not cost a count per entry
+const TRIM_EVERY = 50
+
+/**
+ * Copies an entry the way JSON would, so metadata that cannot be stored (functions, DOM nodes) is dropped
+ */
+function toRecord<T>(entry: T): T {
+  return JSON.parse(JSON.stringify(entry))
+}
+
 // Log level priorities (higher number = higher priority)
 const LOG_LEVELS: Record<LogLevel, number> = {
   debug: 0,
@@ -34,9 +56,13 @@ const LOG_LEVELS: Record<LogLevel, number> = {
 
 class Logger {
   private options: LoggerOptions
-  private localStorageKey = "emercery_logs"
-  private errorStorageKey = "emercery_errors"
   private sessionId: string
+  // Starts due, so the first append of a page load trims what earlier pages left
+  private appendsSinceTrim: Record<LogStoreName, number> = {
+    logs: TRIM_EVERY,
+    errors: TRIM_EVERY,
+    apiPerformance: TRIM_EVERY,
+  }
 
   constructor(options: Partial<LoggerOptions> = {}) {
     this.options = { ...defaultOptions, ...options }
@@ -44,6 +70,13 @@ class Logger {
     this.sessionId = this.generateSessionId()
   }
 
+  /**
+   * Updates logger options at runtime, e.g. to quiet console output in scripts
+   */
+  configure(options: Partial<LoggerOptions>): void {
+    this.options = { ...this.options, ...options }
+  }
+
   /**
    * Generates a unique session ID
    */
@@ -61,7 +94,7 @@ class Logger {
     }
 
     const timestamp = new Date().toISOString()
-    const logData = {
+    const logData: LogRecord = {
       timestamp,
       level,
       message,
@@ -75,9 +108,9 @@ class Logger {
       consoleMethod(`[${timestamp}] [${level.toUpperCase()}] ${message}`, meta)
     }
 
-    // Log to localStorage if enabled (browser only)
-    if (this.options.enableLocalStorage && typeof window !== "undefined") {
-      this.logToLocalStorage(logData)
+    // Persist if enabled (browser only)
+    if (this.options.enablePersistence && typeof window !== "undefined") {
+      this.append("logs", logData, this.options.maxStoredLogs)
     }
 
     // Track errors separately if enabled
@@ -105,28 +138,25 @@ class Logger {
   }
 
   /**
-   * Store logs in localStorage with a maximum number of entries
+   * Appends an entry to a store, trimming the store to its maximum every few appends
    */
-  private logToLocalStorage(logData: any) {
+  private append<S extends LogStoreName>(store: S, entry: AppStoreSchema[S], max: number) {
+    let record: AppStoreSchema[S]
     try {
-      // Get existing logs
-      const logsJson = localStorage.getItem(this.localStorageKey) || "[]"
-      const logs = JSON.parse(logsJson)
-
-      // Add new log
-      logs.push(logData)
-
-      // Trim logs if they exceed the maximum
-      if (logs.length > this.options.maxLocalStorageLogs) {
-        logs.splice(0, logs.length - this.options.maxLocalStorageLogs)
-      }
-
-      // Save back to localStorage
-      localStorage.setItem(this.localStorageKey, JSON.stringify(logs))
+      record = toRecord(entry)
     } catch (error) {
-      // If localStorage fails, log to console as fallback
-      console.error("Failed to write logs to localStorage:", error)
+      // e.g. circular metadata
+      console.error(`Failed to store entry in ${store}:`, error)
+      return
     }
+
+    const trim = ++this.appendsSinceTrim[store] > TRIM_EVERY
+    if (trim) this.appendsSinceTrim[store] = 0
+
+    appStorage
+      .add(store, record)
+      .then(() => (trim ? appStorage.trim(store, max) : undefined))
+      .catch((error) => console.error(`Failed to store entry in ${store}:`, error))
   }
 
   /**
@@ -138,102 +168,85 @@ class Logger {
       return
     }
 
-    try {
-      // Get existing errors
-      const errorsJson = localStorage.getItem(this.errorStorageKey) || "[]"
-      const errors = JSON.parse(errorsJson)
-
-      // Add new error with additional context
-      errors.push({
-        timestamp: new Date().toISOString(),
-        message,
-        sessionId: this.sessionId,
-        userAgent: navigator.userAgent,
-        url: window.location.href,
-        ...meta,
-      })
-
-      // Keep only the last 100 errors
-      if (errors.length > 100) {
-        errors.splice(0, errors.length - 100)
-      }
-
-      // Save back to localStorage
-      localStorage.setItem(this.errorStorageKey, JSON.stringify(errors))
-    } catch (error) {
-      console.error("Failed to track error:", error)
+    // Add new error with additional context
+    const errorData: ErrorRecord = {
+      timestamp: new Date().toISOString(),
+      message,
+      sessionId: this.sessionId,
+      userAgent: navigator.userAgent,
+      url: window.location.href,
+      ...meta,
     }
+    this.append("errors", errorData, MAX_STORED_ERRORS)
   }
 
   /**
-   * Get all logs from localStorage
+   * Get all stored logs, oldest first
    */
-  getLogs(): any[] {
+  async getLogs(): Promise<any[]> {
     if (typeof window === "undefined") return []
 
     try {
-      const logsJson = localStorage.getItem(this.localStorageKey) || "[]"
-      return JSON.parse(logsJson)
+      return await appStorage.getAll("logs")
     } catch (error) {
-      console.error("Failed to read logs from localStorage:", error)
+      console.error("Failed to read logs:", error)
       return []
     }
   }
 
   /**
-   * Get all tracked errors from localStorage
+   * Get all tracked errors, oldest first
    */
-  getErrors(): any[] {
+  async getErrors(): Promise<any[]> {
     if (typeof window === "undefined") return []
 
     try {
-      const errorsJson = localStorage.getItem(this.errorStorageKey) || "[]"
-      return JSON.parse(errorsJson)
+      return await appStorage.getAll("errors")
     } catch (error) {
-      console.error("Failed to read errors from localStorage:", error)
+      console.error("Failed to read errors:", error)
       return []
     }
   }
 
   /**
-   * Clear all logs from localStorage
+   * Clear all stored logs
    */
-  clearLogs(): void {
+  async clearLogs(): Promise<void> {
     if (typeof window === "undefined") return
 
     try {
-      localStorage.removeItem(this.localStorageKey)
+      await appStorage.clear("logs")
     } catch (error) {
-      console.error("Failed to clear logs from localStorage:", error)
+      console.error("Failed to clear logs:", error)
     }
   }
 
   /**
-   * Clear all tracked errors from localStorage
+   * Clear all tracked errors
    */
-  clearErrors(): void {
+  async clearErrors(): Promise<void> {
     if (typeof window === "undefined") return
 
     try {
-      localStorage.removeItem(this.errorStorageKey)
+      await appStorage.clear("errors")
     } catch (error) {
-      console.error("Failed to clear errors from localStorage:", error)
+      console.error("Failed to clear errors:", error)
     }
   }
 
   /**
    * Export logs as JSON
    */
-  exportLogs(): string {
-    const logs = this.getLogs()
+  async exportLogs(): Promise<string> {
+    const logs = await this.getLogs()
     return JSON.stringify(logs, null, 2)
   }
 
   /**
    * Export errors as JSON
    */
-  exportErrors(): string {
-    const errors = this.getErrors()
+  async exportErrors(): Promise<string> {
+    const errors = await this.getErrors()
     return JSON.stringify(errors, null, 2)
   }
 
@@ -283,46 +296,23 @@ class Logger {
    * Track API response time
    */
   trackApiPerformance(url: string, method: string, responseTime: number, status: number): void {
-    try {
-      const timestamp = new Date().toISOString()
-      const performanceData = {
-        timestamp,
-        url,
-        method,
-        responseTime,
-        status,
-        success: status < 400,
-      }
-
-      // Store in localStorage with a separate key
-      const perfDataKey = "emercery_api_performance"
-      const perfDataJson = localStorage.getItem(perfDataKey) || "[]"
-      const perfData = JSON.parse(perfDataJson)
-
-      // Add new entry
-      perfData.push(performanceData)
-
-      // Keep only the last 100 entries
-      if (perfData.length > 100) {
-        perfData.splice(0, perfData.length - 100)
-      }
-
-      localStorage.setItem(perfDataKey, JSON.stringify(perfData))
-    } catch (error) {
-      console.error("Failed to track API performance:", error)
-    }
+    if (typeof window === "undefined") return
+
+    this.append(
+      "apiPerformance",
+      { timestamp: new Date().toISOString(), url, method, responseTime, status, success: status < 400 },
+      MAX_STORED_TIMINGS,
+    )
   }
 
   /**
    * Get API performance metrics
    */
-  getApiPerformanceMetrics(): any[] {
+  async getApiPerformanceMetrics(): Promise<any[]> {
     if (typeof window === "undefined") return []
 
     try {
-      const perfDataKey = "emercery_api_performance"
-      const perfDataJson = localStorage.getItem(perfDataKey) || "[]"
-      return JSON.parse(perfDataJson)
+      return await appStorage.getAll("apiPerformance")
     } catch (error) {
       console.error("Failed to read API performance metrics:", error)
       return []
@@ -332,11 +322,11 @@ class Logger {
   /**
    * Clear API performance metrics
    */
-  clearApiPerformanceMetrics(): void {
+  async clearApiPerformanceMetrics(): Promise<void> {
     if (typeof window === "undefined") return
 
     try {
-      localStorage.removeItem("emercery_api_performance")
+      await appStorage.clear("apiPerformance")
     } catch (error) {
       console.error("Failed to clear API performance metrics:", error)
     }
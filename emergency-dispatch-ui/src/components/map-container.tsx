@@ -105,8 +105,7 @@ export function MapContainer({
       const x = toCanvasX(ambulance.longitude)
       const y = toCanvasY(ambulance.latitude)
 
-      const isSelected =
-        selectedAmbulance && ambulance.city === selectedAmbulance.city && ambulance.county === selectedAmbulance.county
+      const isSelected = selectedAmbulance?.id === ambulance.id
 
       ctx.beginPath()
       ctx.arc(x, y, isSelected ? 8 : 5, 0, Math.PI * 2)
@@ -126,8 +125,7 @@ export function MapContainer({
       const x = toCanvasX(emergency.longitude)
       const y = toCanvasY(emergency.latitude)
 
-      const isSelected =
-        selectedEmergency && emergency.city === selectedEmergency.city && emergency.county === selectedEmergency.county
+      const isSelected = selectedEmergency?.id === emergency.id
 
       ctx.beginPath()
       ctx.arc(x, y, isSelected ? 8 : 5, 0, Math.PI * 2)
@@ -6,13 +6,15 @@ import L from "leaflet"
 import "leaflet/dist/leaflet.css"
 import type { EmergencyResource, EmergencyCall, Location, EmergencyType } from "@/types"
 import { EMERGENCY_TYPE_COLORS } from "@/types"
-import { calculateDistance } from "@/utils/distance"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Loader2, Info, AlertCircle, CheckCircle } from "lucide-react"
 import { logger } from "./logger"
+import { useResourceIndex } from "@/hooks/use-resource-index"
+import { useDistanceModel } from "@/hooks/use-distance-model"
 import { Progress } from "@/components/ui/progress"
+import type { TimelineDispatch } from "@/services/run-timeline"
 
 // Fix Leaflet icon issues
 const FixLeafletIcons = () => {
@@ -121,8 +123,8 @@ const createResourceIcon = (type: EmergencyType, quantity: number, isSelected =
   })
 }
 
-// Create emergency icon
-const createEmergencyIcon = (totalNeeded: number, isSelected = false, isFulfilled = false) => {
+// Create emergency icon; calls at risk of being missed get a pulsing ring
+const createEmergencyIcon = (totalNeeded: number, isSelected = false, isFulfilled = false, isAtRisk = false) => {
   const size = isSelected ? 30 : 24
   const borderWidth = isSelected ? 3 : 2
   const bgColor = isFulfilled ? "#10b981" : "#ef4444" // Green if fulfilled, red otherwise
@@ -131,6 +133,7 @@ const createEmergencyIcon = (totalNeeded: number, isSelected = false, isFulfille
     className: "custom-div-icon",
     html: `
       <div style="
+        position: relative;
         background-color: ${bgColor}; 
         width: ${size}px; 
         height: ${size}px; 
@@ -143,6 +146,7 @@ const createEmergencyIcon = (totalNeeded: number, isSelected = false, isFulfille
         border: ${borderWidth}px solid white;
         box-shadow: 0 2px 4px rgba(0,0,0,0.3);
       ">
+        ${isAtRisk ? `<span class="animate-ping" style="position: absolute; inset: -6px; border-radius: 50%; border: 3px solid #ef4444;"></span>` : ""}
         ${isFulfilled ? "✓" : totalNeeded}
       </div>
     `,
@@ -158,6 +162,10 @@ interface MapProps {
   emergencies: EmergencyCall[]
   selectedEmergency: EmergencyCall | null
   selectedResource: EmergencyResource | null
+  /** Dispatches drawn as depot-to-call lines, e.g. up to the timeline position */
+  dispatchLines?: TimelineDispatch[]
+  /** Calls projected to be missed soon; their markers pulse */
+  atRiskCallIds?: Set<string>
   onLoad?: () => void
   onError?: (error: string) => void
 }
@@ -168,11 +176,15 @@ export default function Map({
   emergencies,
   selectedEmergency,
   selectedResource,
+  dispatchLines = [],
+  atRiskCallIds,
   onLoad,
   onError,
 }: MapProps) {
   const [clickedLocation, setClickedLocation] = useState<{ lat: number; lng: number } | null>(null)
   const [nearbyResources, setNearbyResources] = useState<EmergencyResource[]>([])
+  const { index: resourceIndex } = useResourceIndex(resources)
+  const { model: distanceModel } = useDistanceModel()
   const [isLoadingNearby, setIsLoadingNearby] = useState(false)
   const [clickedLocationName, setClickedLocationName] = useState<string | null>(null)
   const [visibleTypes, setVisibleTypes] = useState<Record<EmergencyType, boolean>>({
@@ -230,7 +242,7 @@ export default function Map({
         let minDistance = Number.MAX_VALUE
 
         locations.forEach((location) => {
-          const distance = calculateDistance(lat, lng, location.lat, location.long)
+          const distance = distanceModel.measure(lat, lng, location.lat, location.long)
           if (distance < minDistance) {
             minDistance = distance
             nearestLocation = location
@@ -240,13 +252,10 @@ export default function Map({
         if (nearestLocation) {
           setClickedLocationName(`${nearestLocation.name}, ${nearestLocation.county}`)
 
-          // Find resources near this location
-          const nearby = resources.filter((resource) => {
-            const distance = calculateDistance(resource.latitude, resource.longitude, lat, lng)
-            return distance < 0.5 // Arbitrary threshold, adjust as needed
-          })
+          // Find resources near this location, within the model's "Fair" rating distance
+          const nearby = resourceIndex.withinRadius(lat, lng, distanceModel.ratingTiers[2])
 
-          setNearbyResources(nearby)
+          setNearbyResources(nearby.map(({ resource }) => resource))
         } else {
           setClickedLocationName("Unknown location")
           setNearbyResources([])
@@ -258,7 +267,7 @@ export default function Map({
         setIsLoadingNearby(false)
       }
     },
-    [locations, resources],
+    [locations, resourceIndex, distanceModel],
   )
 
   const closeLocationInfo = useCallback(() => {
@@ -401,6 +410,10 @@ export default function Map({
           <div className="w-3 h-3 rounded-full bg-green-500 mr-2"></div>
           <span>Fulfilled Emergency</span>
         </div>
+        <div className="flex items-center mb-1">
+          <div className="w-3 h-3 rounded-full border-2 border-red-500 animate-pulse mr-2"></div>
+          <span>At Risk of Being Missed</span>
+        </div>
         {(Object.keys(EMERGENCY_TYPE_COLORS) as EmergencyType[]).map((type) => (
           <div key={type} className="flex items-center mb-1">
             <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: EMERGENCY_TYPE_COLORS[type] }}></div>
@@ -435,16 +448,12 @@ export default function Map({
         <MapClickHandler onLocationClick={handleLocationClick} />
 
         {/* Render resources by type */}
-        {filteredResources.map((resource, index) => {
-          const isSelected =
-            selectedResource &&
-            resource.city === selectedResource.city &&
-            resource.county === selectedResource.county &&
-            resource.type === selectedResource.type
+        {filteredResources.map((resource) => {
+          const isSelected = selectedResource?.id === resource.id
 
           return (
             <Marker
-              key={`res-${resource.city}-${resource.county}-${resource.type}-${index}`}
+              key={`res-${resource.id}`}
               position={[resource.latitude, resource.longitude]}
               icon={createResourceIcon(resource.type, resource.quantity, isSelected)}
               opacity={isSelected ? 1 : 0.8}
@@ -480,12 +489,14 @@ export default function Map({
                       <div className="text-xs text-gray-500 mb-1">Selected Emergency</div>
                       <div>
                         <strong>Distance:</strong>{" "}
-                        {calculateDistance(
-                          resource.latitude,
-                          resource.longitude,
-                          selectedEmergency.latitude,
-                          selectedEmergency.longitude,
-                        ).toFixed(2)}
+                        {distanceModel.format(
+                          distanceModel.measure(
+                            resource.latitude,
+                            resource.longitude,
+                            selectedEmergency.latitude,
+                            selectedEmergency.longitude,
+                          ),
+                        )}
                       </div>
                       {selectedEmergency.requests.some((req) => req.Type === resource.type) ? (
                         <div className="text-xs text-green-600 mt-1">This resource type is needed at the emergency</div>
@@ -512,11 +523,8 @@ export default function Map({
         })}
 
         {/* Render emergencies */}
-        {emergencies.map((emergency, index) => {
-          const isSelected =
-            selectedEmergency &&
-            emergency.city === selectedEmergency.city &&
-            emergency.county === selectedEmergency.county
+        {emergencies.map((emergency) => {
+          const isSelected = selectedEmergency?.id === emergency.id
 
           const totalNeeded = calculateTotalNeeded(emergency)
           const remaining = calculateRemaining(emergency)
@@ -525,9 +533,9 @@ export default function Map({
 
           return (
             <Marker
-              key={`emg-${emergency.city}-${emergency.county}-${index}`}
+              key={`emg-${emergency.id}`}
               position={[emergency.latitude, emergency.longitude]}
-              icon={createEmergencyIcon(remaining, isSelected, fulfilled)}
+              icon={createEmergencyIcon(remaining, isSelected, fulfilled, atRiskCallIds?.has(emergency.id))}
               opacity={isSelected ? 1 : fulfilled ? 0.8 : 0.9}
             >
               <Popup>
@@ -580,12 +588,14 @@ export default function Map({
                       </div>
                       <div className="mt-1">
                         <strong>Distance:</strong>{" "}
-                        {calculateDistance(
-                          selectedResource.latitude,
-                          selectedResource.longitude,
-                          emergency.latitude,
-                          emergency.longitude,
-                        ).toFixed(2)}
+                        {distanceModel.format(
+                          distanceModel.measure(
+                            selectedResource.latitude,
+                            selectedResource.longitude,
+                            emergency.latitude,
+                            emergency.longitude,
+                          ),
+                        )}
                       </div>
                     </div>
                   )}
@@ -606,6 +616,35 @@ export default function Map({
           )
         })}
 
+        {/* Render dispatch lines, dashed red where units were over-dispatched */}
+        {dispatchLines
+          .filter((dispatch) => visibleTypes[dispatch.type])
+          .map((dispatch, index) => (
+            <Polyline
+              key={`dispatch-${index}`}
+              positions={[
+                [dispatch.source.latitude, dispatch.source.longitude],
+                [dispatch.target.latitude, dispatch.target.longitude],
+              ]}
+              color={dispatch.excess > 0 ? "red" : EMERGENCY_TYPE_COLORS[dispatch.type]}
+              weight={Math.min(6, 1 + dispatch.quantity)}
+              opacity={0.6}
+              dashArray={dispatch.excess > 0 ? [4, 4] : undefined}
+            >
+              <Popup>
+                <div className="text-xs">
+                  <div className="font-medium">
+                    {dispatch.quantity} {dispatch.type} · {new Date(dispatch.at).toLocaleTimeString()}
+                  </div>
+                  <div>
+                    {dispatch.source.city} → {dispatch.target.city}, {dispatch.target.county}
+                  </div>
+                  {dispatch.excess > 0 && <div className="text-red-600">{dispatch.excess} unit(s) over-dispatched</div>}
+                </div>
+              </Popup>
+            </Polyline>
+          ))}
+
         {/* Render route line - only if both selectedResource and selectedEmergency are not null */}
         {selectedResource && selectedEmergency && (
           <Polyline
@@ -698,12 +737,14 @@ export default function Map({
                         <div className="mt-1 text-[10px] flex justify-between">
                           <span>Distance:</span>
                           <span className="font-medium">
-                            {calculateDistance(
-                              resource.latitude,
-                              resource.longitude,
-                              selectedEmergency.latitude,
-                              selectedEmergency.longitude,
-                            ).toFixed(2)}
+                            {distanceModel.format(
+                              distanceModel.measure(
+                                resource.latitude,
+                                resource.longitude,
+                                selectedEmergency.latitude,
+                                selectedEmergency.longitude,
+                              ),
+                            )}
                           </span>
                         </div>
                       )}
@@ -769,12 +810,14 @@ export default function Map({
                 </div>
                 <div className="mt-1 text-xs">
                   <strong>Distance:</strong>{" "}
-                  {calculateDistance(
-                    selectedResource.latitude,
-                    selectedResource.longitude,
-                    selectedEmergency.latitude,
-                    selectedEmergency.longitude,
-                  ).toFixed(2)}
+                  {distanceModel.format(
+                    distanceModel.measure(
+                      selectedResource.latitude,
+                      selectedResource.longitude,
+                      selectedEmergency.latitude,
+                      selectedEmergency.longitude,
+                    ),
+                  )}
                 </div>
 
                 {selectedEmergency.requests.some((req) => req.Type === selectedResource.type) ? (
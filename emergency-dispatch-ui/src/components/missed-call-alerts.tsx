@@ -0,0 +1,76 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { EmergencyCall } from "@/types"
+import type { MissForecast, MissThreshold } from "@/services/miss-forecast"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle } from "lucide-react"
+
+interface MissedCallAlertsProps {
+  /** At-risk calls, soonest expiry first */
+  atRisk: MissForecast[]
+  threshold: MissThreshold
+  selectedEmergency: EmergencyCall | null
+  onSelect: (emergency: EmergencyCall) => void
+}
+
+/**
+ * Formats a duration in milliseconds as "45s" or "2m 05s"
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return minutes > 0 ? `${minutes}m ${seconds.toString().padStart(2, "0")}s` : `${seconds}s`
+}
+
+export function MissedCallAlerts({ atRisk, threshold, selectedEmergency, onSelect }: MissedCallAlertsProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Queue and partial-service times move with the clock
+  useEffect(() => {
+    if (atRisk.length === 0) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [atRisk.length])
+
+  if (atRisk.length === 0) return null
+
+  return (
+    <div className="border border-red-300 bg-red-50 rounded-md px-3 py-2 flex items-center gap-3 overflow-hidden">
+      <div className="flex items-center text-red-700 shrink-0">
+        <AlertTriangle className="h-4 w-4 mr-2" />
+        <div>
+          <div className="text-sm font-semibold">{atRisk.length} call(s) at risk of being missed</div>
+          <div className="text-xs text-red-600">
+            Expiry after {threshold.newerCalls} newer calls
+            {threshold.learned ? ` (learned from ${threshold.observations} misses)` : " (scoring rules)"}
+          </div>
+        </div>
+      </div>
+      <div className="flex gap-2 overflow-x-auto">
+        {atRisk.map((forecast) => (
+          <Button
+            key={forecast.call.id}
+            variant={selectedEmergency?.id === forecast.call.id ? "default" : "outline"}
+            size="sm"
+            className="h-auto py-1 shrink-0 flex-col items-start border-red-300 text-left"
+            onClick={() => onSelect(forecast.call)}
+          >
+            <span className="font-medium">
+              {forecast.call.city}, {forecast.call.county}
+            </span>
+            <span className="text-xs font-normal">
+              {forecast.callsLeft === 0 ? "due to expire" : `missed in ${forecast.callsLeft} call(s)`}
+              {forecast.etaMs !== null && forecast.callsLeft > 0 && ` (~${formatDuration(forecast.etaMs)})`}
+            </span>
+            <span className="text-xs font-normal opacity-80">
+              queued {formatDuration(now - forecast.enteredAt)}
+              {forecast.partialSince !== null && ` · partly served ${formatDuration(now - forecast.partialSince)}`}
+            </span>
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -22,13 +22,21 @@ import {
   X,
   Sliders,
 } from "lucide-react"
-import { calculateDistance } from "@/utils/distance"
+import { rateDistance } from "@/utils/distance"
 import { dispatchResource } from "@/services/api"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { toast } from "sonner"
 import { Badge } from "@/components/ui/badge"
 import { logger } from "./logger"
+import { useResourceIndex } from "@/hooks/use-resource-index"
+import { useDistanceModel } from "@/hooks/use-distance-model"
+import { useCoverageRanking } from "@/hooks/use-coverage-ranking"
+import type { CoverageRanking } from "@/services/coverage-planner"
+import type { PlanExecutionResult } from "@/services/assignment-optimizer"
+import { executeSplitDispatch, planSplitDispatch, type SplitDispatchBatch } from "@/services/split-dispatch"
+import { OverDispatchError } from "@/services/dispatch-guard"
+import { useDispatchGuard } from "@/hooks/use-dispatch-guard"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -45,6 +53,9 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { fetchAvailableResources } from "@/services/api"
+import { dispatchOutbox } from "@/services/dispatch-outbox"
+import { tabCoordinator } from "@/services/tab-coordinator"
+import { useTabCoordination } from "@/hooks/use-tab-coordination"
 
 interface ResourcePanelProps {
   resources: EmergencyResource[]
@@ -52,29 +63,42 @@ interface ResourcePanelProps {
   selectedResource: EmergencyResource | null
   selectedEmergency: EmergencyCall | null
   onDispatchSuccess: (from: string, to: string, quantity: number, distance: number, type: EmergencyType) => void
+  /** Called after a "fulfil request" batch sent at least one dispatch */
+  onBatchDispatched?: (results: PlanExecutionResult[]) => void | Promise<void>
   setResources: React.Dispatch<React.SetStateAction<EmergencyResource[]>>
   setSelectedResource: React.Dispatch<React.SetStateAction<EmergencyResource | null>>
   setSuggestedResource: React.Dispatch<React.SetStateAction<EmergencyResource | null>>
   setSelectedEmergency: React.Dispatch<React.SetStateAction<EmergencyCall | null>>
+  /** Lists the depots without selecting or dispatching from them, e.g. while they show an earlier moment of the run */
+  readOnly?: boolean
 }
 
-type SortOption = "distance" | "quantity" | "name" | "county"
+type SortOption = "distance" | "reserve" | "quantity" | "name" | "county"
 type SortDirection = "asc" | "desc"
 
+// Depots listed in the nearest vs. coverage-aware comparison
+const COMPARED_DEPOTS = 3
+
 export function ResourcePanel({
   resources,
   onSelect,
   selectedResource,
   selectedEmergency,
   onDispatchSuccess,
+  onBatchDispatched,
   setResources,
   setSelectedResource,
   setSuggestedResource,
   setSelectedEmergency,
+  readOnly = false,
 }: ResourcePanelProps) {
   const [searchTerm, setSearchTerm] = useState("")
   const [dispatchQuantity, setDispatchQuantity] = useState(1)
   const [isDispatching, setIsDispatching] = useState(false)
+  const { lockedCallIds } = useTabCoordination()
+  // Last "fulfil request" batch, and the results of the one being sent
+  const [batch, setBatch] = useState<SplitDispatchBatch | null>(null)
+  const [batchProgress, setBatchProgress] = useState<PlanExecutionResult[]>([])
   const [localSuggestedResource, setLocalSuggestedResource] = useState<EmergencyResource | null>(null)
   const [dispatchError, setDispatchError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState<EmergencyType>("Medical")
@@ -90,6 +114,9 @@ export function ResourcePanel({
   const [availableOnly, setAvailableOnly] = useState(true)
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false)
   const [minQuantity, setMinQuantity] = useState(0)
+  const indexedResources = useResourceIndex(resources)
+  const { model: distanceModel } = useDistanceModel()
+  const guard = useDispatchGuard()
 
   // Calculate the remaining resources needed for the selected emergency by type
   const getRemainingNeededByType = useCallback(
@@ -103,54 +130,59 @@ export function ResourcePanel({
       // Get dispatched count for this type
       const dispatched = (selectedEmergency.dispatched as Record<EmergencyType, number>)?.[type] || 0
 
-      return Math.max(0, totalNeeded - dispatched)
+      // The guard also counts what other tabs and runs sent since the call was loaded, and dispatches in flight
+      const guarded = guard.getRemaining(selectedEmergency.id, type)
+      const remaining = Math.max(0, totalNeeded - dispatched)
+      return guarded === null ? remaining : Math.min(remaining, guarded)
     },
-    [selectedEmergency],
+    [selectedEmergency, guard],
   )
 
+  // Type to suggest a depot for: the active tab if the call needs it, else the call's first request
+  const priorityType = useMemo(() => {
+    const neededTypes = selectedEmergency?.requests.map((req) => req.Type) ?? []
+    return neededTypes.includes(activeTab) ? activeTab : neededTypes[0]
+  }, [selectedEmergency, activeTab])
+
+  // Depots ranked by distance now plus the distance the pick is expected to add to future calls
+  const coverageRanking = useCoverageRanking(selectedEmergency, priorityType ?? activeTab, resources)
+  const coverageById = useMemo(() => {
+    // Only meaningful for the depots listed, i.e. once the active tab shows the ranked type
+    if (priorityType !== activeTab) return new Map<string, CoverageRanking>()
+    return new Map(coverageRanking.map((ranked) => [ranked.resource.id, ranked]))
+  }, [coverageRanking, priorityType, activeTab])
+
+  // Cheapest depots covering the whole remaining need of the request shown in the active tab
+  const splitPlan = useMemo(() => {
+    if (!selectedEmergency || priorityType !== activeTab) return null
+    const remaining = getRemainingNeededByType(activeTab)
+    const plan = planSplitDispatch(selectedEmergency, activeTab, resources, distanceModel, remaining)
+    return plan.requested > 0 ? plan : null
+  }, [selectedEmergency, priorityType, activeTab, resources, distanceModel, getRemainingNeededByType])
+
   // Auto-suggest the best resource when an emergency is selected
   useEffect(() => {
     if (selectedEmergency && resources.length > 0) {
-      // Get the emergency types needed
-      const neededTypes = selectedEmergency.requests.map((req) => req.Type)
-
-      // If we have an active tab, prioritize that type
-      const priorityType = neededTypes.includes(activeTab) ? activeTab : neededTypes[0]
-
       if (priorityType) {
-        // Find resources of this type with available units
-        const availableResources = resources.filter((res) => res.type === priorityType && res.quantity > 0)
-
-        if (availableResources.length > 0) {
-          // Sort by distance to the emergency
-          const sorted = [...availableResources].sort((a, b) => {
-            const distA = calculateDistance(
-              a.latitude,
-              a.longitude,
-              selectedEmergency.latitude,
-              selectedEmergency.longitude,
-            )
-            const distB = calculateDistance(
-              b.latitude,
-              b.longitude,
-              selectedEmergency.latitude,
-              selectedEmergency.longitude,
-            )
-            return distA - distB
-          })
+        // Cheapest depot once future calls are accounted for, else the closest one with available units
+        const suggested =
+          coverageRanking[0]?.resource ??
+          indexedResources.index.nearest(priorityType, selectedEmergency.latitude, selectedEmergency.longitude, {
+            k: 1,
+          })[0]?.resource
 
-          // Suggest the closest resource
-          setLocalSuggestedResource(sorted[0])
+        if (suggested) {
+          // Suggest that resource
+          setLocalSuggestedResource(suggested)
 
           // Auto-select if no resource is currently selected
-          if (!selectedResource) {
-            onSelect(sorted[0])
+          if (!selectedResource && !readOnly) {
+            onSelect(suggested)
           }
 
           // Set default dispatch quantity based on remaining need
           const remaining = getRemainingNeededByType(priorityType)
           if (remaining > 0) {
-            const suggested = sorted[0]
             setDispatchQuantity(Math.min(remaining, suggested.quantity))
           }
 
@@ -166,7 +198,17 @@ export function ResourcePanel({
 
     // Clear any previous dispatch errors when selection changes
     setDispatchError(null)
-  }, [selectedEmergency, resources, selectedResource, onSelect, activeTab, getRemainingNeededByType])
+  }, [
+    selectedEmergency,
+    resources,
+    indexedResources,
+    selectedResource,
+    onSelect,
+    readOnly,
+    priorityType,
+    coverageRanking,
+    getRemainingNeededByType,
+  ])
 
   // Add this useEffect after the existing useEffect for auto-suggest
   useEffect(() => {
@@ -181,48 +223,51 @@ export function ResourcePanel({
 
   // Filter and sort resources
   const getFilteredResources = useCallback(() => {
-    return resources
-      .filter(
-        (resource) =>
-          // Match search term
-          (resource.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
-            resource.county.toLowerCase().includes(searchTerm.toLowerCase())) &&
-          // Match type filters
-          typeFilters[resource.type] &&
-          // Match active tab
-          resource.type === activeTab &&
-          // Filter by availability if enabled
-          (!availableOnly || resource.quantity > 0) &&
-          // Filter by minimum quantity
-          resource.quantity >= minQuantity,
-      )
-      .sort((a, b) => {
-        // Sort by selected option
-        if (sortBy === "distance" && selectedEmergency) {
-          const distA = calculateDistance(
-            a.latitude,
-            a.longitude,
-            selectedEmergency.latitude,
-            selectedEmergency.longitude,
-          )
-          const distB = calculateDistance(
-            b.latitude,
-            b.longitude,
-            selectedEmergency.latitude,
-            selectedEmergency.longitude,
-          )
-          return sortDirection === "asc" ? distA - distB : distB - distA
-        } else if (sortBy === "quantity") {
-          return sortDirection === "asc" ? a.quantity - b.quantity : b.quantity - a.quantity
-        } else if (sortBy === "name") {
-          return sortDirection === "asc" ? a.city.localeCompare(b.city) : b.city.localeCompare(a.city)
-        } else if (sortBy === "county") {
-          return sortDirection === "asc" ? a.county.localeCompare(b.county) : b.county.localeCompare(a.county)
-        }
-        return 0
-      })
+    const matches = (resource: EmergencyResource) =>
+      // Match search term
+      (resource.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        resource.county.toLowerCase().includes(searchTerm.toLowerCase())) &&
+      // Match type filters
+      typeFilters[resource.type] &&
+      // Match active tab
+      resource.type === activeTab &&
+      // Filter by availability if enabled
+      (!availableOnly || resource.quantity > 0) &&
+      // Filter by minimum quantity
+      resource.quantity >= minQuantity
+
+    // Distance ranking comes straight from the spatial index
+    if (sortBy === "distance" && selectedEmergency) {
+      const ranked = indexedResources.index
+        .nearest(activeTab, selectedEmergency.latitude, selectedEmergency.longitude, {
+          minQuantity: 0,
+          accept: matches,
+        })
+        .map(({ resource }) => resource)
+      return sortDirection === "asc" ? ranked : ranked.reverse()
+    }
+
+    // Depots without units have no coverage cost and go last
+    if (sortBy === "reserve" && selectedEmergency && coverageById.size > 0) {
+      const ranked = [...coverageById.values()].map(({ resource }) => resource).filter(matches)
+      const unranked = resources.filter((resource) => matches(resource) && !coverageById.has(resource.id))
+      return [...(sortDirection === "asc" ? ranked : ranked.reverse()), ...unranked]
+    }
+
+    return resources.filter(matches).sort((a, b) => {
+      // Sort by selected option
+      if (sortBy === "quantity") {
+        return sortDirection === "asc" ? a.quantity - b.quantity : b.quantity - a.quantity
+      } else if (sortBy === "name") {
+        return sortDirection === "asc" ? a.city.localeCompare(b.city) : b.city.localeCompare(a.city)
+      } else if (sortBy === "county") {
+        return sortDirection === "asc" ? a.county.localeCompare(b.county) : b.county.localeCompare(a.county)
+      }
+      return 0
+    })
   }, [
     resources,
+    indexedResources,
     searchTerm,
     typeFilters,
     activeTab,
@@ -231,10 +276,34 @@ export function ResourcePanel({
     sortBy,
     sortDirection,
     selectedEmergency,
+    coverageById,
   ])
 
   const filteredResources = getFilteredResources()
 
+  // Plain distance ranking of the same depots, to compare with the coverage-aware one
+  const nearestRanking = useMemo(
+    () => [...coverageRanking].sort((a, b) => a.distance - b.distance).slice(0, COMPARED_DEPOTS),
+    [coverageRanking],
+  )
+
+  // Queue the selected dispatch in the outbox, to be revalidated and sent when the API is back
+  const handleQueue = () => {
+    if (!selectedResource || !selectedEmergency || dispatchQuantity <= 0) return
+
+    dispatchOutbox.enqueue(selectedResource.type, {
+      sourceCounty: selectedResource.county,
+      sourceCity: selectedResource.city,
+      targetCounty: selectedEmergency.county,
+      targetCity: selectedEmergency.city,
+      quantity: dispatchQuantity,
+    })
+    setDispatchError(null)
+    toast.info("Dispatch Queued", {
+      description: `${dispatchQuantity} ${selectedResource.type.toLowerCase()} unit(s) to ${selectedEmergency.city} will be sent when the API is back`,
+    })
+  }
+
   // Update the handleDispatch function inside the ResourcePanel component to add better error handling:
 
   const handleDispatch = async () => {
@@ -245,12 +314,19 @@ export function ResourcePanel({
 
     // Clear any previous errors
     setDispatchError(null)
+    setIsDispatching(true)
 
-    try {
-      setIsDispatching(true)
+    // Hold the call while dispatching, so another dashboard tab cannot dispatch to it at the same time
+    const callId = selectedEmergency.id
+    if (!(await tabCoordinator.lockCall(callId))) {
+      setDispatchError("Another dashboard tab is dispatching to this call")
+      setIsDispatching(false)
+      return
+    }
 
-      // Calculate distance for tracking
-      const distance = calculateDistance(
+    try {
+      // Calculate distance for tracking, in the selected model's unit
+      const distance = distanceModel.measure(
         selectedResource.latitude,
         selectedResource.longitude,
         selectedEmergency.latitude,
@@ -272,9 +348,7 @@ export function ResourcePanel({
       // This helps prevent over-dispatching due to race conditions with the API
       try {
         const availableResources = await fetchAvailableResources(selectedResource.type)
-        const currentResource = availableResources.find(
-          (res) => res.city === selectedResource.city && res.county === selectedResource.county,
-        )
+        const currentResource = availableResources.find((res) => res.id === selectedResource.id)
 
         // If resource no longer exists or has less quantity than we're trying to dispatch
         if (!currentResource || currentResource.quantity < dispatchQuantity) {
@@ -337,7 +411,11 @@ export function ResourcePanel({
 
       let errorMessage = `Failed to dispatch ${selectedResource.type.toLowerCase()} resource. Please try again.`
 
-      if (error instanceof Error) {
+      if (error instanceof OverDispatchError) {
+        // Refused before it was sent: the call does not need that many units
+        errorMessage = error.message
+        setDispatchError(errorMessage)
+      } else if (error instanceof Error) {
         // Extract more specific error details if available
         if (error.message.includes("no longer available") || error.message.includes("units available")) {
           // Use our custom validation error message directly
@@ -360,17 +438,73 @@ export function ResourcePanel({
         setDispatchError(errorMessage)
       }
 
-      // Show error toast
+      // Show error toast; unless the dispatch was refused as invalid, offer to queue it for later
+      const rejected =
+        error instanceof OverDispatchError ||
+        errorMessage.includes("no longer available") ||
+        errorMessage.includes("units available")
       toast.error("Dispatch Failed", {
         description: errorMessage,
+        action: rejected ? undefined : { label: "Queue", onClick: handleQueue },
       })
     } finally {
       setIsDispatching(false)
+      tabCoordinator.unlockCall(callId)
+    }
+  }
+
+  // Send the whole remaining need of the request from as many depots as it takes
+  const handleFulfil = async () => {
+    if (!selectedEmergency || !splitPlan) return
+
+    const call = selectedEmergency
+    const { type } = splitPlan
+    setDispatchError(null)
+    setBatch(null)
+    setBatchProgress([])
+    setIsDispatching(true)
+
+    if (!(await tabCoordinator.lockCall(call.id))) {
+      setDispatchError("Another dashboard tab is dispatching to this call")
+      setIsDispatching(false)
+      return
+    }
+
+    try {
+      // Plan again from fresh stock, so the batch starts from what the depots hold now
+      let inventory = resources
+      try {
+        inventory = await fetchAvailableResources(type)
+      } catch (error) {
+        logger.warn("Failed to refresh inventory before split dispatch", { error })
+      }
+
+      // Read the need at send time: the guard counts what other tabs and runs sent since the preview
+      const plan = planSplitDispatch(call, type, inventory, distanceModel, getRemainingNeededByType(type))
+      const sent = await executeSplitDispatch(plan, inventory, distanceModel, (result) =>
+        setBatchProgress((prev) => [...prev, result]),
+      )
+      setBatch(sent)
+
+      const summary = `${sent.sent} of ${sent.requested} ${type.toLowerCase()} unit(s) sent to ${call.city}`
+      if (sent.state === "completed") {
+        toast.success("Request Fulfilled", { description: summary })
+      } else {
+        toast.error(sent.state === "partial" ? "Request Partially Fulfilled" : "Request Not Fulfilled", {
+          description: sent.reason ? `${summary}. ${sent.reason}` : summary,
+        })
+      }
+
+      if (sent.sent > 0) await onBatchDispatched?.(sent.results)
+    } finally {
+      setIsDispatching(false)
+      tabCoordinator.unlockCall(call.id)
     }
   }
 
   const canDispatch = useCallback(() => {
     if (!selectedResource || !selectedEmergency) return false
+    if (lockedCallIds.has(selectedEmergency.id)) return false
     if (dispatchQuantity <= 0) return false
     if (dispatchQuantity > selectedResource.quantity) return false
 
@@ -383,39 +517,36 @@ export function ResourcePanel({
     if (!needsThisType) return false
 
     return true
-  }, [selectedResource, selectedEmergency, dispatchQuantity, getRemainingNeededByType])
+  }, [selectedResource, selectedEmergency, dispatchQuantity, getRemainingNeededByType, lockedCallIds])
 
   // Calculate distance between selected resource and emergency
   const selectedDistance = useMemo(() => {
     if (!selectedResource || !selectedEmergency) return 0
 
-    return calculateDistance(
+    return distanceModel.measure(
       selectedResource.latitude,
       selectedResource.longitude,
       selectedEmergency.latitude,
       selectedEmergency.longitude,
     )
-  }, [selectedResource, selectedEmergency])
+  }, [selectedResource, selectedEmergency, distanceModel])
 
   // Get resource rating based on distance and availability
   const getResourceRating = useCallback(
     (resource: EmergencyResource) => {
       if (!selectedEmergency) return null
 
-      const distance = calculateDistance(
+      const distance = distanceModel.measure(
         resource.latitude,
         resource.longitude,
         selectedEmergency.latitude,
         selectedEmergency.longitude,
       )
 
-      // Simple rating algorithm: closer is better, more available units is better
-      if (distance < 0.1) return "Excellent"
-      if (distance < 0.3) return "Good"
-      if (distance < 0.5) return "Fair"
-      return "Poor"
+      // Closer is better; the tiers are expressed in the selected model's unit
+      return rateDistance(distanceModel, distance)
     },
-    [selectedEmergency],
+    [selectedEmergency, distanceModel],
   )
 
   // Get color for rating
@@ -608,6 +739,7 @@ export function ResourcePanel({
                   <DropdownMenuSubContent>
                     <DropdownMenuRadioGroup value={sortBy} onValueChange={(value) => setSortBy(value as SortOption)}>
                       <DropdownMenuRadioItem value="distance">Distance</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="reserve">Distance + reserve</DropdownMenuRadioItem>
                       <DropdownMenuRadioItem value="quantity">Quantity</DropdownMenuRadioItem>
                       <DropdownMenuRadioItem value="name">City Name</DropdownMenuRadioItem>
                       <DropdownMenuRadioItem value="county">County</DropdownMenuRadioItem>
@@ -709,27 +841,41 @@ export function ResourcePanel({
           </div>
         )}
 
+        {selectedEmergency && coverageById.size > 0 && (
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="rounded-md border p-2">
+              <div className="font-medium mb-1">Nearest</div>
+              {nearestRanking.map((ranked) => (
+                <div key={ranked.resource.id} className="flex justify-between">
+                  <span className="truncate mr-2">{ranked.resource.city}</span>
+                  <span>{distanceModel.format(ranked.distance)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="rounded-md border p-2" title="Distance now plus the distance the pick adds to future calls">
+              <div className="font-medium mb-1">Keeps coverage</div>
+              {coverageRanking.slice(0, COMPARED_DEPOTS).map((ranked) => (
+                <div key={ranked.resource.id} className="flex justify-between">
+                  <span className="truncate mr-2">{ranked.resource.city}</span>
+                  <span>{distanceModel.format(ranked.total)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <ScrollArea className="h-[200px]">
           {filteredResources.length === 0 ? (
             <div className="p-4 text-center text-gray-500">No {activeTab.toLowerCase()} resources available</div>
           ) : (
             <div className="space-y-1">
-              {filteredResources.map((resource, index) => {
-                const isSelected =
-                  selectedResource &&
-                  resource.city === selectedResource.city &&
-                  resource.county === selectedResource.county &&
-                  resource.type === selectedResource.type
-
-                const isSuggested =
-                  localSuggestedResource &&
-                  resource.city === localSuggestedResource.city &&
-                  resource.county === localSuggestedResource.county &&
-                  resource.type === localSuggestedResource.type
+              {filteredResources.map((resource) => {
+                const isSelected = selectedResource?.id === resource.id
+                const isSuggested = localSuggestedResource?.id === resource.id
 
                 let distance = 0
                 if (selectedEmergency) {
-                  distance = calculateDistance(
+                  distance = distanceModel.measure(
                     resource.latitude,
                     resource.longitude,
                     selectedEmergency.latitude,
@@ -739,13 +885,14 @@ export function ResourcePanel({
 
                 const rating = getResourceRating(resource)
                 const typeColor = EMERGENCY_TYPE_COLORS[resource.type]
+                const coverage = coverageById.get(resource.id)
 
                 return (
                   <Button
-                    key={`${resource.city}-${resource.county}-${resource.type}-${index}`}
+                    key={resource.id}
                     variant={isSelected ? "default" : "outline"}
                     className={`w-full justify-start h-auto py-2 text-left ${isSuggested && !isSelected ? `border-${typeColor} bg-${typeColor}/10` : ""}`}
-                    onClick={() => onSelect(resource)}
+                    onClick={() => !readOnly && onSelect(resource)}
                     disabled={resource.quantity <= 0}
                     style={
                       isSuggested && !isSelected ? { borderColor: typeColor, backgroundColor: `${typeColor}10` } : {}
@@ -761,11 +908,18 @@ export function ResourcePanel({
                             </span>
                           )}
                         </span>
-                        {rating && selectedEmergency && (
-                          <Badge variant="outline" className={`text-xs ${getRatingColor(rating)}`}>
-                            {rating}
-                          </Badge>
-                        )}
+                        <span className="flex gap-1">
+                          {coverage?.leavesUncovered && (
+                            <Badge variant="outline" className="text-xs bg-red-100 text-red-800 border-red-300">
+                              Leaves area uncovered
+                            </Badge>
+                          )}
+                          {rating && selectedEmergency && (
+                            <Badge variant="outline" className={`text-xs ${getRatingColor(rating)}`}>
+                              {rating}
+                            </Badge>
+                          )}
+                        </span>
                       </div>
                       <div className="text-sm text-muted-foreground flex justify-between">
                         <span>
@@ -778,7 +932,13 @@ export function ResourcePanel({
                         </span>
                         {selectedEmergency && (
                           <span>
-                            Distance: <span className="font-semibold">{distance.toFixed(2)}</span>
+                            Distance: <span className="font-semibold">{distanceModel.format(distance)}</span>
+                            {coverage && coverage.futureCost > 0 && (
+                              <span title="Distance per unit this pick is expected to add to future calls">
+                                {" "}
+                                + reserve {distanceModel.format(coverage.futureCost)}
+                              </span>
+                            )}
                           </span>
                         )}
                       </div>
@@ -790,7 +950,7 @@ export function ResourcePanel({
           )}
         </ScrollArea>
 
-        {selectedEmergency && selectedResource && (
+        {selectedEmergency && selectedResource && !readOnly && (
           <div className="border rounded-md p-3 bg-gray-50">
             <div className="flex items-center justify-between mb-2">
               <div className="text-sm font-medium">{selectedResource.city}</div>
@@ -801,7 +961,7 @@ export function ResourcePanel({
             <div className="text-sm mb-2">
               <div className="flex justify-between">
                 <span>
-                  Distance: <span className="font-semibold">{selectedDistance.toFixed(2)}</span>
+                  Distance: <span className="font-semibold">{distanceModel.format(selectedDistance)}</span>
                 </span>
                 <span>
                   {selectedResource.type} Needed:{" "}
@@ -811,7 +971,7 @@ export function ResourcePanel({
               {dispatchQuantity > 1 && (
                 <div className="mt-1">
                   Total distance:{" "}
-                  <span className="font-semibold">{(selectedDistance * dispatchQuantity).toFixed(2)}</span>
+                  <span className="font-semibold">{distanceModel.format(selectedDistance * dispatchQuantity)}</span>
                 </div>
               )}
             </div>
@@ -849,6 +1009,8 @@ export function ResourcePanel({
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Dispatching...
                   </>
+                ) : lockedCallIds.has(selectedEmergency.id) ? (
+                  "Dispatching from another tab..."
                 ) : getRemainingNeededByType(selectedResource.type) <= 0 ? (
                   <>
                     <CheckCircle2 className="mr-2 h-4 w-4" />
@@ -858,7 +1020,86 @@ export function ResourcePanel({
                   `Dispatch ${selectedResource.type}`
                 )}
               </Button>
+
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleQueue}
+                disabled={dispatchQuantity <= 0 || isDispatching}
+                aria-label={`Queue ${selectedResource.type} dispatch for later`}
+              >
+                Queue for when the API is back
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {selectedEmergency && splitPlan && !readOnly && (
+          <div className="border rounded-md p-3 space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">
+                Fulfil {splitPlan.requested} {splitPlan.type} unit(s)
+              </span>
+              <span>
+                Total distance: <span className="font-semibold">{distanceModel.format(splitPlan.totalDistance)}</span>
+              </span>
+            </div>
+            <div className="text-xs text-muted-foreground space-y-0.5">
+              {splitPlan.legs.map((leg) => (
+                <div key={leg.source.id} className="flex justify-between">
+                  <span>
+                    {leg.quantity} from {leg.source.city}, {leg.source.county}
+                  </span>
+                  <span>{distanceModel.format(leg.distance)}</span>
+                </div>
+              ))}
+              {splitPlan.unmet > 0 && (
+                <div className="text-red-600">No depot has the other {splitPlan.unmet} unit(s)</div>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleFulfil}
+              disabled={isDispatching || splitPlan.legs.length === 0 || lockedCallIds.has(selectedEmergency.id)}
+              aria-label={`Fulfil ${splitPlan.type} request`}
+            >
+              {isDispatching && batchProgress.length > 0 ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sent {batchProgress.filter((result) => result.success).length} of {splitPlan.legs.length}...
+                </>
+              ) : (
+                `Fulfil request from ${splitPlan.legs.length} depot(s)`
+              )}
+            </Button>
+          </div>
+        )}
+
+        {batch && (
+          <div className="border rounded-md p-3 space-y-1 text-xs">
+            <div className="flex justify-between items-center text-sm">
+              <span className="font-medium">
+                {batch.sent} of {batch.requested} {batch.type} unit(s) sent to {batch.call.city}
+              </span>
+              <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setBatch(null)}>
+                <X className="h-4 w-4" />
+              </Button>
             </div>
+            {batch.results.map((result, index) => (
+              <div
+                key={index}
+                className={`flex justify-between ${result.success ? "text-green-700" : "text-red-600"}`}
+                title={result.error}
+              >
+                <span>
+                  {result.dispatch.quantity} from {result.dispatch.source.city}
+                  {result.success ? "" : ` failed: ${result.error}`}
+                </span>
+                {result.success && <span>{distanceModel.format(result.dispatch.distance)}</span>}
+              </div>
+            ))}
+            {batch.reason && <div className="text-muted-foreground">{batch.reason}</div>}
           </div>
         )}
       </CardContent>
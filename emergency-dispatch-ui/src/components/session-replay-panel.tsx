@@ -0,0 +1,188 @@
+"use client"
+
+import { useEffect, useRef, useState, type ChangeEvent } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Circle, FileVideo, Play, Square, Upload } from "lucide-react"
+import { toast } from "sonner"
+import type { SessionRecording } from "@/types"
+import { sessionRecorder } from "@/services/session-recorder"
+import { parseSessionRecording, sessionReplay } from "@/services/session-replay"
+import { logger } from "./logger"
+
+const REPLAY_SPEEDS = [1, 2, 5, 10]
+
+interface SessionReplayPanelProps {
+  onReplayStart: () => void | Promise<void>
+  onReplayStop: () => void | Promise<void>
+}
+
+/**
+ * Formats milliseconds as MM:SS
+ */
+function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  return `${Math.floor(totalSeconds / 60)
+    .toString()
+    .padStart(2, "0")}:${(totalSeconds % 60).toString().padStart(2, "0")}`
+}
+
+/**
+ * Saves a recording as a JSON file
+ */
+function downloadRecording(recording: SessionRecording) {
+  const blob = new Blob([JSON.stringify(recording)], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `dispatch-session-${new Date(recording.startedAt).toISOString().replace(/[:.]/g, "-")}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function SessionReplayPanel({ onReplayStart, onReplayStop }: SessionReplayPanelProps) {
+  const [, setRevision] = useState(0)
+  const [loaded, setLoaded] = useState<{ name: string; recording: SessionRecording } | null>(null)
+  const [speed, setSpeed] = useState(1)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  // Re-render on recorder and replay updates
+  useEffect(() => {
+    const refresh = () => setRevision((revision) => revision + 1)
+    const unsubscribeRecorder = sessionRecorder.subscribe(refresh)
+    const unsubscribeReplay = sessionReplay.subscribe(refresh)
+    return () => {
+      unsubscribeRecorder()
+      unsubscribeReplay()
+    }
+  }, [])
+
+  const isRecording = sessionRecorder.isRecording()
+  const progress = sessionReplay.getProgress()
+
+  const handleStopRecording = () => {
+    const recording = sessionRecorder.stop()
+    if (!recording) return
+
+    downloadRecording(recording)
+    toast.success("Recording Saved", {
+      description: `${recording.exchanges.length} API exchange(s) captured`,
+    })
+  }
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      setLoaded({ name: file.name, recording: parseSessionRecording(await file.text()) })
+    } catch (error) {
+      logger.error("Failed to load session recording", { error, file: file.name })
+      toast.error("Invalid Recording", {
+        description: error instanceof Error ? error.message : "Could not read the replay file.",
+      })
+    }
+  }
+
+  const handleStartReplay = async () => {
+    if (!loaded) return
+
+    if (isRecording) sessionRecorder.stop()
+    sessionReplay.start(loaded.recording, speed)
+    await onReplayStart()
+  }
+
+  const handleStopReplay = async () => {
+    sessionReplay.stop()
+    await onReplayStop()
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center">
+            <FileVideo className="h-5 w-5 mr-2 text-blue-500" />
+            Session Replay
+          </span>
+          {isRecording ? (
+            <Button variant="outline" size="sm" className="h-8" onClick={handleStopRecording}>
+              <Square className="h-4 w-4 mr-1 text-red-500" />
+              Stop ({sessionRecorder.getExchangeCount()})
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={() => sessionRecorder.start()}
+              disabled={progress !== null}
+            >
+              <Circle className="h-4 w-4 mr-1 fill-red-500 text-red-500" />
+              Record
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input ref={inputRef} type="file" accept=".json" className="hidden" onChange={handleFile} />
+
+        {progress ? (
+          <>
+            <div className="flex items-center justify-between text-sm">
+              <Badge variant="outline" className="bg-blue-50 text-blue-700">
+                Replaying {progress.speed}×
+              </Badge>
+              <span className="text-gray-500">
+                {formatClock(progress.elapsed)} / {formatClock(progress.duration)}
+              </span>
+            </div>
+            <Progress value={(progress.elapsed / Math.max(1, progress.duration)) * 100} className="h-2" />
+            <Button variant="destructive" className="w-full" onClick={handleStopReplay}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop Replay
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-1" />
+                Load
+              </Button>
+              <span className="text-xs text-gray-500 truncate">
+                {loaded
+                  ? `${loaded.name} · ${loaded.recording.exchanges.length} exchanges · ${formatClock(
+                      loaded.recording.endedAt - loaded.recording.startedAt,
+                    )}`
+                  : "Record a session or load a replay file for a post-mortem."}
+              </span>
+            </div>
+
+            {loaded && (
+              <div className="flex gap-2">
+                {REPLAY_SPEEDS.map((option) => (
+                  <Button
+                    key={option}
+                    variant={speed === option ? "default" : "outline"}
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => setSpeed(option)}
+                  >
+                    {option}×
+                  </Button>
+                ))}
+                <Button size="sm" className="flex-1" onClick={handleStartReplay}>
+                  <Play className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
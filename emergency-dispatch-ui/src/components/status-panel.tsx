@@ -1,21 +1,26 @@
 "use client"
 
 import { useEffect, useState, useCallback, useRef } from "react"
-import type { ControlStatus } from "@/types"
+import type { ControlStatus, ScoreProjection } from "@/types"
 import { Card, CardContent } from "@/components/ui/card"
-import { Loader2, AlertTriangle, RefreshCw, Clock, Activity } from "lucide-react"
+import { Loader2, AlertTriangle, RefreshCw, Clock, Activity, Target } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { fetchControlStatus } from "@/services/api"
+import { liveUpdates } from "@/services/live-updates"
+import { useLiveUpdates } from "@/hooks/use-live-updates"
 import { logger } from "./logger"
 import { Progress } from "@/components/ui/progress"
 
 interface StatusPanelProps {
   status: ControlStatus | null
+  projection?: ScoreProjection
+  // Travelled distance formatted in the selected distance model's unit
+  distanceLabel?: string
   isLoading: boolean
   error: string | null
 }
 
-export function StatusPanel({ status, isLoading, error }: StatusPanelProps) {
+export function StatusPanel({ status, projection, distanceLabel, isLoading, error }: StatusPanelProps) {
   const [localStatus, setLocalStatus] = useState<ControlStatus | null>(status)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date())
@@ -33,6 +38,14 @@ export function StatusPanel({ status, isLoading, error }: StatusPanelProps) {
     }
   }, [status])
 
+  // Take pushed status deltas; polling below only runs while the stream is down
+  const { streaming } = useLiveUpdates((event) => {
+    const liveStatus = liveUpdates.getStatus()
+    if (event.kind !== "status" || !liveStatus) return
+    setLocalStatus(liveStatus)
+    setLastUpdated(new Date())
+  })
+
   // Function to refresh status
   const refreshStatus = useCallback(async () => {
     try {
@@ -62,8 +75,8 @@ export function StatusPanel({ status, isLoading, error }: StatusPanelProps) {
       refreshTimerRef.current = null
     }
 
-    // Only set up auto-refresh if enabled and we have a running simulation
-    if (autoRefresh && localStatus?.status === "Running") {
+    // Only set up auto-refresh if enabled, not streaming and we have a running simulation
+    if (autoRefresh && !streaming && localStatus?.status === "Running") {
       // Set initial countdown
       setRefreshCountdown(updateInterval / 1000)
 
@@ -87,7 +100,7 @@ export function StatusPanel({ status, isLoading, error }: StatusPanelProps) {
         clearInterval(countdownTimer)
       }
     }
-  }, [autoRefresh, localStatus?.status, updateInterval, refreshStatus])
+  }, [autoRefresh, streaming, localStatus?.status, updateInterval, refreshStatus])
 
   // Manual refresh function
   const handleRefresh = async () => {
@@ -164,7 +177,9 @@ export function StatusPanel({ status, isLoading, error }: StatusPanelProps) {
           <div className="flex items-center gap-2">
             <div className="flex items-center text-xs text-gray-500">
               <Clock className="h-3 w-3 mr-1" />
-              <span>{autoRefresh ? `Auto-refresh in ${refreshCountdown}s` : "Auto-refresh off"}</span>
+              <span>
+                {streaming ? "Live" : autoRefresh ? `Auto-refresh in ${refreshCountdown}s` : "Auto-refresh off"}
+              </span>
             </div>
             <Button
               variant="outline"
@@ -222,7 +237,7 @@ export function StatusPanel({ status, isLoading, error }: StatusPanelProps) {
 
           <div className="bg-gray-50 p-3 rounded-md">
             <div className="text-sm text-gray-500">Distance</div>
-            <div className="font-medium">{localStatus.distance.toFixed(2)}</div>
+            <div className="font-medium">{distanceLabel ?? localStatus.distance.toFixed(2)}</div>
           </div>
 
           <div className="bg-gray-50 p-3 rounded-md">
@@ -243,6 +258,46 @@ export function StatusPanel({ status, isLoading, error }: StatusPanelProps) {
           </div>
         </div>
 
+        {projection && projection.local.totalDispatches > 0 && (
+          <div className="mt-4 bg-blue-50 p-3 rounded-md">
+            <div className="flex justify-between items-center">
+              <div className="text-sm text-gray-500 flex items-center">
+                <Target className="h-4 w-4 mr-1 text-blue-500" />
+                Projected Final Score
+                {projection.assumptions.length > 0 && (
+                  <span className="ml-1" title={`Assumed locally: ${projection.assumptions.join("; ")}`}>
+                    (estimate)
+                  </span>
+                )}
+              </div>
+              <div className="font-medium">{projection.projectedScore.toFixed(2)}</div>
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-gray-500">
+              <span>Current: {projection.currentScore.toFixed(2)}</span>
+              <span>At risk: {projection.atRiskPenalty} penalty</span>
+              {!projection.complete && <span>Partial log</span>}
+            </div>
+            {projection.assumptions.length > 0 && (
+              <div className="mt-1 text-xs text-gray-500">
+                The server does not publish its scoring rules. Assumed: {projection.assumptions.join("; ")}
+              </div>
+            )}
+            {projection.mismatches.length > 0 && (
+              <div className="mt-2 text-xs text-amber-700">
+                <div className="flex items-center font-medium">
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  Local score differs from server
+                </div>
+                <ul className="mt-1 list-disc list-inside">
+                  {projection.mismatches.map((mismatch) => (
+                    <li key={mismatch}>{mismatch}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
         {showDetails && (
           <div className="mt-4 pt-4 border-t border-gray-200">
             <h4 className="text-sm font-medium mb-2">Refresh Settings</h4>
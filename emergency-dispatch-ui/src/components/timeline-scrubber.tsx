@@ -0,0 +1,83 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Slider } from "@/components/ui/slider"
+import { History, Radio } from "lucide-react"
+import type { TimelineSnapshot } from "@/services/run-timeline"
+
+interface TimelineScrubberProps {
+  /** Recorded time range of the run, null before any event */
+  range: { start: number; end: number } | null
+  /** Selected moment, or null when following the live state */
+  value: number | null
+  snapshot: TimelineSnapshot | null
+  onChange: (at: number | null) => void
+}
+
+/**
+ * Formats the offset of a moment from the start of the run as MM:SS
+ */
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  return `${Math.floor(totalSeconds / 60)
+    .toString()
+    .padStart(2, "0")}:${(totalSeconds % 60).toString().padStart(2, "0")}`
+}
+
+export function TimelineScrubber({ range, value, snapshot, onChange }: TimelineScrubberProps) {
+  if (!range) {
+    return (
+      <div className="flex items-center gap-2 px-3 py-2 text-xs text-gray-500 border rounded-md bg-white">
+        <History className="h-4 w-4" />
+        The timeline fills as calls and dispatches happen.
+      </div>
+    )
+  }
+
+  const position = value ?? range.end
+
+  // Dragging to the end of the timeline returns to the live view
+  const handleChange = ([at]: number[]) => onChange(at >= range.end ? null : at)
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2 border rounded-md bg-white">
+      <History className="h-4 w-4 text-gray-500 shrink-0" />
+      <Slider
+        min={range.start}
+        max={Math.max(range.end, range.start + 1)}
+        step={100}
+        value={[position]}
+        onValueChange={handleChange}
+        className="flex-1"
+      />
+      <span className="text-xs font-mono text-gray-600 w-24 text-right shrink-0">
+        {formatOffset(position - range.start)} / {formatOffset(range.end - range.start)}
+      </span>
+      {snapshot && (
+        <div className="flex items-center gap-1 shrink-0">
+          <Badge variant="outline">{snapshot.dispatches.length} dispatches</Badge>
+          {snapshot.missed.length > 0 && (
+            <Badge variant="outline" className="bg-red-50 text-red-700">
+              {snapshot.missed.length} missed
+            </Badge>
+          )}
+          {!snapshot.complete && (
+            <Badge variant="outline" className="bg-yellow-50 text-yellow-700" title="The run started before this page loaded">
+              partial
+            </Badge>
+          )}
+        </div>
+      )}
+      <Button
+        variant={value === null ? "default" : "outline"}
+        size="sm"
+        className="h-7 shrink-0"
+        onClick={() => onChange(null)}
+      >
+        <Radio className="h-3 w-3 mr-1" />
+        Live
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { EmergencyCall, EmergencyResource, EmergencyType } from "@/types"
+import { callDensity, rankByCoverage } from "@/services/coverage-planner"
+import { useDistanceModel } from "./use-distance-model"
+
+/**
+ * Ranks the depots of a type for a call by distance now plus expected future cost
+ *
+ * @returns Stocked depots, cheapest total first; empty without a call
+ */
+export function useCoverageRanking(call: EmergencyCall | null, type: EmergencyType, resources: EmergencyResource[]) {
+  const [densityVersion, setDensityVersion] = useState(0)
+  const { model } = useDistanceModel()
+
+  useEffect(() => callDensity.subscribe(() => setDensityVersion((prev) => prev + 1)), [])
+
+  // The density changes in place, so pair it with its version to rank again when it does
+  const density = useMemo(() => ({ current: callDensity, version: densityVersion }), [densityVersion])
+
+  return useMemo(
+    () => (call ? rankByCoverage(call, type, resources, model, density.current) : []),
+    [call, type, resources, model, density],
+  )
+}
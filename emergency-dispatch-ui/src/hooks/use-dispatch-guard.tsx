@@ -0,0 +1,26 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { EmergencyType } from "@/types"
+import { dispatchGuard } from "@/services/dispatch-guard"
+
+/**
+ * Follows the dispatch guard's per-call ledger
+ *
+ * @returns Units of a type a call still needs per the ledger, null for calls it does not know
+ */
+export function useDispatchGuard() {
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => dispatchGuard.subscribe(() => setVersion((prev) => prev + 1)), [])
+
+  // The guard changes in place, so pair it with its version to read it again when it does
+  const guard = useMemo(() => ({ current: dispatchGuard, version }), [version])
+
+  return useMemo(
+    () => ({
+      getRemaining: (callId: string, type: EmergencyType) => guard.current.getRemaining(callId, type),
+    }),
+    [guard],
+  )
+}
@@ -0,0 +1,17 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getDistanceModel, setDistanceModel, subscribeToDistanceModel } from "@/services/distance-model"
+import { DEFAULT_DISTANCE_MODEL, DISTANCE_MODELS } from "@/utils/distance"
+
+export function useDistanceModel() {
+  // Start from the default so server and client render the same markup
+  const [model, setModel] = useState(DISTANCE_MODELS[DEFAULT_DISTANCE_MODEL])
+
+  useEffect(() => {
+    setModel(getDistanceModel())
+    return subscribeToDistanceModel(setModel)
+  }, [])
+
+  return { model, setModel: setDistanceModel }
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  DEFAULT_ENVIRONMENT_PROFILE,
+  ENVIRONMENT_PROFILES,
+  getEnvironmentProfile,
+  getEnvironmentProfiles,
+  resetEnvironmentProfile,
+  selectEnvironmentProfile,
+  subscribeToEnvironmentProfile,
+  updateEnvironmentProfile,
+} from "@/services/environment-profile"
+
+export function useEnvironmentProfile() {
+  // Start from the defaults so server and client render the same markup
+  const [profile, setProfile] = useState(ENVIRONMENT_PROFILES[DEFAULT_ENVIRONMENT_PROFILE])
+  const [profiles, setProfiles] = useState(() => Object.values(ENVIRONMENT_PROFILES))
+
+  useEffect(() => {
+    const update = () => {
+      setProfile(getEnvironmentProfile())
+      setProfiles(getEnvironmentProfiles())
+    }
+
+    update()
+    return subscribeToEnvironmentProfile(update)
+  }, [])
+
+  return {
+    profile,
+    profiles,
+    selectProfile: selectEnvironmentProfile,
+    updateProfile: updateEnvironmentProfile,
+    resetProfile: resetEnvironmentProfile,
+  }
+}
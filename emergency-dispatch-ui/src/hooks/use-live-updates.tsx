@@ -0,0 +1,33 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { LiveEvent, LiveStreamState } from "@/types"
+import { liveUpdates } from "@/services/live-updates"
+
+/**
+ * Follows the live event stream
+ *
+ * @param onEvent - Called with each pushed event; may change between renders
+ * @returns The stream state, and whether panels may stop polling
+ */
+export function useLiveUpdates(onEvent?: (event: LiveEvent) => void) {
+  const [state, setState] = useState<LiveStreamState>("down")
+  const onEventRef = useRef(onEvent)
+
+  useEffect(() => {
+    onEventRef.current = onEvent
+  })
+
+  useEffect(() => {
+    const unsubscribeState = liveUpdates.subscribeToState(setState)
+    const unsubscribe = liveUpdates.subscribe((event) => onEventRef.current?.(event))
+    setState(liveUpdates.getState())
+
+    return () => {
+      unsubscribe()
+      unsubscribeState()
+    }
+  }, [])
+
+  return { state, streaming: state === "open" && liveUpdates.isStreaming() }
+}
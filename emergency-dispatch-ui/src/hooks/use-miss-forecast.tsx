@@ -0,0 +1,45 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { ControlStatus, EmergencyCall } from "@/types"
+import { missForecaster } from "@/services/miss-forecast"
+
+/**
+ * Tracks the queue and projects which calls are about to be missed
+ *
+ * @param calls - Live open calls, oldest first
+ * @param status - Latest /control/status payload, if any
+ * @returns Forecasts soonest expiry first, the at-risk ones, and the expiry threshold in use
+ */
+export function useMissForecast(calls: EmergencyCall[], status: ControlStatus | null) {
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    const release = missForecaster.start()
+    const unsubscribe = missForecaster.subscribe(() => setVersion((prev) => prev + 1))
+    return () => {
+      unsubscribe()
+      release()
+    }
+  }, [])
+
+  useEffect(() => {
+    missForecaster.observeQueue(calls)
+  }, [calls])
+
+  useEffect(() => {
+    if (status) missForecaster.observeStatus(status)
+  }, [status])
+
+  // The forecaster changes in place, so pair it with its version to forecast again when it does
+  const forecaster = useMemo(() => ({ current: missForecaster, version }), [version])
+
+  return useMemo(() => {
+    const forecasts = forecaster.current.forecast(calls)
+    return {
+      forecasts,
+      atRisk: forecasts.filter((forecast) => forecast.atRisk),
+      threshold: forecaster.current.getThreshold(),
+    }
+  }, [calls, forecaster])
+}
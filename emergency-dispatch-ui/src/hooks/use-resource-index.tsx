@@ -0,0 +1,36 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { EmergencyResource } from "@/types"
+import { resourceIndex } from "@/services/resource-index"
+import { useDistanceModel } from "./use-distance-model"
+
+/**
+ * Keeps the shared resource index in sync with a resource list and the selected distance model
+ *
+ * @returns The index and its version, as an object that changes identity whenever the index does
+ */
+export function useResourceIndex(resources: EmergencyResource[]) {
+  const [version, setVersion] = useState(0)
+  const { model } = useDistanceModel()
+
+  useEffect(() => {
+    const release = resourceIndex.start()
+    const unsubscribe = resourceIndex.subscribe(() => setVersion((prev) => prev + 1))
+
+    return () => {
+      unsubscribe()
+      release()
+    }
+  }, [])
+
+  useEffect(() => {
+    resourceIndex.setDistanceModel(model)
+  }, [model])
+
+  useEffect(() => {
+    resourceIndex.sync(resources)
+  }, [resources])
+
+  return useMemo(() => ({ index: resourceIndex, version }), [version])
+}
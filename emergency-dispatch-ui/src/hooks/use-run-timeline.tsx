@@ -0,0 +1,35 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { ControlStatus } from "@/types"
+import { reconstructRunAt, runTimeline, type TimelineEvent } from "@/services/run-timeline"
+
+/**
+ * Records the run's API events and rebuilds the dashboard state at a moment of the run
+ *
+ * @param at - Moment to rebuild in epoch milliseconds, or null to follow the live state
+ * @param base - Latest /control/status, for fields the events do not carry
+ * @returns The recorded time range and the snapshot at `at` (null when live)
+ */
+export function useRunTimeline(at: number | null, base: ControlStatus | null) {
+  const [events, setEvents] = useState<TimelineEvent[]>(() => runTimeline.getEvents())
+
+  useEffect(() => {
+    const release = runTimeline.start()
+    const unsubscribe = runTimeline.subscribe(() => setEvents(runTimeline.getEvents()))
+
+    return () => {
+      unsubscribe()
+      release()
+    }
+  }, [])
+
+  const range = useMemo(
+    () => (events.length > 0 ? { start: events[0].at, end: events[events.length - 1].at } : null),
+    [events],
+  )
+
+  const snapshot = useMemo(() => (at === null ? null : reconstructRunAt(events, at, base)), [events, at, base])
+
+  return { range, snapshot }
+}
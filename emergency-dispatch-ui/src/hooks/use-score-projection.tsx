@@ -0,0 +1,26 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { ControlStatus, ScoreProjection } from "@/types"
+import { scoringSession } from "@/services/scoring-session"
+
+export function useScoreProjection(status: ControlStatus | null) {
+  const [projection, setProjection] = useState<ScoreProjection>(() => scoringSession.getProjection(status))
+
+  // Score API events for as long as the component is mounted
+  useEffect(() => scoringSession.start(), [])
+
+  // Penalty values the server's totals determine replace the assumed ones
+  useEffect(() => {
+    if (status) scoringSession.observeStatus(status)
+  }, [status])
+
+  useEffect(() => {
+    const update = () => setProjection(scoringSession.getProjection(status))
+
+    update()
+    return scoringSession.subscribe(update)
+  }, [status])
+
+  return projection
+}
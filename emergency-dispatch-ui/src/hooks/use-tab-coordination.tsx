@@ -0,0 +1,43 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { TabUpdate } from "@/types"
+import { tabCoordinator } from "@/services/tab-coordinator"
+
+/**
+ * Joins the other dashboard tabs of this browser
+ *
+ * @param onUpdate - Called with each update another tab shares; may change between renders
+ * @returns Whether this tab leads, how many tabs are open and the calls other tabs are dispatching to
+ */
+export function useTabCoordination(onUpdate?: (update: TabUpdate) => void) {
+  const [isLeader, setIsLeader] = useState(true)
+  const [tabCount, setTabCount] = useState(1)
+  const [lockedCallIds, setLockedCallIds] = useState<Set<string>>(() => new Set())
+  const onUpdateRef = useRef(onUpdate)
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate
+  })
+
+  useEffect(() => {
+    const update = () => {
+      setIsLeader(tabCoordinator.isLeader())
+      setTabCount(tabCoordinator.getTabCount())
+      setLockedCallIds(tabCoordinator.getLockedCallIds())
+    }
+
+    const release = tabCoordinator.retain()
+    const unsubscribe = tabCoordinator.subscribe(update)
+    const unsubscribeUpdates = tabCoordinator.subscribeToUpdates((received) => onUpdateRef.current?.(received))
+    update()
+
+    return () => {
+      unsubscribeUpdates()
+      unsubscribe()
+      release()
+    }
+  }, [])
+
+  return { isLeader, tabCount, lockedCallIds }
+}
@@ -0,0 +1,17 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getTriageRules, setTriageRules, subscribeToTriageRules } from "@/services/triage-settings"
+import { DEFAULT_TRIAGE_RULES } from "@/services/triage"
+
+export function useTriageRules() {
+  // Start from the defaults so server and client render the same markup
+  const [rules, setRules] = useState(DEFAULT_TRIAGE_RULES)
+
+  useEffect(() => {
+    setRules(getTriageRules())
+    return subscribeToTriageRules(setRules)
+  }, [])
+
+  return { rules, setRules: setTriageRules, resetRules: () => setTriageRules(DEFAULT_TRIAGE_RULES) }
+}
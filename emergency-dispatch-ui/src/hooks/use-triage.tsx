@@ -0,0 +1,37 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { EmergencyCall, EmergencyResource } from "@/types"
+import { scoringSession } from "@/services/scoring-session"
+import { createScoringRules } from "@/services/scoring"
+import { triageCalls } from "@/services/triage"
+import { useDistanceModel } from "./use-distance-model"
+import { useTriageRules } from "./use-triage-rules"
+
+/**
+ * Ranks the open calls with the current triage rules
+ *
+ * @param calls - Open calls, oldest first
+ * @param resources - Available units of every type
+ * @param maxActiveCalls - Active call limit of the run, used until the scoring session has seen it start
+ * @returns Every call, most pressing first
+ */
+export function useTriage(calls: EmergencyCall[], resources: EmergencyResource[], maxActiveCalls?: number) {
+  const { model } = useDistanceModel()
+  const { rules } = useTriageRules()
+  const [ages, setAges] = useState<ReturnType<typeof scoringSession.getCallAges>>(null)
+
+  useEffect(() => {
+    setAges(scoringSession.getCallAges())
+    return scoringSession.subscribe(() => setAges(scoringSession.getCallAges()))
+  }, [])
+
+  return useMemo(
+    () =>
+      triageCalls(calls, resources, model, rules, {
+        callLifetime: ages?.callLifetime ?? createScoringRules(maxActiveCalls ?? calls.length).callLifetime,
+        newerCalls: ages?.newerCalls,
+      }),
+    [calls, resources, model, rules, ages, maxActiveCalls],
+  )
+}
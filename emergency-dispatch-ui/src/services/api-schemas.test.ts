@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it } from "vitest"
+import { validate } from "@/utils/schema"
+import { fetchLocations, setApiTransport, setStrictValidation } from "./api"
+import { ControlStatusSchema, EmergencyCallListSchema, EmergencyResourceListSchema } from "./api-schemas"
+
+const dej = {
+  city: "Dej",
+  county: "Cluj",
+  latitude: 47.14,
+  longitude: 23.87,
+  requests: [{ Type: "Fire", Quantity: 2 }],
+}
+
+const status = {
+  status: "Running",
+  runningTime: "00:00:10",
+  seed: "seed",
+  requestCount: 3,
+  maxActiveCalls: 10,
+  totalDispatches: 4,
+  targetDispatches: 100,
+  distance: 12.5,
+  penalty: 0,
+  httpRequests: 20,
+  emulatorVersion: 1,
+  signature: "ts-emulator-1",
+  checksum: "0000abcd",
+  errors: { missed: 0, overDispatched: 0 },
+}
+
+describe("API schemas", () => {
+  it("accept well-formed payloads as they are", () => {
+    expect(validate(EmergencyCallListSchema, [dej])).toEqual({ value: [dej], issues: [] })
+    expect(validate(ControlStatusSchema, status)).toEqual({ value: status, issues: [] })
+  })
+
+  it("drop calls and requests that cannot be patched", () => {
+    const { value, issues } = validate(EmergencyCallListSchema, [
+      { ...dej, city: undefined },
+      { ...dej, requests: [{ Type: "Flood", Quantity: 1 }, ...dej.requests] },
+    ])
+
+    expect(value).toEqual([dej])
+    expect(issues.map((issue) => [issue.path, issue.patched])).toEqual([
+      ["[0].city", true],
+      ["[1].requests[0].Type", true],
+    ])
+  })
+
+  it("patch bad coordinates and quantities with their fallbacks", () => {
+    const { value, issues } = validate(EmergencyResourceListSchema, [
+      { county: "Cluj", city: "Turda", latitude: "north", longitude: 23.78, quantity: -2 },
+    ])
+
+    expect(value).toEqual([{ county: "Cluj", city: "Turda", latitude: 45.9443, longitude: 23.78, quantity: 0 }])
+    expect(issues.every((issue) => issue.patched)).toBe(true)
+  })
+
+  it("leave a status with missing totals unpatched, so strict mode rejects it", () => {
+    const { issues } = validate(ControlStatusSchema, { ...status, errors: { ...status.errors, missed: undefined } })
+
+    expect(issues).toMatchObject([{ path: "errors.missed", patched: false }])
+    expect(validate(ControlStatusSchema, { ...status, httpRequests: undefined }).value.httpRequests).toBe(0)
+  })
+})
+
+describe("strict validation", () => {
+  const bad = [{ name: "Dej", county: "Cluj", lat: "north", long: 23.87 }]
+
+  afterEach(() => {
+    setStrictValidation(false)
+    setApiTransport(null)
+  })
+
+  it("patches payloads in lenient mode and rejects them in strict mode", async () => {
+    setApiTransport(async () => new Response(JSON.stringify(bad), { headers: { "Content-Type": "application/json" } }))
+
+    setStrictValidation(false)
+    expect(await fetchLocations()).toEqual([{ ...bad[0], lat: 45.9443 }])
+
+    setStrictValidation(true)
+    expect(await fetchLocations()).toEqual([])
+  })
+})
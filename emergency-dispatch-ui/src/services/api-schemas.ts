@@ -0,0 +1,107 @@
+/**
+ * API Schemas
+ *
+ * Declarative schemas of the payloads returned by the main API and the
+ * auto-dispatch service. Each API function checks its own response against
+ * one of these. Fallbacks keep the
+ * previous lenient behaviour (unknown coordinates fall back to Romania's
+ * centre, bad quantities to 0) for when strict validation is off; entries
+ * of lists that cannot be patched are dropped.
+ */
+import type {
+  ControlStatus,
+  EmergencyCallPayload,
+  EmergencyRequest,
+  EmergencyResource,
+  EmergencyType,
+  Location,
+  SimulationStatus,
+} from "@/types"
+import { array, number, object, oneOf, string, withFallback, type Schema } from "@/utils/schema"
+
+const EMERGENCY_TYPES: EmergencyType[] = ["Medical", "Police", "Fire", "Rescue", "Utility"]
+
+// Centre of Romania, used when a payload carries unusable coordinates
+const DEFAULT_COORDINATES = { latitude: 45.9443, longitude: 25.0094 }
+
+const latitude = withFallback(number({ min: -90, max: 90 }), DEFAULT_COORDINATES.latitude)
+const longitude = withFallback(number({ min: -180, max: 180 }), DEFAULT_COORDINATES.longitude)
+const quantity = withFallback(number({ min: 0, integer: true }), 0)
+
+export const LocationSchema: Schema<Location> = object<Location>({
+  name: string({ nonEmpty: true }),
+  county: string({ nonEmpty: true }),
+  lat: latitude,
+  long: longitude,
+})
+
+const EmergencyRequestSchema = object<EmergencyRequest>({
+  Type: oneOf(EMERGENCY_TYPES),
+  Quantity: quantity,
+})
+
+/**
+ * Call as returned by /calls/next and /calls/queue; an id, if the server sends one, is kept as it is
+ */
+export const EmergencyCallSchema = object<Omit<EmergencyCallPayload, "dispatched">>({
+  city: string({ nonEmpty: true }),
+  county: string({ nonEmpty: true }),
+  latitude,
+  longitude,
+  requests: withFallback(array(EmergencyRequestSchema, { dropInvalid: true }), []),
+}) as Schema<EmergencyCallPayload>
+
+/**
+ * Depot as returned by /{type}/search; the type and, unless the server sends one, the id are added by the client
+ */
+export const EmergencyResourceSchema = object<Omit<EmergencyResource, "type" | "id">>({
+  county: string({ nonEmpty: true }),
+  city: string({ nonEmpty: true }),
+  latitude,
+  longitude,
+  quantity,
+})
+
+export const ControlStatusSchema: Schema<ControlStatus> = object<ControlStatus>({
+  status: string(),
+  runningTime: string(),
+  seed: string(),
+  requestCount: number({ min: 0 }),
+  maxActiveCalls: number({ min: 0 }),
+  totalDispatches: number({ min: 0 }),
+  targetDispatches: number({ min: 0 }),
+  distance: number({ min: 0 }),
+  penalty: number({ min: 0 }),
+  httpRequests: withFallback(number({ min: 0 }), 0),
+  emulatorVersion: withFallback(number(), 0),
+  signature: withFallback(string(), ""),
+  checksum: withFallback(string(), ""),
+  errors: object<ControlStatus["errors"]>({
+    missed: number({ min: 0 }),
+    overDispatched: number({ min: 0 }),
+  }),
+})
+
+/**
+ * Schema of the auto-dispatch service's /simulate/status
+ */
+export const SimulationStatusSchema: Schema<SimulationStatus> = object<SimulationStatus>({
+  status: string(),
+  params: object<SimulationStatus["params"]>({
+    api_url: withFallback(string(), ""),
+    seed: string(),
+    targetDispatches: number({ min: 0 }),
+    maxActiveCalls: number({ min: 0 }),
+  }),
+  stats: object<SimulationStatus["stats"]>({
+    totalDispatches: number({ min: 0 }),
+    distance: number({ min: 0 }),
+    runningTime: withFallback(string(), "00:00:00"),
+    requestCount: withFallback(number({ min: 0 }), 0),
+  }),
+})
+
+// Lists skip entries that cannot be patched rather than failing as a whole
+export const LocationListSchema = array(LocationSchema, { dropInvalid: true })
+export const EmergencyCallListSchema = array(EmergencyCallSchema, { dropInvalid: true })
+export const EmergencyResourceListSchema = array(EmergencyResourceSchema, { dropInvalid: true })
@@ -9,33 +9,271 @@ import type {
   ControlStatus,
   DispatchRequest,
   EmergencyCall,
+  EmergencyCallPayload,
   EmergencyResource,
   EmergencyType,
   Location,
   SimulationConfig,
   ApiError,
   ApiResponse,
+  ApiEvent,
+  ApiExchange,
+  ApiTransport,
+  EnvironmentProfile,
   HealthStatus,
   ResourceAvailability,
 } from "@/types"
-
-// API configuration
+import { formatSchemaIssues, SchemaValidationError, validate, type Schema } from "@/utils/schema"
+import {
+  ControlStatusSchema,
+  EmergencyCallListSchema,
+  EmergencyCallSchema,
+  EmergencyResourceListSchema,
+  LocationListSchema,
+} from "./api-schemas"
+import { dispatchEmulator } from "./emulator/dispatch-emulator"
+import { createEmulatorTransport } from "./emulator/transport"
+import { circuitBreakers, getEndpointKey } from "./circuit-breaker"
+import { isReadOnlyRequest, requestCoordinator } from "./request-coordinator"
+import { createIdempotencyKey, dispatchLedger } from "./dispatch-ledger"
+import { dispatchGuard } from "./dispatch-guard"
+import { IDEMPOTENCY_HEADER, sendIdempotentDispatch } from "./idempotent-dispatch"
+import { callIdentities, identifyResource } from "./entity-ids"
+import { getEnvironmentProfile, subscribeToEnvironmentProfile, updateEnvironmentProfile } from "./environment-profile"
+
+// API configuration; base URLs, timeouts and retries come from the active environment profile
 const API_CONFIG = {
-  MAIN_API_URL: "http://localhost:5000",
-  AUTO_DISPATCH_API_URL: "http://localhost:8000",
-  DEFAULT_TIMEOUT: 15000, // Increased from 10 seconds to 15 seconds
-  MAX_RETRIES: 3,
-  RETRY_DELAY_BASE: 750, // Increased base delay to 750ms
+  // Cap of the exponential retry backoff
+  MAX_RETRY_DELAY: 5000,
+  // Dispatches fail fast if the server is unresponsive
+  DISPATCH_TIMEOUT: 8000,
+  // Age after which the dispatch guard reads the queue again before checking a dispatch
+  GUARD_MAX_AGE: 2000,
+  HEALTH_CHECK_TIMEOUT: 5000,
+  // Reject payloads that violate their schema instead of patching them
+  STRICT_VALIDATION: process.env.NEXT_PUBLIC_STRICT_API_VALIDATION === "true",
 }
 
+const networkTransport: ApiTransport = (input, init) => fetch(input, init)
+
 /**
- * Generic API request handler with comprehensive error handling and retry logic
+ * Transport for a profile: the emulator serves its main API, or requests go over the network
+ */
+function createProfileTransport(profile: EnvironmentProfile): ApiTransport {
+  return profile.useEmulator
+    ? createEmulatorTransport(dispatchEmulator, profile.mainApiUrl, networkTransport)
+    : networkTransport
+}
+
+// Transport installed by the active profile, replaced when the profile changes
+let profileTransport = createProfileTransport(getEnvironmentProfile())
+
+// Transport used for every backend request
+let transport: ApiTransport = profileTransport
+
+subscribeToEnvironmentProfile((profile) => {
+  // Leave custom transports (replays, tests) in place until they are removed
+  const followsProfile = transport === profileTransport
+  profileTransport = createProfileTransport(profile)
+  if (followsProfile) transport = profileTransport
+})
+
+/**
+ * Replaces the transport used for backend requests
+ *
+ * @param next - The transport to use, or null to restore the network transport
+ */
+export function setApiTransport(next: ApiTransport | null): void {
+  transport = next ?? profileTransport
+  logger.info("API transport changed", { custom: next !== null })
+}
+
+/**
+ * Points main API requests of the active profile at a different server
+ *
+ * @param url - Base URL of the main API, e.g. http://localhost:5000
+ */
+export function setMainApiUrl(url: string): void {
+  updateEnvironmentProfile(getEnvironmentProfile().id, { mainApiUrl: url })
+}
+
+/**
+ * Enables or disables strict validation of API payloads
+ *
+ * @param enabled - Whether payloads violating their schema are rejected instead of patched
+ */
+export function setStrictValidation(enabled: boolean): void {
+  API_CONFIG.STRICT_VALIDATION = enabled
+  logger.info("Strict API validation changed", { enabled })
+}
+
+export function isStrictValidation(): boolean {
+  return API_CONFIG.STRICT_VALIDATION
+}
+
+/**
+ * Returns the transport currently used for backend requests
+ */
+export function getApiTransport(): ApiTransport {
+  return transport
+}
+
+/**
+ * Whether backend requests currently go over the network, i.e. no emulator or custom transport is installed
+ */
+export function isUsingNetworkTransport(): boolean {
+  return transport === networkTransport
+}
+
+/**
+ * Enables or disables the in-process emulator for the main API
+ *
+ * @param enabled - Whether MAIN_API_URL should be served by the emulator
+ */
+export function enableApiEmulator(enabled: boolean): void {
+  setApiTransport(
+    enabled ? createEmulatorTransport(dispatchEmulator, getEnvironmentProfile().mainApiUrl, networkTransport) : null,
+  )
+}
+
+// Listeners notified after successful state-changing or state-revealing requests
+const apiEventListeners = new Set<(event: ApiEvent) => void>()
+
+/**
+ * Subscribes to API events (resets, new calls, resource snapshots, dispatches)
+ *
+ * @param listener - Called with each event, in request completion order
+ * @returns Function that removes the listener
+ */
+export function subscribeToApiEvents(listener: (event: ApiEvent) => void): () => void {
+  apiEventListeners.add(listener)
+  return () => {
+    apiEventListeners.delete(listener)
+  }
+}
+
+/**
+ * Notifies all listeners; a failing listener never breaks the request that triggered it
+ */
+function emitApiEvent(event: ApiEvent): void {
+  apiEventListeners.forEach((listener) => {
+    try {
+      listener(event)
+    } catch (error) {
+      logger.warn("API event listener failed", { error, kind: event.kind })
+    }
+  })
+}
+
+// The dispatch ledger follows depot stock through the API's own events
+subscribeToApiEvents((event) => dispatchLedger.observe(event))
+subscribeToApiEvents((event) => callIdentities.observe(event))
+subscribeToApiEvents((event) => dispatchGuard.observe(event))
+
+// Observers of raw request/response pairs, e.g. the session recorder
+const apiExchangeObservers = new Set<(exchange: ApiExchange) => void>()
+
+/**
+ * Observes every request made through apiRequest together with its raw response
+ *
+ * @param observer - Called once per attempt, including failed ones
+ * @returns Function that removes the observer
+ */
+export function observeApiExchanges(observer: (exchange: ApiExchange) => void): () => void {
+  apiExchangeObservers.add(observer)
+  return () => {
+    apiExchangeObservers.delete(observer)
+  }
+}
+
+function notifyApiExchange(exchange: ApiExchange): void {
+  apiExchangeObservers.forEach((observer) => {
+    try {
+      observer(exchange)
+    } catch (error) {
+      logger.warn("API exchange observer failed", { error, url: exchange.url })
+    }
+  })
+}
+
+/**
+ * Sends a request through the active transport, reporting the exchange to observers
+ */
+async function sendRequest(url: string, init: RequestInit): Promise<Response> {
+  if (apiExchangeObservers.size === 0) {
+    return transport(url, init)
+  }
+
+  const timestamp = Date.now()
+  const request = {
+    timestamp,
+    method: init.method || "GET",
+    url,
+    requestBody: typeof init.body === "string" ? init.body : undefined,
+  }
+
+  try {
+    const response = await transport(url, init)
+    notifyApiExchange({
+      ...request,
+      duration: Date.now() - timestamp,
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get("content-type"),
+      responseBody: await response.clone().text(),
+    })
+    return response
+  } catch (error) {
+    notifyApiExchange({
+      ...request,
+      duration: Date.now() - timestamp,
+      status: 0,
+      statusText: "",
+      contentType: null,
+      responseBody: "",
+      error: error instanceof Error ? error.message : String(error),
+    })
+    throw error
+  }
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date
+ *
+ * @returns The delay in milliseconds, or null if absent or unreadable
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Exponential backoff with jitter: half the delay is fixed, half random, so
+ * clients that failed together do not retry together
+ */
+function getBackoffDelay(baseDelay: number, attempt: number): number {
+  const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), API_CONFIG.MAX_RETRY_DELAY)
+  return Math.round(delay / 2 + Math.random() * (delay / 2))
+}
+
+/**
+ * Generic API request handler
+ *
+ * Read-only GETs go through the request coordinator, which coalesces
+ * identical reads in flight and supersedes them once a request that changes
+ * state completes, so an older response never overwrites newer state. Every
+ * send of a read takes a dispatch guard checkpoint, returned with its response.
  *
  * @param url - The API endpoint URL
  * @param method - HTTP method (GET, POST, etc.)
  * @param body - Optional request body
  * @param options - Additional request options
- * @param retries - Number of retry attempts
+ * @param retries - Number of attempts (default: the active profile's)
  * @returns Promise resolving to the API response
  * @throws ApiError with detailed information about the failure
  */
@@ -44,31 +282,46 @@ async function apiRequest<T>(
   method = "GET",
   body?: any,
   options: RequestInit = {},
-  retries = API_CONFIG.MAX_RETRIES,
+  retries = getEnvironmentProfile().maxRetries,
 ): Promise<ApiResponse<T>> {
-  let lastError: Error | null = null
-  const startTime = performance.now()
-
-  // Create a controller for timeout handling
-  const controller = new AbortController()
-  const timeoutId = setTimeout(() => {
-    controller.abort("Request timeout")
-  }, options.timeout || API_CONFIG.DEFAULT_TIMEOUT)
-
-  // Merge options with defaults
-  const requestOptions: RequestInit = {
-    method,
-    headers: {
-      "Content-Type": "application/json",
-      ...options.headers,
-    },
-    signal: controller.signal,
-    ...options,
+  if (isReadOnlyRequest(method, url)) {
+    return requestCoordinator.read(`${method} ${url}`, async (signal) => {
+      // Taken per send, so callers joining a shared read get the checkpoint of the send that answered them
+      const checkpoint = dispatchGuard.checkpoint()
+      return { ...(await executeRequest<T>(url, method, body, options, retries, signal)), checkpoint }
+    })
   }
 
-  if (body) {
-    requestOptions.body = JSON.stringify(body)
+  try {
+    return await executeRequest<T>(url, method, body, options, retries)
+  } finally {
+    requestCoordinator.invalidate()
   }
+}
+
+/**
+ * Sends a request with comprehensive error handling and retry logic
+ *
+ * Requests pass through a per-endpoint circuit breaker: while an endpoint's
+ * circuit is open, requests fail fast without reaching the server.
+ *
+ * @param signal - Cancels the request, e.g. when the coordinator supersedes it
+ * @throws ApiError with detailed information about the failure, with category "circuit_open" when refused by the breaker
+ */
+async function executeRequest<T>(
+  url: string,
+  method: string,
+  body: unknown,
+  options: RequestInit,
+  retries: number,
+  signal?: AbortSignal,
+): Promise<ApiResponse<T>> {
+  let lastError: Error | null = null
+  let lastStatus: number | null = null
+  const startTime = performance.now()
+  const profile = getEnvironmentProfile()
+  const timeout = options.timeout || profile.timeoutMs
+  const endpoint = getEndpointKey(method, url)
 
   // Log the request
   logger.debug(`API Request: ${method} ${url}`, {
@@ -78,12 +331,54 @@ async function apiRequest<T>(
   })
 
   for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      // Clear previous timeout if this is a retry
-      if (attempt > 1) {
-        clearTimeout(timeoutId)
+    // Cancelled while waiting to retry
+    if (signal?.aborted) break
+
+    // Fail fast while the endpoint's circuit is open
+    const blockedUntil = circuitBreakers.acquire(endpoint)
+    if (blockedUntil !== null) {
+      const retryAfterMs = Math.max(0, blockedUntil - Date.now())
+      const apiError: ApiError = {
+        name: "ApiError",
+        message: `Circuit open for ${endpoint}: retry in ${Math.ceil(retryAfterMs / 1000)}s`,
+        url,
+        method,
+        retries: attempt - 1,
+        originalError: lastError ?? undefined,
+        category: "circuit_open",
+        retryAfterMs,
       }
+      throw apiError
+    }
 
+    // Each attempt gets its own timeout, and follows the caller's cancellation
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => {
+      controller.abort("Request timeout")
+    }, timeout)
+    const cancel = () => controller.abort(signal?.reason)
+    signal?.addEventListener("abort", cancel, { once: true })
+
+    // Merge options with defaults; headers are merged and the signal is always this attempt's
+    const requestOptions: RequestInit = {
+      ...options,
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...options.headers,
+      },
+      signal: controller.signal,
+    }
+
+    if (body) {
+      requestOptions.body = JSON.stringify(body)
+    }
+
+    // Status of this attempt's response, null if none arrived
+    let status: number | null = null
+    let retryAfterMs: number | null = null
+
+    try {
       // Add a more detailed logging for retry attempts
       if (attempt > 1) {
         logger.info(`Retry attempt ${attempt}/${retries} for ${method} ${url}`, {
@@ -91,8 +386,10 @@ async function apiRequest<T>(
         })
       }
 
-      const response = await fetch(url, requestOptions)
+      const response = await sendRequest(url, requestOptions)
       const responseTime = performance.now() - startTime
+      status = response.status
+      lastStatus = status
 
       // Log the response
       logger.debug(`API Response: ${response.status} ${method} ${url}`, {
@@ -106,6 +403,7 @@ async function apiRequest<T>(
 
       // Handle different response status codes
       if (!response.ok) {
+        retryAfterMs = parseRetryAfter(response.headers.get("retry-after"))
         let errorData: any = {}
         let errorMessage = `API error (${response.status}): ${response.statusText}`
 
@@ -131,9 +429,6 @@ async function apiRequest<T>(
 
       if (contentType && contentType.includes("application/json")) {
         data = await response.json()
-
-        // Validate the data here (handle -1 or null values)
-        data = validateApiResponse(data, url)
       } else {
         // Return an empty object for empty responses
         data = {} as T
@@ -141,6 +436,8 @@ async function apiRequest<T>(
 
       // Clear the timeout
       clearTimeout(timeoutId)
+      signal?.removeEventListener("abort", cancel)
+      circuitBreakers.recordSuccess(endpoint)
 
       return {
         data,
@@ -150,34 +447,42 @@ async function apiRequest<T>(
       }
     } catch (error: any) {
       lastError = error instanceof Error ? error : new Error(String(error))
+      clearTimeout(timeoutId)
+      signal?.removeEventListener("abort", cancel)
+
+      // A cancelled request says nothing about the server: no retry, no breaker outcome
+      if (signal?.aborted) {
+        circuitBreakers.release(endpoint)
+        break
+      }
 
       // Check if this was a timeout
       if (error.name === "AbortError") {
         logger.warn(`API Request timeout: ${method} ${url}`, {
-          timeout: options.timeout || API_CONFIG.DEFAULT_TIMEOUT,
+          timeout,
           attempt,
         })
-        lastError = new Error(`Request timeout after ${options.timeout || API_CONFIG.DEFAULT_TIMEOUT}ms`)
+        lastError = new Error(`Request timeout after ${timeout}ms`)
       } else {
         logger.error(`API Request failed: ${method} ${url}`, {
           error: lastError.message,
+          status,
           attempt,
           willRetry: attempt < retries,
         })
       }
 
-      // Clear the timeout if it exists
-      clearTimeout(timeoutId)
-
-      // Only retry on network errors, timeouts, or 5xx server errors
-      const shouldRetry =
-        error.name === "AbortError" ||
-        lastError.message.includes("fetch failed") ||
-        lastError.message.includes("API error (5")
+      // Network errors, timeouts, 5xx and 429 are transient; other errors mean the server is up
+      const isTransient = status === null || status >= 500 || status === 429
+      if (isTransient) {
+        circuitBreakers.recordFailure(endpoint, lastError.message, retryAfterMs)
+      } else {
+        circuitBreakers.recordSuccess(endpoint)
+      }
 
-      if (shouldRetry && attempt < retries) {
-        // Exponential backoff: 500ms, 1000ms, 2000ms, etc.
-        const delay = Math.min(API_CONFIG.RETRY_DELAY_BASE * Math.pow(2, attempt - 1), 5000)
+      // Honour Retry-After when the server sends one, unless it exceeds the backoff cap
+      const delay = retryAfterMs ?? getBackoffDelay(profile.retryDelayMs, attempt)
+      if (isTransient && attempt < retries && delay <= API_CONFIG.MAX_RETRY_DELAY) {
         logger.debug(`Retrying request in ${delay}ms: ${method} ${url}`, { attempt, delay })
         await new Promise((resolve) => setTimeout(resolve, delay))
       } else {
@@ -194,134 +499,44 @@ async function apiRequest<T>(
     method,
     retries,
     originalError: lastError,
+    status: lastStatus ?? undefined,
   }
 
   throw apiError
 }
 
 /**
- * Validates API response data to handle bad values
- * @param data - The data to validate
- * @param url - The URL that was requested (for context in logging)
- * @returns The validated/sanitized data
- */
-function validateApiResponse<T>(data: T, url: string): T {
-  // Skip validation for null/undefined data or non-object data
-  if (!data || typeof data !== "object") {
-    return data
-  }
-
-  // For array responses
-  if (Array.isArray(data)) {
-    // For resource lists, validate each resource
-    if (url.includes("/search")) {
-      return data.map((item) => validateResource(item, url)) as unknown as T
-    }
-    return data
-  }
-
-  // Handle specific endpoints
-  if (url.includes("/calls/queue") || url.includes("/calls/next")) {
-    // Validate emergency calls
-    return validateEmergencyCall(data as any, url) as unknown as T
-  }
-
-  return data
-}
-
-/**
- * Validates and fixes a resource item (ambulance, police, etc.)
- * @param resource - The resource to validate
- * @param url - The URL for context
- * @returns The validated resource
- */
-function validateResource(resource: any, url: string): any {
-  if (!resource) return null
-
-  // Copy the resource to avoid mutating the original
-  const validatedResource = { ...resource }
-
-  // Ensure quantity is valid (replace negative or null with 0)
-  if (
-    validatedResource.quantity === undefined ||
-    validatedResource.quantity === null ||
-    validatedResource.quantity < 0
-  ) {
-    logger.warn(`Invalid quantity found in resource from ${url}`, {
-      resource: JSON.stringify(resource),
-      originalQuantity: validatedResource.quantity,
-    })
-    validatedResource.quantity = 0
-  }
-
-  // Ensure latitude/longitude are valid
-  if (
-    !validatedResource.latitude ||
-    !validatedResource.longitude ||
-    isNaN(validatedResource.latitude) ||
-    isNaN(validatedResource.longitude)
-  ) {
-    logger.warn(`Invalid coordinates found in resource from ${url}`, {
-      resource: JSON.stringify(resource),
-    })
-
-    // Default to Romania's center if coordinates are invalid
-    validatedResource.latitude = validatedResource.latitude || 45.9443
-    validatedResource.longitude = validatedResource.longitude || 25.0094
-  }
-
-  return validatedResource
-}
-
-/**
- * Validates and fixes an emergency call
- * @param call - The emergency call to validate
- * @param url - The URL for context
- * @returns The validated emergency call
+ * Checks a response payload against its schema
+ *
+ * Violations are logged with their field-level issues, which the API error
+ * monitor lists. In strict mode the payload is rejected; otherwise the data
+ * is returned with the schema's fallbacks applied.
+ *
+ * @param schema - Schema of the expected payload
+ * @param data - The parsed response body
+ * @param url - The requested URL, for context
+ * @param method - The HTTP method, for context
+ * @returns The validated, possibly patched, payload
+ * @throws SchemaValidationError in strict mode if the payload violates the schema
  */
-function validateEmergencyCall(call: any, url: string): any {
-  if (!call) return null
-
-  // Copy the call to avoid mutating the original
-  const validatedCall = { ...call }
-
-  // Ensure requests array exists
-  if (!Array.isArray(validatedCall.requests)) {
-    logger.warn(`Invalid requests array in emergency call from ${url}`, {
-      call: JSON.stringify(call),
-    })
-    validatedCall.requests = []
-  } else {
-    // Ensure each request has valid quantity
-    validatedCall.requests = validatedCall.requests.map((req) => {
-      if (req.Quantity === undefined || req.Quantity === null || req.Quantity < 0) {
-        logger.warn(`Invalid quantity in emergency request from ${url}`, {
-          request: JSON.stringify(req),
-          originalQuantity: req.Quantity,
-        })
-        return { ...req, Quantity: 0 }
-      }
-      return req
-    })
-  }
+function parsePayload<T>(schema: Schema<T>, data: unknown, url: string, method = "GET"): T {
+  const { value, issues } = validate(schema, data)
+  if (issues.length === 0) return value
 
-  // Ensure latitude/longitude are valid
-  if (
-    !validatedCall.latitude ||
-    !validatedCall.longitude ||
-    isNaN(validatedCall.latitude) ||
-    isNaN(validatedCall.longitude)
-  ) {
-    logger.warn(`Invalid coordinates found in emergency call from ${url}`, {
-      call: JSON.stringify(call),
-    })
+  const strict = API_CONFIG.STRICT_VALIDATION
+  const message = `Response validation failed for ${method} ${url.split("?")[0]}: ${issues.length} issue(s)`
+  logger.error(message, {
+    url,
+    method,
+    strict,
+    issues,
+    details: formatSchemaIssues(issues),
+  })
 
-    // Default to Romania's center if coordinates are invalid
-    validatedCall.latitude = validatedCall.latitude || 45.9443
-    validatedCall.longitude = validatedCall.longitude || 25.0094
+  if (strict) {
+    throw new SchemaValidationError(message, issues)
   }
-
-  return validatedCall
+  return value
 }
 
 /**
@@ -333,10 +548,16 @@ function validateEmergencyCall(call: any, url: string): any {
 export async function checkApiHealth(apiUrl: string): Promise<HealthStatus> {
   try {
     const startTime = performance.now()
-    const response = await fetch(`${apiUrl}/health`, {
+    // Short timeout for health checks
+    const controller = new AbortController()
+    const timeoutId = setTimeout(
+      () => controller.abort("Health check timeout"),
+      Math.min(API_CONFIG.HEALTH_CHECK_TIMEOUT, getEnvironmentProfile().timeoutMs),
+    )
+    const response = await transport(`${apiUrl}/health`, {
       method: "GET",
-      timeout: 5000, // Short timeout for health checks
-    })
+      signal: controller.signal,
+    }).finally(() => clearTimeout(timeoutId))
     const responseTime = performance.now() - startTime
 
     return {
@@ -364,8 +585,9 @@ export async function checkApiHealth(apiUrl: string): Promise<HealthStatus> {
  */
 export async function fetchLocations(): Promise<Location[]> {
   try {
-    const response = await apiRequest<Location[]>(`${API_CONFIG.MAIN_API_URL}/locations`)
-    return response.data
+    const url = `${getEnvironmentProfile().mainApiUrl}/locations`
+    const response = await apiRequest<unknown>(url)
+    return parsePayload(LocationListSchema, response.data, url)
   } catch (error) {
     logger.error("Failed to fetch locations", { error })
     // Return empty array as fallback
@@ -381,19 +603,15 @@ export async function fetchLocations(): Promise<Location[]> {
  */
 export async function fetchAvailableResources(type: EmergencyType): Promise<EmergencyResource[]> {
   try {
-    const endpoint = type.toLowerCase()
-    const response = await apiRequest<EmergencyResource[]>(
-      `${API_CONFIG.MAIN_API_URL}/${endpoint}/search`,
-      "GET",
-      undefined,
-      { timeout: 15000 }, // Increased timeout for potentially slow search endpoints
-    )
+    const url = `${getEnvironmentProfile().mainApiUrl}/${type.toLowerCase()}/search`
+    const response = await apiRequest<unknown>(url)
 
-    // Add the type to each resource
-    return response.data.map((resource) => ({
-      ...resource,
-      type,
-    }))
+    // Add the type and id to each resource
+    const resources = parsePayload(EmergencyResourceListSchema, response.data, url).map((resource) =>
+      identifyResource(type, resource),
+    )
+    emitApiEvent({ kind: "resources", type, resources })
+    return resources
   } catch (error) {
     logger.error(`Failed to fetch available ${type} resources`, { error, type })
     // Return empty array as fallback
@@ -450,22 +668,35 @@ export async function fetchResourceAvailability(): Promise<ResourceAvailability[
 }
 
 /**
- * Fetches emergency calls from the queue
+ * Reads the call queue, for callers that must tell a failed read from an empty queue
  *
  * @returns Promise resolving to an array of emergency calls
  * @throws ApiError if the request fails
  */
+export async function readEmergencyCalls(): Promise<EmergencyCall[]> {
+  const url = `${getEnvironmentProfile().mainApiUrl}/calls/queue`
+  const response = await apiRequest<unknown>(url)
+
+  const queue = callIdentities.identifyQueue(parsePayload(EmergencyCallListSchema, response.data, url))
+  dispatchGuard.reconcile(queue, response.checkpoint ?? 0)
+
+  // Initialize dispatched counts for each emergency type
+  return queue.map((call) => ({
+    ...call,
+    dispatched:
+      call.dispatched ||
+      (Object.fromEntries(call.requests.map((req) => [req.Type, 0])) as Record<EmergencyType, number>),
+  }))
+}
+
+/**
+ * Fetches emergency calls from the queue
+ *
+ * @returns Promise resolving to an array of emergency calls, empty if the request fails
+ */
 export async function fetchEmergencyCalls(): Promise<EmergencyCall[]> {
   try {
-    const response = await apiRequest<EmergencyCall[]>(`${API_CONFIG.MAIN_API_URL}/calls/queue`)
-
-    // Initialize dispatched counts for each emergency type
-    return response.data.map((call) => ({
-      ...call,
-      dispatched:
-        call.dispatched ||
-        (Object.fromEntries(call.requests.map((req) => [req.Type, 0])) as Record<EmergencyType, number>),
-    }))
+    return await readEmergencyCalls()
   } catch (error) {
     logger.error("Failed to fetch emergency calls", { error })
     // Return empty array as fallback
@@ -481,16 +712,19 @@ export async function fetchEmergencyCalls(): Promise<EmergencyCall[]> {
  */
 export async function fetchNextEmergency(): Promise<EmergencyCall | null> {
   try {
-    const response = await apiRequest<EmergencyCall>(`${API_CONFIG.MAIN_API_URL}/calls/next`)
+    const url = `${getEnvironmentProfile().mainApiUrl}/calls/next`
+    const response = await apiRequest<unknown>(url)
 
     // Initialize dispatched counts for each emergency type
-    const call = response.data
-    return {
+    const call = callIdentities.identifyArrival(parsePayload(EmergencyCallSchema, response.data, url))
+    const nextCall = {
       ...call,
       dispatched:
         call.dispatched ||
         (Object.fromEntries(call.requests.map((req) => [req.Type, 0])) as Record<EmergencyType, number>),
     }
+    emitApiEvent({ kind: "call", call: nextCall })
+    return nextCall
   } catch (error) {
     logger.error("Failed to fetch next emergency", { error })
     throw error
@@ -505,8 +739,9 @@ export async function fetchNextEmergency(): Promise<EmergencyCall | null> {
  */
 export async function fetchControlStatus(): Promise<ControlStatus | null> {
   try {
-    const response = await apiRequest<ControlStatus>(`${API_CONFIG.MAIN_API_URL}/control/status`)
-    return response.data
+    const url = `${getEnvironmentProfile().mainApiUrl}/control/status`
+    const response = await apiRequest<unknown>(url)
+    return parsePayload(ControlStatusSchema, response.data, url)
   } catch (error) {
     logger.error("Failed to fetch control status", { error })
     return null
@@ -528,10 +763,10 @@ export async function resetControl(
   maxActiveCalls = 100,
 ): Promise<ControlStatus> {
   try {
-    const response = await apiRequest<ControlStatus>(
-      `${API_CONFIG.MAIN_API_URL}/control/reset?seed=${seed}&targetDispatches=${targetDispatches}&maxActiveCalls=${maxActiveCalls}`,
-    )
-    return response.data
+    const url = `${getEnvironmentProfile().mainApiUrl}/control/reset?seed=${seed}&targetDispatches=${targetDispatches}&maxActiveCalls=${maxActiveCalls}`
+    const response = await apiRequest<unknown>(url)
+    emitApiEvent({ kind: "reset", seed, targetDispatches, maxActiveCalls })
+    return parsePayload(ControlStatusSchema, response.data, url)
   } catch (error) {
     logger.error("Failed to reset control", { error, seed, targetDispatches, maxActiveCalls })
     throw error
@@ -546,21 +781,69 @@ export async function resetControl(
  */
 export async function stopControl(): Promise<ControlStatus> {
   try {
-    const response = await apiRequest<ControlStatus>(`${API_CONFIG.MAIN_API_URL}/control/stop`, "POST")
-    return response.data
+    const url = `${getEnvironmentProfile().mainApiUrl}/control/stop`
+    const response = await apiRequest<unknown>(url, "POST")
+    return parsePayload(ControlStatusSchema, response.data, url, "POST")
   } catch (error) {
     logger.error("Failed to stop control", { error })
     throw error
   }
 }
 
+/**
+ * Whether a failed request may still have been applied: no response arrived or the server failed
+ */
+function isLostResponse(error: unknown): boolean {
+  if (typeof error !== "object" || error === null || !("url" in error)) return false
+  const apiError = error as ApiError
+  if (apiError.category === "circuit_open") return false
+  return apiError.status === undefined || apiError.status >= 500 || apiError.status === 429
+}
+
+/**
+ * Reads the source depot and the call queue after a dispatch's response was lost
+ */
+async function inspectDispatch(
+  type: EmergencyType,
+  request: DispatchRequest,
+): Promise<{ depotStock: number | null; queue: EmergencyCallPayload[] }> {
+  const mainApiUrl = getEnvironmentProfile().mainApiUrl
+  const searchUrl = `${mainApiUrl}/${type.toLowerCase()}/search`
+  const queueUrl = `${mainApiUrl}/calls/queue`
+  const [searchResponse, queueResponse] = await Promise.all([
+    apiRequest<unknown>(searchUrl),
+    apiRequest<unknown>(queueUrl),
+  ])
+
+  const resources = parsePayload(EmergencyResourceListSchema, searchResponse.data, searchUrl).map((resource) =>
+    identifyResource(type, resource),
+  )
+  emitApiEvent({ kind: "resources", type, resources })
+  const queue = parsePayload(EmergencyCallListSchema, queueResponse.data, queueUrl)
+
+  const depot = resources.find(
+    (resource) => resource.county === request.sourceCounty && resource.city === request.sourceCity,
+  )
+  return { depotStock: depot ? depot.quantity : null, queue }
+}
+
 /**
  * Dispatches an emergency resource to an emergency
  *
+ * Every dispatch carries an idempotency key and is tracked in the dispatch
+ * ledger. Each attempt is sent once; when its response is lost (timeout,
+ * network error, 5xx) the depot stock and call queue are read before anything
+ * is retried. A retry is only sent when the units certainly did not leave and
+ * the target still needs them, so units are never sent twice.
+ *
+ * The dispatch guard checks every dispatch first: one that would send the call
+ * the server fills more units than it still needs is refused without being sent.
+ *
  * @param type - The type of emergency resource to dispatch
  * @param params - Dispatch parameters including source and target locations
  * @returns Promise resolving to the dispatch result
- * @throws ApiError if the request fails
+ * @throws ApiError if the request fails or its outcome cannot be confirmed
+ * @throws OverDispatchError if the target call does not need that many units
  */
 export async function dispatchResource(
   type: EmergencyType,
@@ -592,24 +875,67 @@ export async function dispatchResource(
     quantity: params.quantity,
   }
 
-  logger.debug(`${type} dispatch request`, { type, request: requestBody })
-
+  // Checked against the call the server will fill, with a ledger that covers other dashboards' dispatches
+  if (dispatchGuard.needsSync(requestBody, API_CONFIG.GUARD_MAX_AGE)) {
+    await fetchEmergencyCalls()
+  }
+  let reservation: string
   try {
-    const endpoint = type.toLowerCase()
-    // Use a shorter timeout for dispatch to fail fast if the server is unresponsive
-    const response = await apiRequest<any>(`${API_CONFIG.MAIN_API_URL}/${endpoint}/dispatch`, "POST", requestBody, {
-      timeout: 8000,
-    })
+    reservation = dispatchGuard.reserve(type, requestBody)
+  } catch (error) {
+    logger.warn(`${type} dispatch refused by the dispatch guard`, { error, request: requestBody })
+    throw error
+  }
 
-    // Verify the response indicates successful dispatch
-    if (!response.data || response.data.error) {
-      throw new Error(response.data?.error || "Dispatch returned an invalid response")
-    }
+  const key = createIdempotencyKey()
+  logger.debug(`${type} dispatch request`, { type, request: requestBody, key })
 
-    return response.data
+  const profile = getEnvironmentProfile()
+  const url = `${profile.mainApiUrl}/${type.toLowerCase()}/dispatch`
+
+  try {
+    const response = await sendIdempotentDispatch(
+      key,
+      type,
+      requestBody,
+      {
+        send: async (idempotencyKey) => {
+          // A single attempt: automatic retries could replay a dispatch the server already applied
+          // Use a shorter timeout for dispatch to fail fast if the server is unresponsive
+          const response = await apiRequest<any>(
+            url,
+            "POST",
+            requestBody,
+            {
+              timeout: Math.min(API_CONFIG.DISPATCH_TIMEOUT, profile.timeoutMs),
+              headers: { [IDEMPOTENCY_HEADER]: idempotencyKey },
+            },
+            1,
+          )
+
+          // Verify the response indicates successful dispatch
+          if (!response.data || response.data.error) {
+            throw new Error(response.data?.error || "Dispatch returned an invalid response")
+          }
+          return response.data
+        },
+        isLostResponse,
+        inspect: () => inspectDispatch(type, requestBody),
+        onApplied: () => emitApiEvent({ kind: "dispatch", type, request: requestBody }),
+      },
+      {
+        ledger: dispatchLedger,
+        guard: dispatchGuard,
+        reservation,
+        maxRetries: profile.maxRetries,
+        retryDelay: (attempt) => getBackoffDelay(profile.retryDelayMs, attempt),
+      },
+    )
+
+    return response ?? { ...requestBody, type, reconciled: true }
   } catch (error) {
     // Log the detailed error for debugging
-    logger.error(`${type} dispatch API error`, { error, type, request: requestBody })
+    logger.error(`${type} dispatch API error`, { error, type, request: requestBody, key })
 
     // Rethrow the error to be handled by the caller
     throw error
@@ -624,14 +950,11 @@ export async function dispatchResource(
  * @throws ApiError if the request fails
  */
 export async function startSimulation(config: SimulationConfig): Promise<any> {
-  // Validate the configuration
-  if (!config.api_url) {
-    throw new Error("API URL is required for simulation")
-  }
+  const profile = getEnvironmentProfile()
 
   // Format the request to match the backend's expected structure
   const requestBody = {
-    api_url: config.api_url,
+    api_url: config.api_url || profile.mainApiUrl,
     seed: config.seed,
     targetDispatches: config.targetDispatches,
     maxActiveCalls: config.maxActiveCalls,
@@ -643,14 +966,14 @@ export async function startSimulation(config: SimulationConfig): Promise<any> {
 
   try {
     // First check if the auto dispatch API is available
-    const healthStatus = await checkApiHealth(API_CONFIG.AUTO_DISPATCH_API_URL)
+    const healthStatus = await checkApiHealth(profile.autoDispatchApiUrl)
 
     if (healthStatus.status === "unhealthy") {
       throw new Error(`Auto dispatch API is unavailable: ${healthStatus.message}`)
     }
 
     // Use the auto dispatch API URL
-    const response = await apiRequest<any>(`${API_CONFIG.AUTO_DISPATCH_API_URL}/simulate`, "POST", requestBody)
+    const response = await apiRequest<any>(`${profile.autoDispatchApiUrl}/simulate`, "POST", requestBody)
     return response.data
   } catch (error) {
     logger.error("Failed to start simulation", { error, config: requestBody })
@@ -667,7 +990,7 @@ export async function startSimulation(config: SimulationConfig): Promise<any> {
 export async function getSimulationStatus(): Promise<any> {
   try {
     // Use the auto dispatch API URL
-    const response = await apiRequest<any>(`${API_CONFIG.AUTO_DISPATCH_API_URL}/simulate/status`)
+    const response = await apiRequest<any>(`${getEnvironmentProfile().autoDispatchApiUrl}/simulate/status`)
     return response.data
   } catch (error) {
     logger.error("Failed to get simulation status", { error })
@@ -685,7 +1008,7 @@ export async function getSimulationStatus(): Promise<any> {
 export async function stopSimulation(): Promise<any> {
   try {
     // Use the auto dispatch API URL
-    const response = await apiRequest<any>(`${API_CONFIG.AUTO_DISPATCH_API_URL}/simulate/stop`, "POST")
+    const response = await apiRequest<any>(`${getEnvironmentProfile().autoDispatchApiUrl}/simulate/stop`, "POST")
     return response.data
   } catch (error) {
     logger.error("Failed to stop simulation", { error })
@@ -702,9 +1025,10 @@ export async function getSystemHealth(): Promise<{
   mainApi: HealthStatus
   autoDispatchApi: HealthStatus
 }> {
+  const profile = getEnvironmentProfile()
   const [mainApiHealth, autoDispatchApiHealth] = await Promise.all([
-    checkApiHealth(API_CONFIG.MAIN_API_URL),
-    checkApiHealth(API_CONFIG.AUTO_DISPATCH_API_URL),
+    checkApiHealth(profile.mainApiUrl),
+    checkApiHealth(profile.autoDispatchApiUrl),
   ])
 
   return {
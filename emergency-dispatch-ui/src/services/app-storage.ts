@@ -0,0 +1,459 @@
+/**
+ * App Storage
+ *
+ * Versioned IndexedDB database holding what the dashboard persists between
+ * page loads: log lines, tracked errors and API timings, the resource cache,
+ * the recovery state of a running simulation and the missed calls observed
+ * by the early warning. Each object store is typed
+ * and indexed, so a log line is one appended record instead of a rewrite of
+ * the whole log, a cached call is updated on its own, and nothing is bound by
+ * localStorage's quota.
+ *
+ * The schema is built by MIGRATIONS, one per version. The first one also
+ * imports the localStorage keys the dashboard used before and removes them.
+ *
+ * Where IndexedDB is unavailable (Node scripts, or a browser that refuses to
+ * open the database) records are kept in memory behind the same interface.
+ *
+ * Failures are reported on the console only: the logger writes through this
+ * module, so it cannot log through the logger.
+ */
+import type {
+  ApiTimingRecord,
+  CachedEntity,
+  EmergencyCall,
+  EmergencyResource,
+  ErrorRecord,
+  KeyedRecord,
+  LogRecord,
+  MissObservation,
+} from "@/types"
+
+const DATABASE_NAME = "emercery"
+
+/**
+ * Record type of every object store
+ */
+export interface AppStoreSchema {
+  logs: LogRecord
+  errors: ErrorRecord
+  apiPerformance: ApiTimingRecord
+  emergencies: CachedEntity<EmergencyCall>
+  resources: CachedEntity<EmergencyResource>
+  recovery: KeyedRecord
+  missObservations: MissObservation
+}
+
+export type AppStoreName = keyof AppStoreSchema
+
+// Stores whose records are appended under an increasing key kept outside the record; the others are keyed by "key"
+export type AppendStoreName = "logs" | "errors" | "apiPerformance" | "missObservations"
+export type KeyedStoreName = Exclude<AppStoreName, AppendStoreName>
+// Stores holding plain values under fixed keys
+export type ValueStoreName = "recovery"
+
+// Append stores that had a localStorage key before this database existed
+const LEGACY_APPEND_STORES = ["logs", "errors", "apiPerformance"] as const
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void
+
+/**
+ * localStorage keys read by the first migration, by the store their data moves to
+ */
+const LEGACY_KEYS = {
+  logs: "emercery_logs",
+  errors: "emercery_errors",
+  apiPerformance: "emercery_api_performance",
+  cachedResources: "emercery_cached_resources",
+  cachedEmergencies: "emercery_cached_emergencies",
+  cacheTimestamp: "emercery_cache_timestamp",
+  recovery: ["simulationState", "simulationStartTime", "recoveryNotificationShown"],
+}
+
+/**
+ * Reads and parses a legacy localStorage value, null when absent or unreadable
+ */
+function readLegacy(key: string): unknown {
+  try {
+    const value = localStorage.getItem(key)
+    return value === null ? null : JSON.parse(value)
+  } catch {
+    // simulationStartTime was stored as a bare ISO string
+    return localStorage.getItem(key)
+  }
+}
+
+/**
+ * Copies the localStorage keys used before this store into it, then removes them once the copy committed
+ */
+function importLegacyKeys(transaction: IDBTransaction): void {
+  if (typeof localStorage === "undefined") return
+
+  LEGACY_APPEND_STORES.forEach((store) => {
+    const records = readLegacy(LEGACY_KEYS[store])
+    if (Array.isArray(records)) {
+      records.forEach((record) => transaction.objectStore(store).add(record))
+    }
+  })
+
+  const cacheTimestamp = Number(readLegacy(LEGACY_KEYS.cacheTimestamp)) || 0
+  const cached = { resources: LEGACY_KEYS.cachedResources, emergencies: LEGACY_KEYS.cachedEmergencies }
+  Object.entries(cached).forEach(([key, legacyKey]) => {
+    const value = readLegacy(legacyKey)
+    if (value !== null) transaction.objectStore("cache").put({ key, value, updatedAt: cacheTimestamp })
+  })
+
+  LEGACY_KEYS.recovery.forEach((key) => {
+    const value = readLegacy(key)
+    if (value !== null) transaction.objectStore("recovery").put({ key, value, updatedAt: Date.now() })
+  })
+
+  transaction.addEventListener("complete", () => {
+    const { recovery, ...single } = LEGACY_KEYS
+    const keys = [...Object.values(single), ...recovery]
+    keys.forEach((key) => localStorage.removeItem(key))
+  })
+}
+
+/**
+ * Schema changes, applied in order; the database version is the number of migrations.
+ * Never edit a released migration, append a new one.
+ */
+const MIGRATIONS: Migration[] = [
+  // 1: logs, tracked errors and API timings, the resource cache and simulation recovery state
+  (db, transaction) => {
+    // Log metadata is spread into the record and may carry its own "id", so the key stays out of line
+    const logs = db.createObjectStore("logs", { autoIncrement: true })
+    logs.createIndex("timestamp", "timestamp")
+    logs.createIndex("level", "level")
+
+    const errors = db.createObjectStore("errors", { autoIncrement: true })
+    errors.createIndex("timestamp", "timestamp")
+
+    const apiPerformance = db.createObjectStore("apiPerformance", { autoIncrement: true })
+    apiPerformance.createIndex("timestamp", "timestamp")
+    apiPerformance.createIndex("url", "url")
+
+    db.createObjectStore("cache", { keyPath: "key" })
+    db.createObjectStore("recovery", { keyPath: "key" })
+
+    importLegacyKeys(transaction)
+  },
+  // 2: the resource cache stores each call and depot once under its id instead of whole lists.
+  // Cached lists expire after ten minutes, so the old ones are dropped rather than converted.
+  (db) => {
+    db.createObjectStore("emergencies", { keyPath: "key" })
+    db.createObjectStore("resources", { keyPath: "key" })
+    db.deleteObjectStore("cache")
+  },
+  // 3: calls the missed-call early warning saw being missed
+  (db) => {
+    const missObservations = db.createObjectStore("missObservations", { autoIncrement: true })
+    missObservations.createIndex("timestamp", "timestamp")
+  },
+]
+
+export const DATABASE_VERSION = MIGRATIONS.length
+
+/**
+ * Operations the store needs from a backend
+ */
+interface StorageBackend {
+  add<S extends AppendStoreName>(store: S, record: AppStoreSchema[S]): Promise<number>
+  put<S extends KeyedStoreName>(store: S, record: AppStoreSchema[S]): Promise<void>
+  get<S extends KeyedStoreName>(store: S, key: string): Promise<AppStoreSchema[S] | undefined>
+  getAll<S extends AppStoreName>(store: S): Promise<AppStoreSchema[S][]>
+  update<S extends KeyedStoreName>(
+    store: S,
+    key: string,
+    change: (record: AppStoreSchema[S]) => AppStoreSchema[S],
+  ): Promise<boolean>
+  replaceAll<S extends KeyedStoreName>(store: S, records: AppStoreSchema[S][]): Promise<void>
+  delete(store: KeyedStoreName, key: string): Promise<void>
+  clear(store: AppStoreName): Promise<void>
+  trim(store: AppendStoreName, keep: number): Promise<void>
+}
+
+/**
+ * Resolves with the result of an IndexedDB request
+ */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Resolves once a transaction committed
+ */
+function commit(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * Backend over an open IndexedDB database
+ */
+class IndexedDbBackend implements StorageBackend {
+  constructor(private db: IDBDatabase) {}
+
+  add<S extends AppendStoreName>(store: S, record: AppStoreSchema[S]): Promise<number> {
+    return settle(this.objectStore(store, "readwrite").add(record)) as Promise<number>
+  }
+
+  async put<S extends KeyedStoreName>(store: S, record: AppStoreSchema[S]): Promise<void> {
+    await settle(this.objectStore(store, "readwrite").put(record))
+  }
+
+  get<S extends KeyedStoreName>(store: S, key: string): Promise<AppStoreSchema[S] | undefined> {
+    return settle(this.objectStore(store, "readonly").get(key))
+  }
+
+  getAll<S extends AppStoreName>(store: S): Promise<AppStoreSchema[S][]> {
+    return settle(this.objectStore(store, "readonly").getAll())
+  }
+
+  async update<S extends KeyedStoreName>(
+    store: S,
+    key: string,
+    change: (record: AppStoreSchema[S]) => AppStoreSchema[S],
+  ): Promise<boolean> {
+    const objectStore = this.objectStore(store, "readwrite")
+    const record: AppStoreSchema[S] | undefined = await settle(objectStore.get(key))
+    if (!record) return false
+
+    await settle(objectStore.put(change(record)))
+    return true
+  }
+
+  async replaceAll<S extends KeyedStoreName>(store: S, records: AppStoreSchema[S][]): Promise<void> {
+    const transaction = this.db.transaction(store, "readwrite")
+    const objectStore = transaction.objectStore(store)
+    objectStore.clear()
+    records.forEach((record) => objectStore.put(record))
+    await commit(transaction)
+  }
+
+  async delete(store: KeyedStoreName, key: string): Promise<void> {
+    await settle(this.objectStore(store, "readwrite").delete(key))
+  }
+
+  async clear(store: AppStoreName): Promise<void> {
+    await settle(this.objectStore(store, "readwrite").clear())
+  }
+
+  async trim(store: AppendStoreName, keep: number): Promise<void> {
+    const objectStore = this.objectStore(store, "readwrite")
+    const excess = (await settle(objectStore.count())) - keep
+    if (excess <= 0) return
+
+    // Keys increase with every insert, so the lowest ones are the oldest records
+    const keys = await settle(objectStore.getAllKeys(null, excess))
+    await settle(objectStore.delete(IDBKeyRange.upperBound(keys[keys.length - 1])))
+  }
+
+  private objectStore(store: AppStoreName, mode: IDBTransactionMode): IDBObjectStore {
+    return this.db.transaction(store, mode).objectStore(store)
+  }
+}
+
+/**
+ * Backend keeping records in memory, used where IndexedDB is unavailable
+ */
+class MemoryBackend implements StorageBackend {
+  private stores = new Map<AppStoreName, Map<string | number, unknown>>()
+  private nextId = 1
+
+  async add<S extends AppendStoreName>(store: S, record: AppStoreSchema[S]): Promise<number> {
+    const id = this.nextId++
+    this.records(store).set(id, record)
+    return id
+  }
+
+  async put<S extends KeyedStoreName>(store: S, record: AppStoreSchema[S]): Promise<void> {
+    this.records(store).set(record.key, record)
+  }
+
+  async get<S extends KeyedStoreName>(store: S, key: string): Promise<AppStoreSchema[S] | undefined> {
+    return this.records(store).get(key) as AppStoreSchema[S] | undefined
+  }
+
+  async getAll<S extends AppStoreName>(store: S): Promise<AppStoreSchema[S][]> {
+    return [...this.records(store).values()] as AppStoreSchema[S][]
+  }
+
+  async update<S extends KeyedStoreName>(
+    store: S,
+    key: string,
+    change: (record: AppStoreSchema[S]) => AppStoreSchema[S],
+  ): Promise<boolean> {
+    const record = await this.get(store, key)
+    if (!record) return false
+
+    this.records(store).set(key, change(record))
+    return true
+  }
+
+  async replaceAll<S extends KeyedStoreName>(store: S, records: AppStoreSchema[S][]): Promise<void> {
+    const stored = this.records(store)
+    stored.clear()
+    records.forEach((record) => stored.set(record.key, record))
+  }
+
+  async delete(store: KeyedStoreName, key: string): Promise<void> {
+    this.records(store).delete(key)
+  }
+
+  async clear(store: AppStoreName): Promise<void> {
+    this.records(store).clear()
+  }
+
+  async trim(store: AppendStoreName, keep: number): Promise<void> {
+    // Maps iterate in insertion order, oldest first
+    const records = this.records(store)
+    const excess = [...records.keys()].slice(0, Math.max(0, records.size - keep))
+    excess.forEach((id) => records.delete(id))
+  }
+
+  private records(store: AppStoreName): Map<string | number, unknown> {
+    let records = this.stores.get(store)
+    if (!records) {
+      records = new Map()
+      this.stores.set(store, records)
+    }
+    return records
+  }
+}
+
+/**
+ * Opens the database, running the migrations it is missing
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction as IDBTransaction
+      MIGRATIONS.slice(event.oldVersion).forEach((migrate) => migrate(request.result, transaction))
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      // Let a newer version of the dashboard in another tab upgrade the schema
+      db.onversionchange = () => db.close()
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new Error("Database upgrade blocked by another open tab"))
+  })
+}
+
+export class AppStorage {
+  private backend: Promise<StorageBackend> | null = null
+
+  /**
+   * Appends a record to a log-like store
+   *
+   * @returns Key assigned to the record
+   */
+  async add<S extends AppendStoreName>(store: S, record: AppStoreSchema[S]): Promise<number> {
+    return (await this.getBackend()).add(store, record)
+  }
+
+  /**
+   * Writes a record to a keyed store, replacing any record with the same key
+   */
+  async put<S extends KeyedStoreName>(store: S, record: AppStoreSchema[S]): Promise<void> {
+    return (await this.getBackend()).put(store, record)
+  }
+
+  async get<S extends KeyedStoreName>(store: S, key: string): Promise<AppStoreSchema[S] | undefined> {
+    return (await this.getBackend()).get(store, key)
+  }
+
+  /**
+   * Every record of a store, in key order; log-like stores list the oldest first
+   */
+  async getAll<S extends AppStoreName>(store: S): Promise<AppStoreSchema[S][]> {
+    return (await this.getBackend()).getAll(store)
+  }
+
+  /**
+   * Changes a record of a keyed store in one transaction
+   *
+   * @returns False if there is no record under the key
+   */
+  async update<S extends KeyedStoreName>(
+    store: S,
+    key: string,
+    change: (record: AppStoreSchema[S]) => AppStoreSchema[S],
+  ): Promise<boolean> {
+    return (await this.getBackend()).update(store, key, change)
+  }
+
+  /**
+   * Replaces every record of a keyed store in one transaction
+   */
+  async replaceAll<S extends KeyedStoreName>(store: S, records: AppStoreSchema[S][]): Promise<void> {
+    return (await this.getBackend()).replaceAll(store, records)
+  }
+
+  async delete(store: KeyedStoreName, key: string): Promise<void> {
+    return (await this.getBackend()).delete(store, key)
+  }
+
+  async clear(store: AppStoreName): Promise<void> {
+    return (await this.getBackend()).clear(store)
+  }
+
+  /**
+   * Deletes the oldest records of a log-like store beyond the given count
+   */
+  async trim(store: AppendStoreName, keep: number): Promise<void> {
+    return (await this.getBackend()).trim(store, keep)
+  }
+
+  /**
+   * Reads the value stored under a key
+   */
+  async getValue<T>(store: ValueStoreName, key: string): Promise<T | undefined> {
+    const record = await this.get(store, key)
+    return record?.value as T | undefined
+  }
+
+  /**
+   * Stores a value under a key
+   */
+  async setValue(store: ValueStoreName, key: string, value: unknown): Promise<void> {
+    return this.put(store, { key, value, updatedAt: Date.now() })
+  }
+
+  /**
+   * Whether records are kept in IndexedDB rather than in memory
+   */
+  async isPersistent(): Promise<boolean> {
+    return (await this.getBackend()) instanceof IndexedDbBackend
+  }
+
+  private getBackend(): Promise<StorageBackend> {
+    if (!this.backend) {
+      this.backend =
+        typeof indexedDB === "undefined"
+          ? Promise.resolve(new MemoryBackend())
+          : openDatabase().then(
+              (db) => new IndexedDbBackend(db),
+              (error) => {
+                console.error("Failed to open IndexedDB, keeping records in memory:", error)
+                return new MemoryBackend()
+              },
+            )
+    }
+    return this.backend
+  }
+}
+
+// Store shared by the logger, the resource cache and the dashboard
+export const appStorage = new AppStorage()
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import type { EmergencyCall, EmergencyResource } from "@/types"
+import { DISTANCE_MODELS } from "@/utils/distance"
+import { optimizeAssignments, sequenceForServer } from "./assignment-optimizer"
+
+const model = DISTANCE_MODELS.haversine
+
+const call = (id: string, city: string, latitude: number, quantity: number): EmergencyCall => ({
+  id,
+  city,
+  county: "Cluj",
+  latitude,
+  longitude: 23.6,
+  requests: [{ Type: "Fire", Quantity: quantity }],
+})
+
+const depot = (city: string, latitude: number, quantity: number): EmergencyResource => ({
+  id: `Fire:Cluj:${city}`,
+  type: "Fire",
+  county: "Cluj",
+  city,
+  latitude,
+  longitude: 23.6,
+  quantity,
+})
+
+describe("optimizeAssignments", () => {
+  it("minimises the total distance rather than serving each call from its nearest depot", () => {
+    const calls = [call("x", "Middle", 46.6, 1), call("y", "North", 47.4, 1)]
+    const depots = [depot("Upper", 47.0, 1), depot("Lower", 46.0, 1)]
+
+    const plan = optimizeAssignments(calls, depots, model)
+
+    const sources = Object.fromEntries(plan.dispatches.map((dispatch) => [dispatch.call.city, dispatch.source.city]))
+    expect(sources).toEqual({ Middle: "Lower", North: "Upper" })
+    expect(plan.totalUnits).toBe(2)
+    expect(plan.unmet).toEqual([])
+    expect(plan.totalDistance).toBeCloseTo(
+      model.measure(46.0, 23.6, 46.6, 23.6) + model.measure(47.0, 23.6, 47.4, 23.6),
+      6,
+    )
+  })
+
+  it("reports the need the inventory cannot cover", () => {
+    const calls = [call("x", "Middle", 46.6, 3)]
+
+    const plan = optimizeAssignments(calls, [depot("Upper", 47.0, 2), { ...depot("Police", 46.6, 9), type: "Police" }])
+
+    expect(plan.totalUnits).toBe(2)
+    expect(plan.unmet).toEqual([{ type: "Fire", call: calls[0], quantity: 1 }])
+  })
+})
+
+describe("sequenceForServer", () => {
+  it("fills calls at one place oldest first, as the API applies dispatches", () => {
+    const older = call("older", "Dej", 47.1, 1)
+    const newer = call("newer", "Dej", 47.1, 2)
+    const source = depot("Upper", 47.0, 3)
+
+    // Planned against the newer call only; the server would fill the older one first
+    const sequenced = sequenceForServer(
+      [{ type: "Fire", source, call: newer, quantity: 3, distance: 30 }],
+      [older, newer],
+    )
+
+    expect(sequenced.map((dispatch) => [dispatch.call, dispatch.quantity, dispatch.distance])).toEqual([
+      [older, 1, 10],
+      [newer, 2, 20],
+    ])
+  })
+})
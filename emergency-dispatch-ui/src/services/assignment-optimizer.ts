@@ -0,0 +1,208 @@
+/**
+ * Assignment Optimizer
+ *
+ * Plans dispatches for the whole active queue at once instead of greedily per
+ * call. For each emergency type the queue is modelled as a transportation
+ * problem: depots supply units, calls demand their remaining need, and every
+ * unit costs its distance. A min-cost max-flow serves as many units as the
+ * inventory allows at the lowest total distance, splitting quantities across
+ * depots where that is cheaper.
+ *
+ * The API applies a dispatch to the oldest call at the target location that
+ * still needs the type, so plans are re-sequenced into that order: dispatches
+ * to one location must be executed one after another, in plan order.
+ */
+import { logger } from "@/components/logger"
+import type { EmergencyCall, EmergencyResource, EmergencyType } from "@/types"
+import { DEFAULT_DISTANCE_MODEL, DISTANCE_MODELS, type DistanceModel } from "@/utils/distance"
+import { MinCostFlow } from "@/utils/min-cost-flow"
+import { dispatchResource } from "./api"
+import { getRemainingNeed } from "./scoring"
+
+export interface PlannedDispatch {
+  type: EmergencyType
+  source: EmergencyResource
+  call: EmergencyCall
+  quantity: number
+  /** Distance for all units of this dispatch, in the plan's model unit */
+  distance: number
+}
+
+export interface UnmetNeed {
+  type: EmergencyType
+  call: EmergencyCall
+  quantity: number
+}
+
+export interface AssignmentPlan {
+  dispatches: PlannedDispatch[]
+  unmet: UnmetNeed[]
+  totalDistance: number
+  totalUnits: number
+  model: DistanceModel
+}
+
+export interface PlanExecutionResult {
+  dispatch: PlannedDispatch
+  success: boolean
+  error?: string
+}
+
+const EMERGENCY_TYPES: EmergencyType[] = ["Medical", "Police", "Fire", "Rescue", "Utility"]
+
+/**
+ * Computes a minimum-total-distance assignment of inventory to open calls
+ *
+ * @param calls - Open calls, e.g. from fetchEmergencyCalls
+ * @param resources - Current inventory of every type
+ * @param model - Distance model used as the cost of one unit
+ * @returns The planned dispatches and any need the inventory cannot cover
+ */
+export function optimizeAssignments(
+  calls: EmergencyCall[],
+  resources: EmergencyResource[],
+  model: DistanceModel = DISTANCE_MODELS[DEFAULT_DISTANCE_MODEL],
+): AssignmentPlan {
+  const dispatches: PlannedDispatch[] = []
+  const unmet: UnmetNeed[] = []
+
+  EMERGENCY_TYPES.forEach((type) => {
+    const demands = calls
+      .map((call) => ({ call, need: getRemainingNeed(call, type) }))
+      .filter((demand) => demand.need > 0)
+    const supplies = resources.filter((resource) => resource.type === type && resource.quantity > 0)
+    if (demands.length === 0) return
+
+    // Nodes: 0 = source, 1..S = depots, S+1..S+D = calls, S+D+1 = sink
+    const sink = supplies.length + demands.length + 1
+    const flow = new MinCostFlow(sink + 1)
+    supplies.forEach((supply, s) => flow.addEdge(0, 1 + s, supply.quantity, 0))
+    demands.forEach((demand, d) => flow.addEdge(1 + supplies.length + d, sink, demand.need, 0))
+
+    const links: { edge: number; supply: EmergencyResource; demand: (typeof demands)[number]; cost: number }[] = []
+    supplies.forEach((supply, s) => {
+      demands.forEach((demand, d) => {
+        const cost = model.measure(supply.latitude, supply.longitude, demand.call.latitude, demand.call.longitude)
+        const edge = flow.addEdge(1 + s, 1 + supplies.length + d, demand.need, cost)
+        links.push({ edge, supply, demand, cost })
+      })
+    })
+
+    flow.solve(0, sink)
+
+    const assigned: PlannedDispatch[] = []
+    links.forEach((link) => {
+      const quantity = flow.getFlow(link.edge)
+      if (quantity <= 0) return
+
+      assigned.push({ type, source: link.supply, call: link.demand.call, quantity, distance: link.cost * quantity })
+    })
+
+    const sequenced = sequenceForServer(assigned, calls)
+    dispatches.push(...sequenced)
+
+    const served = new Map<EmergencyCall, number>()
+    sequenced.forEach((dispatch) => served.set(dispatch.call, (served.get(dispatch.call) || 0) + dispatch.quantity))
+
+    demands.forEach((demand) => {
+      const missing = demand.need - (served.get(demand.call) || 0)
+      if (missing > 0) unmet.push({ type, call: demand.call, quantity: missing })
+    })
+  })
+
+  return {
+    dispatches,
+    unmet,
+    totalDistance: dispatches.reduce((sum, dispatch) => sum + dispatch.distance, 0),
+    totalUnits: dispatches.reduce((sum, dispatch) => sum + dispatch.quantity, 0),
+    model,
+  }
+}
+
+/**
+ * Key of the (type, location) a dispatch is applied to by the API
+ */
+export function getDispatchTargetKey(dispatch: PlannedDispatch): string {
+  return `${dispatch.type}:${dispatch.call.county}:${dispatch.call.city}`
+}
+
+/**
+ * Re-assigns the units sent to each location so they fill calls oldest first,
+ * the way the API applies them, and orders dispatches by call age.
+ * Calls at one location share coordinates, so distances are unchanged.
+ *
+ * @param dispatches - Dispatches of a single emergency type
+ * @param calls - Open calls, oldest first
+ */
+export function sequenceForServer(dispatches: PlannedDispatch[], calls: EmergencyCall[]): PlannedDispatch[] {
+  const groups = new Map<string, PlannedDispatch[]>()
+  dispatches.forEach((dispatch) => {
+    const key = getDispatchTargetKey(dispatch)
+    groups.set(key, [...(groups.get(key) ?? []), dispatch])
+  })
+
+  const sequenced: PlannedDispatch[] = []
+  groups.forEach((group) => {
+    const { type, call: first } = group[0]
+    const atLocation = calls.filter((call) => call.city === first.city && call.county === first.county)
+    const supplies = group.map((dispatch) => ({
+      source: dispatch.source,
+      left: dispatch.quantity,
+      unitDistance: dispatch.distance / dispatch.quantity,
+    }))
+
+    atLocation.forEach((call) => {
+      let need = getRemainingNeed(call, type)
+      for (const supply of supplies) {
+        if (need <= 0) break
+        if (supply.left <= 0) continue
+
+        const quantity = Math.min(need, supply.left)
+        sequenced.push({ type, source: supply.source, call, quantity, distance: supply.unitDistance * quantity })
+        supply.left -= quantity
+        need -= quantity
+      }
+    })
+  })
+
+  const age = new Map(calls.map((call, index) => [call, index]))
+  return sequenced.sort((a, b) => (age.get(a.call) ?? 0) - (age.get(b.call) ?? 0))
+}
+
+/**
+ * Executes an approved plan through dispatchResource, one dispatch at a time
+ *
+ * @param plan - The plan to execute
+ * @param onProgress - Called after each dispatch with its result
+ * @returns The result of every planned dispatch
+ */
+export async function executeAssignmentPlan(
+  plan: AssignmentPlan,
+  onProgress?: (result: PlanExecutionResult, index: number) => void,
+): Promise<PlanExecutionResult[]> {
+  const results: PlanExecutionResult[] = []
+
+  for (const dispatch of plan.dispatches) {
+    let result: PlanExecutionResult
+    try {
+      await dispatchResource(dispatch.type, {
+        sourceCounty: dispatch.source.county,
+        sourceCity: dispatch.source.city,
+        targetCounty: dispatch.call.county,
+        targetCity: dispatch.call.city,
+        quantity: dispatch.quantity,
+      })
+      result = { dispatch, success: true }
+    } catch (error) {
+      result = { dispatch, success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+
+    results.push(result)
+    onProgress?.(result, results.length - 1)
+  }
+
+  const failed = results.filter((result) => !result.success).length
+  logger.info("Assignment plan executed", { dispatches: results.length, failed })
+
+  return results
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import type { ApiTransport } from "@/types"
+import { AutoDispatchEngine } from "./auto-dispatch-engine"
+import { DispatchGuard } from "./dispatch-guard"
+import { DispatchLedger } from "./dispatch-ledger"
+import { DispatchEmulator } from "./emulator/dispatch-emulator"
+import { createEmulatorTransport } from "./emulator/transport"
+import { CallIdentities } from "./entity-ids"
+
+const API_URL = "http://emulator.test"
+
+// Depots and calls all sit in Turda, so every call can be served from every depot
+const TURDA = { name: "Turda", county: "Cluj", lat: 46.5667, long: 23.7833 }
+
+const answer = (status: number, detail: string) =>
+  new Response(JSON.stringify({ detail }), { status, headers: { "Content-Type": "application/json" } })
+
+// Engine on its own emulator, guard, ledger and call numbering
+function engineOn(transport: ApiTransport, targetDispatches: number) {
+  return new AutoDispatchEngine(
+    { apiUrl: API_URL, seed: "engine", targetDispatches, maxActiveCalls: 3, pollInterval: 0, strategy: "nearest" },
+    transport,
+    () => 0,
+    { guard: new DispatchGuard(), ledger: new DispatchLedger(), callIds: new CallIdentities() },
+  )
+}
+
+describe("AutoDispatchEngine", () => {
+  it("runs until the target dispatches are reached", async () => {
+    const emulator = new DispatchEmulator({ locations: [TURDA], now: () => 0 })
+
+    const status = await engineOn(createEmulatorTransport(emulator, API_URL), 5).run()
+
+    expect(status).toMatchObject({ status: "Stopped", stats: { totalDispatches: 5 } })
+  })
+
+  it("keeps running when a dispatch and the inventory refresh after it both fail", async () => {
+    const emulated = createEmulatorTransport(new DispatchEmulator({ locations: [TURDA], now: () => 0 }), API_URL)
+    let dispatchFailed = false
+    let refreshFailed = false
+    const transport: ApiTransport = async (input, init) => {
+      if (!dispatchFailed && input.endsWith("/dispatch")) {
+        dispatchFailed = true
+        return answer(400, "Not enough units")
+      }
+      if (dispatchFailed && !refreshFailed && input.endsWith("/search")) {
+        refreshFailed = true
+        return answer(503, "Unavailable")
+      }
+      return emulated(input, init)
+    }
+
+    const status = await engineOn(transport, 5).run()
+
+    expect(refreshFailed).toBe(true)
+    expect(status).toMatchObject({ status: "Stopped", stats: { totalDispatches: 5 } })
+  })
+})
@@ -0,0 +1,470 @@
+/**
+ * Auto-Dispatch Engine
+ *
+ * TypeScript replacement for the :8000 Python auto-dispatch service. It resets
+ * the main API, keeps the call queue filled up to maxActiveCalls, allocates
+ * units with a pluggable strategy and dispatches them with bounded
+ * concurrency, most pressing calls first (see triage). Every dispatch is
+ * checked by the dispatch guard the page shares, so a call is never sent more
+ * units than it needs, and sent with an idempotency key through a dispatch
+ * ledger: a dispatch whose response is lost is reconciled before it is
+ * retried. Progress is reported in the same shape as /simulate/status.
+ *
+ * The engine only needs a fetch-compatible transport, so it runs in a Web
+ * Worker, on the main thread (e.g. against the emulator) or headless.
+ */
+import type {
+  ApiTransport,
+  DispatchRequest,
+  EmergencyCall,
+  EmergencyCallPayload,
+  EmergencyResource,
+  EmergencyType,
+  SimulationStatus,
+} from "@/types"
+import { DEFAULT_DISTANCE_MODEL, DISTANCE_MODELS, type DistanceModelId } from "@/utils/distance"
+import { getDispatchTargetKey, type PlannedDispatch } from "./assignment-optimizer"
+import { logger } from "@/components/logger"
+import { dispatchGuard, OverDispatchError, type DispatchGuard } from "./dispatch-guard"
+import { createIdempotencyKey, dispatchLedger, type DispatchLedger } from "./dispatch-ledger"
+import { DEFAULT_DISPATCH_STRATEGY, getDispatchStrategy, type DispatchStrategyName } from "./dispatch-strategies"
+import { callIdentities, type CallIdentities } from "./entity-ids"
+import { IDEMPOTENCY_HEADER, sendIdempotentDispatch } from "./idempotent-dispatch"
+import { createScoringRules } from "./scoring"
+import { DEFAULT_TRIAGE_RULES, orderByPriority, triageCalls, type TriageRules } from "./triage"
+
+export interface AutoDispatchConfig {
+  apiUrl: string
+  seed: string
+  targetDispatches: number
+  maxActiveCalls: number
+  strategy?: DispatchStrategyName
+  /** Dispatch requests in flight at once (default: 4, never above maxActiveCalls) */
+  concurrency?: number
+  /** Seconds to wait when there is nothing to do (default: 0.3) */
+  pollInterval?: number
+  distanceModel?: DistanceModelId
+  /** Rules ranking the queue; the most pressing calls are planned and sent first */
+  triageRules?: TriageRules
+}
+
+// Messages exchanged with the auto-dispatch Web Worker
+export type AutoDispatchWorkerRequest = { type: "start"; config: AutoDispatchConfig } | { type: "stop" }
+
+export type AutoDispatchWorkerEvent =
+  | { type: "status"; status: SimulationStatus }
+  | { type: "finished"; status: SimulationStatus }
+  | { type: "error"; message: string; status: SimulationStatus }
+
+/**
+ * Non-2xx response from the main API
+ */
+export class EngineRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message)
+    this.name = "EngineRequestError"
+  }
+}
+
+type EngineState = "Idle" | "Running" | "Stopped" | "Error"
+
+const EMERGENCY_TYPES: EmergencyType[] = ["Medical", "Police", "Fire", "Rescue", "Utility"]
+
+// Idle cycles without progress before the engine gives up
+const MAX_STALLED_CYCLES = 20
+
+// Attempts of a dispatch the server did not apply, and the delay before the first retry
+const DISPATCH_MAX_RETRIES = 3
+const DISPATCH_RETRY_DELAY_MS = 250
+
+/**
+ * Whether a failed engine request may still have been applied: no response arrived or the server failed
+ */
+function isLostResponse(error: unknown): boolean {
+  if (!(error instanceof EngineRequestError)) return true
+  return error.status >= 500 || error.status === 429
+}
+
+/**
+ * Formats a duration in milliseconds as HH:MM:SS
+ */
+function formatRunningTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return [hours, minutes, seconds].map((part) => part.toString().padStart(2, "0")).join(":")
+}
+
+/**
+ * Trims a plan so it does not overshoot the dispatch target
+ *
+ * @param planned - Dispatches in execution order
+ * @param remaining - Units still allowed before the target is reached
+ */
+export function limitToTarget(planned: PlannedDispatch[], remaining: number): PlannedDispatch[] {
+  const limited: PlannedDispatch[] = []
+
+  for (const dispatch of planned) {
+    if (remaining <= 0) break
+    const quantity = Math.min(dispatch.quantity, remaining)
+    limited.push({ ...dispatch, quantity, distance: (dispatch.distance / dispatch.quantity) * quantity })
+    remaining -= quantity
+  }
+
+  return limited
+}
+
+/**
+ * Services the engine shares with the rest of the page
+ */
+export interface AutoDispatchEngineServices {
+  /** Ledger recording the engine's dispatches (default: the API layer's) */
+  ledger?: DispatchLedger
+  /** Guard checking the engine's dispatches (default: the API layer's) */
+  guard?: DispatchGuard
+  /** Numbering of the calls the engine reads, the one the guard's other readers use (default: the API layer's) */
+  callIds?: CallIdentities
+}
+
+export class AutoDispatchEngine {
+  private state: EngineState = "Idle"
+  private stopRequested = false
+  private startedAt: number | null = null
+  private finishedAt: number | null = null
+  private totalDispatches = 0
+  private distance = 0
+  private openCalls = 0
+  private inventory: EmergencyResource[] = []
+  // Units sent per call, which also stand in for queues that do not report `dispatched`
+  private guard: DispatchGuard
+  private callIds: CallIdentities
+  private ledger: DispatchLedger
+  private listeners = new Set<(status: SimulationStatus) => void>()
+  private baseUrl: string
+
+  constructor(
+    private config: AutoDispatchConfig,
+    private transport: ApiTransport = (input, init) => fetch(input, init),
+    private now: () => number = () => Date.now(),
+    services: AutoDispatchEngineServices = {},
+  ) {
+    this.baseUrl = config.apiUrl.replace(/\/+$/, "")
+    this.guard = services.guard ?? dispatchGuard
+    this.callIds = services.callIds ?? callIdentities
+    this.ledger = services.ledger ?? dispatchLedger
+  }
+
+  /**
+   * Registers a listener called after every cycle
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (status: SimulationStatus) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getStatus(): SimulationStatus {
+    const end = this.finishedAt ?? this.now()
+
+    return {
+      status: this.state,
+      params: {
+        api_url: this.config.apiUrl,
+        seed: this.config.seed,
+        targetDispatches: this.config.targetDispatches,
+        maxActiveCalls: this.config.maxActiveCalls,
+      },
+      stats: {
+        totalDispatches: this.totalDispatches,
+        distance: this.distance,
+        runningTime: formatRunningTime(this.startedAt === null ? 0 : end - this.startedAt),
+        requestCount: this.openCalls,
+      },
+    }
+  }
+
+  /**
+   * Asks the run to stop after the dispatches currently in flight
+   */
+  stop(): void {
+    this.stopRequested = true
+  }
+
+  /**
+   * Runs a whole simulation
+   *
+   * @returns The final status
+   * @throws EngineRequestError if the main API rejects the reset or a queue request
+   */
+  async run(): Promise<SimulationStatus> {
+    const strategy = getDispatchStrategy(this.config.strategy ?? DEFAULT_DISPATCH_STRATEGY)
+    const model = DISTANCE_MODELS[this.config.distanceModel ?? DEFAULT_DISTANCE_MODEL]
+    const concurrency = Math.max(1, Math.min(this.config.concurrency ?? 4, this.config.maxActiveCalls))
+    const pollMs = (this.config.pollInterval ?? 0.3) * 1000
+    const triageRules = this.config.triageRules ?? DEFAULT_TRIAGE_RULES
+    const { callLifetime } = createScoringRules(this.config.maxActiveCalls)
+
+    this.state = "Running"
+    this.startedAt = this.now()
+
+    try {
+      const params = new URLSearchParams({
+        seed: this.config.seed,
+        targetDispatches: String(this.config.targetDispatches),
+        maxActiveCalls: String(this.config.maxActiveCalls),
+      })
+      await this.request(`/control/reset?${params.toString()}`)
+      await this.loadInventory()
+
+      let stalledCycles = 0
+      while (!this.stopRequested && this.totalDispatches < this.config.targetDispatches) {
+        const fetched = await this.fillQueue()
+        const calls = await this.fetchQueue()
+
+        const remainingTarget = this.config.targetDispatches - this.totalDispatches
+        const ranking = triageCalls(calls, this.inventory, model, triageRules, { callLifetime })
+        const allocated = strategy.allocate(
+          calls,
+          this.inventory,
+          model,
+          ranking.map((result) => result.call),
+        )
+        const planned = limitToTarget(orderByPriority(allocated, ranking), remainingTarget)
+
+        if (planned.length === 0) {
+          stalledCycles = fetched > 0 ? 0 : stalledCycles + 1
+          this.notify()
+          if (stalledCycles >= MAX_STALLED_CYCLES) break
+          await new Promise((resolve) => setTimeout(resolve, pollMs))
+          continue
+        }
+
+        stalledCycles = 0
+        await this.runWithConcurrency(planned, concurrency)
+        this.notify()
+      }
+
+      this.state = "Stopped"
+    } catch (error) {
+      this.state = "Error"
+      throw error
+    } finally {
+      this.finishedAt = this.now()
+      this.notify()
+    }
+
+    return this.getStatus()
+  }
+
+  /**
+   * Requests new calls until the queue holds maxActiveCalls
+   *
+   * @returns Number of calls received
+   */
+  private async fillQueue(): Promise<number> {
+    let fetched = 0
+
+    while (!this.stopRequested && this.openCalls < this.config.maxActiveCalls) {
+      try {
+        await this.request("/calls/next")
+        this.openCalls += 1
+        fetched += 1
+      } catch (error) {
+        // 400 means the queue is full or the simulation ended
+        if (error instanceof EngineRequestError && error.status === 400) break
+        throw error
+      }
+    }
+
+    return fetched
+  }
+
+  /**
+   * Reads the open calls into the guard, filling in dispatched counts from its records if the API omits them
+   */
+  private async fetchQueue(): Promise<EmergencyCall[]> {
+    const checkpoint = this.guard.checkpoint()
+    const calls = this.callIds.identifyQueue(await this.request<EmergencyCallPayload[]>("/calls/queue"))
+    this.openCalls = calls.length
+    this.guard.reconcile(calls, checkpoint)
+
+    return calls.map((call) => {
+      if (call.dispatched) return call
+      return {
+        ...call,
+        dispatched: Object.fromEntries(
+          call.requests.map((req) => [
+            req.Type,
+            req.Quantity - (this.guard.getRemaining(call.id, req.Type) ?? req.Quantity),
+          ]),
+        ) as Record<EmergencyType, number>,
+      }
+    })
+  }
+
+  private async loadInventory(): Promise<void> {
+    const byType = await Promise.all(EMERGENCY_TYPES.map((type) => this.searchInventory(type)))
+    this.inventory = byType.flat()
+  }
+
+  private async refreshInventory(type: EmergencyType): Promise<EmergencyResource[]> {
+    const resources = await this.searchInventory(type)
+    this.inventory = [...this.inventory.filter((resource) => resource.type !== type), ...resources]
+    return resources
+  }
+
+  /**
+   * Reads a type's depots, keeping the ledger's known stock current for reconciliation
+   */
+  private async searchInventory(type: EmergencyType): Promise<EmergencyResource[]> {
+    const found = await this.request<Omit<EmergencyResource, "type">[]>(`/${type.toLowerCase()}/search`)
+    const resources = found.map((resource) => ({ ...resource, type }) as EmergencyResource)
+    this.ledger.observe({ kind: "resources", type, resources })
+    return resources
+  }
+
+  /**
+   * Executes dispatches with at most `concurrency` requests in flight.
+   * Dispatches to the same target stay sequential, in plan order.
+   */
+  private async runWithConcurrency(planned: PlannedDispatch[], concurrency: number): Promise<void> {
+    const lanes = new Map<string, PlannedDispatch[]>()
+    planned.forEach((dispatch) => {
+      const key = getDispatchTargetKey(dispatch)
+      lanes.set(key, [...(lanes.get(key) ?? []), dispatch])
+    })
+    const queue = [...lanes.values()]
+
+    let next = 0
+    const worker = async () => {
+      while (next < queue.length && !this.stopRequested) {
+        const lane = queue[next]
+        next += 1
+        for (const dispatch of lane) {
+          if (this.stopRequested) break
+          await this.execute(dispatch)
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
+  }
+
+  private async execute(dispatch: PlannedDispatch): Promise<void> {
+    const request: DispatchRequest = {
+      sourceCounty: dispatch.source.county,
+      sourceCity: dispatch.source.city,
+      targetCounty: dispatch.call.county,
+      targetCity: dispatch.call.city,
+      quantity: dispatch.quantity,
+    }
+
+    let reservation: string
+    try {
+      reservation = this.guard.reserve(dispatch.type, request)
+    } catch (error) {
+      if (!(error instanceof OverDispatchError)) throw error
+      // An earlier dispatch of the plan already covered the call; the next cycle replans
+      return
+    }
+
+    try {
+      const path = `/${dispatch.type.toLowerCase()}/dispatch`
+      const response = await sendIdempotentDispatch(
+        createIdempotencyKey(),
+        dispatch.type,
+        request,
+        {
+          send: (key) => this.request<{ distance?: number }>(path, "POST", request, { [IDEMPOTENCY_HEADER]: key }),
+          isLostResponse,
+          inspect: async () => {
+            const [resources, queue] = await Promise.all([
+              this.refreshInventory(dispatch.type),
+              this.request<EmergencyCallPayload[]>("/calls/queue"),
+            ])
+            const depot = resources.find(
+              (resource) => resource.county === request.sourceCounty && resource.city === request.sourceCity,
+            )
+            return { depotStock: depot ? depot.quantity : null, queue }
+          },
+          onApplied: () => this.ledger.observe({ kind: "dispatch", type: dispatch.type, request }),
+        },
+        {
+          ledger: this.ledger,
+          guard: this.guard,
+          reservation,
+          maxRetries: DISPATCH_MAX_RETRIES,
+          retryDelay: (attempt) => DISPATCH_RETRY_DELAY_MS * Math.pow(2, attempt - 1),
+        },
+      )
+
+      this.totalDispatches += dispatch.quantity
+      this.distance += typeof response?.distance === "number" ? response.distance : dispatch.distance
+
+      // A reconciled dispatch was read back with the depot's current stock
+      const depot = this.inventory.find(
+        (resource) =>
+          resource.type === dispatch.type &&
+          resource.city === dispatch.source.city &&
+          resource.county === dispatch.source.county,
+      )
+      if (depot && response !== null) depot.quantity = Math.max(0, depot.quantity - dispatch.quantity)
+    } catch (error) {
+      // The ledger settled the dispatch and the guard kept or returned its units; the run goes on
+      logger.warn(`Auto-dispatch of ${dispatch.quantity} ${dispatch.type} unit(s) to ${request.targetCity} failed`, {
+        error,
+        request,
+      })
+
+      // The plan went stale (depot emptied or call gone); resync and let the next cycle replan
+      try {
+        await this.refreshInventory(dispatch.type)
+      } catch (refreshError) {
+        // The next cycle plans from the stock known so far; its own requests surface a lasting outage
+        logger.warn(`Could not refresh ${dispatch.type} inventory after a failed auto-dispatch`, {
+          error: refreshError,
+        })
+      }
+    }
+  }
+
+  private async request<T = unknown>(
+    path: string,
+    method = "GET",
+    body?: unknown,
+    headers: Record<string, string> = {},
+  ): Promise<T> {
+    const response = await this.transport(`${this.baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    const text = await response.text()
+    let data: unknown = null
+    try {
+      data = text ? JSON.parse(text) : null
+    } catch {
+      data = text
+    }
+
+    if (!response.ok) {
+      const detail = (data as { detail?: string } | null)?.detail
+      throw new EngineRequestError(detail || `${method} ${path} failed with ${response.status}`, response.status)
+    }
+
+    return data as T
+  }
+
+  private notify(): void {
+    const status = this.getStatus()
+    this.listeners.forEach((listener) => listener(status))
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Benchmark Reports
+ *
+ * Data model and formats for strategy benchmarks: every strategy runs on the
+ * same seeds and the final /control/status of each run is collected together
+ * with per-call service latency. Reports are written as Markdown for reading,
+ * CSV for spreadsheets and JSON for the dashboard's Benchmarks tab, which
+ * also accepts the CSV.
+ */
+import type { ControlStatus } from "@/types"
+import { calculateScore } from "./scoring"
+
+export interface BenchmarkRun {
+  strategy: string
+  seed: string
+  status: string
+  totalDispatches: number
+  distance: number
+  penalty: number
+  missed: number
+  overDispatched: number
+  httpRequests: number
+  runningTime: string
+  /** Distance plus penalty, lower is better */
+  score: number
+  meanLatencyMs: number
+  p95LatencyMs: number
+  maxLatencyMs: number
+}
+
+export interface BenchmarkStrategySummary {
+  strategy: string
+  runs: number
+  meanPenalty: number
+  medianPenalty: number
+  worstPenalty: number
+  meanDistance: number
+  meanScore: number
+  meanLatencyMs: number
+  p95LatencyMs: number
+}
+
+export interface BenchmarkReport {
+  generatedAt: string
+  apiUrl: string
+  targetDispatches: number
+  maxActiveCalls: number
+  seeds: string[]
+  strategies: string[]
+  runs: BenchmarkRun[]
+  summaries: BenchmarkStrategySummary[]
+}
+
+// Column order of the CSV report, one row per run
+const CSV_COLUMNS: (keyof BenchmarkRun)[] = [
+  "strategy",
+  "seed",
+  "status",
+  "totalDispatches",
+  "distance",
+  "penalty",
+  "missed",
+  "overDispatched",
+  "httpRequests",
+  "runningTime",
+  "score",
+  "meanLatencyMs",
+  "p95LatencyMs",
+  "maxLatencyMs",
+]
+
+const TEXT_COLUMNS = new Set<keyof BenchmarkRun>(["strategy", "seed", "status", "runningTime"])
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0)
+
+/**
+ * Value below which the given share of the values fall (nearest rank)
+ *
+ * @param values - Samples in any order
+ * @param fraction - Between 0 and 1, e.g. 0.5 for the median
+ */
+export function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(fraction * sorted.length) - 1))]
+}
+
+/**
+ * Builds a report row from a finished run
+ *
+ * @param strategy - Strategy that produced the run
+ * @param status - Final /control/status
+ * @param callLatencies - Milliseconds from arrival to fully served, per call
+ */
+export function createBenchmarkRun(strategy: string, status: ControlStatus, callLatencies: number[]): BenchmarkRun {
+  return {
+    strategy,
+    seed: status.seed,
+    status: status.status,
+    totalDispatches: status.totalDispatches,
+    distance: status.distance,
+    penalty: status.penalty,
+    missed: status.errors.missed,
+    overDispatched: status.errors.overDispatched,
+    httpRequests: status.httpRequests,
+    runningTime: status.runningTime,
+    score: calculateScore(status),
+    meanLatencyMs: mean(callLatencies),
+    p95LatencyMs: percentile(callLatencies, 0.95),
+    maxLatencyMs: callLatencies.length ? Math.max(...callLatencies) : 0,
+  }
+}
+
+/**
+ * Aggregates runs per strategy, in order of first appearance
+ */
+export function summarizeBenchmark(runs: BenchmarkRun[]): BenchmarkStrategySummary[] {
+  const strategies = [...new Set(runs.map((run) => run.strategy))]
+
+  return strategies.map((strategy) => {
+    const own = runs.filter((run) => run.strategy === strategy)
+    const penalties = own.map((run) => run.penalty)
+
+    return {
+      strategy,
+      runs: own.length,
+      meanPenalty: mean(penalties),
+      medianPenalty: percentile(penalties, 0.5),
+      worstPenalty: Math.max(...penalties),
+      meanDistance: mean(own.map((run) => run.distance)),
+      meanScore: mean(own.map((run) => run.score)),
+      meanLatencyMs: mean(own.map((run) => run.meanLatencyMs)),
+      p95LatencyMs: percentile(own.map((run) => run.p95LatencyMs), 0.95),
+    }
+  })
+}
+
+/**
+ * Renders a report as Markdown: a per-strategy summary and a seed-by-seed comparison
+ */
+export function formatBenchmarkMarkdown(report: BenchmarkReport): string {
+  const lines = [
+    "# Dispatch Strategy Benchmark",
+    "",
+    `Generated ${report.generatedAt} against \`${report.apiUrl}\` with ${report.targetDispatches} target dispatches and ${report.maxActiveCalls} max active calls.`,
+    "",
+    "## Summary",
+    "",
+    "| Strategy | Runs | Mean penalty | Median penalty | Worst penalty | Mean distance | Mean score | Mean latency (ms) | p95 latency (ms) |",
+    "| --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |",
+    ...report.summaries.map((summary) => {
+      const cells = [
+        summary.strategy,
+        summary.runs,
+        summary.meanPenalty.toFixed(1),
+        summary.medianPenalty,
+        summary.worstPenalty,
+        summary.meanDistance.toFixed(2),
+        summary.meanScore.toFixed(2),
+        summary.meanLatencyMs.toFixed(1),
+        summary.p95LatencyMs.toFixed(1),
+      ]
+      return `| ${cells.join(" | ")} |`
+    }),
+    "",
+    "## Score by seed",
+    "",
+    `| Seed | ${report.strategies.join(" | ")} |`,
+    `| --- | ${report.strategies.map(() => "---:").join(" | ")} |`,
+    ...report.seeds.map((seed) => {
+      const cells = report.strategies.map((strategy) => {
+        const run = report.runs.find((candidate) => candidate.seed === seed && candidate.strategy === strategy)
+        return run ? `${run.score.toFixed(2)} (penalty ${run.penalty})` : "n/a"
+      })
+      return `| ${seed} | ${cells.join(" | ")} |`
+    }),
+    "",
+  ]
+
+  return lines.join("\n")
+}
+
+/**
+ * Renders a report as CSV, one row per run
+ */
+export function formatBenchmarkCsv(report: BenchmarkReport): string {
+  const escape = (value: string | number) => {
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...report.runs.map((run) => CSV_COLUMNS.map((column) => escape(run[column])).join(",")),
+    "",
+  ].join("\n")
+}
+
+/**
+ * Splits one CSV line, honouring quoted fields
+ */
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      cells.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+
+  cells.push(current)
+  return cells
+}
+
+/**
+ * Reads a report written by the benchmark CLI, as JSON or CSV
+ *
+ * @param text - File contents
+ * @returns The report; CSV input only carries runs, so the header fields are derived from them
+ * @throws Error if the text is neither a JSON report nor a benchmark CSV
+ */
+export function parseBenchmarkReport(text: string): BenchmarkReport {
+  const trimmed = text.trim()
+
+  if (trimmed.startsWith("{")) {
+    const report = JSON.parse(trimmed) as BenchmarkReport
+    if (!Array.isArray(report.runs)) {
+      throw new Error("Not a benchmark report: missing runs")
+    }
+    return { ...report, summaries: summarizeBenchmark(report.runs) }
+  }
+
+  const [header, ...rows] = trimmed.split(/\r?\n/).filter((line) => line.length > 0)
+  const columns = parseCsvLine(header ?? "") as (keyof BenchmarkRun)[]
+  const missing = CSV_COLUMNS.filter((column) => !columns.includes(column))
+  if (missing.length > 0) {
+    throw new Error(`Not a benchmark CSV: missing columns ${missing.join(", ")}`)
+  }
+
+  const runs = rows.map((row) => {
+    const cells = parseCsvLine(row)
+    return Object.fromEntries(
+      columns.map((column, index) => [column, TEXT_COLUMNS.has(column) ? cells[index] : Number(cells[index])]),
+    ) as unknown as BenchmarkRun
+  })
+
+  return {
+    generatedAt: "",
+    apiUrl: "",
+    targetDispatches: runs[0]?.totalDispatches ?? 0,
+    maxActiveCalls: 0,
+    seeds: [...new Set(runs.map((run) => run.seed))],
+    strategies: [...new Set(runs.map((run) => run.strategy))],
+    runs,
+    summaries: summarizeBenchmark(runs),
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Browser Auto-Dispatch
+ *
+ * Runs the TypeScript auto-dispatch engine inside the page instead of the
+ * :8000 Python service. Against the real API the engine runs in a Web Worker;
+ * when the emulator (or any custom transport) is active it runs on the main
+ * thread, because the worker cannot reach the in-page transport.
+ */
+import { logger } from "@/components/logger"
+import type { SimulationStatus } from "@/types"
+import { getApiTransport, isUsingNetworkTransport } from "./api"
+import {
+  AutoDispatchEngine,
+  type AutoDispatchConfig,
+  type AutoDispatchWorkerEvent,
+  type AutoDispatchWorkerRequest,
+} from "./auto-dispatch-engine"
+
+type StatusListener = (status: SimulationStatus | null) => void
+
+export class BrowserAutoDispatch {
+  private status: SimulationStatus | null = null
+  private worker: Worker | null = null
+  private engine: AutoDispatchEngine | null = null
+  private listeners = new Set<StatusListener>()
+
+  /**
+   * Starts a simulation, stopping any run already in progress
+   *
+   * @param config - Simulation parameters and strategy
+   */
+  start(config: AutoDispatchConfig): void {
+    this.stop()
+
+    if (typeof Worker !== "undefined" && isUsingNetworkTransport()) {
+      this.startWorker(config)
+    } else {
+      this.startInline(config)
+    }
+
+    logger.info("In-browser auto dispatch started", { config, worker: this.worker !== null })
+  }
+
+  /**
+   * Asks the current run to stop after the dispatches in flight
+   */
+  stop(): void {
+    this.engine?.stop()
+    this.post({ type: "stop" })
+  }
+
+  /**
+   * Latest status of the current or last run, in the /simulate/status shape
+   */
+  getStatus(): SimulationStatus | null {
+    return this.status
+  }
+
+  isRunning(): boolean {
+    return this.status?.status === "Running"
+  }
+
+  /**
+   * Registers a listener called on every status update
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private startWorker(config: AutoDispatchConfig): void {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("../workers/auto-dispatch.worker.ts", import.meta.url))
+      this.worker.onmessage = (message: MessageEvent<AutoDispatchWorkerEvent>) => this.handleEvent(message.data)
+      this.worker.onerror = (event) => {
+        logger.error("Auto dispatch worker failed", { message: event.message })
+      }
+    }
+
+    this.post({ type: "start", config })
+  }
+
+  private startInline(config: AutoDispatchConfig): void {
+    const engine = new AutoDispatchEngine(config, getApiTransport())
+    this.engine = engine
+    engine.subscribe((status) => this.handleEvent({ type: "status", status }))
+
+    engine
+      .run()
+      .then((status) => this.handleEvent({ type: "finished", status }))
+      .catch((error: unknown) =>
+        this.handleEvent({
+          type: "error",
+          message: error instanceof Error ? error.message : String(error),
+          status: engine.getStatus(),
+        }),
+      )
+      .finally(() => {
+        if (this.engine === engine) this.engine = null
+      })
+  }
+
+  private post(request: AutoDispatchWorkerRequest): void {
+    this.worker?.postMessage(request)
+  }
+
+  private handleEvent(event: AutoDispatchWorkerEvent): void {
+    this.status = event.status
+
+    if (event.type === "finished") {
+      logger.info("In-browser auto dispatch finished", { stats: event.status.stats })
+    } else if (event.type === "error") {
+      logger.error("In-browser auto dispatch failed", { message: event.message })
+    }
+
+    this.listeners.forEach((listener) => listener(this.status))
+  }
+}
+
+export const browserAutoDispatch = new BrowserAutoDispatch()
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { fetchLocations, setApiTransport } from "./api"
+import { CircuitBreakerRegistry, circuitBreakers, getEndpointKey, type CircuitBreakerOptions } from "./circuit-breaker"
+
+const ENDPOINT = "GET http://localhost:5000/calls/queue"
+
+const options: CircuitBreakerOptions = {
+  windowSize: 4,
+  minimumRequests: 2,
+  failureRateThreshold: 0.5,
+  openDurationMs: 1000,
+  maxOpenDurationMs: 3000,
+}
+
+// Registry on a clock the test moves
+function setUp() {
+  let time = 0
+  const breakers = new CircuitBreakerRegistry(options, () => time)
+  const trip = (retryAfterMs: number | null = null) => {
+    breakers.recordFailure(ENDPOINT, "503", retryAfterMs)
+    breakers.recordFailure(ENDPOINT, "503", retryAfterMs)
+  }
+  return { breakers, trip, advance: (ms: number) => (time += ms) }
+}
+
+const state = (breakers: CircuitBreakerRegistry) => breakers.getSnapshot()[0]?.state
+
+describe("CircuitBreakerRegistry", () => {
+  it("opens once enough recent requests failed and refuses requests until the cooldown passed", () => {
+    const { breakers, trip, advance } = setUp()
+    breakers.recordFailure(ENDPOINT, "503")
+    expect(breakers.acquire(ENDPOINT)).toBeNull()
+
+    trip()
+
+    expect(state(breakers)).toBe("open")
+    expect(breakers.acquire(ENDPOINT)).toBe(1000)
+    advance(999)
+    expect(breakers.acquire(ENDPOINT)).toBe(1000)
+  })
+
+  it("stays closed while the failure rate is under the threshold", () => {
+    const { breakers } = setUp()
+    breakers.recordFailure(ENDPOINT, "503")
+    for (let success = 0; success < 3; success++) breakers.recordSuccess(ENDPOINT)
+    breakers.recordFailure(ENDPOINT, "503")
+
+    // The window keeps the last 4 outcomes, one of them a failure
+    expect(breakers.getSnapshot()[0]).toMatchObject({ state: "closed", requests: 4, failureRate: 0.25 })
+  })
+
+  it("lets one probe through after the cooldown and closes on its success", () => {
+    const { breakers, trip, advance } = setUp()
+    trip()
+    advance(1000)
+    expect(state(breakers)).toBe("half-open")
+
+    expect(breakers.acquire(ENDPOINT)).toBeNull()
+    expect(breakers.acquire(ENDPOINT)).not.toBeNull()
+
+    breakers.recordSuccess(ENDPOINT)
+    expect(breakers.getSnapshot()[0]).toMatchObject({ state: "closed", trips: 0, requests: 0 })
+    expect(breakers.acquire(ENDPOINT)).toBeNull()
+  })
+
+  it("gives a cancelled probe's slot back without recording an outcome", () => {
+    const { breakers, trip, advance } = setUp()
+    trip()
+    advance(1000)
+    expect(breakers.acquire(ENDPOINT)).toBeNull()
+
+    breakers.release(ENDPOINT)
+
+    expect(state(breakers)).toBe("half-open")
+    expect(breakers.acquire(ENDPOINT)).toBeNull()
+  })
+
+  it("opens again when the probe fails, doubling the cooldown up to its cap", () => {
+    const { breakers, trip, advance } = setUp()
+    trip()
+
+    const retryAts = [1, 2, 3].map(() => {
+      advance(10000)
+      breakers.acquire(ENDPOINT)
+      breakers.recordFailure(ENDPOINT, "503")
+      return breakers.getSnapshot()[0].retryAt
+    })
+
+    expect(retryAts).toEqual([10000 + 2000, 20000 + 3000, 30000 + 3000])
+    expect(breakers.getSnapshot()[0]).toMatchObject({ state: "open", trips: 4, lastError: "503" })
+  })
+
+  it("never reopens sooner than the server's Retry-After", () => {
+    const { breakers, trip } = setUp()
+
+    trip(8000)
+    expect(breakers.getSnapshot()[0].retryAt).toBe(8000)
+
+    breakers.reset(ENDPOINT)
+    trip(10)
+    expect(breakers.getSnapshot()[0].retryAt).toBe(1000)
+  })
+
+  it("keys endpoints by method and path without the query string", () => {
+    expect(getEndpointKey("get", "http://localhost:5000/control/reset?seed=1")).toBe(
+      "GET http://localhost:5000/control/reset",
+    )
+  })
+})
+
+describe("API retries", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    setApiTransport(null)
+    circuitBreakers.reset()
+  })
+
+  it("waits for the server's Retry-After before retrying", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] })
+    const responses = [
+      new Response(JSON.stringify({ detail: "Busy" }), { status: 503, headers: { "Retry-After": "2" } }),
+      new Response(JSON.stringify([]), { headers: { "Content-Type": "application/json" } }),
+    ]
+    const transport = vi.fn(async () => responses.shift() as Response)
+    setApiTransport(transport)
+
+    const locations = fetchLocations()
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(transport).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    await expect(locations).resolves.toEqual([])
+    expect(transport).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,238 @@
+/**
+ * Circuit Breakers
+ *
+ * Tracks the outcome of recent requests per endpoint and stops sending
+ * requests to an endpoint whose failure rate crosses a threshold:
+ *
+ * - closed: requests flow; outcomes are kept in a rolling window.
+ * - open: requests fail fast until the cooldown (or the server's
+ *   Retry-After) has passed. Each consecutive trip doubles the cooldown.
+ * - half-open: a single probe request is let through; success closes the
+ *   circuit, failure opens it again.
+ */
+import { logger } from "@/components/logger"
+
+export type CircuitState = "closed" | "open" | "half-open"
+
+export interface CircuitBreakerOptions {
+  /** Number of recent outcomes the failure rate is computed over */
+  windowSize: number
+  /** Outcomes needed in the window before the circuit may open */
+  minimumRequests: number
+  /** Failure rate (0-1) at which the circuit opens */
+  failureRateThreshold: number
+  /** Cooldown after the first trip, in milliseconds */
+  openDurationMs: number
+  /** Upper bound of the doubling cooldown, in milliseconds */
+  maxOpenDurationMs: number
+}
+
+export interface CircuitSnapshot {
+  endpoint: string
+  state: CircuitState
+  failureRate: number
+  requests: number
+  /** Epoch milliseconds when an open circuit lets a probe through */
+  retryAt: number | null
+  /** Consecutive trips without a successful probe */
+  trips: number
+  lastError: string | null
+}
+
+type CircuitListener = () => void
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  windowSize: 20,
+  minimumRequests: 5,
+  failureRateThreshold: 0.5,
+  openDurationMs: 5000,
+  maxOpenDurationMs: 60000,
+}
+
+interface Circuit {
+  state: CircuitState
+  outcomes: boolean[]
+  retryAt: number | null
+  trips: number
+  probeInFlight: boolean
+  lastError: string | null
+}
+
+/**
+ * Identifies an endpoint by method, origin and path, ignoring the query string
+ */
+export function getEndpointKey(method: string, url: string): string {
+  return `${method.toUpperCase()} ${url.split("?")[0]}`
+}
+
+export class CircuitBreakerRegistry {
+  private circuits = new Map<string, Circuit>()
+  private listeners = new Set<CircuitListener>()
+
+  constructor(
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    private now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Asks whether a request to the endpoint may be sent; a half-open circuit admits one probe at a time
+   *
+   * @returns Null if the request may go ahead, else the epoch milliseconds when the circuit lets a probe through
+   */
+  acquire(endpoint: string): number | null {
+    const circuit = this.circuits.get(endpoint)
+    if (!circuit || circuit.state === "closed") return null
+
+    if (circuit.state === "open") {
+      if (circuit.retryAt !== null && this.now() < circuit.retryAt) return circuit.retryAt
+      this.transition(endpoint, circuit, "half-open")
+    }
+
+    if (circuit.probeInFlight) return circuit.retryAt ?? this.now()
+    circuit.probeInFlight = true
+    return null
+  }
+
+  /**
+   * Gives back a probe slot taken by acquire() without recording an outcome, e.g. when the request was cancelled
+   */
+  release(endpoint: string): void {
+    const circuit = this.circuits.get(endpoint)
+    if (circuit) circuit.probeInFlight = false
+  }
+
+  recordSuccess(endpoint: string): void {
+    const circuit = this.getCircuit(endpoint)
+    circuit.probeInFlight = false
+
+    if (circuit.state !== "closed") {
+      circuit.outcomes = []
+      circuit.trips = 0
+      circuit.retryAt = null
+      this.transition(endpoint, circuit, "closed")
+      return
+    }
+
+    this.pushOutcome(circuit, true)
+    this.notify()
+  }
+
+  /**
+   * Records a failed request
+   *
+   * @param endpoint - Endpoint key
+   * @param error - What went wrong, shown in the status
+   * @param retryAfterMs - Delay requested by the server, which the cooldown never undercuts
+   */
+  recordFailure(endpoint: string, error: string, retryAfterMs: number | null = null): void {
+    const circuit = this.getCircuit(endpoint)
+    circuit.probeInFlight = false
+    circuit.lastError = error
+
+    if (circuit.state === "half-open") {
+      this.trip(endpoint, circuit, retryAfterMs)
+      return
+    }
+
+    this.pushOutcome(circuit, false)
+    const failureRate = this.getFailureRate(circuit)
+    if (
+      circuit.state === "closed" &&
+      circuit.outcomes.length >= this.options.minimumRequests &&
+      failureRate >= this.options.failureRateThreshold
+    ) {
+      this.trip(endpoint, circuit, retryAfterMs)
+    } else {
+      this.notify()
+    }
+  }
+
+  /**
+   * Current state of every endpoint seen so far
+   */
+  getSnapshot(): CircuitSnapshot[] {
+    return [...this.circuits.entries()].map(([endpoint, circuit]) => ({
+      endpoint,
+      // An open circuit whose cooldown has passed admits the next request as a probe
+      state: circuit.state === "open" && this.now() >= (circuit.retryAt ?? 0) ? "half-open" : circuit.state,
+      failureRate: this.getFailureRate(circuit),
+      requests: circuit.outcomes.length,
+      retryAt: circuit.state === "open" ? circuit.retryAt : null,
+      trips: circuit.trips,
+      lastError: circuit.lastError,
+    }))
+  }
+
+  /**
+   * Closes one circuit, or all of them
+   */
+  reset(endpoint?: string): void {
+    if (endpoint) {
+      this.circuits.delete(endpoint)
+    } else {
+      this.circuits.clear()
+    }
+    this.notify()
+  }
+
+  /**
+   * Registers a listener called whenever a circuit records an outcome or changes state
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private getCircuit(endpoint: string): Circuit {
+    let circuit = this.circuits.get(endpoint)
+    if (!circuit) {
+      circuit = { state: "closed", outcomes: [], retryAt: null, trips: 0, probeInFlight: false, lastError: null }
+      this.circuits.set(endpoint, circuit)
+    }
+    return circuit
+  }
+
+  private pushOutcome(circuit: Circuit, success: boolean): void {
+    circuit.outcomes.push(success)
+    if (circuit.outcomes.length > this.options.windowSize) circuit.outcomes.shift()
+  }
+
+  private getFailureRate(circuit: Circuit): number {
+    if (circuit.outcomes.length === 0) return 0
+    return circuit.outcomes.filter((success) => !success).length / circuit.outcomes.length
+  }
+
+  private trip(endpoint: string, circuit: Circuit, retryAfterMs: number | null): void {
+    circuit.trips += 1
+    const cooldown = Math.min(
+      this.options.openDurationMs * Math.pow(2, circuit.trips - 1),
+      this.options.maxOpenDurationMs,
+    )
+    circuit.retryAt = this.now() + Math.max(cooldown, retryAfterMs ?? 0)
+    this.transition(endpoint, circuit, "open")
+  }
+
+  private transition(endpoint: string, circuit: Circuit, state: CircuitState): void {
+    if (circuit.state !== state) {
+      const meta = { endpoint, failureRate: this.getFailureRate(circuit), retryAt: circuit.retryAt }
+      if (state === "open") {
+        logger.warn(`Circuit opened for ${endpoint}`, { ...meta, lastError: circuit.lastError })
+      } else {
+        logger.info(`Circuit ${state} for ${endpoint}`, meta)
+      }
+    }
+    circuit.state = state
+    this.notify()
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Breakers shared by every request made through the API layer
+export const circuitBreakers = new CircuitBreakerRegistry()
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import type { EmergencyCall, EmergencyResource, Location } from "@/types"
+import { DISTANCE_MODELS } from "@/utils/distance"
+import { CallDensity, rankByCoverage } from "./coverage-planner"
+
+// Planar distances are in degrees along one meridian, so a place 0.5° from its next depot is at the Fair limit
+const model = DISTANCE_MODELS.planar
+
+const call = (id: string, latitude: number, quantity = 1): EmergencyCall => ({
+  id,
+  county: "Cluj",
+  city: id,
+  latitude,
+  longitude: 0,
+  requests: [{ Type: "Fire", Quantity: quantity }],
+})
+
+const depot = (city: string, latitude: number, quantity: number): EmergencyResource => ({
+  id: `Fire:Cluj:${city}`,
+  type: "Fire",
+  county: "Cluj",
+  city,
+  latitude,
+  longitude: 0,
+  quantity,
+})
+
+const place = (name: string, lat: number): Location => ({ name, county: "Cluj", lat, long: 0 })
+
+// "Lonely" is nearest to the call but is the only depot within reach of "Remote"
+function setUp() {
+  const density = new CallDensity()
+  density.setLocations([place("Remote", -1), place("Hub", 0.2)])
+  const resources = [depot("Lonely", 0.1, 1), depot("Central", 0.2, 10)]
+  return { density, resources }
+}
+
+const cities = (rankings: { resource: EmergencyResource }[]) => rankings.map((ranking) => ranking.resource.city)
+
+describe("rankByCoverage", () => {
+  it("prefers a farther depot over emptying the only one covering another area", () => {
+    const { density, resources } = setUp()
+
+    const rankings = rankByCoverage(call("Dej", 0), "Fire", resources, model, density)
+
+    expect(cities(rankings)).toEqual(["Central", "Lonely"])
+    expect(rankings[1]).toMatchObject({ quantity: 1, leavesUncovered: true })
+    expect(rankings[1].distance).toBeCloseTo(0.1)
+    expect(rankings[1].futureCost).toBeGreaterThan(rankings[0].futureCost)
+    expect(rankings[0].leavesUncovered).toBe(false)
+  })
+
+  it("ranks by distance alone when no future calls are protected", () => {
+    const { density, resources } = setUp()
+
+    const rankings = rankByCoverage(call("Dej", 0), "Fire", resources, model, density, { lookaheadCalls: 0 })
+
+    expect(cities(rankings)).toEqual(["Lonely", "Central"])
+    expect(rankings.map((ranking) => ranking.futureCost)).toEqual([0, 0])
+  })
+
+  it("leaves out depots of other types and empty ones", () => {
+    const { density } = setUp()
+    const resources = [depot("Lonely", 0.1, 0), { ...depot("Central", 0.2, 10), type: "Police" as const }]
+
+    expect(rankByCoverage(call("Dej", 0), "Fire", resources, model, density)).toEqual([])
+  })
+})
+
+describe("CallDensity", () => {
+  it("counts each call once and weighs places by the units asked there", () => {
+    const density = new CallDensity()
+    density.setLocations([place("Remote", -1), place("Hub", 0.2)])
+
+    density.record([call("Hub", 0.2, 3)])
+    density.record([call("Hub", 0.2, 3)])
+
+    expect(density.getExpectedUnits("Fire", 10)).toBe(30)
+    expect(density.getDemand("Fire").map((demand) => demand.share)).toEqual([0.5 / 4, 3.5 / 4])
+  })
+})
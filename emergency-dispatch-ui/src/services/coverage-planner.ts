@@ -0,0 +1,263 @@
+/**
+ * Coverage Planner
+ *
+ * Ranks depots for a call by the distance travelled now plus the distance the
+ * pick is expected to add to future calls.
+ *
+ * - Call density is estimated per place: every place listed by /locations
+ *   gets a small prior weight, and every call seen adds the units it asked for.
+ * - Each place is covered by its nearest stocked depot of a type, so a depot
+ *   protects the expected demand of its area for the next calls.
+ * - Units taken from a depot that its area is expected to need send those
+ *   future calls to the next nearest depot. A place whose next depot is
+ *   beyond the model's Fair rating, or that has none, counts as uncovered
+ *   and is charged a fixed penalty per unit instead.
+ *
+ * The planner has no UI dependencies, so headless runners can use it directly.
+ */
+import type { ApiEvent, EmergencyCall, EmergencyResource, EmergencyType, Location } from "@/types"
+import type { DistanceModel } from "@/utils/distance"
+import { subscribeToApiEvents } from "./api"
+import { getRemainingNeed } from "./scoring"
+
+// Calls ahead whose demand the ranking protects
+const DEFAULT_LOOKAHEAD_CALLS = 20
+// Weight of a place no call came from yet, relative to one requested unit
+const PRIOR_WEIGHT = 0.5
+// Cost of a future unit at an uncovered place, as a multiple of the Fair rating's upper bound
+const UNCOVERED_COST_FACTOR = 2
+
+export interface CoverageRanking {
+  resource: EmergencyResource
+  /** Units the pick would send: the call's remaining need, capped by the depot's stock */
+  quantity: number
+  /** Distance per unit to the call, in the distance model's unit */
+  distance: number
+  /** Distance per sent unit the pick is expected to add to future calls */
+  futureCost: number
+  /** Ranking key: distance plus futureCost */
+  total: number
+  /** Whether the pick empties a depot whose area would be left uncovered */
+  leavesUncovered: boolean
+}
+
+export interface CoverageOptions {
+  /** Number of future calls whose demand is protected (default: 20) */
+  lookaheadCalls?: number
+  /** Cost of a future unit at an uncovered place, in the distance model's unit */
+  uncoveredCost?: number
+}
+
+interface DemandPlace {
+  latitude: number
+  longitude: number
+  units: Partial<Record<EmergencyType, number>>
+}
+
+// Expected demand a depot protects, and what serving it from elsewhere would add per unit
+interface DepotArea {
+  share: number
+  weightedDetour: number
+  /** Whether emptying the depot leaves some of its places uncovered */
+  exposed: boolean
+}
+
+type DensityListener = () => void
+
+const placeKey = (county: string, city: string) => `${county}:${city}`
+
+/**
+ * Call density per place, learned from /locations and the calls seen through the API layer
+ */
+export class CallDensity {
+  private places = new Map<string, DemandPlace>()
+  private seenCalls = new Set<string>()
+  private unitsByType: Partial<Record<EmergencyType, number>> = {}
+  private listeners = new Set<DensityListener>()
+  private unsubscribeApi: (() => void) | null = null
+  private consumers = 0
+
+  /**
+   * Records the calls taken through the API layer. Several consumers may start
+   * the density; it listens until the last one stops.
+   *
+   * @returns Function that releases this consumer
+   */
+  start(): () => void {
+    this.consumers += 1
+    if (!this.unsubscribeApi) {
+      this.unsubscribeApi = subscribeToApiEvents((event) => this.handleEvent(event))
+    }
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.consumers -= 1
+      if (this.consumers === 0) {
+        this.unsubscribeApi?.()
+        this.unsubscribeApi = null
+      }
+    }
+  }
+
+  /**
+   * Registers a listener called whenever the density changes
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: DensityListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Adds the places calls can come from
+   */
+  setLocations(locations: Location[]): void {
+    let added = false
+    locations.forEach((location) => {
+      const key = placeKey(location.county, location.name)
+      if (this.places.has(key)) return
+      this.places.set(key, { latitude: location.lat, longitude: location.long, units: {} })
+      added = true
+    })
+    if (added) this.notify()
+  }
+
+  /**
+   * Counts the units a call asked for at its place; a call is counted once however often it is read
+   */
+  record(calls: EmergencyCall[]): void {
+    const fresh = calls.filter((call) => !this.seenCalls.has(call.id))
+    if (fresh.length === 0) return
+
+    fresh.forEach((call) => {
+      this.seenCalls.add(call.id)
+      const key = placeKey(call.county, call.city)
+      const place = this.places.get(key) ?? { latitude: call.latitude, longitude: call.longitude, units: {} }
+      call.requests.forEach((request) => {
+        place.units[request.Type] = (place.units[request.Type] ?? 0) + request.Quantity
+        this.unitsByType[request.Type] = (this.unitsByType[request.Type] ?? 0) + request.Quantity
+      })
+      this.places.set(key, place)
+    })
+    this.notify()
+  }
+
+  /**
+   * Places with their share of the expected demand for a type, summing to 1
+   */
+  getDemand(type: EmergencyType): { latitude: number; longitude: number; share: number }[] {
+    const weighted = [...this.places.values()].map((place) => ({
+      latitude: place.latitude,
+      longitude: place.longitude,
+      weight: PRIOR_WEIGHT + (place.units[type] ?? 0),
+    }))
+    const total = weighted.reduce((sum, place) => sum + place.weight, 0)
+    return weighted.map(({ weight, ...place }) => ({ ...place, share: weight / total }))
+  }
+
+  /**
+   * Units of a type the next calls are expected to ask for
+   */
+  getExpectedUnits(type: EmergencyType, calls: number): number {
+    // Before any call is seen, assume one unit per call
+    const perCall = this.seenCalls.size === 0 ? 1 : (this.unitsByType[type] ?? 0) / this.seenCalls.size
+    return perCall * calls
+  }
+
+  private handleEvent(event: ApiEvent): void {
+    if (event.kind === "call") this.record([event.call])
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+/**
+ * Splits the expected demand of a type among the stocked depots that cover it
+ */
+function mapDepotAreas(
+  stocked: EmergencyResource[],
+  density: CallDensity,
+  type: EmergencyType,
+  model: DistanceModel,
+  uncoveredCost: number | undefined,
+): Map<string, DepotArea> {
+  const covered = density.getDemand(type).map((place) => {
+    const [nearest, next] = stocked
+      .map((depot) => ({ depot, distance: model.measure(depot.latitude, depot.longitude, place.latitude, place.longitude) }))
+      .sort((a, b) => a.distance - b.distance)
+    return { share: place.share, nearest, next }
+  })
+
+  const fairLimit = model.ratingTiers[2]
+  const penalty = uncoveredCost ?? fairLimit * UNCOVERED_COST_FACTOR
+
+  const areas = new Map<string, DepotArea>()
+  covered.forEach(({ share, nearest, next }) => {
+    const detour = next ? next.distance - nearest.distance : 0
+    const uncovered = !next || next.distance > fairLimit
+    const area = areas.get(nearest.depot.id) ?? { share: 0, weightedDetour: 0, exposed: false }
+    area.share += share
+    area.weightedDetour += share * (uncovered ? Math.max(detour, penalty) : detour)
+    area.exposed ||= uncovered
+    areas.set(nearest.depot.id, area)
+  })
+  return areas
+}
+
+/**
+ * Ranks the stocked depots of a type for a call by cost now plus expected future cost
+ *
+ * @param resources - Current inventory; depots of other types are ignored
+ * @returns Stocked depots, cheapest total first
+ */
+export function rankByCoverage(
+  call: EmergencyCall,
+  type: EmergencyType,
+  resources: EmergencyResource[],
+  model: DistanceModel,
+  density: CallDensity,
+  options: CoverageOptions = {},
+): CoverageRanking[] {
+  const stocked = resources.filter((resource) => resource.type === type && resource.quantity > 0)
+  if (stocked.length === 0) return []
+
+  const areas = mapDepotAreas(stocked, density, type, model, options.uncoveredCost)
+  const horizon = density.getExpectedUnits(type, options.lookaheadCalls ?? DEFAULT_LOOKAHEAD_CALLS)
+  const need = Math.max(1, getRemainingNeed(call, type))
+
+  return stocked
+    .map((resource) => {
+      const quantity = Math.min(need, resource.quantity)
+      const distance = model.measure(resource.latitude, resource.longitude, call.latitude, call.longitude)
+      const area = areas.get(resource.id)
+
+      let futureCost = 0
+      if (area && area.share > 0) {
+        // Future units of the area the depot could serve before the pick but not after it
+        const expected = horizon * area.share
+        const displaced =
+          Math.max(0, expected - (resource.quantity - quantity)) - Math.max(0, expected - resource.quantity)
+        futureCost = (displaced * (area.weightedDetour / area.share)) / quantity
+      }
+
+      return {
+        resource,
+        quantity,
+        distance,
+        futureCost,
+        total: distance + futureCost,
+        leavesUncovered: Boolean(area?.exposed) && quantity === resource.quantity,
+      }
+    })
+    .sort((a, b) => a.total - b.total || a.distance - b.distance)
+}
+
+// Density shared by the dashboard components
+export const callDensity = new CallDensity()
@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import type { DispatchRequest, EmergencyCall } from "@/types"
+import { fetchEmergencyCalls, readEmergencyCalls, setApiTransport } from "./api"
+import { DispatchGuard, OverDispatchError, dispatchGuard } from "./dispatch-guard"
+
+const toDej = (quantity: number): DispatchRequest => ({
+  sourceCounty: "Cluj",
+  sourceCity: "Turda",
+  targetCounty: "Cluj",
+  targetCity: "Dej",
+  quantity,
+})
+
+const call = (id: string, needed: number, dispatched: number | null = 0): EmergencyCall => ({
+  id,
+  county: "Cluj",
+  city: "Dej",
+  latitude: 47.14,
+  longitude: 23.87,
+  requests: [{ Type: "Fire", Quantity: needed }],
+  dispatched: dispatched === null ? undefined : ({ Fire: dispatched } as EmergencyCall["dispatched"]),
+})
+
+function guardWith(calls: EmergencyCall[], now: () => number = () => 0) {
+  const guard = new DispatchGuard(now)
+  guard.reconcile(calls, guard.checkpoint())
+  return guard
+}
+
+const refusal = (run: () => unknown) => {
+  try {
+    run()
+  } catch (error) {
+    return error
+  }
+  throw new Error("The dispatch was not refused")
+}
+
+describe("DispatchGuard", () => {
+  it("refuses a dispatch larger than the call still needs", () => {
+    const guard = guardWith([call("a", 3, 1)])
+
+    const error = refusal(() => guard.reserve("Fire", toDej(3)))
+
+    expect(error).toBeInstanceOf(OverDispatchError)
+    expect(error).toMatchObject({ remaining: 2, type: "Fire" })
+    expect(() => guard.reserve("Police", toDej(1))).toThrow("no open call in Dej still needs Police")
+  })
+
+  it("counts reservations in flight so parallel dispatches cannot overshoot", () => {
+    const guard = guardWith([call("a", 2)])
+
+    guard.reserve("Fire", toDej(1))
+    guard.reserve("Fire", toDej(1))
+
+    expect(guard.getRemaining("a", "Fire")).toBe(0)
+    expect(() => guard.reserve("Fire", toDej(1))).toThrow(OverDispatchError)
+  })
+
+  it("checks a dispatch against the oldest call at the target that still needs the type", () => {
+    const guard = guardWith([call("served", 1, 1), call("older", 1), call("newer", 4)])
+
+    expect(refusal(() => guard.reserve("Fire", toDej(2)))).toMatchObject({ remaining: 1 })
+
+    guard.reserve("Fire", toDej(1))
+    guard.reserve("Fire", toDej(2))
+    expect(guard.getRemaining("newer", "Fire")).toBe(2)
+  })
+
+  it("returns released units and keeps confirmed ones until a later read reports them", () => {
+    const guard = guardWith([call("a", 2)])
+    guard.release(guard.reserve("Fire", toDej(2)))
+    expect(guard.getRemaining("a", "Fire")).toBe(2)
+
+    const reservation = guard.reserve("Fire", toDej(1))
+    const staleRead = guard.checkpoint()
+    guard.confirm(reservation)
+    guard.reconcile([call("a", 2, 0)], staleRead)
+    expect(guard.getRemaining("a", "Fire")).toBe(1)
+
+    guard.reconcile([call("a", 2, 1)], guard.checkpoint())
+    expect(guard.getRemaining("a", "Fire")).toBe(1)
+    guard.release(reservation)
+    expect(guard.getRemaining("a", "Fire")).toBe(1)
+  })
+
+  it("keeps local dispatches while their call is open when the queue reports no counts", () => {
+    const guard = guardWith([call("a", 2, null)])
+    guard.confirm(guard.reserve("Fire", toDej(1)))
+
+    guard.reconcile([call("a", 2, null)], guard.checkpoint())
+    expect(guard.getRemaining("a", "Fire")).toBe(1)
+
+    guard.reconcile([call("a", 2, null), call("b", 2, null)], guard.checkpoint())
+    guard.reconcile([call("b", 2, null)], guard.checkpoint())
+    expect(guard.getRemaining("a", "Fire")).toBeNull()
+    expect(guard.getRemaining("b", "Fire")).toBe(2)
+  })
+
+  it("counts dispatches other dashboards sent to calls it knows", () => {
+    const guard = guardWith([call("a", 3)])
+
+    guard.recordDispatch("a", "Fire", 2)
+    guard.recordDispatch("unknown", "Fire", 2)
+
+    expect(guard.getRemaining("a", "Fire")).toBe(1)
+    expect(guard.getRemaining("unknown", "Fire")).toBeNull()
+  })
+
+  it("follows resets and new calls from the API events", () => {
+    const guard = guardWith([call("a", 2)])
+    guard.reserve("Fire", toDej(1))
+
+    guard.observe({ kind: "reset", seed: "seed", targetDispatches: 100, maxActiveCalls: 10 })
+    expect(guard.getRemaining("a", "Fire")).toBeNull()
+
+    guard.observe({ kind: "call", call: call("b", 2) })
+    expect(guard.getRemaining("b", "Fire")).toBe(2)
+  })
+
+  it("asks for a queue read when the last one is old, missing or has no call at the target", () => {
+    let time = 0
+    const guard = new DispatchGuard(() => time)
+    expect(guard.needsSync(toDej(1), 1000)).toBe(true)
+
+    guard.reconcile([call("a", 2)], guard.checkpoint())
+    expect(guard.needsSync(toDej(1), 1000)).toBe(false)
+    expect(guard.needsSync({ ...toDej(1), targetCity: "Turda" }, 1000)).toBe(true)
+
+    time = 1500
+    expect(guard.needsSync(toDej(1), 1000)).toBe(true)
+  })
+
+  it("notifies listeners until they unsubscribe", () => {
+    const guard = guardWith([call("a", 2)])
+    let calls = 0
+    const unsubscribe = guard.subscribe(() => (calls += 1))
+
+    guard.reserve("Fire", toDej(1))
+    unsubscribe()
+    guard.reserve("Fire", toDej(1))
+
+    expect(calls).toBe(1)
+  })
+})
+
+describe("queue reads", () => {
+  const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } })
+  // The main API sends calls without ids
+  const payload = { ...call("a", 2), id: undefined }
+
+  afterEach(() => {
+    setApiTransport(null)
+    dispatchGuard.observe({ kind: "reset", seed: "seed", targetDispatches: 100, maxActiveCalls: 10 })
+  })
+
+  it("reconcile against the send that answered them, not when a caller joined it", async () => {
+    setApiTransport(async () => json([payload]))
+    const [{ id }] = await readEmergencyCalls()
+
+    let answer: (response: Response) => void = () => {}
+    const transport = vi.fn(() => new Promise<Response>((resolve) => (answer = resolve)))
+    setApiTransport(transport)
+    const sent = fetchEmergencyCalls()
+    await vi.waitFor(() => expect(transport).toHaveBeenCalled())
+
+    // Confirmed after the shared read left, e.g. by the auto-dispatch engine
+    dispatchGuard.confirm(dispatchGuard.reserve("Fire", toDej(1)))
+    const joined = readEmergencyCalls()
+    answer(json([payload]))
+    await Promise.all([sent, joined])
+
+    expect(transport).toHaveBeenCalledTimes(1)
+    expect(dispatchGuard.getRemaining(id, "Fire")).toBe(1)
+  })
+})
@@ -0,0 +1,243 @@
+/**
+ * Dispatch Guard
+ *
+ * Per-call ledger of the units every open call requested and has been sent,
+ * consulted before any dispatch leaves. A dispatch that would push its call
+ * over the requested quantity is refused before it reaches the server.
+ *
+ * - Every /calls/queue read reconciles the ledger: the queue's dispatched
+ *   counts cover everything other dashboards, tabs and runs sent.
+ * - Dispatches this page sent count as soon as they are reserved, until a
+ *   queue read that started after they were confirmed reports them. For
+ *   queues that report no dispatched counts, they count while their call is open.
+ * - The server fills the oldest call at the target that still needs the type,
+ *   so a dispatch is checked against that call, not the one it was planned for.
+ *
+ * The guard has no UI dependencies, so the auto-dispatch engine shares it on
+ * the page; in a Web Worker the engine uses the worker's instance.
+ */
+import type { ApiEvent, DispatchRequest, EmergencyCall, EmergencyType } from "@/types"
+
+type GuardListener = () => void
+
+interface LedgerCall {
+  id: string
+  place: string
+  requested: Partial<Record<EmergencyType, number>>
+  /** Units the queue reported as dispatched */
+  reported: Partial<Record<EmergencyType, number>>
+  /** Whether the queue reports dispatched counts; when it does not, local records are the only ones */
+  reportsDispatched: boolean
+}
+
+interface Reservation {
+  id: string
+  callId: string
+  type: EmergencyType
+  quantity: number
+  /** Guard clock when the dispatch was confirmed; null while it is in flight */
+  sentAt: number | null
+}
+
+/**
+ * Dispatch refused because its call does not need that many units
+ */
+export class OverDispatchError extends Error {
+  constructor(
+    message: string,
+    public type: EmergencyType,
+    public request: DispatchRequest,
+    /** Units the target call still needed */
+    public remaining: number,
+  ) {
+    super(message)
+    this.name = "OverDispatchError"
+  }
+}
+
+const placeKey = (county: string, city: string) => `${county}:${city}`
+
+export class DispatchGuard {
+  private calls = new Map<string, LedgerCall>()
+  private reservations = new Map<string, Reservation>()
+  // Orders confirmations and queue reads
+  private clock = 0
+  private nextReservation = 0
+  private syncedAt: number | null = null
+  private listeners = new Set<GuardListener>()
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Marks the start of a queue read; pass the result to reconcile with the read's calls
+   */
+  checkpoint(): number {
+    this.clock += 1
+    return this.clock
+  }
+
+  /**
+   * Replaces the ledger with a queue read
+   *
+   * @param calls - Every open call, oldest first, with dispatched counts if the queue reports them
+   * @param checkpoint - Taken right before the read was sent
+   */
+  reconcile(calls: EmergencyCall[], checkpoint: number): void {
+    this.calls = new Map(calls.map((call) => [call.id, this.toLedgerCall(call)]))
+
+    this.reservations.forEach((reservation, id) => {
+      const call = this.calls.get(reservation.callId)
+      // Served, missed, or counted by the read
+      const settled =
+        !call || (call.reportsDispatched && reservation.sentAt !== null && reservation.sentAt < checkpoint)
+      if (settled) this.reservations.delete(id)
+    })
+
+    this.syncedAt = this.now()
+    this.notify()
+  }
+
+  /**
+   * Keeps the ledger in step with the API's events: a reset empties it, new calls join it
+   */
+  observe(event: ApiEvent): void {
+    if (event.kind === "reset") {
+      this.calls.clear()
+      this.reservations.clear()
+      this.syncedAt = null
+      this.notify()
+    } else if (event.kind === "call" && !this.calls.has(event.call.id)) {
+      this.calls.set(event.call.id, this.toLedgerCall(event.call))
+      this.notify()
+    }
+  }
+
+  /**
+   * Whether the ledger should read the queue before the dispatch is checked
+   *
+   * @param maxAgeMs - Age after which the last queue read no longer covers other dashboards' dispatches
+   */
+  needsSync(request: DispatchRequest, maxAgeMs: number): boolean {
+    if (this.syncedAt === null || this.now() - this.syncedAt > maxAgeMs) return true
+    const place = placeKey(request.targetCounty, request.targetCity)
+    return ![...this.calls.values()].some((call) => call.place === place)
+  }
+
+  /**
+   * Units of a type a call still needs, counting dispatches in flight
+   *
+   * @returns The remaining need, or null if the call is not in the ledger
+   */
+  getRemaining(callId: string, type: EmergencyType): number | null {
+    const call = this.calls.get(callId)
+    return call ? this.remaining(call, type) : null
+  }
+
+  /**
+   * Checks a dispatch against the call the server will apply it to, and counts it as sent
+   *
+   * @returns Reservation id, to confirm or release once the outcome is known
+   * @throws OverDispatchError if no open call at the target needs the whole quantity
+   */
+  reserve(type: EmergencyType, request: DispatchRequest): string {
+    const place = placeKey(request.targetCounty, request.targetCity)
+    const target = [...this.calls.values()].find((call) => call.place === place && this.remaining(call, type) > 0)
+
+    if (!target) {
+      throw new OverDispatchError(
+        `Refused ${request.quantity} ${type} unit(s): no open call in ${request.targetCity} still needs ${type}`,
+        type,
+        request,
+        0,
+      )
+    }
+
+    const remaining = this.remaining(target, type)
+    if (request.quantity > remaining) {
+      throw new OverDispatchError(
+        `Refused ${request.quantity} ${type} unit(s): the call in ${request.targetCity} needs only ${remaining} more`,
+        type,
+        request,
+        remaining,
+      )
+    }
+
+    this.nextReservation += 1
+    const id = `reservation-${this.nextReservation}`
+    this.reservations.set(id, { id, callId: target.id, type, quantity: request.quantity, sentAt: null })
+    this.notify()
+    return id
+  }
+
+  /**
+   * Records that a reserved dispatch was applied, or may have been
+   */
+  confirm(reservationId: string): void {
+    const reservation = this.reservations.get(reservationId)
+    if (!reservation || reservation.sentAt !== null) return
+    this.clock += 1
+    reservation.sentAt = this.clock
+    this.notify()
+  }
+
+  /**
+   * Returns the units of a reserved dispatch that was certainly not applied
+   */
+  release(reservationId: string): void {
+    if (this.reservations.delete(reservationId)) this.notify()
+  }
+
+  /**
+   * Counts a dispatch another dashboard sent to a call in the ledger. Calls the
+   * ledger does not know are left to the next queue read.
+   */
+  recordDispatch(callId: string, type: EmergencyType, quantity: number): void {
+    if (!this.calls.has(callId)) return
+    this.nextReservation += 1
+    this.clock += 1
+    const id = `reservation-${this.nextReservation}`
+    this.reservations.set(id, { id, callId, type, quantity, sentAt: this.clock })
+    this.notify()
+  }
+
+  /**
+   * Registers a listener called whenever the ledger changes
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: GuardListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private remaining(call: LedgerCall, type: EmergencyType): number {
+    let committed = call.reported[type] ?? 0
+    this.reservations.forEach((reservation) => {
+      if (reservation.callId === call.id && reservation.type === type) committed += reservation.quantity
+    })
+    return Math.max(0, (call.requested[type] ?? 0) - committed)
+  }
+
+  private toLedgerCall(call: EmergencyCall): LedgerCall {
+    const requested: Partial<Record<EmergencyType, number>> = {}
+    call.requests.forEach((request) => {
+      requested[request.Type] = (requested[request.Type] ?? 0) + request.Quantity
+    })
+    return {
+      id: call.id,
+      place: placeKey(call.county, call.city),
+      requested,
+      reported: { ...call.dispatched },
+      reportsDispatched: call.dispatched !== undefined,
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Guard shared by every dispatch made through the API layer
+export const dispatchGuard = new DispatchGuard()
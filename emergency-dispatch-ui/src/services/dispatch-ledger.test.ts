@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest"
+import type { DispatchRequest, EmergencyResource } from "@/types"
+import { DispatchLedger } from "./dispatch-ledger"
+
+const request: DispatchRequest = {
+  sourceCounty: "Cluj",
+  sourceCity: "Turda",
+  targetCounty: "Cluj",
+  targetCity: "Dej",
+  quantity: 2,
+}
+
+const turda = (quantity: number): EmergencyResource => ({
+  id: "Fire:Cluj:Turda",
+  type: "Fire",
+  county: "Cluj",
+  city: "Turda",
+  latitude: 46.57,
+  longitude: 23.78,
+  quantity,
+})
+
+// A ledger that knows Turda held 5 units before the dispatch went out
+function ledgerWithStock() {
+  const ledger = new DispatchLedger(() => 1000)
+  ledger.observe({ kind: "resources", type: "Fire", resources: [turda(5)] })
+  ledger.begin("key-1", "Fire", request)
+  return ledger
+}
+
+describe("DispatchLedger", () => {
+  it("confirms a dispatch whose depot lost its units", () => {
+    expect(ledgerWithStock().reconcile("key-1", 3)).toBe("applied")
+  })
+
+  it("tells a dispatch that never left from one that did", () => {
+    expect(ledgerWithStock().reconcile("key-1", 5)).toBe("not-applied")
+  })
+
+  it("cannot tell when the drop is smaller than the dispatch, the depot is gone or its stock unknown", () => {
+    expect(ledgerWithStock().reconcile("key-1", 4)).toBe("unknown")
+    expect(ledgerWithStock().reconcile("key-1", null)).toBe("unknown")
+
+    const unknownStock = new DispatchLedger()
+    unknownStock.begin("key-1", "Fire", request)
+    expect(unknownStock.reconcile("key-1", 3)).toBe("unknown")
+    expect(unknownStock.reconcile("missing", 3)).toBe("unknown")
+  })
+
+  it("cannot tell when another dispatch from the same depot is pending", () => {
+    const ledger = ledgerWithStock()
+    ledger.begin("key-2", "Fire", { ...request, quantity: 1 })
+    expect(ledger.reconcile("key-1", 3)).toBe("unknown")
+  })
+
+  it("keeps the stock from before a pending dispatch when the depot is read again", () => {
+    const ledger = ledgerWithStock()
+    ledger.observe({ kind: "resources", type: "Fire", resources: [turda(3)] })
+    expect(ledger.reconcile("key-1", 3)).toBe("applied")
+  })
+
+  it("counts confirmed dispatches against the known stock", () => {
+    const ledger = ledgerWithStock()
+    ledger.settle("key-1", "confirmed")
+    ledger.observe({ kind: "dispatch", type: "Fire", request })
+
+    ledger.begin("key-2", "Fire", { ...request, quantity: 1 })
+    expect(ledger.reconcile("key-2", 3)).toBe("not-applied")
+    expect(ledger.reconcile("key-2", 2)).toBe("applied")
+  })
+
+  it("records attempts and settles an entry once", () => {
+    const ledger = ledgerWithStock()
+    ledger.recordAttempt("key-1")
+    ledger.recordAttempt("key-1")
+    ledger.settle("key-1", "failed", { error: "rejected" })
+    ledger.settle("key-1", "confirmed")
+
+    expect(ledger.getEntry("key-1")).toMatchObject({ state: "failed", attempts: 2, error: "rejected" })
+  })
+
+  it("notifies listeners until they unsubscribe", () => {
+    const ledger = new DispatchLedger()
+    let calls = 0
+    const unsubscribe = ledger.subscribe(() => (calls += 1))
+
+    ledger.begin("key-1", "Fire", request)
+    unsubscribe()
+    ledger.recordAttempt("key-1")
+
+    expect(calls).toBe(1)
+  })
+})
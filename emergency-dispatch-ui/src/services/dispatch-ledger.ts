@@ -0,0 +1,198 @@
+/**
+ * Dispatch Ledger
+ *
+ * Local record of every dispatch sent through the API layer, keyed by its
+ * idempotency key, and of the depot inventory last reported by the server.
+ * When a dispatch times out the ledger tells whether the server applied it:
+ * the depot's current stock is compared with the stock known before the
+ * dispatch, so a retry is only sent when the units certainly did not leave.
+ */
+import { logger } from "@/components/logger"
+import type { ApiEvent, DispatchLedgerEntry, DispatchLedgerState, DispatchRequest, EmergencyType } from "@/types"
+
+type LedgerListener = () => void
+
+// Settled entries kept for the ledger view; pending ones are never dropped
+const MAX_SETTLED_ENTRIES = 500
+
+const depotKey = (type: EmergencyType, county: string, city: string) => `${type}:${county}:${city}`
+
+/**
+ * Creates a unique idempotency key for a dispatch
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`
+}
+
+/**
+ * What reconciliation concluded about a dispatch whose response was lost
+ */
+export type ReconcileOutcome = "applied" | "not-applied" | "unknown"
+
+export class DispatchLedger {
+  private entries = new Map<string, DispatchLedgerEntry>()
+  // Last known stock per depot, kept current with confirmed dispatches
+  private stock = new Map<string, number>()
+  private listeners = new Set<LedgerListener>()
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Records a dispatch about to be sent
+   */
+  begin(key: string, type: EmergencyType, request: DispatchRequest): DispatchLedgerEntry {
+    const at = this.now()
+    const entry: DispatchLedgerEntry = {
+      key,
+      type,
+      request,
+      state: "pending",
+      attempts: 0,
+      reconciled: false,
+      createdAt: at,
+      updatedAt: at,
+    }
+    this.entries.set(key, entry)
+    this.notify()
+    return entry
+  }
+
+  /**
+   * Counts one more attempt of a pending dispatch
+   */
+  recordAttempt(key: string): void {
+    const entry = this.entries.get(key)
+    if (!entry) return
+    entry.attempts += 1
+    entry.updatedAt = this.now()
+    this.notify()
+  }
+
+  /**
+   * Settles a dispatch
+   *
+   * @param key - Idempotency key of the dispatch
+   * @param state - Final state
+   * @param details - Whether reconciliation decided it, and the error if it did not go through
+   */
+  settle(
+    key: string,
+    state: Exclude<DispatchLedgerState, "pending">,
+    details: { reconciled?: boolean; error?: string } = {},
+  ): void {
+    const entry = this.entries.get(key)
+    if (!entry || entry.state !== "pending") return
+
+    entry.state = state
+    entry.reconciled = details.reconciled ?? false
+    entry.error = details.error
+    entry.updatedAt = this.now()
+
+    if (state === "unconfirmed") {
+      logger.warn(`Dispatch ${key} could not be confirmed; it will not be retried`, {
+        type: entry.type,
+        request: entry.request,
+        error: details.error,
+      })
+    }
+
+    this.prune()
+    this.notify()
+  }
+
+  /**
+   * Keeps the known depot stock in step with the API's events
+   */
+  observe(event: ApiEvent): void {
+    if (event.kind === "reset") {
+      this.stock.clear()
+    } else if (event.kind === "resources") {
+      // A depot with a pending dispatch keeps the stock from before it, which reconciliation compares against
+      const pending = new Set(
+        [...this.entries.values()]
+          .filter((entry) => entry.state === "pending" && entry.type === event.type)
+          .map((entry) => depotKey(entry.type, entry.request.sourceCounty, entry.request.sourceCity)),
+      )
+      event.resources.forEach((resource) => {
+        const key = depotKey(event.type, resource.county, resource.city)
+        if (!pending.has(key)) this.stock.set(key, resource.quantity)
+      })
+    } else if (event.kind === "dispatch") {
+      const key = depotKey(event.type, event.request.sourceCounty, event.request.sourceCity)
+      const known = this.stock.get(key)
+      if (known !== undefined) this.stock.set(key, known - event.request.quantity)
+    }
+  }
+
+  /**
+   * Decides whether a pending dispatch was applied, from the depot's current stock
+   *
+   * Units left the depot only if its stock fell by at least the dispatched
+   * quantity, and certainly did not if it is unchanged. Anything else, or other
+   * pending dispatches from the same depot, leaves the outcome unknown.
+   *
+   * @param key - Idempotency key of the dispatch
+   * @param currentStock - Units the server now reports at the source depot, null if the depot is gone
+   */
+  reconcile(key: string, currentStock: number | null): ReconcileOutcome {
+    const entry = this.entries.get(key)
+    if (!entry) return "unknown"
+
+    const { sourceCounty, sourceCity, quantity } = entry.request
+    const known = this.stock.get(depotKey(entry.type, sourceCounty, sourceCity))
+    if (known === undefined || currentStock === null) return "unknown"
+
+    const drop = known - currentStock
+    if (drop === 0) return "not-applied"
+
+    const othersPending = [...this.entries.values()].some(
+      (other) =>
+        other.key !== key &&
+        other.state === "pending" &&
+        other.type === entry.type &&
+        other.request.sourceCounty === sourceCounty &&
+        other.request.sourceCity === sourceCity,
+    )
+    return !othersPending && drop >= quantity ? "applied" : "unknown"
+  }
+
+  getEntry(key: string): DispatchLedgerEntry | undefined {
+    return this.entries.get(key)
+  }
+
+  /**
+   * Entries, newest first
+   */
+  getEntries(): DispatchLedgerEntry[] {
+    return [...this.entries.values()].reverse()
+  }
+
+  /**
+   * Registers a listener called whenever an entry is added or changes
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: LedgerListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private prune(): void {
+    const settled = [...this.entries.values()].filter((entry) => entry.state !== "pending")
+    settled.slice(0, Math.max(0, settled.length - MAX_SETTLED_ENTRIES)).forEach((entry) => {
+      this.entries.delete(entry.key)
+    })
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Ledger shared by every dispatch made through the API layer
+export const dispatchLedger = new DispatchLedger()
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { ControlStatus, DispatchRequest, EmergencyCall, EmergencyResource, OutboxIntent } from "@/types"
+import { dispatchResource, fetchAvailableResources, fetchControlStatus, readEmergencyCalls } from "./api"
+import { DispatchOutbox } from "./dispatch-outbox"
+
+vi.mock("./api", () => ({
+  dispatchResource: vi.fn(),
+  fetchAvailableResources: vi.fn(),
+  fetchControlStatus: vi.fn(),
+  readEmergencyCalls: vi.fn(),
+}))
+
+const STORAGE_KEY = "dispatchOutbox"
+
+const request = (quantity: number, sourceCity = "Turda"): DispatchRequest => ({
+  sourceCounty: "Cluj",
+  sourceCity,
+  targetCounty: "Cluj",
+  targetCity: "Dej",
+  quantity,
+})
+
+// Fire is requested twice, so the call needs 3 units in all
+const dej: EmergencyCall = {
+  id: "Cluj:Dej#1",
+  county: "Cluj",
+  city: "Dej",
+  latitude: 47.14,
+  longitude: 23.87,
+  requests: [
+    { Type: "Fire", Quantity: 1 },
+    { Type: "Fire", Quantity: 2 },
+  ],
+  dispatched: { Fire: 0 } as EmergencyCall["dispatched"],
+}
+
+const turda: EmergencyResource = {
+  id: "Fire:Cluj:Turda",
+  type: "Fire",
+  county: "Cluj",
+  city: "Turda",
+  latitude: 46.57,
+  longitude: 23.78,
+  quantity: 4,
+}
+
+const running = { status: "Running" } as ControlStatus
+
+function apiAnswers(status: ControlStatus | null = running) {
+  vi.mocked(fetchControlStatus).mockResolvedValue(status)
+  vi.mocked(readEmergencyCalls).mockResolvedValue([{ ...dej, dispatched: { ...dej.dispatched! } }])
+  vi.mocked(fetchAvailableResources).mockResolvedValue([{ ...turda }])
+  vi.mocked(dispatchResource).mockResolvedValue({})
+}
+
+const states = (intents: OutboxIntent[]) => intents.map((intent) => intent.state)
+
+beforeEach(() => {
+  vi.resetAllMocks()
+})
+
+describe("DispatchOutbox flush", () => {
+  it("sends intents that still fit, against the call's whole need of the type", async () => {
+    apiAnswers()
+    const outbox = new DispatchOutbox(() => true)
+    outbox.enqueue("Fire", request(3))
+    outbox.enqueue("Fire", request(1))
+    outbox.enqueue("Fire", request(1, "Nowhere"))
+
+    const report = await outbox.flush()
+
+    expect(report).toMatchObject({ reachable: true, leader: true, remaining: 0 })
+    expect(states(report.settled)).toEqual(["dispatched", "dropped", "dropped"])
+    expect(report.settled[1].reason).toBe("Dej needs 0 Fire unit(s), 1 queued")
+    expect(dispatchResource).toHaveBeenCalledTimes(1)
+    expect(dispatchResource).toHaveBeenCalledWith("Fire", request(3))
+  })
+
+  it("keeps intents pending when the API is down", async () => {
+    apiAnswers(null)
+    const outbox = new DispatchOutbox(() => true)
+    outbox.enqueue("Fire", request(1))
+
+    const report = await outbox.flush()
+
+    expect(report).toMatchObject({ reachable: false, remaining: 1, settled: [] })
+    expect(readEmergencyCalls).not.toHaveBeenCalled()
+  })
+
+  it("keeps intents pending when the call queue cannot be read", async () => {
+    apiAnswers()
+    vi.mocked(readEmergencyCalls).mockRejectedValue({ url: "/calls/queue", status: 503, message: "Unavailable" })
+    const outbox = new DispatchOutbox(() => true)
+    outbox.enqueue("Fire", request(1))
+
+    const report = await outbox.flush()
+
+    expect(report).toMatchObject({ reachable: false, remaining: 1, settled: [] })
+    expect(dispatchResource).not.toHaveBeenCalled()
+  })
+
+  it("drops every intent once the simulation stopped", async () => {
+    apiAnswers({ status: "Stopped" } as ControlStatus)
+    const outbox = new DispatchOutbox(() => true)
+    outbox.enqueue("Fire", request(1))
+
+    const report = await outbox.flush()
+
+    expect(states(report.settled)).toEqual(["dropped"])
+    expect(report.settled[0].reason).toBe("The simulation is no longer running")
+  })
+
+  it("stops at the first dispatch that finds the API gone again", async () => {
+    apiAnswers()
+    vi.mocked(dispatchResource).mockRejectedValueOnce({ url: "/fire/dispatch", message: "Network error" })
+    const outbox = new DispatchOutbox(() => true)
+    outbox.enqueue("Fire", request(1))
+    outbox.enqueue("Fire", request(1))
+
+    const report = await outbox.flush()
+
+    expect(states(report.settled)).toEqual(["failed"])
+    expect(report.remaining).toBe(1)
+  })
+})
+
+describe("DispatchOutbox across tabs", () => {
+  let store: Map<string, string>
+  let storageListeners: ((event: { key: string | null }) => void)[]
+
+  beforeEach(() => {
+    store = new Map()
+    storageListeners = []
+    vi.stubGlobal("window", {
+      addEventListener: (type: string, listener: (event: { key: string | null }) => void) => {
+        if (type === "storage") storageListeners.push(listener)
+      },
+      removeEventListener: () => {},
+    })
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      // Browsers tell the other tabs; here every outbox hears it
+      setItem: (key: string, value: string) => {
+        store.set(key, value)
+        storageListeners.forEach((listener) => listener({ key }))
+      },
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("keeps the intents every tab queued", () => {
+    const leader = new DispatchOutbox(() => true)
+    const follower = new DispatchOutbox(() => false)
+
+    leader.getIntents()
+    follower.enqueue("Fire", request(1))
+    leader.enqueue("Fire", request(2))
+
+    expect(leader.getIntents().map((intent) => intent.request.quantity)).toEqual([1, 2])
+    expect(follower.getIntents()).toEqual(leader.getIntents())
+  })
+
+  it("flushes only from the leading tab", async () => {
+    apiAnswers()
+    const leader = new DispatchOutbox(() => true)
+    const follower = new DispatchOutbox(() => false)
+    follower.enqueue("Fire", request(1))
+
+    const followed = await follower.flush()
+    expect(followed).toMatchObject({ leader: false, settled: [], remaining: 1 })
+    expect(fetchControlStatus).not.toHaveBeenCalled()
+
+    await leader.flush()
+    expect(dispatchResource).toHaveBeenCalledTimes(1)
+    expect(states(follower.getIntents())).toEqual(["dispatched"])
+  })
+
+  it("does not send an intent another tab removed", async () => {
+    apiAnswers()
+    const leader = new DispatchOutbox(() => true)
+    const follower = new DispatchOutbox(() => false)
+    leader.enqueue("Fire", request(1))
+    const removed = leader.enqueue("Fire", request(1))
+    vi.mocked(dispatchResource).mockImplementationOnce(async () => {
+      follower.remove(removed.id)
+      return {}
+    })
+
+    const report = await leader.flush()
+
+    expect(dispatchResource).toHaveBeenCalledTimes(1)
+    expect(states(report.settled)).toEqual(["dispatched"])
+    expect(leader.getIntents()).toHaveLength(1)
+  })
+
+  it("fails intents a closed leading tab left submitting", async () => {
+    apiAnswers()
+    const stale: OutboxIntent = { id: "stale", type: "Fire", request: request(1), state: "submitting", queuedAt: 1 }
+    store.set(STORAGE_KEY, JSON.stringify([stale]))
+
+    await new DispatchOutbox(() => true).flush()
+
+    const [intent] = JSON.parse(store.get(STORAGE_KEY) as string) as OutboxIntent[]
+    expect(intent.state).toBe("failed")
+    expect(dispatchResource).not.toHaveBeenCalled()
+  })
+})
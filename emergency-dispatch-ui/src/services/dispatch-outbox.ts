@@ -0,0 +1,361 @@
+/**
+ * Dispatch Outbox
+ *
+ * Holds dispatch intents that operators queue while the API is unreachable.
+ * Intents are persisted in localStorage so a reload during an outage keeps
+ * them. Once the API answers again, a flush revalidates every pending intent,
+ * in the order it was queued, against fresh depot inventory and call needs:
+ * intents that are no longer valid are dropped, the rest are submitted, and
+ * each intent records its outcome.
+ *
+ * Every tab of the dashboard shares the stored intents. Each change re-reads
+ * them first, tabs reload them when another tab writes, and only the leading
+ * tab (see tab-coordinator) flushes, so an intent is submitted once.
+ */
+import { logger } from "@/components/logger"
+import type {
+  ApiError,
+  DispatchRequest,
+  EmergencyCall,
+  EmergencyResource,
+  EmergencyType,
+  OutboxIntent,
+  OutboxIntentState,
+} from "@/types"
+import { dispatchResource, fetchAvailableResources, fetchControlStatus, readEmergencyCalls } from "./api"
+import { OverDispatchError } from "./dispatch-guard"
+import { createIdempotencyKey } from "./dispatch-ledger"
+import { getRemainingNeed } from "./scoring"
+import { tabCoordinator } from "./tab-coordinator"
+
+const STORAGE_KEY = "dispatchOutbox"
+
+// How often a watching outbox checks whether the API is back
+const DEFAULT_WATCH_INTERVAL_MS = 5000
+
+type OutboxListener = () => void
+
+/**
+ * Outcome of one flush
+ */
+export interface OutboxFlushReport {
+  /** Intents settled by this flush, in submission order */
+  settled: OutboxIntent[]
+  /** Intents still pending, e.g. because the API dropped again */
+  remaining: number
+  /** False when the API could not be reached, so nothing was revalidated */
+  reachable: boolean
+  /** False when another tab leads and flushes the outbox, so this one sent nothing */
+  leader: boolean
+}
+
+/**
+ * Whether an error means the API is unreachable rather than that it rejected the request
+ */
+function isUnreachable(error: unknown): boolean {
+  if (typeof error !== "object" || error === null || !("url" in error)) return false
+  const apiError = error as ApiError
+  return apiError.category === "circuit_open" || apiError.status === undefined
+}
+
+/**
+ * Units of a type the oldest call at a place still needs
+ */
+function findNeed(queue: EmergencyCall[], type: EmergencyType, county: string, city: string) {
+  const call = queue.find(
+    (candidate) => candidate.county === county && candidate.city === city && getRemainingNeed(candidate, type) > 0,
+  )
+  return call ? { call, remaining: getRemainingNeed(call, type) } : null
+}
+
+export class DispatchOutbox {
+  private intents: OutboxIntent[] | null = null
+  private listeners = new Set<OutboxListener>()
+  private flushing: Promise<OutboxFlushReport> | null = null
+
+  constructor(private isLeader: () => boolean = () => tabCoordinator.isLeader()) {
+    // Another tab changed the stored intents; reload them on the next read
+    if (typeof window !== "undefined") {
+      window.addEventListener("storage", (event) => {
+        if (event.key !== STORAGE_KEY && event.key !== null) return
+        this.intents = null
+        this.notify()
+      })
+    }
+  }
+
+  /**
+   * Queues a dispatch intent to be sent once the API is back
+   */
+  enqueue(type: EmergencyType, request: DispatchRequest): OutboxIntent {
+    const intent: OutboxIntent = {
+      id: createIdempotencyKey(),
+      type,
+      request: { ...request },
+      state: "pending",
+      queuedAt: Date.now(),
+    }
+
+    logger.info("Dispatch intent queued", { id: intent.id, type, request })
+    this.change((intents) => [...intents, intent])
+    return intent
+  }
+
+  /**
+   * Removes a pending intent, or a settled one from the list
+   */
+  remove(id: string): void {
+    this.change((intents) => intents.filter((intent) => intent.id !== id || intent.state === "submitting"))
+  }
+
+  /**
+   * Removes every settled intent, keeping pending ones
+   */
+  clearSettled(): void {
+    this.change((intents) => intents.filter((intent) => intent.state === "pending" || intent.state === "submitting"))
+  }
+
+  /**
+   * Intents, oldest first
+   */
+  getIntents(): OutboxIntent[] {
+    if (this.intents === null) {
+      this.intents = this.load()
+    }
+    return this.intents
+  }
+
+  getPendingCount(): number {
+    return this.getIntents().filter((intent) => intent.state === "pending").length
+  }
+
+  isFlushing(): boolean {
+    return this.flushing !== null
+  }
+
+  /**
+   * Revalidates and submits pending intents if the API is reachable
+   *
+   * Concurrent calls share one flush. In a tab that does not lead, nothing is sent.
+   */
+  flush(): Promise<OutboxFlushReport> {
+    if (!this.isLeader()) {
+      return Promise.resolve({ settled: [], remaining: this.getPendingCount(), reachable: true, leader: false })
+    }
+    if (!this.flushing) {
+      this.flushing = this.runFlush().finally(() => {
+        this.flushing = null
+        this.notify()
+      })
+      this.notify()
+    }
+    return this.flushing
+  }
+
+  /**
+   * Flushes whenever the browser comes back online, and periodically while intents are pending,
+   * as long as this tab leads
+   *
+   * @param onFlushed - Called with the report of every flush that reached the API
+   * @returns Function that stops watching
+   */
+  watch(onFlushed?: (report: OutboxFlushReport) => void, intervalMs = DEFAULT_WATCH_INTERVAL_MS): () => void {
+    const tryFlush = () => {
+      if (!this.isLeader() || this.isFlushing()) return
+      this.recoverInterrupted()
+      if (this.getPendingCount() === 0) return
+      void this.flush().then((report) => {
+        if (report.reachable) onFlushed?.(report)
+      })
+    }
+
+    const interval = setInterval(tryFlush, intervalMs)
+    if (typeof window !== "undefined") window.addEventListener("online", tryFlush)
+
+    return () => {
+      clearInterval(interval)
+      if (typeof window !== "undefined") window.removeEventListener("online", tryFlush)
+    }
+  }
+
+  /**
+   * Registers a listener called whenever an intent is added, changes or is removed
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async runFlush(): Promise<OutboxFlushReport> {
+    const settled: OutboxIntent[] = []
+    const report = (reachable: boolean): OutboxFlushReport => ({
+      settled,
+      remaining: this.getPendingCount(),
+      reachable,
+      leader: true,
+    })
+
+    this.recoverInterrupted()
+    if (this.getPendingCount() === 0) return report(true)
+
+    // The status endpoint answers null while the API is down
+    const status = await fetchControlStatus()
+    if (!status) return report(false)
+
+    logger.info("API reachable, flushing dispatch outbox", { pending: this.getPendingCount() })
+
+    if (status.status !== "Running") {
+      this.load()
+        .filter((intent) => intent.state === "pending")
+        .forEach((intent) => settled.push(this.settle(intent.id, "dropped", "The simulation is no longer running")))
+      return report(true)
+    }
+
+    // Fresh call needs and depot stock, updated locally as intents are submitted
+    let queue: EmergencyCall[]
+    try {
+      queue = await readEmergencyCalls()
+    } catch (error) {
+      // Read as an empty queue, every intent would be dropped
+      logger.warn("Could not read the call queue; queued dispatches stay pending", { error })
+      return report(false)
+    }
+    const types = [...new Set(this.getIntents().filter((i) => i.state === "pending").map((i) => i.type))]
+    const inventory = new Map<EmergencyType, EmergencyResource[]>()
+    for (const type of types) {
+      const resources = await fetchAvailableResources(type)
+      // Search answers an empty list when it fails; every type has depots while a run is going
+      if (resources.length === 0) return report(false)
+      inventory.set(type, resources)
+    }
+
+    for (const { id } of this.getIntents().filter((candidate) => candidate.state === "pending")) {
+      // Re-read, since another tab may have removed the intent while earlier ones were submitted
+      const intent = this.load().find((candidate) => candidate.id === id)
+      if (intent?.state !== "pending") continue
+
+      const { sourceCounty, sourceCity, targetCounty, targetCity, quantity } = intent.request
+      const depot = inventory.get(intent.type)?.find((d) => d.county === sourceCounty && d.city === sourceCity)
+      const need = findNeed(queue, intent.type, targetCounty, targetCity)
+
+      if (!depot || depot.quantity < quantity) {
+        const reason = `${sourceCity} has ${depot?.quantity ?? 0} ${intent.type} unit(s) left, ${quantity} needed`
+        settled.push(this.settle(intent.id, "dropped", reason))
+        continue
+      }
+      if (!need || need.remaining < quantity) {
+        const reason = `${targetCity} needs ${need?.remaining ?? 0} ${intent.type} unit(s), ${quantity} queued`
+        settled.push(this.settle(intent.id, "dropped", reason))
+        continue
+      }
+
+      this.update(intent.id, { state: "submitting" })
+      try {
+        await dispatchResource(intent.type, intent.request)
+        depot.quantity -= quantity
+        need.call.dispatched = {
+          ...(need.call.dispatched as Record<EmergencyType, number>),
+          [intent.type]: (need.call.dispatched?.[intent.type] ?? 0) + quantity,
+        }
+        settled.push(this.settle(intent.id, "dispatched"))
+      } catch (error) {
+        // Refused by the dispatch guard, so it was never sent
+        if (error instanceof OverDispatchError) {
+          settled.push(this.settle(intent.id, "dropped", error.message))
+          continue
+        }
+
+        const message = (error as { message?: string } | null)?.message ?? String(error)
+        settled.push(this.settle(intent.id, "failed", message))
+
+        // The API went away again; leave the rest for the next flush
+        if (isUnreachable(error)) break
+      }
+    }
+
+    logger.info("Dispatch outbox flushed", {
+      dispatched: settled.filter((intent) => intent.state === "dispatched").length,
+      dropped: settled.filter((intent) => intent.state === "dropped").length,
+      failed: settled.filter((intent) => intent.state === "failed").length,
+      remaining: this.getPendingCount(),
+    })
+    return report(true)
+  }
+
+  private settle(id: string, state: Exclude<OutboxIntentState, "pending" | "submitting">, reason?: string) {
+    const intent = this.update(id, { state, reason, settledAt: Date.now() })
+    const meta = { id, type: intent.type, request: intent.request, reason }
+    if (state === "dispatched") {
+      logger.info("Dispatch intent dispatched", meta)
+    } else {
+      logger.warn(`Dispatch intent ${state}`, meta)
+    }
+    return intent
+  }
+
+  private update(id: string, changes: Partial<OutboxIntent>): OutboxIntent {
+    let updated: OutboxIntent | undefined
+    this.change((intents) =>
+      intents.map((intent) => {
+        if (intent.id !== id) return intent
+        updated = { ...intent, ...changes }
+        return updated
+      }),
+    )
+    if (!updated) throw new Error(`Unknown dispatch intent ${id}`)
+    return updated
+  }
+
+  /**
+   * Fails intents left submitting by a leading tab that closed; they may or may not have been sent
+   *
+   * Only the leading tab submits, so while it is not flushing nothing is submitting.
+   */
+  private recoverInterrupted(): void {
+    if (!this.load().some((intent) => intent.state === "submitting")) return
+    this.change((intents) =>
+      intents.map((intent) =>
+        intent.state === "submitting"
+          ? { ...intent, state: "failed", reason: "Interrupted while submitting; check the call before queueing again" }
+          : intent,
+      ),
+    )
+  }
+
+  /**
+   * Applies a change to the intents, re-read first so changes other tabs made are kept
+   */
+  private change(transform: (intents: OutboxIntent[]) => OutboxIntent[]): void {
+    this.commit(transform(this.load()))
+  }
+
+  private load(): OutboxIntent[] {
+    if (typeof window === "undefined") return this.intents ?? []
+
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]") as OutboxIntent[]
+    } catch (error) {
+      logger.warn("Ignoring unreadable dispatch outbox", { error })
+      return []
+    }
+  }
+
+  private commit(intents: OutboxIntent[]): void {
+    this.intents = intents
+    if (typeof window !== "undefined") {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(intents))
+    }
+    this.notify()
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Outbox shared by the dashboard's panels
+export const dispatchOutbox = new DispatchOutbox()
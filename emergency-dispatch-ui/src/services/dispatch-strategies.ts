@@ -0,0 +1,113 @@
+/**
+ * Dispatch Strategies
+ *
+ * Pluggable allocation policies for automatic dispatch. A strategy looks at
+ * the open calls and the current inventory and proposes dispatches; it never
+ * talks to the API itself, so the same strategy runs in the browser engine,
+ * a Web Worker or a headless script.
+ */
+import type { EmergencyCall, EmergencyResource, EmergencyType } from "@/types"
+import type { DistanceModel } from "@/utils/distance"
+import { optimizeAssignments, sequenceForServer, type PlannedDispatch } from "./assignment-optimizer"
+import { createResourceIndex } from "./resource-index"
+import { getRemainingNeed } from "./scoring"
+
+export type DispatchStrategyName = "nearest" | "optimal"
+
+export interface DispatchStrategy {
+  name: DispatchStrategyName
+  label: string
+  description: string
+  /**
+   * Proposes dispatches for the open calls
+   *
+   * @param calls - Open calls with their dispatched counts, oldest first
+   * @param inventory - Available units of every type
+   * @param model - Distance model used to rank depots
+   * @param priority - The same calls in the order they should be served (default: oldest first)
+   */
+  allocate(
+    calls: EmergencyCall[],
+    inventory: EmergencyResource[],
+    model: DistanceModel,
+    priority?: EmergencyCall[],
+  ): PlannedDispatch[]
+}
+
+const EMERGENCY_TYPES: EmergencyType[] = ["Medical", "Police", "Fire", "Rescue", "Utility"]
+
+/**
+ * Serves calls in priority order, each from its nearest depots, splitting
+ * across depots when the nearest one runs short
+ */
+const nearestStrategy: DispatchStrategy = {
+  name: "nearest",
+  label: "Nearest first",
+  description: "Most pressing call first, nearest available depot (greedy)",
+  allocate(calls, inventory, model, priority = calls) {
+    const index = createResourceIndex(model)
+    EMERGENCY_TYPES.forEach((type) => index.setResources(type, inventory))
+
+    const dispatches: PlannedDispatch[] = []
+    priority.forEach((call) => {
+      call.requests.forEach((request) => {
+        let need = getRemainingNeed(call, request.Type)
+
+        while (need > 0) {
+          const [nearest] = index.nearest(request.Type, call.latitude, call.longitude, { k: 1 })
+          if (!nearest) break
+
+          const quantity = Math.min(need, nearest.resource.quantity)
+          dispatches.push({
+            type: request.Type,
+            source: nearest.resource,
+            call,
+            quantity,
+            distance: nearest.distance * quantity,
+          })
+          index.adjustQuantity(request.Type, nearest.resource.city, nearest.resource.county, -quantity)
+          need -= quantity
+        }
+      })
+    })
+
+    return EMERGENCY_TYPES.flatMap((type) =>
+      sequenceForServer(
+        dispatches.filter((dispatch) => dispatch.type === type),
+        calls,
+      ),
+    )
+  },
+}
+
+/**
+ * Plans the whole queue at once with the min-cost-flow optimizer
+ */
+const optimalStrategy: DispatchStrategy = {
+  name: "optimal",
+  label: "Global optimum",
+  description: "Minimum total distance over the whole queue (min-cost flow)",
+  allocate(calls, inventory, model) {
+    return optimizeAssignments(calls, inventory, model).dispatches
+  },
+}
+
+export const DISPATCH_STRATEGIES: Record<DispatchStrategyName, DispatchStrategy> = {
+  nearest: nearestStrategy,
+  optimal: optimalStrategy,
+}
+
+export const DEFAULT_DISPATCH_STRATEGY: DispatchStrategyName = "optimal"
+
+/**
+ * Looks up a strategy by name
+ *
+ * @throws Error if no strategy has that name
+ */
+export function getDispatchStrategy(name: string): DispatchStrategy {
+  const strategy = DISPATCH_STRATEGIES[name as DispatchStrategyName]
+  if (!strategy) {
+    throw new Error(`Unknown dispatch strategy "${name}". Available: ${Object.keys(DISPATCH_STRATEGIES).join(", ")}`)
+  }
+  return strategy
+}
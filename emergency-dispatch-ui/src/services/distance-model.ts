@@ -0,0 +1,63 @@
+/**
+ * Distance Model Selection
+ *
+ * Holds the distance model chosen in the UI and persists it in localStorage.
+ * Rating tiers, resource ranking and distance totals all read from here.
+ */
+import { logger } from "@/components/logger"
+import { DEFAULT_DISTANCE_MODEL, DISTANCE_MODELS, type DistanceModel, type DistanceModelId } from "@/utils/distance"
+
+const STORAGE_KEY = "distanceModel"
+
+type ModelListener = (model: DistanceModel) => void
+
+const listeners = new Set<ModelListener>()
+let currentId: DistanceModelId | null = null
+
+/**
+ * Reads the persisted model id, falling back to the default
+ */
+function loadModelId(): DistanceModelId {
+  if (typeof window === "undefined") return DEFAULT_DISTANCE_MODEL
+
+  const stored = localStorage.getItem(STORAGE_KEY)
+  return stored && stored in DISTANCE_MODELS ? (stored as DistanceModelId) : DEFAULT_DISTANCE_MODEL
+}
+
+/**
+ * Returns the currently selected distance model
+ */
+export function getDistanceModel(): DistanceModel {
+  if (currentId === null) {
+    currentId = loadModelId()
+  }
+  return DISTANCE_MODELS[currentId]
+}
+
+/**
+ * Selects and persists a distance model
+ */
+export function setDistanceModel(id: DistanceModelId): void {
+  if (currentId === id) return
+
+  currentId = id
+  if (typeof window !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, id)
+  }
+  logger.info("Distance model changed", { model: id })
+
+  const model = DISTANCE_MODELS[id]
+  listeners.forEach((listener) => listener(model))
+}
+
+/**
+ * Subscribes to distance model changes
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToDistanceModel(listener: ModelListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Seeded Call Generator
+ *
+ * Produces the emulator's stream of emergency calls. The stream depends only on
+ * the seed, so two runs reset with the same seed see exactly the same calls in
+ * the same order regardless of how they were dispatched.
+ */
+import type { EmergencyCall, EmergencyRequest, EmergencyType, Location } from "@/types"
+import { createSeededRandom, type SeededRandom } from "@/utils/seeded-random"
+import { EMULATOR_LOCATIONS } from "./locations"
+
+export interface GeneratedCall extends EmergencyCall {
+  /** Position of the call in the seeded stream, starting at 1 */
+  sequence: number
+}
+
+// Relative frequency of each emergency type in generated calls
+const TYPE_WEIGHTS: Record<EmergencyType, number> = {
+  Medical: 5,
+  Police: 3,
+  Fire: 2,
+  Rescue: 1,
+  Utility: 1,
+}
+
+export class CallGenerator {
+  private random: SeededRandom
+  private sequence = 0
+
+  constructor(
+    seed: string,
+    private locations: Location[] = EMULATOR_LOCATIONS,
+  ) {
+    this.random = createSeededRandom(`${seed}:calls`)
+  }
+
+  /**
+   * Generates the next call in the stream
+   */
+  next(): GeneratedCall {
+    this.sequence += 1
+
+    const location = this.random.pick(this.locations)
+    const roll = this.random.next()
+    const typeCount = roll < 0.6 ? 1 : roll < 0.9 ? 2 : 3
+
+    const requests: EmergencyRequest[] = []
+    while (requests.length < typeCount) {
+      const type = this.pickType()
+      if (requests.some((req) => req.Type === type)) continue
+      requests.push({ Type: type, Quantity: this.random.int(1, 3) })
+    }
+
+    return {
+      // Internal to the emulator; like the real API, it serves calls without ids
+      id: `call-${this.sequence}`,
+      sequence: this.sequence,
+      city: location.name,
+      county: location.county,
+      latitude: location.lat,
+      longitude: location.long,
+      requests,
+    }
+  }
+
+  /**
+   * Picks an emergency type according to TYPE_WEIGHTS
+   */
+  private pickType(): EmergencyType {
+    const entries = Object.entries(TYPE_WEIGHTS) as [EmergencyType, number][]
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0)
+    let roll = this.random.next() * total
+
+    for (const [type, weight] of entries) {
+      roll -= weight
+      if (roll < 0) return type
+    }
+
+    return entries[entries.length - 1][0]
+  }
+}
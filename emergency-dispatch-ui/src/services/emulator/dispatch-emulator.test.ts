@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest"
+import type { ControlStatus, EmergencyCall, EmergencyResource, EmergencyType } from "@/types"
+import { DispatchEmulator, type EmulatorOptions } from "./dispatch-emulator"
+
+// Depots and calls all sit in Turda, so every call can be served from every depot
+const TURDA = { name: "Turda", county: "Cluj", lat: 46.5667, long: 23.7833 }
+
+function startEmulator(options: EmulatorOptions = {}, query = "seed=routes&targetDispatches=100&maxActiveCalls=5") {
+  const emulator = new DispatchEmulator({ locations: [TURDA], now: () => 0, ...options })
+  emulator.handle("POST", "/control/reset", new URLSearchParams(query))
+  return emulator
+}
+
+const get = (emulator: DispatchEmulator, path: string) => emulator.handle("GET", path, new URLSearchParams())
+
+const status = (emulator: DispatchEmulator) => get(emulator, "/control/status").body as ControlStatus
+const queue = (emulator: DispatchEmulator) => get(emulator, "/calls/queue").body as EmergencyCall[]
+const nextCall = (emulator: DispatchEmulator) => get(emulator, "/calls/next").body as EmergencyCall
+
+const stock = (emulator: DispatchEmulator, type: EmergencyType) =>
+  (get(emulator, `/${type.toLowerCase()}/search`).body as EmergencyResource[])[0].quantity
+
+const dispatch = (emulator: DispatchEmulator, type: EmergencyType, quantity: number, idempotencyKey?: string) =>
+  emulator.handle(
+    "POST",
+    `/${type.toLowerCase()}/dispatch`,
+    new URLSearchParams(),
+    { sourceCounty: "Cluj", sourceCity: "Turda", targetCounty: "Cluj", targetCity: "Turda", quantity },
+    idempotencyKey,
+  )
+
+describe("DispatchEmulator routes", () => {
+  it("starts a run and queues the calls it hands out", () => {
+    const emulator = startEmulator()
+    expect(status(emulator)).toMatchObject({ status: "Running", seed: "routes", maxActiveCalls: 5, totalDispatches: 0 })
+
+    const call = nextCall(emulator)
+
+    expect(call).toMatchObject({ city: "Turda", county: "Cluj" })
+    expect(queue(emulator)).toEqual([call])
+    expect(status(emulator).requestCount).toBe(1)
+  })
+
+  it("hands out the same calls for the same seed", () => {
+    const first = startEmulator()
+    const second = startEmulator()
+
+    const calls = (emulator: DispatchEmulator) => Array.from({ length: 5 }, () => nextCall(emulator).requests)
+    expect(calls(first)).toEqual(calls(second))
+  })
+
+  it("applies a dispatch to the call and the depot", () => {
+    // The first call of this seed needs 2 Police units
+    const emulator = startEmulator({}, "seed=units&targetDispatches=100&maxActiveCalls=5")
+    expect(nextCall(emulator).requests).toEqual([{ Type: "Police", Quantity: 2 }])
+    const before = stock(emulator, "Police")
+
+    expect(dispatch(emulator, "Police", 1)).toMatchObject({ status: 200, body: { quantity: 1, type: "Police" } })
+
+    expect(stock(emulator, "Police")).toBe(before - 1)
+    expect(status(emulator).totalDispatches).toBe(1)
+    expect(queue(emulator)[0].dispatched).toMatchObject({ Police: 1 })
+  })
+
+  it("applies a dispatch once when its idempotency key is repeated", () => {
+    const emulator = startEmulator({}, "seed=units&targetDispatches=100&maxActiveCalls=5")
+    nextCall(emulator)
+    const before = stock(emulator, "Police")
+
+    const first = dispatch(emulator, "Police", 1, "retry-1")
+    const repeated = dispatch(emulator, "Police", 1, "retry-1")
+
+    expect(repeated).toEqual(first)
+    expect(stock(emulator, "Police")).toBe(before - 1)
+    expect(status(emulator).totalDispatches).toBe(1)
+    expect(dispatch(emulator, "Police", 1, "retry-2").status).toBe(200)
+    expect(status(emulator).totalDispatches).toBe(2)
+  })
+
+  it("drops a call from the queue once every request is served", () => {
+    const emulator = startEmulator()
+    const { requests } = nextCall(emulator)
+    requests.forEach((request) => {
+      for (let unit = 0; unit < request.Quantity; unit++) dispatch(emulator, request.Type, 1)
+    })
+
+    expect(queue(emulator)).toEqual([])
+    expect(status(emulator).errors.overDispatched).toBe(0)
+  })
+
+  it("rejects unknown routes, malformed dispatches and dispatches beyond a depot's stock", () => {
+    const emulator = startEmulator()
+    nextCall(emulator)
+
+    expect(get(emulator, "/nowhere").status).toBe(404)
+    expect(emulator.handle("POST", "/fire/dispatch", new URLSearchParams(), { quantity: 1 }).status).toBe(400)
+    expect(dispatch(emulator, "Fire", 1000).status).toBe(400)
+    expect(status(emulator).totalDispatches).toBe(0)
+  })
+
+  it("misses calls that outlive their lifetime", () => {
+    const emulator = startEmulator({ callLifetime: 2 })
+    const oldest = nextCall(emulator)
+    nextCall(emulator)
+
+    nextCall(emulator)
+
+    expect(queue(emulator)).toHaveLength(2)
+    expect(queue(emulator)).not.toContainEqual(oldest)
+    expect(status(emulator).errors.missed).toBe(1)
+    expect(status(emulator).penalty).toBeGreaterThan(0)
+  })
+
+  it("stops once the target dispatches are reached", () => {
+    const emulator = startEmulator({}, "seed=routes&targetDispatches=1&maxActiveCalls=5")
+    const { requests } = nextCall(emulator)
+
+    dispatch(emulator, requests[0].Type, 1)
+
+    expect(status(emulator).status).toBe("Stopped")
+    expect(get(emulator, "/calls/next").status).toBe(400)
+  })
+})
@@ -0,0 +1,348 @@
+/**
+ * Dispatch Emulator
+ *
+ * In-process implementation of the main dispatch API (the service normally on
+ * localhost:5000). It serves the same routes and payload shapes the UI expects,
+ * so the dashboard can run without an external backend.
+ *
+ * Rules:
+ * - /control/reset seeds both the depot inventory and the call stream
+ * - calls, expiry and score totals are handled by the shared ScoreTracker, so
+ *   the emulator scores a run exactly like replayDispatchLog does
+ */
+import type {
+  ControlStatus,
+  DispatchRequest,
+  EmergencyCallPayload,
+  EmergencyResource,
+  EmergencyType,
+  Location,
+} from "@/types"
+import { resourceId } from "@/services/entity-ids"
+import { createScoringRules, ScoreTracker, type ScoredCall } from "@/services/scoring"
+import { createSeededRandom, hashSeed } from "@/utils/seeded-random"
+import { CallGenerator } from "./call-generator"
+import { EMULATOR_LOCATIONS } from "./locations"
+
+const EMULATOR_VERSION = 1
+
+const EMERGENCY_TYPES: EmergencyType[] = ["Medical", "Police", "Fire", "Rescue", "Utility"]
+
+// Share of locations holding a depot and the unit range per depot, by type
+const DEPOT_PROFILE: Record<EmergencyType, { coverage: number; minUnits: number; maxUnits: number }> = {
+  Medical: { coverage: 0.8, minUnits: 2, maxUnits: 8 },
+  Police: { coverage: 0.7, minUnits: 2, maxUnits: 6 },
+  Fire: { coverage: 0.6, minUnits: 1, maxUnits: 5 },
+  Rescue: { coverage: 0.4, minUnits: 1, maxUnits: 4 },
+  Utility: { coverage: 0.4, minUnits: 1, maxUnits: 4 },
+}
+
+export interface EmulatorOptions {
+  locations?: Location[]
+  /** Newer calls that may arrive before an unfinished call is missed (default: 2 × maxActiveCalls) */
+  callLifetime?: number
+  /** Clock used for runningTime */
+  now?: () => number
+}
+
+export interface EmulatorResponse {
+  status: number
+  body: unknown
+}
+
+type EmulatorStatus = "Ready" | "Running" | "Stopped"
+
+/**
+ * Formats a duration in milliseconds as HH:MM:SS
+ */
+function formatRunningTime(ms: number): string {
+  const hours = Math.floor(ms / 3600000)
+    .toString()
+    .padStart(2, "0")
+  const minutes = Math.floor((ms % 3600000) / 60000)
+    .toString()
+    .padStart(2, "0")
+  const seconds = Math.floor((ms % 60000) / 1000)
+    .toString()
+    .padStart(2, "0")
+  return `${hours}:${minutes}:${seconds}`
+}
+
+const error = (status: number, detail: string): EmulatorResponse => ({ status, body: { detail } })
+const ok = (body: unknown): EmulatorResponse => ({ status: 200, body })
+
+export class DispatchEmulator {
+  private options: Required<Omit<EmulatorOptions, "callLifetime">> & Pick<EmulatorOptions, "callLifetime">
+  private status: EmulatorStatus = "Ready"
+  private seed = "default"
+  private targetDispatches = 0
+  private maxActiveCalls = 0
+  private generator: CallGenerator | null = null
+  private depots: Record<EmergencyType, EmergencyResource[]> = {
+    Medical: [],
+    Police: [],
+    Fire: [],
+    Rescue: [],
+    Utility: [],
+  }
+  private tracker = new ScoreTracker(createScoringRules(0))
+  private httpRequests = 0
+  // Dispatch responses by idempotency key, so a replayed dispatch is applied once
+  private dispatchesByKey = new Map<string, EmulatorResponse>()
+  private startedAt: number | null = null
+  private stoppedAt: number | null = null
+
+  constructor(options: EmulatorOptions = {}) {
+    this.options = {
+      locations: options.locations ?? EMULATOR_LOCATIONS,
+      callLifetime: options.callLifetime,
+      now: options.now ?? (() => Date.now()),
+    }
+  }
+
+  /**
+   * Routes an HTTP-style request to the matching handler
+   *
+   * @param method - HTTP method
+   * @param path - URL path, e.g. "/medical/search"
+   * @param query - Parsed query string
+   * @param body - Parsed JSON body, if any
+   * @param idempotencyKey - Idempotency-Key header; a dispatch repeating a key gets the first response
+   */
+  handle(
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    body?: unknown,
+    idempotencyKey?: string | null,
+  ): EmulatorResponse {
+    this.httpRequests += 1
+
+    const route = path.replace(/\/+$/, "") || "/"
+    const verb = method.toUpperCase()
+
+    if (route === "/health") return ok({ status: "ok", emulator: true })
+    if (route === "/locations" && verb === "GET") return ok(this.options.locations)
+
+    if (route === "/control/reset") {
+      return ok(
+        this.reset(
+          query.get("seed") || "default",
+          Number.parseInt(query.get("targetDispatches") || "10000"),
+          Number.parseInt(query.get("maxActiveCalls") || "100"),
+        ),
+      )
+    }
+    if (route === "/control/stop") return ok(this.stop())
+    if (route === "/control/status" && verb === "GET") return ok(this.getStatus())
+
+    if (route === "/calls/next" && verb === "GET") return this.nextCall()
+    if (route === "/calls/queue" && verb === "GET") return ok(this.getQueue())
+
+    const typeMatch = route.match(/^\/([a-z]+)\/(search|dispatch)$/)
+    const type = typeMatch && EMERGENCY_TYPES.find((t) => t.toLowerCase() === typeMatch[1])
+    if (typeMatch && type) {
+      if (typeMatch[2] === "search" && verb === "GET") return ok(this.search(type))
+      if (typeMatch[2] === "dispatch" && verb === "POST") {
+        if (!idempotencyKey) return this.dispatch(type, body as Partial<DispatchRequest>)
+
+        const replayed = this.dispatchesByKey.get(idempotencyKey)
+        if (replayed) return replayed
+        const response = this.dispatch(type, body as Partial<DispatchRequest>)
+        this.dispatchesByKey.set(idempotencyKey, response)
+        return response
+      }
+    }
+
+    return error(404, `No route for ${verb} ${route}`)
+  }
+
+  /**
+   * Starts a new simulation, reseeding depots and the call stream
+   */
+  reset(seed: string, targetDispatches: number, maxActiveCalls: number): ControlStatus {
+    this.seed = seed
+    this.targetDispatches = targetDispatches
+    this.maxActiveCalls = maxActiveCalls
+    this.generator = new CallGenerator(seed, this.options.locations)
+    this.depots = this.generateDepots(seed)
+    this.tracker = new ScoreTracker(
+      createScoringRules(maxActiveCalls, this.options.callLifetime ? { callLifetime: this.options.callLifetime } : {}),
+    )
+    this.httpRequests = 0
+    this.dispatchesByKey.clear()
+    this.startedAt = this.options.now()
+    this.stoppedAt = null
+    this.status = "Running"
+
+    return this.getStatus()
+  }
+
+  /**
+   * Stops the running simulation; totals stay readable through /control/status
+   */
+  stop(): ControlStatus {
+    if (this.status === "Running") {
+      this.status = "Stopped"
+      this.stoppedAt = this.options.now()
+    }
+    return this.getStatus()
+  }
+
+  /**
+   * Builds the ControlStatus payload
+   */
+  getStatus(): ControlStatus {
+    const end = this.stoppedAt ?? this.options.now()
+    const elapsed = this.startedAt === null ? 0 : end - this.startedAt
+    const totals = this.tracker.getSummary()
+    const checksum = hashSeed(`${this.seed}:${totals.totalDispatches}:${totals.distance.toFixed(4)}:${totals.penalty}`)
+
+    return {
+      status: this.status,
+      runningTime: formatRunningTime(elapsed),
+      seed: this.seed,
+      requestCount: this.tracker.getOpenCalls().length,
+      maxActiveCalls: this.maxActiveCalls,
+      totalDispatches: totals.totalDispatches,
+      targetDispatches: this.targetDispatches,
+      distance: totals.distance,
+      penalty: totals.penalty,
+      httpRequests: this.httpRequests,
+      emulatorVersion: EMULATOR_VERSION,
+      signature: `ts-emulator-${EMULATOR_VERSION}`,
+      checksum: checksum.toString(16).padStart(8, "0"),
+      errors: totals.errors,
+    }
+  }
+
+  /**
+   * Generates the next call and expires calls that waited too long
+   */
+  private nextCall(): EmulatorResponse {
+    if (this.status !== "Running" || !this.generator) {
+      return error(400, "Simulation is not running")
+    }
+    if (this.tracker.getOpenCalls().length >= this.maxActiveCalls) {
+      return error(400, `Max active calls reached (${this.maxActiveCalls})`)
+    }
+
+    const call = this.tracker.recordCall(this.generator.next())
+    return ok(this.toPayload(call))
+  }
+
+  private getQueue(): EmergencyCallPayload[] {
+    return this.tracker.getOpenCalls().map((call) => this.toPayload(call))
+  }
+
+  private search(type: EmergencyType): Omit<EmergencyResource, "type" | "id">[] {
+    return this.depots[type].map((depot) => ({
+      county: depot.county,
+      city: depot.city,
+      latitude: depot.latitude,
+      longitude: depot.longitude,
+      quantity: depot.quantity,
+    }))
+  }
+
+  /**
+   * Sends units from a depot to the oldest matching call at the target
+   */
+  private dispatch(type: EmergencyType, request: Partial<DispatchRequest> | undefined): EmulatorResponse {
+    if (this.status !== "Running") {
+      return error(400, "Simulation is not running")
+    }
+    if (
+      !request ||
+      !request.sourceCounty ||
+      !request.sourceCity ||
+      !request.targetCounty ||
+      !request.targetCity ||
+      !request.quantity ||
+      request.quantity <= 0
+    ) {
+      return error(400, "Invalid dispatch request")
+    }
+
+    const depot = this.depots[type].find(
+      (d) => d.city === request.sourceCity && d.county === request.sourceCounty,
+    )
+    if (!depot) {
+      return error(404, `No ${type} depot at ${request.sourceCity}, ${request.sourceCounty}`)
+    }
+    if (depot.quantity < request.quantity) {
+      return error(400, `Insufficient ${type} units at ${depot.city} (${depot.quantity} available)`)
+    }
+
+    const outcome = this.tracker.recordDispatch(
+      type,
+      depot,
+      { city: request.targetCity, county: request.targetCounty },
+      request.quantity,
+    )
+    if (!outcome) {
+      return error(404, `No active call at ${request.targetCity}, ${request.targetCounty}`)
+    }
+
+    depot.quantity -= request.quantity
+
+    if (this.tracker.getSummary().totalDispatches >= this.targetDispatches) {
+      this.stop()
+    }
+
+    return ok({
+      sourceCounty: request.sourceCounty,
+      sourceCity: request.sourceCity,
+      targetCounty: request.targetCounty,
+      targetCity: request.targetCity,
+      quantity: request.quantity,
+      type,
+      distance: outcome.distance,
+    })
+  }
+
+  private toPayload(call: ScoredCall): EmergencyCallPayload {
+    return {
+      city: call.city,
+      county: call.county,
+      latitude: call.latitude,
+      longitude: call.longitude,
+      requests: call.requests.map((req) => ({ ...req })),
+      dispatched: { ...call.dispatched },
+    }
+  }
+
+  /**
+   * Seeds the depot inventory for every emergency type
+   */
+  private generateDepots(seed: string): Record<EmergencyType, EmergencyResource[]> {
+    const random = createSeededRandom(`${seed}:depots`)
+
+    return Object.fromEntries(
+      EMERGENCY_TYPES.map((type) => {
+        const profile = DEPOT_PROFILE[type]
+        const depots = random
+          .shuffle(this.options.locations)
+          .slice(0, Math.max(1, Math.round(this.options.locations.length * profile.coverage)))
+          .map((location) => ({
+            id: resourceId(type, location.county, location.name),
+            county: location.county,
+            city: location.name,
+            latitude: location.lat,
+            longitude: location.long,
+            quantity: random.int(profile.minUnits, profile.maxUnits),
+            type,
+          }))
+        return [type, depots]
+      }),
+    ) as Record<EmergencyType, EmergencyResource[]>
+  }
+}
+
+// Shared emulator instance used by the API layer
+export const dispatchEmulator = new DispatchEmulator()
+
+// For tests or headless runs that need an isolated emulator
+export const createEmulator = (options: EmulatorOptions = {}): DispatchEmulator => {
+  return new DispatchEmulator(options)
+}
@@ -0,0 +1,55 @@
+/**
+ * Emulator Locations
+ *
+ * Romanian cities served by the in-process emulator. Both supply depots and
+ * emergency calls are placed on these points, mirroring the real /locations feed.
+ */
+import type { Location } from "@/types"
+
+export const EMULATOR_LOCATIONS: Location[] = [
+  { name: "Bucuresti", county: "Bucuresti", lat: 44.4268, long: 26.1025 },
+  { name: "Cluj-Napoca", county: "Cluj", lat: 46.7712, long: 23.6236 },
+  { name: "Turda", county: "Cluj", lat: 46.5667, long: 23.7833 },
+  { name: "Timisoara", county: "Timis", lat: 45.7489, long: 21.2087 },
+  { name: "Iasi", county: "Iasi", lat: 47.1585, long: 27.6014 },
+  { name: "Constanta", county: "Constanta", lat: 44.1598, long: 28.6348 },
+  { name: "Craiova", county: "Dolj", lat: 44.3302, long: 23.7949 },
+  { name: "Brasov", county: "Brasov", lat: 45.6427, long: 25.5887 },
+  { name: "Galati", county: "Galati", lat: 45.4353, long: 28.008 },
+  { name: "Ploiesti", county: "Prahova", lat: 44.9462, long: 26.0254 },
+  { name: "Oradea", county: "Bihor", lat: 47.0465, long: 21.9189 },
+  { name: "Braila", county: "Braila", lat: 45.2692, long: 27.9575 },
+  { name: "Arad", county: "Arad", lat: 46.1866, long: 21.3123 },
+  { name: "Pitesti", county: "Arges", lat: 44.8565, long: 24.8692 },
+  { name: "Sibiu", county: "Sibiu", lat: 45.7983, long: 24.1256 },
+  { name: "Medias", county: "Sibiu", lat: 46.1667, long: 24.35 },
+  { name: "Bacau", county: "Bacau", lat: 46.567, long: 26.9146 },
+  { name: "Targu Mures", county: "Mures", lat: 46.5425, long: 24.5575 },
+  { name: "Baia Mare", county: "Maramures", lat: 47.6567, long: 23.585 },
+  { name: "Buzau", county: "Buzau", lat: 45.15, long: 26.8333 },
+  { name: "Botosani", county: "Botosani", lat: 47.7486, long: 26.6694 },
+  { name: "Satu Mare", county: "Satu Mare", lat: 47.79, long: 22.89 },
+  { name: "Ramnicu Valcea", county: "Valcea", lat: 45.1047, long: 24.3756 },
+  { name: "Suceava", county: "Suceava", lat: 47.6514, long: 26.2556 },
+  { name: "Piatra Neamt", county: "Neamt", lat: 46.9275, long: 26.3708 },
+  { name: "Drobeta-Turnu Severin", county: "Mehedinti", lat: 44.6369, long: 22.6597 },
+  { name: "Targu Jiu", county: "Gorj", lat: 45.0342, long: 23.2747 },
+  { name: "Targoviste", county: "Dambovita", lat: 44.9254, long: 25.4567 },
+  { name: "Focsani", county: "Vrancea", lat: 45.6967, long: 27.1864 },
+  { name: "Bistrita", county: "Bistrita-Nasaud", lat: 47.1333, long: 24.5 },
+  { name: "Tulcea", county: "Tulcea", lat: 45.1787, long: 28.8053 },
+  { name: "Resita", county: "Caras-Severin", lat: 45.3008, long: 21.8892 },
+  { name: "Slatina", county: "Olt", lat: 44.4297, long: 24.3644 },
+  { name: "Calarasi", county: "Calarasi", lat: 44.2, long: 27.3333 },
+  { name: "Alba Iulia", county: "Alba", lat: 46.0667, long: 23.5833 },
+  { name: "Giurgiu", county: "Giurgiu", lat: 43.9037, long: 25.9699 },
+  { name: "Deva", county: "Hunedoara", lat: 45.8833, long: 22.9 },
+  { name: "Hunedoara", county: "Hunedoara", lat: 45.75, long: 22.9 },
+  { name: "Zalau", county: "Salaj", lat: 47.1911, long: 23.0572 },
+  { name: "Sfantu Gheorghe", county: "Covasna", lat: 45.8667, long: 25.7833 },
+  { name: "Vaslui", county: "Vaslui", lat: 46.6383, long: 27.7292 },
+  { name: "Barlad", county: "Vaslui", lat: 46.2333, long: 27.6667 },
+  { name: "Slobozia", county: "Ialomita", lat: 44.5639, long: 27.3661 },
+  { name: "Alexandria", county: "Teleorman", lat: 43.9686, long: 25.3333 },
+  { name: "Miercurea Ciuc", county: "Harghita", lat: 46.3594, long: 25.8017 },
+]
@@ -0,0 +1,63 @@
+/**
+ * Emulator Transport
+ *
+ * Fetch-compatible adapter that answers requests for the emulated base URL from
+ * an in-process DispatchEmulator and forwards everything else to the network.
+ */
+import type { ApiTransport } from "@/types"
+import type { DispatchEmulator } from "./dispatch-emulator"
+
+/**
+ * Creates a transport backed by the given emulator
+ *
+ * @param emulator - The emulator that serves requests
+ * @param baseUrl - Requests under this URL are emulated
+ * @param fallback - Transport for all other URLs
+ */
+export function createEmulatorTransport(
+  emulator: DispatchEmulator,
+  baseUrl: string,
+  fallback: ApiTransport = (input, init) => fetch(input, init),
+): ApiTransport {
+  const base = baseUrl.replace(/\/+$/, "")
+
+  return async (input, init = {}) => {
+    if (!input.startsWith(base)) {
+      return fallback(input, init)
+    }
+
+    // Yield once so callers observe the same async behaviour as a real request
+    await Promise.resolve()
+
+    if (init.signal?.aborted) {
+      throw new DOMException("The operation was aborted.", "AbortError")
+    }
+
+    // Resolve the part after the base URL so base paths are supported too
+    const url = new URL(input.slice(base.length) || "/", "http://emulator.local")
+    let body: unknown
+    if (typeof init.body === "string" && init.body.length > 0) {
+      try {
+        body = JSON.parse(init.body)
+      } catch {
+        return new Response(JSON.stringify({ detail: "Malformed JSON body" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        })
+      }
+    }
+
+    const result = emulator.handle(
+      init.method || "GET",
+      url.pathname,
+      url.searchParams,
+      body,
+      new Headers(init.headers).get("Idempotency-Key"),
+    )
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { "Content-Type": "application/json" },
+    })
+  }
+}
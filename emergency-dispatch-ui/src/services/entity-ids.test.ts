@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest"
+import type { EmergencyCallPayload, EmergencyType } from "@/types"
+import { CallIdentities, identifyResource, resourceId } from "./entity-ids"
+
+const dej = (type: EmergencyType = "Fire", quantity = 1): EmergencyCallPayload => ({
+  county: "Cluj",
+  city: "Dej",
+  latitude: 47.14,
+  longitude: 23.87,
+  requests: [{ Type: type, Quantity: quantity }],
+})
+
+const ids = (calls: { id: string }[]) => calls.map((call) => call.id)
+
+describe("depot ids", () => {
+  it("derive from the type and place unless the server sent one", () => {
+    const depot = { county: "Cluj", city: "Turda", latitude: 46.57, longitude: 23.78, quantity: 4 }
+
+    expect(identifyResource("Fire", depot)).toMatchObject({ type: "Fire", id: "Fire:Cluj:Turda" })
+    expect(identifyResource("Fire", depot).id).toBe(resourceId("Fire", "Cluj", "Turda"))
+    expect(identifyResource("Police", depot).id).not.toBe(identifyResource("Fire", depot).id)
+    expect(identifyResource("Fire", { ...depot, id: 7 } as typeof depot).id).toBe("7")
+  })
+})
+
+describe("CallIdentities", () => {
+  it("numbers calls the same way for the same reads", () => {
+    const number = () => {
+      const identities = new CallIdentities()
+      return [...ids(identities.identifyQueue([dej(), dej("Medical")])), identities.identifyArrival(dej()).id]
+    }
+
+    expect(number()).toEqual(["Cluj:Dej#1", "Cluj:Dej#2", "Cluj:Dej#3"])
+    expect(number()).toEqual(number())
+  })
+
+  it("gives two calls waiting in one city different ids, even with the same requests", () => {
+    const identities = new CallIdentities()
+
+    const first = identities.identifyArrival(dej())
+    const second = identities.identifyArrival(dej())
+
+    expect(first.id).not.toBe(second.id)
+    expect(ids(identities.identifyQueue([dej(), dej()]))).toEqual([first.id, second.id])
+  })
+
+  it("keeps the newest ids when the oldest calls of a group left the queue", () => {
+    const identities = new CallIdentities()
+    const [, kept] = identities.identifyQueue([dej(), dej()])
+    const medical = identities.identifyArrival(dej("Medical"))
+
+    expect(ids(identities.identifyQueue([dej(), dej("Medical")]))).toEqual([kept.id, medical.id])
+    expect(identities.getOpenIds()).toEqual(new Set([kept.id, medical.id]))
+  })
+
+  it("keeps ids sent by the server and does not reuse numbers after a reset", () => {
+    const identities = new CallIdentities()
+    const numbered = identities.identifyArrival(dej())
+
+    expect(identities.identifyArrival({ ...dej(), id: "server-1" } as EmergencyCallPayload).id).toBe("server-1")
+
+    identities.observe({ kind: "reset", seed: "seed", targetDispatches: 100, maxActiveCalls: 10 })
+    expect(identities.getOpenIds().size).toBe(0)
+    expect(identities.identifyArrival(dej()).id).not.toBe(numbered.id)
+  })
+
+  it("adopts the ids another tab gave and numbers new calls after them", () => {
+    const leader = new CallIdentities()
+    const follower = new CallIdentities()
+    const shared = leader.identifyQueue([dej(), dej(), dej("Medical")])
+
+    follower.adopt(shared)
+
+    expect(ids(follower.identifyQueue([dej(), dej(), dej("Medical")]))).toEqual(ids(shared))
+    expect(follower.identifyArrival(dej()).id).toBe(leader.identifyArrival(dej()).id)
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * Entity Identifiers
+ *
+ * Gives every emergency call and depot a stable id, so lists, selections and
+ * the resource cache update one entity rather than everything at its place.
+ *
+ * - A depot is unique per type and place, so its id is derived from them
+ *   unless the server sends one.
+ * - A call keeps an id sent by the server. The main API sends none and two
+ *   calls can wait in the same city at once, so calls are numbered per place
+ *   as they are first seen, and every queue read is matched against the calls
+ *   numbered before. Calls at one place with the same requests are served and
+ *   expire oldest first, so when fewer of them are left, the newest ones keep
+ *   their ids.
+ * - Dashboard tabs of one browser share one numbering: tabs that follow adopt
+ *   the ids of every queue the leading tab shares, so call locks and mirrored
+ *   dispatches name the same call in every tab.
+ */
+import type { ApiEvent, EmergencyCall, EmergencyCallPayload, EmergencyResource, EmergencyType } from "@/types"
+
+const placeKey = (call: EmergencyCallPayload) => `${call.county}:${call.city}`
+
+// Calls at one place with the same requests are indistinguishable, so they share a group
+const groupKey = (call: EmergencyCallPayload) =>
+  `${placeKey(call)}|${call.requests
+    .map((request) => `${request.Type}x${request.Quantity}`)
+    .sort()
+    .join(",")}`
+
+/**
+ * Id sent by the server in an entity, if it sent a usable one
+ */
+function serverId(entity: object): string | undefined {
+  const id = (entity as { id?: unknown }).id
+  if (typeof id === "string" && id.trim() !== "") return id
+  if (typeof id === "number" && Number.isFinite(id)) return String(id)
+  return undefined
+}
+
+/**
+ * Id of the depot of a type at a place
+ */
+export function resourceId(type: EmergencyType, county: string, city: string): string {
+  return `${type}:${county}:${city}`
+}
+
+/**
+ * Adds the type and id to a depot read from /{type}/search
+ */
+export function identifyResource(type: EmergencyType, depot: Omit<EmergencyResource, "id" | "type">): EmergencyResource {
+  return { ...depot, type, id: serverId(depot) ?? resourceId(type, depot.county, depot.city) }
+}
+
+export class CallIdentities {
+  // Ids of the open calls of each group, oldest first
+  private open = new Map<string, string[]>()
+  // Calls numbered so far per place; never reset, so an id is not reused within a page
+  private counters = new Map<string, number>()
+
+  /**
+   * Gives ids to the calls of a full /calls/queue read
+   *
+   * @param queue - Every open call, oldest first
+   */
+  identifyQueue<T extends EmergencyCallPayload>(queue: T[]): (T & EmergencyCall)[] {
+    const byGroup = new Map<string, number[]>()
+    queue.forEach((call, index) => {
+      if (serverId(call)) return
+      const key = groupKey(call)
+      byGroup.set(key, [...(byGroup.get(key) ?? []), index])
+    })
+
+    const ids: string[] = []
+    const open = new Map<string, string[]>()
+    byGroup.forEach((indexes, key) => {
+      const known = this.open.get(key) ?? []
+      // Calls that left the queue were the oldest of their group
+      const kept = known.slice(Math.max(0, known.length - indexes.length))
+      const groupIds = indexes.map((index, position) => kept[position] ?? this.nextId(queue[index]))
+      indexes.forEach((index, position) => (ids[index] = groupIds[position]))
+      open.set(key, groupIds)
+    })
+    this.open = open
+
+    return queue.map((call, index) => ({ ...call, id: serverId(call) ?? ids[index] }))
+  }
+
+  /**
+   * Gives an id to a call taken from /calls/next
+   */
+  identifyArrival<T extends EmergencyCallPayload>(call: T): T & EmergencyCall {
+    const id = serverId(call)
+    if (id) return { ...call, id }
+
+    const key = groupKey(call)
+    const nextId = this.nextId(call)
+    this.open.set(key, [...(this.open.get(key) ?? []), nextId])
+    return { ...call, id: nextId }
+  }
+
+  /**
+   * Takes over the ids of a queue numbered by another tab
+   *
+   * Later reads keep these ids, and calls first seen here are numbered after them.
+   *
+   * @param queue - Every open call, oldest first, as the other tab identified them
+   */
+  adopt(queue: EmergencyCall[]): void {
+    const open = new Map<string, string[]>()
+    queue.forEach((call) => {
+      const key = groupKey(call)
+      open.set(key, [...(open.get(key) ?? []), call.id])
+
+      const place = placeKey(call)
+      const number = call.id.startsWith(`${place}#`) ? Number(call.id.slice(place.length + 1)) : NaN
+      if (Number.isInteger(number) && number > (this.counters.get(place) ?? 0)) this.counters.set(place, number)
+    })
+    this.open = open
+  }
+
+  /**
+   * Ids of the calls known to be open
+   */
+  getOpenIds(): Set<string> {
+    return new Set([...this.open.values()].flat())
+  }
+
+  /**
+   * Forgets the open calls when a new run starts
+   */
+  observe(event: ApiEvent): void {
+    if (event.kind === "reset") this.open.clear()
+  }
+
+  private nextId(call: EmergencyCallPayload): string {
+    const place = placeKey(call)
+    const count = (this.counters.get(place) ?? 0) + 1
+    this.counters.set(place, count)
+    return `${place}#${count}`
+  }
+}
+
+// Numbering shared by every call read through the API layer and the live stream
+export const callIdentities = new CallIdentities()
@@ -0,0 +1,179 @@
+/**
+ * Environment Profiles
+ *
+ * Named backend environments (local services, the in-process emulator, team
+ * staging, the competition server). Each profile sets the API base URLs and
+ * the timeout and retry policy used by the API layer. The active profile and
+ * any edits to the built-in values are persisted in localStorage.
+ */
+import { logger } from "@/components/logger"
+import type { EnvironmentProfile, EnvironmentProfileId } from "@/types"
+
+const STORAGE_KEY = "environmentProfile"
+
+export const ENVIRONMENT_PROFILES: Record<EnvironmentProfileId, EnvironmentProfile> = {
+  local: {
+    id: "local",
+    label: "Local services",
+    description: "Main API and auto-dispatch service running on this machine",
+    mainApiUrl: "http://localhost:5000",
+    autoDispatchApiUrl: "http://localhost:8000",
+    useEmulator: false,
+    timeoutMs: 15000,
+    maxRetries: 3,
+    retryDelayMs: 750,
+  },
+  emulator: {
+    id: "emulator",
+    label: "Local emulator",
+    description: "Main API served in-process by the TypeScript emulator",
+    mainApiUrl: "http://localhost:5000",
+    autoDispatchApiUrl: "http://localhost:8000",
+    useEmulator: true,
+    timeoutMs: 5000,
+    maxRetries: 1,
+    retryDelayMs: 0,
+  },
+  staging: {
+    id: "staging",
+    label: "Team staging",
+    description: "Shared staging backend",
+    mainApiUrl: process.env.NEXT_PUBLIC_STAGING_API_URL || "http://staging.local:5000",
+    autoDispatchApiUrl: process.env.NEXT_PUBLIC_STAGING_AUTO_DISPATCH_URL || "http://staging.local:8000",
+    useEmulator: false,
+    timeoutMs: 20000,
+    maxRetries: 3,
+    retryDelayMs: 1000,
+  },
+  competition: {
+    id: "competition",
+    label: "Competition server",
+    description: "Scored runs; failed requests are retried sparingly",
+    mainApiUrl: process.env.NEXT_PUBLIC_COMPETITION_API_URL || "http://competition.local:5000",
+    autoDispatchApiUrl: process.env.NEXT_PUBLIC_COMPETITION_AUTO_DISPATCH_URL || "http://competition.local:8000",
+    useEmulator: false,
+    timeoutMs: 10000,
+    maxRetries: 2,
+    retryDelayMs: 500,
+  },
+}
+
+export const DEFAULT_ENVIRONMENT_PROFILE: EnvironmentProfileId =
+  process.env.NEXT_PUBLIC_USE_EMULATOR === "true" ? "emulator" : "local"
+
+// Settings a user may change on a profile
+export type EnvironmentProfileSettings = Omit<EnvironmentProfile, "id" | "label" | "description">
+
+interface StoredProfiles {
+  activeId: EnvironmentProfileId
+  overrides: Partial<Record<EnvironmentProfileId, Partial<EnvironmentProfileSettings>>>
+}
+
+type ProfileListener = (profile: EnvironmentProfile) => void
+
+const listeners = new Set<ProfileListener>()
+let state: StoredProfiles | null = null
+
+/**
+ * Reads the persisted selection and overrides, falling back to the defaults
+ */
+function loadState(): StoredProfiles {
+  const fallback: StoredProfiles = { activeId: DEFAULT_ENVIRONMENT_PROFILE, overrides: {} }
+  if (typeof window === "undefined") return fallback
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null") as StoredProfiles | null
+    if (!stored || !(stored.activeId in ENVIRONMENT_PROFILES)) return fallback
+    return { activeId: stored.activeId, overrides: stored.overrides ?? {} }
+  } catch (error) {
+    logger.warn("Ignoring unreadable environment profile settings", { error })
+    return fallback
+  }
+}
+
+function getState(): StoredProfiles {
+  if (state === null) {
+    state = loadState()
+  }
+  return state
+}
+
+/**
+ * Saves the state and notifies listeners of the active profile
+ */
+function commit(next: StoredProfiles): void {
+  state = next
+  if (typeof window !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  }
+
+  const profile = getEnvironmentProfile()
+  listeners.forEach((listener) => listener(profile))
+}
+
+/**
+ * Returns a profile with the user's overrides applied
+ *
+ * @param id - Profile to return (default: the active one)
+ */
+export function getEnvironmentProfile(id: EnvironmentProfileId = getState().activeId): EnvironmentProfile {
+  return { ...ENVIRONMENT_PROFILES[id], ...getState().overrides[id] }
+}
+
+/**
+ * Returns every profile with the user's overrides applied
+ */
+export function getEnvironmentProfiles(): EnvironmentProfile[] {
+  return (Object.keys(ENVIRONMENT_PROFILES) as EnvironmentProfileId[]).map((id) => getEnvironmentProfile(id))
+}
+
+/**
+ * Activates and persists a profile
+ */
+export function selectEnvironmentProfile(id: EnvironmentProfileId): void {
+  const current = getState()
+  if (current.activeId === id) return
+
+  logger.info("Environment profile changed", { profile: id })
+  commit({ ...current, activeId: id })
+}
+
+/**
+ * Changes settings of a profile and persists them
+ *
+ * @param id - Profile to change
+ * @param settings - Settings to override; URLs lose their trailing slashes
+ */
+export function updateEnvironmentProfile(id: EnvironmentProfileId, settings: Partial<EnvironmentProfileSettings>): void {
+  const current = getState()
+  const normalized = { ...settings }
+  if (normalized.mainApiUrl !== undefined) normalized.mainApiUrl = normalized.mainApiUrl.replace(/\/+$/, "")
+  if (normalized.autoDispatchApiUrl !== undefined) {
+    normalized.autoDispatchApiUrl = normalized.autoDispatchApiUrl.replace(/\/+$/, "")
+  }
+
+  logger.info("Environment profile updated", { profile: id, settings: normalized })
+  commit({ ...current, overrides: { ...current.overrides, [id]: { ...current.overrides[id], ...normalized } } })
+}
+
+/**
+ * Restores a profile's built-in settings
+ */
+export function resetEnvironmentProfile(id: EnvironmentProfileId): void {
+  const current = getState()
+  const overrides = { ...current.overrides }
+  delete overrides[id]
+  commit({ ...current, overrides })
+}
+
+/**
+ * Subscribes to changes of the active profile, including edits to it
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToEnvironmentProfile(listener: ProfileListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
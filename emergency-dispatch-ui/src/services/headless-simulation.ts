@@ -0,0 +1,130 @@
+/**
+ * Headless Simulation
+ *
+ * Runs a whole simulation through the services/api.ts functions with one of
+ * the dispatch strategies: reset, keep the queue full via /calls/next and
+ * dispatch until the target is met. Used by the simulate and benchmark CLIs.
+ */
+import type { ControlStatus, EmergencyCall } from "@/types"
+import { DEFAULT_DISTANCE_MODEL, DISTANCE_MODELS, type DistanceModelId } from "@/utils/distance"
+import {
+  dispatchResource,
+  fetchAllAvailableResources,
+  fetchControlStatus,
+  fetchEmergencyCalls,
+  fetchNextEmergency,
+  resetControl,
+} from "./api"
+import { limitToTarget } from "./auto-dispatch-engine"
+import { getDispatchStrategy, type DispatchStrategyName } from "./dispatch-strategies"
+import { createScoringRules, ScoreTracker } from "./scoring"
+
+export interface HeadlessSimulationOptions {
+  seed: string
+  targetDispatches: number
+  maxActiveCalls: number
+  strategy: DispatchStrategyName
+  distanceModel?: DistanceModelId
+}
+
+export interface HeadlessSimulationResult {
+  status: ControlStatus
+  /** Milliseconds from each call's arrival until it was fully served */
+  callLatencies: number[]
+}
+
+// Cycles without a new call or a dispatch before the run is considered stuck
+const MAX_STALLED_CYCLES = 20
+
+/**
+ * Requests calls until the API refuses because the queue is full
+ *
+ * @returns The calls received
+ */
+async function fillQueue(maxActiveCalls: number): Promise<EmergencyCall[]> {
+  const received: EmergencyCall[] = []
+
+  while (received.length < maxActiveCalls) {
+    try {
+      const call = await fetchNextEmergency()
+      if (!call) break
+      received.push(call)
+    } catch {
+      // Queue full or simulation over; the next cycle will tell
+      break
+    }
+  }
+
+  return received
+}
+
+/**
+ * Runs one simulation to completion
+ *
+ * @param options - Simulation parameters and strategy
+ * @param onProgress - Called after every cycle with the units dispatched so far
+ * @returns The final control status and per-call service latencies
+ * @throws ApiError if the reset fails, Error if the final status cannot be read
+ */
+export async function runHeadlessSimulation(
+  options: HeadlessSimulationOptions,
+  onProgress?: (dispatched: number, openCalls: number) => void,
+): Promise<HeadlessSimulationResult> {
+  const strategy = getDispatchStrategy(options.strategy)
+  const model = DISTANCE_MODELS[options.distanceModel ?? DEFAULT_DISTANCE_MODEL]
+
+  // Mirrors the server's queue so we know when each call is fully served
+  const tracker = new ScoreTracker(createScoringRules(options.maxActiveCalls))
+  const arrivals = new Map<number, number>()
+  const callLatencies: number[] = []
+
+  await resetControl(options.seed, options.targetDispatches, options.maxActiveCalls)
+
+  let dispatched = 0
+  let stalledCycles = 0
+
+  while (dispatched < options.targetDispatches && stalledCycles < MAX_STALLED_CYCLES) {
+    const received = await fillQueue(options.maxActiveCalls)
+    received.forEach((call) => arrivals.set(tracker.recordCall(call).sequence, performance.now()))
+
+    const [calls, resources] = await Promise.all([fetchEmergencyCalls(), fetchAllAvailableResources()])
+    const planned = limitToTarget(strategy.allocate(calls, resources, model), options.targetDispatches - dispatched)
+
+    // Sequential on purpose: dispatches to one location must arrive in plan order
+    let progress = 0
+    for (const dispatch of planned) {
+      try {
+        await dispatchResource(dispatch.type, {
+          sourceCounty: dispatch.source.county,
+          sourceCity: dispatch.source.city,
+          targetCounty: dispatch.call.county,
+          targetCity: dispatch.call.city,
+          quantity: dispatch.quantity,
+        })
+      } catch {
+        // Stale plan entry; the next cycle replans from fresh inventory
+        continue
+      }
+
+      dispatched += dispatch.quantity
+      progress += dispatch.quantity
+
+      const outcome = tracker.recordDispatch(dispatch.type, dispatch.source, dispatch.call, dispatch.quantity)
+      const arrivedAt = outcome?.fulfilled ? arrivals.get(outcome.call.sequence) : undefined
+      if (outcome && arrivedAt !== undefined) {
+        callLatencies.push(performance.now() - arrivedAt)
+        arrivals.delete(outcome.call.sequence)
+      }
+    }
+
+    stalledCycles = received.length > 0 || progress > 0 ? 0 : stalledCycles + 1
+    onProgress?.(dispatched, calls.length)
+  }
+
+  const status = await fetchControlStatus()
+  if (!status) {
+    throw new Error("Could not read /control/status after the run")
+  }
+
+  return { status, callLatencies }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest"
+import type { DispatchRequest, EmergencyCall, EmergencyCallPayload } from "@/types"
+import { DispatchGuard } from "./dispatch-guard"
+import { DispatchLedger } from "./dispatch-ledger"
+import { sendIdempotentDispatch, type DispatchChannel } from "./idempotent-dispatch"
+
+const request: DispatchRequest = {
+  sourceCounty: "Cluj",
+  sourceCity: "Turda",
+  targetCounty: "Cluj",
+  targetCity: "Dej",
+  quantity: 1,
+}
+
+const dej: EmergencyCall = {
+  id: "Cluj:Dej#1",
+  county: "Cluj",
+  city: "Dej",
+  latitude: 47.14,
+  longitude: 23.87,
+  requests: [{ Type: "Fire", Quantity: 2 }],
+  dispatched: { Fire: 0 } as EmergencyCall["dispatched"],
+}
+
+class LostResponse extends Error {}
+
+/**
+ * A server that applies each key once, losing the responses listed in `lose`
+ */
+function createServer(lose: ("before" | "after")[]) {
+  let stock = 5
+  const queue: EmergencyCallPayload[] = [{ ...dej, dispatched: { ...dej.dispatched! } }]
+  const applied = new Set<string>()
+  const keys: string[] = []
+
+  const channel: DispatchChannel<{ ok: true }> = {
+    send: async (key) => {
+      keys.push(key)
+      const outcome = lose.shift()
+      if (outcome === "before") throw new LostResponse("timeout")
+      if (!applied.has(key)) {
+        applied.add(key)
+        stock -= request.quantity
+        queue[0].dispatched!.Fire += request.quantity
+      }
+      if (outcome === "after") throw new LostResponse("timeout")
+      return { ok: true }
+    },
+    isLostResponse: (error) => error instanceof LostResponse,
+    inspect: async () => ({ depotStock: stock, queue }),
+  }
+
+  return { channel, keys, getStock: () => stock }
+}
+
+function setUp() {
+  const ledger = new DispatchLedger()
+  ledger.observe({
+    kind: "resources",
+    type: "Fire",
+    resources: [
+      { id: "Fire:Cluj:Turda", type: "Fire", county: "Cluj", city: "Turda", latitude: 0, longitude: 0, quantity: 5 },
+    ],
+  })
+  const guard = new DispatchGuard()
+  guard.reconcile([dej], guard.checkpoint())
+  const reservation = guard.reserve("Fire", request)
+  return { ledger, guard, options: { ledger, guard, reservation, maxRetries: 3, retryDelay: () => 0 } }
+}
+
+describe("sendIdempotentDispatch", () => {
+  it("confirms a dispatch the server answered", async () => {
+    const { ledger, guard, options } = setUp()
+    const server = createServer([])
+
+    await expect(sendIdempotentDispatch("key", "Fire", request, server.channel, options)).resolves.toEqual({ ok: true })
+
+    expect(ledger.getEntry("key")).toMatchObject({ state: "confirmed", attempts: 1, reconciled: false })
+    expect(guard.getRemaining(dej.id, "Fire")).toBe(1)
+  })
+
+  it("confirms a dispatch whose response was lost after it was applied, without sending it again", async () => {
+    const { ledger, options } = setUp()
+    const server = createServer(["after"])
+
+    await expect(sendIdempotentDispatch("key", "Fire", request, server.channel, options)).resolves.toBeNull()
+
+    expect(server.keys).toEqual(["key"])
+    expect(server.getStock()).toBe(4)
+    expect(ledger.getEntry("key")).toMatchObject({ state: "confirmed", reconciled: true })
+  })
+
+  it("retries with the same key when the server did not apply the dispatch", async () => {
+    const { ledger, options } = setUp()
+    const server = createServer(["before"])
+
+    await sendIdempotentDispatch("key", "Fire", request, server.channel, options)
+
+    expect(server.keys).toEqual(["key", "key"])
+    expect(server.getStock()).toBe(4)
+    expect(ledger.getEntry("key")).toMatchObject({ state: "confirmed", attempts: 2 })
+  })
+
+  it("gives up after maxRetries and returns the units to the guard", async () => {
+    const { ledger, guard, options } = setUp()
+    const server = createServer(["before", "before", "before"])
+
+    await expect(sendIdempotentDispatch("key", "Fire", request, server.channel, options)).rejects.toThrow("timeout")
+
+    expect(server.keys).toHaveLength(3)
+    expect(ledger.getEntry("key")).toMatchObject({ state: "failed", reconciled: true })
+    expect(guard.getRemaining(dej.id, "Fire")).toBe(2)
+  })
+
+  it("keeps the units counted when the outcome cannot be read back", async () => {
+    const { ledger, guard, options } = setUp()
+    const server = createServer(["before"])
+    server.channel.inspect = async () => {
+      throw new LostResponse("still down")
+    }
+
+    await expect(sendIdempotentDispatch("key", "Fire", request, server.channel, options)).rejects.toThrow("timeout")
+
+    expect(server.keys).toEqual(["key"])
+    expect(ledger.getEntry("key")?.state).toBe("unconfirmed")
+    expect(guard.getRemaining(dej.id, "Fire")).toBe(1)
+  })
+
+  it("does not retry a rejected dispatch", async () => {
+    const { ledger, guard, options } = setUp()
+    const channel = { ...createServer([]).channel, send: async () => Promise.reject(new Error("400 Bad Request")) }
+
+    await expect(sendIdempotentDispatch("key", "Fire", request, channel, options)).rejects.toThrow("400")
+
+    expect(ledger.getEntry("key")).toMatchObject({ state: "failed", attempts: 1, reconciled: false })
+    expect(guard.getRemaining(dej.id, "Fire")).toBe(2)
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Idempotent Dispatch
+ *
+ * The send loop shared by the API layer and the auto-dispatch engine. Every
+ * dispatch carries an idempotency key and is tracked in a dispatch ledger;
+ * each attempt is sent once, and when its response is lost the depot stock and
+ * call queue are read before anything is retried. A retry reuses the key and
+ * is only sent when the units certainly did not leave and the target still
+ * needs them, so units are never sent twice.
+ *
+ * The caller reserves the dispatch with its dispatch guard; the loop confirms
+ * or releases the reservation once the outcome is known.
+ */
+import { logger } from "@/components/logger"
+import type { DispatchRequest, EmergencyCallPayload, EmergencyType } from "@/types"
+import type { DispatchGuard } from "./dispatch-guard"
+import type { DispatchLedger, ReconcileOutcome } from "./dispatch-ledger"
+import { getRemainingNeed } from "./scoring"
+
+// Header carrying a dispatch's idempotency key; servers that honour it apply each key once
+export const IDEMPOTENCY_HEADER = "Idempotency-Key"
+
+/**
+ * How a dispatch reaches the server and how its outcome is read back
+ */
+export interface DispatchChannel<T> {
+  /** Sends one attempt with the idempotency key; resolves with the server's response */
+  send(key: string): Promise<T>
+  /** Whether a failed attempt may still have been applied */
+  isLostResponse(error: unknown): boolean
+  /** Reads the source depot's stock (null if it is gone) and the open calls */
+  inspect(): Promise<{ depotStock: number | null; queue: EmergencyCallPayload[] }>
+  /** Called once the dispatch is known to be applied, before the loop returns */
+  onApplied?(): void
+}
+
+export interface IdempotentDispatchOptions {
+  ledger: DispatchLedger
+  guard: DispatchGuard
+  /** Reservation the caller took with the guard */
+  reservation: string
+  /** Attempts before a dispatch the server did not apply is given up */
+  maxRetries: number
+  /** Delay before the given retry, in milliseconds */
+  retryDelay: (attempt: number) => number
+}
+
+/**
+ * Reads the source depot and the call queue after a dispatch's response was lost
+ *
+ * @returns Whether the dispatch was applied, and whether the target still needs the units
+ */
+async function reconcileDispatch<T>(
+  key: string,
+  type: EmergencyType,
+  request: DispatchRequest,
+  channel: DispatchChannel<T>,
+  ledger: DispatchLedger,
+): Promise<{ outcome: ReconcileOutcome; stillNeeded: boolean }> {
+  try {
+    const { depotStock, queue } = await channel.inspect()
+    const outcome = ledger.reconcile(key, depotStock)
+    // The server serves the oldest call at the target that still needs the type
+    const target = queue.find(
+      (call) =>
+        call.county === request.targetCounty && call.city === request.targetCity && getRemainingNeed(call, type) > 0,
+    )
+    const stillNeeded = target !== undefined && getRemainingNeed(target, type) >= request.quantity
+
+    logger.info(`Reconciled ${type} dispatch ${key}`, { outcome, stillNeeded, request })
+    return { outcome, stillNeeded }
+  } catch (error) {
+    logger.warn(`Could not reconcile ${type} dispatch ${key}`, { error, request })
+    return { outcome: "unknown", stillNeeded: false }
+  }
+}
+
+/**
+ * Sends a reserved dispatch until its outcome is known
+ *
+ * @returns The server's response, or null if reconciliation found the dispatch applied
+ * @throws The last attempt's error if the dispatch was not applied or its outcome cannot be confirmed
+ */
+export async function sendIdempotentDispatch<T>(
+  key: string,
+  type: EmergencyType,
+  request: DispatchRequest,
+  channel: DispatchChannel<T>,
+  options: IdempotentDispatchOptions,
+): Promise<T | null> {
+  const { ledger, guard, reservation } = options
+  ledger.begin(key, type, request)
+
+  for (let attempt = 1; ; attempt++) {
+    ledger.recordAttempt(key)
+
+    try {
+      const response = await channel.send(key)
+      ledger.settle(key, "confirmed")
+      guard.confirm(reservation)
+      channel.onApplied?.()
+      return response
+    } catch (error) {
+      // ApiErrors are plain objects, so read the message without instanceof
+      const message = (error as { message?: string } | null)?.message ?? String(error)
+
+      if (!channel.isLostResponse(error)) {
+        ledger.settle(key, "failed", { error: message })
+        guard.release(reservation)
+        throw error
+      }
+
+      const { outcome, stillNeeded } = await reconcileDispatch(key, type, request, channel, ledger)
+      if (outcome === "applied") {
+        ledger.settle(key, "confirmed", { reconciled: true })
+        guard.confirm(reservation)
+        channel.onApplied?.()
+        return null
+      }
+      if (outcome === "unknown") {
+        ledger.settle(key, "unconfirmed", { reconciled: true, error: message })
+        // The units may have left: they count until a queue read tells
+        guard.confirm(reservation)
+        throw error
+      }
+      if (!stillNeeded || attempt >= options.maxRetries) {
+        const reason = stillNeeded
+          ? message
+          : `${request.targetCity} no longer needs ${request.quantity} ${type} unit(s)`
+        ledger.settle(key, "failed", { reconciled: true, error: reason })
+        guard.release(reservation)
+        throw error
+      }
+
+      const delay = options.retryDelay(attempt)
+      logger.info(`Retrying ${type} dispatch ${key} in ${delay}ms: the server did not apply it`, { attempt, request })
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+}
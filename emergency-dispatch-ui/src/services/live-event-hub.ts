@@ -0,0 +1,352 @@
+/**
+ * Live Event Hub
+ *
+ * Server side of the live event stream served at /api/events. For every
+ * upstream (main API and auto-dispatch service) that has subscribers, one
+ * poller reads the backends and broadcasts what changed: status deltas, call
+ * arrivals, dispatch results, inventory changes and auto-dispatch progress.
+ * However many dashboards are subscribed, each backend is polled once.
+ *
+ * Only configured backends are polled: the base URLs of the built-in
+ * environment profiles, and those listed in LIVE_EVENTS_UPSTREAMS. Every
+ * payload is checked against its schema, and one that violates it is not
+ * broadcast.
+ */
+import { logger } from "@/components/logger"
+import type {
+  ControlStatus,
+  EmergencyCallPayload,
+  EmergencyResource,
+  EmergencyType,
+  LiveEvent,
+  SimulationStatus,
+} from "@/types"
+import { formatSchemaIssues, validate, type Schema } from "@/utils/schema"
+import {
+  ControlStatusSchema,
+  EmergencyCallListSchema,
+  EmergencyResourceListSchema,
+  SimulationStatusSchema,
+} from "./api-schemas"
+import { identifyResource } from "./entity-ids"
+import { ENVIRONMENT_PROFILES } from "./environment-profile"
+
+export interface LiveUpstream {
+  mainApiUrl: string
+  autoDispatchApiUrl: string
+}
+
+// Calls go out without ids; each browser numbers them like the calls it reads itself
+type StreamEvent = LiveEvent<EmergencyCallPayload>
+
+type LiveListener = (event: StreamEvent) => void
+
+type Fetcher = (input: string, init?: RequestInit) => Promise<Response>
+
+const EMERGENCY_TYPES: EmergencyType[] = ["Medical", "Police", "Fire", "Rescue", "Utility"]
+
+// Delay between the end of one upstream poll and the start of the next
+const POLL_INTERVAL_MS = 1000
+const REQUEST_TIMEOUT_MS = 5000
+
+const callKey = (call: EmergencyCallPayload) => `${call.county}:${call.city}`
+
+/**
+ * Normalises a backend base URL: absolute http(s), without credentials, query
+ * or fragment, and without a trailing slash
+ *
+ * @returns The normalised URL, or null if it is not a usable base URL
+ */
+export function normalizeUpstreamUrl(value: string): string | null {
+  try {
+    const url = new URL(value)
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null
+    if (url.username || url.password || url.search || url.hash) return null
+    return `${url.origin}${url.pathname}`.replace(/\/+$/, "")
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Base URLs the hub may poll: the built-in environment profiles' and those listed in LIVE_EVENTS_UPSTREAMS
+ *
+ * @param configured - Comma-separated extra base URLs
+ */
+export function getAllowedUpstreams(configured = process.env.LIVE_EVENTS_UPSTREAMS ?? ""): Set<string> {
+  const urls = [
+    ...Object.values(ENVIRONMENT_PROFILES).flatMap((profile) => [profile.mainApiUrl, profile.autoDispatchApiUrl]),
+    ...configured.split(","),
+  ]
+  return new Set(urls.map((url) => normalizeUpstreamUrl(url.trim())).filter((url): url is string => url !== null))
+}
+
+/**
+ * Resolves the backends a subscriber asked for, accepting only allowed base URLs
+ *
+ * @returns The upstream, or null if either URL is missing or not allowed
+ */
+export function resolveLiveUpstream(
+  mainApiUrl: string | null,
+  autoDispatchApiUrl: string | null,
+  allowed: Set<string> = getAllowedUpstreams(),
+): LiveUpstream | null {
+  const main = mainApiUrl ? normalizeUpstreamUrl(mainApiUrl) : null
+  const autoDispatch = autoDispatchApiUrl ? normalizeUpstreamUrl(autoDispatchApiUrl) : null
+  if (!main || !autoDispatch || !allowed.has(main) || !allowed.has(autoDispatch)) return null
+  return { mainApiUrl: main, autoDispatchApiUrl: autoDispatch }
+}
+
+/**
+ * Calls of the queue that were not in the previous one; calls at the same place are matched by count
+ */
+function findArrivals(previous: EmergencyCallPayload[], queue: EmergencyCallPayload[]): EmergencyCallPayload[] {
+  const known = new Map<string, number>()
+  previous.forEach((call) => known.set(callKey(call), (known.get(callKey(call)) ?? 0) + 1))
+
+  return queue.filter((call) => {
+    const count = known.get(callKey(call)) ?? 0
+    if (count === 0) return true
+    known.set(callKey(call), count - 1)
+    return false
+  })
+}
+
+/**
+ * Fields of /control/status that differ between two readings
+ */
+function diffStatus(previous: ControlStatus, status: ControlStatus): Partial<ControlStatus> {
+  const changes: Partial<ControlStatus> = {}
+  ;(Object.keys(status) as (keyof ControlStatus)[]).forEach((key) => {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(status[key])) {
+      Object.assign(changes, { [key]: status[key] })
+    }
+  })
+  return changes
+}
+
+/**
+ * Poller of one upstream and its subscribers
+ */
+class LiveFeed {
+  private listeners = new Set<LiveListener>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private active = false
+  private status: ControlStatus | null = null
+  private queue: EmergencyCallPayload[] = []
+  private inventory = new Map<EmergencyType, EmergencyResource[]>()
+  private autoDispatch: SimulationStatus | null = null
+  private upstreamDown = false
+
+  constructor(
+    private upstream: LiveUpstream,
+    private fetcher: Fetcher,
+    private pollIntervalMs: number,
+  ) {}
+
+  /**
+   * Adds a subscriber, sending it the current state first
+   */
+  add(listener: LiveListener): void {
+    this.listeners.add(listener)
+    this.getSnapshot().forEach((event) => listener(event))
+
+    if (!this.active) {
+      this.active = true
+      void this.poll()
+    }
+  }
+
+  /**
+   * Removes a subscriber and stops polling when none is left
+   *
+   * @returns Whether the feed is now idle
+   */
+  remove(listener: LiveListener): boolean {
+    this.listeners.delete(listener)
+    if (this.listeners.size > 0) return false
+
+    this.active = false
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+    return true
+  }
+
+  getSubscriberCount(): number {
+    return this.listeners.size
+  }
+
+  private getSnapshot(): StreamEvent[] {
+    if (!this.status) return []
+    return [
+      { kind: "status", changes: this.status },
+      { kind: "calls", arrived: [], queue: this.queue },
+      ...[...this.inventory.entries()].map(([type, resources]): StreamEvent => ({ kind: "inventory", type, resources })),
+      { kind: "auto-dispatch", status: this.autoDispatch },
+    ]
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.pollMainApi()
+      await this.pollAutoDispatch()
+    } catch (error) {
+      logger.warn("Live event poll failed", { error, upstream: this.upstream.mainApiUrl })
+    }
+
+    if (this.active) {
+      this.timer = setTimeout(() => void this.poll(), this.pollIntervalMs)
+    }
+  }
+
+  private async pollMainApi(): Promise<void> {
+    const status = await this.read(`${this.upstream.mainApiUrl}/control/status`, ControlStatusSchema)
+    if (this.upstreamDown !== (status === null)) {
+      this.upstreamDown = status === null
+      if (this.upstreamDown) logger.warn("Live event upstream unreachable", { upstream: this.upstream.mainApiUrl })
+    }
+    if (!status) return
+
+    const previous = this.status
+    this.status = status
+    // A new seed or a falling dispatch count means the run was reset
+    const newRun = !previous || previous.seed !== status.seed || status.totalDispatches < previous.totalDispatches
+
+    if (newRun) {
+      this.broadcast({ kind: "status", changes: status })
+    } else {
+      const changes = diffStatus(previous, status)
+      if (Object.keys(changes).length > 0) this.broadcast({ kind: "status", changes })
+
+      if (status.totalDispatches > previous.totalDispatches) {
+        this.broadcast({
+          kind: "dispatches",
+          count: status.totalDispatches - previous.totalDispatches,
+          distance: status.distance - previous.distance,
+          totalDispatches: status.totalDispatches,
+        })
+      }
+    }
+
+    // Calls and depots only change with calls taken, dispatches, missed calls or a new run
+    const changed =
+      newRun ||
+      previous.status !== status.status ||
+      previous.requestCount !== status.requestCount ||
+      previous.totalDispatches !== status.totalDispatches ||
+      previous.errors.missed !== status.errors.missed
+    if (changed) {
+      await this.pollCalls(newRun)
+      await this.pollInventory()
+    }
+  }
+
+  private async pollCalls(newRun: boolean): Promise<void> {
+    const queue = await this.read(`${this.upstream.mainApiUrl}/calls/queue`, EmergencyCallListSchema)
+    if (!queue || JSON.stringify(queue) === JSON.stringify(this.queue)) return
+
+    const arrived = findArrivals(newRun ? [] : this.queue, queue)
+    this.queue = queue
+    this.broadcast({ kind: "calls", arrived, queue })
+  }
+
+  private async pollInventory(): Promise<void> {
+    for (const type of EMERGENCY_TYPES) {
+      const depots = await this.read(
+        `${this.upstream.mainApiUrl}/${type.toLowerCase()}/search`,
+        EmergencyResourceListSchema,
+      )
+      if (!depots) continue
+
+      const resources = depots.map((depot) => identifyResource(type, depot))
+      if (JSON.stringify(resources) === JSON.stringify(this.inventory.get(type))) continue
+      this.inventory.set(type, resources)
+      this.broadcast({ kind: "inventory", type, resources })
+    }
+  }
+
+  private async pollAutoDispatch(): Promise<void> {
+    // The auto-dispatch service is optional; when it is not running its status is null
+    const status = await this.read(`${this.upstream.autoDispatchApiUrl}/simulate/status`, SimulationStatusSchema)
+    if (JSON.stringify(status) === JSON.stringify(this.autoDispatch)) return
+
+    this.autoDispatch = status
+    this.broadcast({ kind: "auto-dispatch", status })
+  }
+
+  /**
+   * Reads a JSON endpoint and checks the payload against its schema
+   *
+   * @returns The payload with fallbacks applied, or null if the request failed or the payload violates the schema
+   */
+  private async read<T>(url: string, schema: Schema<T>): Promise<T | null> {
+    try {
+      const response = await this.fetcher(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+      if (!response.ok) return null
+
+      const { value, issues } = validate(schema, await response.json())
+      if (issues.some((issue) => !issue.patched)) {
+        logger.warn("Live event upstream sent an invalid payload", { url, details: formatSchemaIssues(issues) })
+        return null
+      }
+      return value
+    } catch {
+      return null
+    }
+  }
+
+  private broadcast(event: StreamEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event)
+      } catch (error) {
+        logger.warn("Live event listener failed", { error, kind: event.kind })
+      }
+    })
+  }
+}
+
+export class LiveEventHub {
+  private feeds = new Map<string, LiveFeed>()
+
+  constructor(
+    private fetcher: Fetcher = (input, init) => fetch(input, init),
+    private pollIntervalMs = POLL_INTERVAL_MS,
+  ) {}
+
+  /**
+   * Subscribes to the changes of an upstream, starting its poller if needed
+   *
+   * @param upstream - Base URLs of the main API and the auto-dispatch service
+   * @param listener - Called with the current state, then with each change
+   * @returns Function that removes the listener
+   */
+  subscribe(upstream: LiveUpstream, listener: LiveListener): () => void {
+    const key = `${upstream.mainApiUrl} ${upstream.autoDispatchApiUrl}`
+    let feed = this.feeds.get(key)
+    if (!feed) {
+      feed = new LiveFeed(upstream, this.fetcher, this.pollIntervalMs)
+      this.feeds.set(key, feed)
+      logger.info("Live event feed started", { ...upstream })
+    }
+
+    const subscribed = feed
+    subscribed.add(listener)
+    return () => {
+      if (subscribed.remove(listener) && this.feeds.get(key) === subscribed) {
+        this.feeds.delete(key)
+        logger.info("Live event feed stopped", { ...upstream })
+      }
+    }
+  }
+
+  /**
+   * Number of subscribers across all upstreams
+   */
+  getSubscriberCount(): number {
+    return [...this.feeds.values()].reduce((sum, feed) => sum + feed.getSubscriberCount(), 0)
+  }
+}
+
+// Hub shared by every connection to /api/events
+export const liveEventHub = new LiveEventHub()
@@ -0,0 +1,167 @@
+/**
+ * Live Updates
+ *
+ * Browser side of the live event stream: keeps one EventSource to
+ * /api/events for the active environment profile and hands its events to the
+ * panels. While the stream is not open (connecting, unsupported, the
+ * in-process emulator, or a replay transport installed) panels fall back to
+ * polling.
+ */
+import { logger } from "@/components/logger"
+import type { ControlStatus, EmergencyCallPayload, EnvironmentProfile, LiveEvent, LiveStreamState } from "@/types"
+import { isUsingNetworkTransport } from "./api"
+import { callIdentities } from "./entity-ids"
+import { getEnvironmentProfile, subscribeToEnvironmentProfile } from "./environment-profile"
+
+const EVENTS_PATH = "/api/events"
+
+type LiveListener = (event: LiveEvent) => void
+type StateListener = (state: LiveStreamState) => void
+
+export class LiveUpdates {
+  private source: EventSource | null = null
+  private state: LiveStreamState = "down"
+  private status: ControlStatus | null = null
+  private listeners = new Set<LiveListener>()
+  private stateListeners = new Set<StateListener>()
+  private stopFollowingProfile: (() => void) | null = null
+
+  /**
+   * Subscribes to live events, opening the stream for the first subscriber
+   *
+   * @returns Function that removes the listener and closes the stream after the last one
+   */
+  subscribe(listener: LiveListener): () => void {
+    this.listeners.add(listener)
+    if (this.listeners.size === 1) this.start()
+
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) this.stop()
+    }
+  }
+
+  /**
+   * Registers a listener called whenever the stream opens, drops or reconnects
+   *
+   * @returns Function that removes the listener
+   */
+  subscribeToState(listener: StateListener): () => void {
+    this.stateListeners.add(listener)
+    return () => {
+      this.stateListeners.delete(listener)
+    }
+  }
+
+  getState(): LiveStreamState {
+    return this.state
+  }
+
+  /**
+   * Whether panels can rely on pushed events instead of polling
+   */
+  isStreaming(): boolean {
+    return this.state === "open" && isUsingNetworkTransport()
+  }
+
+  /**
+   * Latest /control/status assembled from the pushed status deltas
+   */
+  getStatus(): ControlStatus | null {
+    return this.status
+  }
+
+  private start(): void {
+    this.connect(getEnvironmentProfile())
+    this.stopFollowingProfile = subscribeToEnvironmentProfile((profile) => this.connect(profile))
+  }
+
+  private stop(): void {
+    this.stopFollowingProfile?.()
+    this.stopFollowingProfile = null
+    this.disconnect()
+  }
+
+  /**
+   * Opens the stream for a profile, replacing any open one
+   */
+  private connect(profile: EnvironmentProfile): void {
+    this.disconnect()
+
+    // The server cannot reach a backend that lives in this page
+    if (profile.useEmulator || typeof EventSource === "undefined") return
+
+    const query = new URLSearchParams({
+      mainApiUrl: profile.mainApiUrl,
+      autoDispatchApiUrl: profile.autoDispatchApiUrl,
+    })
+    const source = new EventSource(`${EVENTS_PATH}?${query}`)
+    this.source = source
+    this.setState("connecting")
+
+    source.onopen = () => {
+      logger.info("Live event stream connected", { profile: profile.id })
+      this.setState("open")
+    }
+    source.onmessage = (message) => this.handleMessage(message.data)
+    source.onerror = () => {
+      // EventSource reconnects by itself unless the server refused the stream
+      const state = source.readyState === EventSource.CLOSED ? "down" : "connecting"
+      if (this.state === "open") logger.warn("Live event stream dropped, falling back to polling", { state })
+      this.setState(state)
+    }
+  }
+
+  private disconnect(): void {
+    this.source?.close()
+    this.source = null
+    this.status = null
+    this.setState("down")
+  }
+
+  /**
+   * Numbers pushed calls like the ones read through the API layer, so both keep the same ids
+   */
+  private identifyCalls(event: LiveEvent<EmergencyCallPayload>): LiveEvent {
+    if (event.kind !== "calls") return event
+
+    const known = callIdentities.getOpenIds()
+    const queue = callIdentities.identifyQueue(event.queue)
+    return { kind: "calls", queue, arrived: queue.filter((call) => !known.has(call.id)) }
+  }
+
+  private handleMessage(data: string): void {
+    let received: LiveEvent<EmergencyCallPayload>
+    try {
+      received = JSON.parse(data) as LiveEvent<EmergencyCallPayload>
+    } catch (error) {
+      logger.warn("Ignoring unreadable live event", { error })
+      return
+    }
+
+    if (received.kind === "status") {
+      this.status = { ...this.status, ...received.changes } as ControlStatus
+    }
+
+    // Pushed events describe the live backend, not a replay being served instead
+    if (!isUsingNetworkTransport()) return
+
+    const event = this.identifyCalls(received)
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event)
+      } catch (error) {
+        logger.warn("Live event listener failed", { error, kind: event.kind })
+      }
+    })
+  }
+
+  private setState(state: LiveStreamState): void {
+    if (this.state === state) return
+    this.state = state
+    this.stateListeners.forEach((listener) => listener(state))
+  }
+}
+
+// Stream shared by every panel of the page
+export const liveUpdates = new LiveUpdates()
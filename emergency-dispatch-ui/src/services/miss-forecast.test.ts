@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { ControlStatus, EmergencyCall } from "@/types"
+import { appStorage } from "./app-storage"
+import { MissForecaster } from "./miss-forecast"
+import { createScoringRules } from "./scoring"
+
+vi.mock("./api", () => ({ subscribeToApiEvents: vi.fn(() => () => {}) }))
+vi.mock("./app-storage", () => ({
+  appStorage: {
+    add: vi.fn(async () => 1),
+    trim: vi.fn(async () => {}),
+    getAll: vi.fn(async () => []),
+  },
+}))
+vi.mock("@/components/logger", () => ({ logger: { info: vi.fn(), warn: vi.fn() } }))
+
+const call = (id: string, dispatched = 0, quantity = 2): EmergencyCall => ({
+  id,
+  county: "Cluj",
+  city: id,
+  latitude: 0,
+  longitude: 0,
+  requests: [{ Type: "Fire", Quantity: quantity }],
+  dispatched: { Fire: dispatched } as EmergencyCall["dispatched"],
+})
+
+const status = (missed: number, maxActiveCalls = 10): Pick<ControlStatus, "maxActiveCalls" | "errors"> => ({
+  maxActiveCalls,
+  errors: { missed } as ControlStatus["errors"],
+})
+
+// Forecaster on a clock the test moves
+function setUp() {
+  let time = 0
+  const forecaster = new MissForecaster(() => time)
+  return { forecaster, advance: (ms: number) => (time += ms) }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe("MissForecaster", () => {
+  it("records a call that left unserved once the missed counter confirms it", () => {
+    const { forecaster, advance } = setUp()
+    forecaster.observeStatus(status(0))
+    forecaster.observeQueue([call("a"), call("b")])
+    advance(5000)
+    forecaster.observeQueue([call("b"), call("c"), call("d")])
+
+    expect(appStorage.add).not.toHaveBeenCalled()
+    forecaster.observeStatus(status(1))
+
+    expect(appStorage.add).toHaveBeenCalledWith("missObservations", {
+      timestamp: new Date(5000).toISOString(),
+      newerCalls: 3,
+      maxActiveCalls: 10,
+      ageMs: 5000,
+      partialMs: 0,
+    })
+  })
+
+  it("does not count a call that left fully served", () => {
+    const { forecaster } = setUp()
+    forecaster.observeStatus(status(0))
+    forecaster.observeQueue([call("a", 2)])
+    forecaster.observeQueue([])
+    forecaster.observeStatus(status(1))
+
+    expect(appStorage.add).not.toHaveBeenCalled()
+  })
+
+  it("pairs a miss with the call that was oldest when it left", () => {
+    const { forecaster } = setUp()
+    forecaster.observeStatus(status(0))
+    forecaster.observeQueue([call("old"), call("young")])
+    forecaster.observeQueue([call("c"), call("d")])
+    forecaster.observeStatus(status(1))
+
+    expect(appStorage.add).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(appStorage.add).mock.calls[0][1]).toMatchObject({ newerCalls: 3 })
+  })
+
+  it("treats a missed counter that went down as a new run", () => {
+    const { forecaster } = setUp()
+    forecaster.observeStatus(status(4))
+    forecaster.observeQueue([call("a")])
+    forecaster.observeQueue([])
+    forecaster.observeStatus(status(0))
+    forecaster.observeStatus(status(1))
+
+    expect(appStorage.add).not.toHaveBeenCalled()
+  })
+
+  it("uses the scoring rules' call lifetime until enough misses were seen, then learns it", () => {
+    const { forecaster } = setUp()
+    forecaster.observeStatus(status(0))
+    expect(forecaster.getThreshold()).toEqual({
+      newerCalls: createScoringRules(10).callLifetime,
+      learned: false,
+      observations: 0,
+    })
+
+    // Each step the oldest of three calls leaves unserved with 3 newer calls behind it
+    for (let step = 0; step <= 5; step++) {
+      forecaster.observeQueue([call(`${step}`), call(`${step + 1}`), call(`${step + 2}`)])
+      forecaster.observeStatus(status(step))
+    }
+
+    expect(forecaster.getThreshold()).toEqual({ newerCalls: 3, learned: true, observations: 5 })
+  })
+
+  it("projects each open call's expiry and flags the ones close to it", () => {
+    const { forecaster, advance } = setUp()
+    // Two active calls give a lifetime of 4 newer calls and a warning 2 calls ahead
+    forecaster.observeStatus(status(0, 2))
+    forecaster.observeQueue([call("a")])
+    advance(1000)
+    forecaster.observeQueue([call("a"), call("b")])
+    advance(1000)
+    forecaster.observeQueue([call("a"), call("b"), call("c")])
+    advance(1000)
+    const queue = [call("a"), call("b", 1), call("c"), call("done", 2)]
+    forecaster.observeQueue(queue)
+
+    const forecasts = forecaster.forecast([...queue, call("unseen")])
+
+    const summary = forecasts.map(({ call: { id }, callsLeft, etaMs, atRisk }) => [id, callsLeft, etaMs, atRisk])
+    expect(summary).toEqual([
+      ["a", 1, 1000, true],
+      ["b", 2, 2000, true],
+      ["c", 3, 3000, false],
+    ])
+    expect(forecasts[1].partialSince).toBe(3000)
+    expect(forecasts[0].partialSince).toBeNull()
+  })
+
+  it("notifies listeners until they unsubscribe", () => {
+    const { forecaster } = setUp()
+    let calls = 0
+    const unsubscribe = forecaster.subscribe(() => (calls += 1))
+
+    forecaster.observeQueue([call("a")])
+    unsubscribe()
+    forecaster.observeQueue([call("a")])
+
+    expect(calls).toBe(1)
+  })
+})
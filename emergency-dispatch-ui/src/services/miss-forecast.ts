@@ -0,0 +1,330 @@
+/**
+ * Missed-Call Forecast
+ *
+ * Warns about calls that are about to be missed while the operator can still
+ * act, instead of after /control/status counted them.
+ *
+ * - Every open call is tracked from the moment it entered the queue, and from
+ *   the moment it was first partly served.
+ * - A call that leaves the queue with units still needed may have been
+ *   missed. The missed counter of /control/status confirms how many of them
+ *   were, taking the calls that were oldest when they left. Each confirmed miss records the call's age in newer
+ *   calls, and is kept across sessions in the app's IndexedDB store.
+ * - Calls are projected to expire at the age by which the earliest 10% of
+ *   observed misses happened, scaled to the run's active call limit. Until
+ *   enough misses were seen, the scoring rules' call lifetime stands in.
+ * - A call is at risk when it is projected to expire within a few calls. The
+ *   current arrival rate turns that into an estimated time left.
+ */
+import { logger } from "@/components/logger"
+import type { ApiEvent, ControlStatus, EmergencyCall, MissObservation } from "@/types"
+import { subscribeToApiEvents } from "./api"
+import { appStorage } from "./app-storage"
+import { createScoringRules, getRemainingNeed } from "./scoring"
+
+// Observations kept across sessions
+const MAX_OBSERVATIONS = 500
+// Observations needed before the learned threshold replaces the scoring rules
+const MIN_OBSERVATIONS = 5
+// Share of observed misses allowed to happen before the projected expiry
+const THRESHOLD_PERCENTILE = 0.1
+// A call is at risk within this share of its projected lifetime, and never later than WARN_CALLS before it
+const WARN_SHARE = 0.2
+const WARN_CALLS = 2
+// Arrivals used to estimate the arrival rate
+const RATE_WINDOW = 20
+// Calls that left the queue unserved wait this long for the missed counter to confirm them
+const LEFT_TTL_MS = 60000
+
+export interface MissThreshold {
+  /** Newer calls a call may see before it is projected to expire */
+  newerCalls: number
+  /** Whether the threshold was learned from observed misses */
+  learned: boolean
+  observations: number
+}
+
+export interface MissForecast {
+  call: EmergencyCall
+  /** Epoch milliseconds the call entered the queue */
+  enteredAt: number
+  /** Epoch milliseconds the call was first partly served; null while no unit reached it */
+  partialSince: number | null
+  newerCalls: number
+  /** Newer calls that may still arrive before the call is projected to expire */
+  callsLeft: number
+  /** Projected milliseconds until it expires at the current arrival rate; null while the rate is unknown */
+  etaMs: number | null
+  atRisk: boolean
+}
+
+interface TrackedCall {
+  call: EmergencyCall
+  sequence: number
+  enteredAt: number
+  partialSince: number | null
+}
+
+interface LeftCall extends TrackedCall {
+  leftAt: number
+  newerCalls: number
+}
+
+type ForecastListener = () => void
+
+const hasNeed = (call: EmergencyCall) => call.requests.some((request) => getRemainingNeed(call, request.Type) > 0)
+
+const isPartlyServed = (call: EmergencyCall) =>
+  hasNeed(call) && Object.values(call.dispatched ?? {}).some((count) => count > 0)
+
+/**
+ * Tracks queued calls and learns when calls get missed
+ */
+export class MissForecaster {
+  private tracked = new Map<string, TrackedCall>()
+  private arrivals = 0
+  private arrivalTimes: number[] = []
+  // Calls that left unserved, waiting for the missed counter
+  private left: LeftCall[] = []
+  // Misses counted by the server that no departed call was matched to yet
+  private unmatchedMisses = 0
+  private missedTotal: number | null = null
+  private maxActiveCalls = 0
+  private observations: MissObservation[] = []
+  private loaded = false
+  private listeners = new Set<ForecastListener>()
+  private unsubscribeApi: (() => void) | null = null
+  private consumers = 0
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Registers the calls taken through the API layer and loads past observations.
+   * Several consumers may start the forecaster; it listens until the last one stops.
+   *
+   * @returns Function that releases this consumer
+   */
+  start(): () => void {
+    this.consumers += 1
+    if (!this.unsubscribeApi) {
+      this.unsubscribeApi = subscribeToApiEvents((event) => this.handleEvent(event))
+    }
+    if (!this.loaded) {
+      this.loaded = true
+      void this.loadObservations()
+    }
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.consumers -= 1
+      if (this.consumers === 0) {
+        this.unsubscribeApi?.()
+        this.unsubscribeApi = null
+      }
+    }
+  }
+
+  /**
+   * Registers a listener called whenever tracked calls or observations change
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: ForecastListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Takes in the latest queue: new calls start being tracked, calls that left unserved become miss candidates
+   *
+   * @param calls - Open calls with their dispatched counts, oldest first
+   */
+  observeQueue(calls: EmergencyCall[]): void {
+    const now = this.now()
+    calls.forEach((call) => this.track(call, now))
+
+    const present = new Set(calls.map((call) => call.id))
+    this.tracked.forEach((tracked, id) => {
+      if (present.has(id)) return
+      this.tracked.delete(id)
+      if (hasNeed(tracked.call)) {
+        this.left.push({ ...tracked, leftAt: now, newerCalls: this.arrivals - tracked.sequence })
+      }
+    })
+
+    this.left = this.left.filter((left) => now - left.leftAt <= LEFT_TTL_MS)
+    this.matchMisses()
+    this.notify()
+  }
+
+  /**
+   * Takes in the latest /control/status, whose missed counter confirms candidates as misses
+   */
+  observeStatus(status: Pick<ControlStatus, "maxActiveCalls" | "errors">): void {
+    if (status.maxActiveCalls > 0) this.maxActiveCalls = status.maxActiveCalls
+
+    const missed = status.errors.missed
+    // A counter that went down belongs to a new run
+    if (this.missedTotal === null || missed < this.missedTotal) {
+      if (this.missedTotal !== null) {
+        this.left = []
+        this.unmatchedMisses = 0
+      }
+      this.missedTotal = missed
+      return
+    }
+
+    this.unmatchedMisses += missed - this.missedTotal
+    this.missedTotal = missed
+    this.matchMisses()
+  }
+
+  /**
+   * Age at which calls are projected to expire
+   */
+  getThreshold(): MissThreshold {
+    const limit = Math.max(1, this.maxActiveCalls || this.tracked.size)
+    const ratios = this.observations
+      .filter((observation) => observation.maxActiveCalls > 0)
+      .map((observation) => observation.newerCalls / observation.maxActiveCalls)
+      .sort((a, b) => a - b)
+
+    if (ratios.length < MIN_OBSERVATIONS) {
+      return { newerCalls: createScoringRules(limit).callLifetime, learned: false, observations: ratios.length }
+    }
+
+    const ratio = ratios[Math.floor((ratios.length - 1) * THRESHOLD_PERCENTILE)]
+    return { newerCalls: Math.max(1, Math.floor(ratio * limit)), learned: true, observations: ratios.length }
+  }
+
+  /**
+   * Projects when each tracked call that still needs units will expire
+   *
+   * @param calls - Open calls; calls the forecaster has not seen yet are skipped
+   * @returns Forecasts, soonest expiry first
+   */
+  forecast(calls: EmergencyCall[]): MissForecast[] {
+    const threshold = this.getThreshold().newerCalls
+    const warnCalls = Math.max(WARN_CALLS, Math.ceil(threshold * WARN_SHARE))
+    const msPerArrival = this.getMsPerArrival()
+
+    return calls
+      .filter(hasNeed)
+      .flatMap((call) => {
+        const tracked = this.tracked.get(call.id)
+        if (!tracked) return []
+
+        const newerCalls = this.arrivals - tracked.sequence
+        const callsLeft = Math.max(0, threshold - newerCalls)
+        const etaMs = msPerArrival === null ? null : callsLeft * msPerArrival
+        return [
+          {
+            call,
+            enteredAt: tracked.enteredAt,
+            partialSince: tracked.partialSince,
+            newerCalls,
+            callsLeft,
+            etaMs,
+            atRisk: callsLeft <= warnCalls,
+          },
+        ]
+      })
+      .sort((a, b) => a.callsLeft - b.callsLeft || a.enteredAt - b.enteredAt)
+  }
+
+  private handleEvent(event: ApiEvent): void {
+    if (event.kind === "reset") {
+      this.tracked.clear()
+      this.left = []
+      this.unmatchedMisses = 0
+      this.missedTotal = null
+      this.arrivals = 0
+      this.arrivalTimes = []
+      this.maxActiveCalls = event.maxActiveCalls
+      this.notify()
+    } else if (event.kind === "call") {
+      this.track(event.call, this.now())
+      this.notify()
+    }
+  }
+
+  private track(call: EmergencyCall, now: number): void {
+    let tracked = this.tracked.get(call.id)
+    if (!tracked) {
+      this.arrivals += 1
+      this.arrivalTimes = [...this.arrivalTimes, now].slice(-RATE_WINDOW)
+      tracked = { call, sequence: this.arrivals, enteredAt: now, partialSince: null }
+      this.tracked.set(call.id, tracked)
+    }
+
+    tracked.call = call
+    if (!isPartlyServed(call)) {
+      tracked.partialSince = null
+    } else if (tracked.partialSince === null) {
+      tracked.partialSince = now
+    }
+  }
+
+  /**
+   * Pairs misses counted by the server with the calls that left unserved. Calls expire
+   * oldest first, so the ones that were oldest when they left are paired first; the
+   * others were most likely served by a dispatch this page did not see.
+   */
+  private matchMisses(): void {
+    if (this.unmatchedMisses <= 0 || this.left.length === 0) return
+
+    const ordered = [...this.left].sort((a, b) => b.newerCalls - a.newerCalls)
+    const missed = ordered.slice(0, this.unmatchedMisses)
+    this.left = ordered.slice(missed.length)
+    this.unmatchedMisses -= missed.length
+
+    missed.forEach((call) => {
+      this.record({
+        timestamp: new Date(call.leftAt).toISOString(),
+        newerCalls: call.newerCalls,
+        maxActiveCalls: this.maxActiveCalls,
+        ageMs: call.leftAt - call.enteredAt,
+        partialMs: call.partialSince === null ? 0 : call.leftAt - call.partialSince,
+      })
+    })
+    this.notify()
+  }
+
+  private record(observation: MissObservation): void {
+    this.observations = [...this.observations, observation].slice(-MAX_OBSERVATIONS)
+    logger.info("Missed call observed", { ...observation })
+
+    void appStorage
+      .add("missObservations", observation)
+      .then(() => appStorage.trim("missObservations", MAX_OBSERVATIONS))
+      .catch((error) => logger.warn("Failed to save missed call observation", { error }))
+  }
+
+  private async loadObservations(): Promise<void> {
+    try {
+      const stored = await appStorage.getAll("missObservations")
+      // Observations made before the stored ones finished loading are newer
+      this.observations = [...stored, ...this.observations].slice(-MAX_OBSERVATIONS)
+      this.notify()
+    } catch (error) {
+      logger.warn("Failed to load missed call observations", { error })
+    }
+  }
+
+  private getMsPerArrival(): number | null {
+    if (this.arrivalTimes.length < 2) return null
+    const span = this.arrivalTimes[this.arrivalTimes.length - 1] - this.arrivalTimes[0]
+    return span / (this.arrivalTimes.length - 1)
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Forecaster shared by the dashboard components
+export const missForecaster = new MissForecaster()
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import { RequestCoordinator, isReadOnlyRequest } from "./request-coordinator"
+
+// A request the test answers by hand, one pending send at a time
+function pendingRequest<T>() {
+  const sends: { signal: AbortSignal; resolve: (value: T) => void; reject: (reason: unknown) => void }[] = []
+  const execute = (signal: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+      sends.push({ signal, resolve, reject })
+    })
+  return { sends, execute }
+}
+
+describe("isReadOnlyRequest", () => {
+  it("treats GETs as reads except the ones that change the simulation", () => {
+    expect(isReadOnlyRequest("get", "http://localhost:5000/calls/queue")).toBe(true)
+    expect(isReadOnlyRequest("GET", "/fire/search")).toBe(true)
+    expect(isReadOnlyRequest("GET", "http://localhost:5000/calls/next")).toBe(false)
+    expect(isReadOnlyRequest("GET", "/control/reset?seed=1")).toBe(false)
+    expect(isReadOnlyRequest("POST", "/fire/dispatch")).toBe(false)
+  })
+})
+
+describe("RequestCoordinator", () => {
+  it("coalesces identical reads in flight into one request", async () => {
+    const coordinator = new RequestCoordinator()
+    const { sends, execute } = pendingRequest<string>()
+
+    const first = coordinator.read("GET /calls/queue", execute)
+    const second = coordinator.read("GET /calls/queue", execute)
+    expect(sends).toHaveLength(1)
+    expect(coordinator.getInFlightCount()).toBe(1)
+
+    sends[0].resolve("queue")
+
+    await expect(Promise.all([first, second])).resolves.toEqual(["queue", "queue"])
+    expect(coordinator.getInFlightCount()).toBe(0)
+  })
+
+  it("sends a read again once the previous one settled", async () => {
+    const coordinator = new RequestCoordinator()
+    const { sends, execute } = pendingRequest<string>()
+
+    const first = coordinator.read("GET /calls/queue", execute)
+    sends[0].resolve("first")
+    await first
+    const second = coordinator.read("GET /calls/queue", execute)
+    sends[1].resolve("second")
+
+    await expect(second).resolves.toBe("second")
+  })
+
+  it("aborts reads in flight when a write completes and answers with the newer response", async () => {
+    const coordinator = new RequestCoordinator()
+    const { sends, execute } = pendingRequest<string>()
+    const read = coordinator.read("GET /calls/queue", execute)
+
+    coordinator.invalidate()
+
+    expect(sends).toHaveLength(2)
+    expect(sends[0].signal.aborted).toBe(true)
+    expect(sends[1].signal.aborted).toBe(false)
+
+    // The stale send settles late; only the latest send answers
+    sends[0].resolve("stale")
+    sends[1].resolve("fresh")
+    await expect(read).resolves.toBe("fresh")
+  })
+
+  it("keeps superseding a read for as long as writes complete", async () => {
+    const coordinator = new RequestCoordinator()
+    const { sends, execute } = pendingRequest<number>()
+    const read = coordinator.read("GET /calls/queue", execute)
+
+    for (let write = 0; write < 5; write++) coordinator.invalidate()
+
+    expect(sends).toHaveLength(6)
+    expect(sends.slice(0, 5).every((send) => send.signal.aborted)).toBe(true)
+    sends.forEach((send, index) => send.resolve(index))
+    await expect(read).resolves.toBe(5)
+  })
+
+  it("passes the latest send's failure to every caller", async () => {
+    const coordinator = new RequestCoordinator()
+    const { sends, execute } = pendingRequest<string>()
+    const first = coordinator.read("GET /calls/queue", execute)
+    const second = coordinator.read("GET /calls/queue", execute)
+
+    coordinator.invalidate()
+    sends[0].reject(new Error("aborted"))
+    sends[1].reject(new Error("503"))
+
+    await expect(first).rejects.toThrow("503")
+    await expect(second).rejects.toThrow("503")
+    expect(coordinator.getInFlightCount()).toBe(0)
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Request Coordinator
+ *
+ * Keeps overlapping reads from the dashboard's refresh loops consistent:
+ *
+ * - Identical read-only GETs in flight at the same time are coalesced into
+ *   one request whose response every caller receives.
+ * - When a request that changes state completes, reads still in flight may
+ *   carry state from before it. They are superseded: aborted through their
+ *   AbortSignal and sent again, and their callers receive the newer response.
+ *
+ * So a response that was read before a state change never reaches a caller
+ * after that change completed. A read superseded by a burst of writes answers
+ * once the writes pause.
+ */
+import { logger } from "@/components/logger"
+
+interface InFlight {
+  promise: Promise<unknown>
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+  execute: (signal: AbortSignal) => Promise<unknown>
+  controller: AbortController
+  /** Number of times the request was sent; only the latest send settles the entry */
+  sends: number
+}
+
+/**
+ * Whether a request only reads state, so concurrent identical requests may share a response.
+ * /calls/next and /control/reset are GETs that change the simulation.
+ */
+export function isReadOnlyRequest(method: string, url: string): boolean {
+  if (method.toUpperCase() !== "GET") return false
+  const path = url.replace(/^[a-z]+:\/\/[^/]+/i, "")
+  return !path.startsWith("/calls/next") && !path.startsWith("/control/reset")
+}
+
+export class RequestCoordinator {
+  private inFlight = new Map<string, InFlight>()
+
+  /**
+   * Runs a read, or joins an identical one already in flight
+   *
+   * @param key - Identity of the read, e.g. method and URL
+   * @param execute - Sends the request; must honour the signal
+   * @returns The response of the latest send of the shared request
+   */
+  read<T>(key: string, execute: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key)
+    if (existing) {
+      logger.debug(`Coalesced request: ${key}`)
+      return existing.promise as Promise<T>
+    }
+
+    let resolve: (value: unknown) => void = () => {}
+    let reject: (reason: unknown) => void = () => {}
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+
+    const entry: InFlight = { promise, resolve, reject, execute, controller: new AbortController(), sends: 0 }
+    this.inFlight.set(key, entry)
+    this.send(key, entry)
+    return promise as Promise<T>
+  }
+
+  /**
+   * Supersedes every read in flight; called when a request that changes state completes
+   */
+  invalidate(): void {
+    this.inFlight.forEach((entry, key) => {
+      logger.debug(`Superseded request: ${key}`)
+      entry.controller.abort("Superseded by a newer request")
+      this.send(key, entry)
+    })
+  }
+
+  /**
+   * Number of distinct reads in flight
+   */
+  getInFlightCount(): number {
+    return this.inFlight.size
+  }
+
+  private send(key: string, entry: InFlight): void {
+    const controller = new AbortController()
+    entry.controller = controller
+    entry.sends += 1
+    const send = entry.sends
+
+    const settle = (settleWith: () => void) => {
+      // A superseded send settles nothing; the latest send answers every caller
+      if (entry.sends !== send) return
+      this.inFlight.delete(key)
+      settleWith()
+    }
+
+    entry.execute(controller.signal).then(
+      (value) => settle(() => entry.resolve(value)),
+      (error: unknown) => settle(() => entry.reject(error)),
+    )
+  }
+}
+
+// Coordinator shared by every request made through the API layer
+export const requestCoordinator = new RequestCoordinator()
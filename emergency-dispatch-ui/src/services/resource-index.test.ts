@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import type { EmergencyResource } from "@/types"
+import { createResourceIndex } from "./resource-index"
+
+const depot = (city: string, latitude: number, longitude: number, quantity: number): EmergencyResource => ({
+  id: `Fire:Cluj:${city}`,
+  type: "Fire",
+  county: "Cluj",
+  city,
+  latitude,
+  longitude,
+  quantity,
+})
+
+const depots = [depot("Near", 46.78, 23.6, 2), depot("Middle", 46.9, 23.6, 0), depot("Far", 47.5, 23.6, 5)]
+
+describe("ResourceIndex", () => {
+  it("ranks depots of a type by distance and skips depleted ones", () => {
+    const index = createResourceIndex()
+    index.setResources("Fire", depots)
+
+    const ranked = index.nearest("Fire", 46.77, 23.6)
+
+    expect(ranked.map((entry) => entry.resource.city)).toEqual(["Near", "Far"])
+    expect(ranked[0].distance).toBeLessThan(ranked[1].distance)
+    expect(index.nearest("Police", 46.77, 23.6)).toEqual([])
+  })
+
+  it("applies quantity changes without losing depots", () => {
+    const index = createResourceIndex()
+    index.setResources("Fire", depots)
+
+    index.adjustQuantity("Fire", "Near", "Cluj", -2)
+    index.setResources("Fire", [depots[0], { ...depots[1], quantity: 3 }, depots[2]])
+
+    expect(index.nearest("Fire", 46.77, 23.6).map((entry) => entry.resource.city)).toEqual(["Near", "Middle", "Far"])
+  })
+
+  it("returns copies, so callers cannot change the index", () => {
+    const index = createResourceIndex()
+    index.setResources("Fire", depots)
+
+    index.nearest("Fire", 46.77, 23.6)[0].resource.quantity = 0
+
+    expect(index.get("Fire", "Near", "Cluj")?.quantity).toBe(2)
+  })
+
+  it("finds depots of every type within a radius", () => {
+    const index = createResourceIndex()
+    index.setResources("Fire", depots)
+    index.setResources("Medical", [{ ...depots[0], id: "Medical:Cluj:Near", type: "Medical" }])
+
+    const nearby = index.withinRadius(46.77, 23.6, 20)
+
+    expect(nearby.map((entry) => `${entry.resource.type}:${entry.resource.city}`).sort()).toEqual([
+      "Fire:Middle",
+      "Fire:Near",
+      "Medical:Near",
+    ])
+    nearby.forEach((entry) => expect(entry.distance).toBeLessThan(20))
+  })
+})
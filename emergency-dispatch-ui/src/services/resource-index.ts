@@ -0,0 +1,251 @@
+/**
+ * Resource Index
+ *
+ * One KD-tree per emergency type over the known supply points. The trees are
+ * rebuilt only when the set of depots changes; quantity changes are applied in
+ * place and depleted depots are skipped at query time. Queries return copies,
+ * so callers can keep results in React state safely.
+ *
+ * Points are indexed in the distance model's projected space, so results are
+ * ranked and measured in the unit of the selected model.
+ *
+ * The index has no UI dependencies, so headless runners can use it directly.
+ */
+import type { ApiEvent, EmergencyResource, EmergencyType } from "@/types"
+import { DEFAULT_DISTANCE_MODEL, DISTANCE_MODELS, type DistanceModel } from "@/utils/distance"
+import { KdTree } from "@/utils/kd-tree"
+import { subscribeToApiEvents } from "./api"
+
+export interface RankedResource {
+  resource: EmergencyResource
+  /** Distance in the index's distance model unit */
+  distance: number
+}
+
+export interface ResourceQuery {
+  /** Maximum number of results (default: all) */
+  k?: number
+  /** Skip depots with fewer units (default: 1, i.e. skip depleted depots) */
+  minQuantity?: number
+  /** Additional filter applied during the search */
+  accept?: (resource: EmergencyResource) => boolean
+}
+
+interface TypeIndex {
+  tree: KdTree<EmergencyResource>
+  byKey: Map<string, EmergencyResource>
+}
+
+const EMERGENCY_TYPES: EmergencyType[] = ["Medical", "Police", "Fire", "Rescue", "Utility"]
+
+type IndexListener = () => void
+
+export class ResourceIndex {
+  private indexes = new Map<EmergencyType, TypeIndex>()
+  private listeners = new Set<IndexListener>()
+  private unsubscribeApi: (() => void) | null = null
+  private consumers = 0
+
+  constructor(private model: DistanceModel = DISTANCE_MODELS[DEFAULT_DISTANCE_MODEL]) {}
+
+  /**
+   * Keeps the index in sync with search results and dispatches made through the API layer.
+   * Several consumers may start the index; it listens until the last one stops.
+   *
+   * @returns Function that releases this consumer
+   */
+  start(): () => void {
+    this.consumers += 1
+    if (!this.unsubscribeApi) {
+      this.unsubscribeApi = subscribeToApiEvents((event) => this.handleEvent(event))
+    }
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.consumers -= 1
+      if (this.consumers === 0) {
+        this.unsubscribeApi?.()
+        this.unsubscribeApi = null
+      }
+    }
+  }
+
+  getDistanceModel(): DistanceModel {
+    return this.model
+  }
+
+  /**
+   * Switches the distance model and re-indexes every type in its space
+   */
+  setDistanceModel(model: DistanceModel): void {
+    if (model.id === this.model.id) return
+
+    this.model = model
+    this.indexes.forEach((index, type) => {
+      this.indexes.set(type, { byKey: index.byKey, tree: this.buildTree(index.byKey) })
+    })
+    this.notify()
+  }
+
+  /**
+   * Registers a listener called whenever the index changes
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: IndexListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Replaces the supply points of one type. Rebuilds the tree only if depots
+   * were added or removed; otherwise just refreshes the quantities.
+   */
+  setResources(type: EmergencyType, resources: EmergencyResource[]): void {
+    const current = this.indexes.get(type)
+    const ofType = resources.filter((resource) => (resource.type ?? type) === type)
+    const sameDepots =
+      current !== undefined &&
+      current.byKey.size === ofType.length &&
+      ofType.every((resource) => current.byKey.has(depotKey(resource.city, resource.county)))
+
+    if (current && sameDepots) {
+      let changed = false
+      ofType.forEach((resource) => {
+        const indexed = current.byKey.get(depotKey(resource.city, resource.county)) as EmergencyResource
+        if (indexed.quantity !== resource.quantity) {
+          indexed.quantity = resource.quantity
+          changed = true
+        }
+      })
+      if (changed) this.notify()
+      return
+    }
+
+    const byKey = new Map<string, EmergencyResource>()
+    ofType.forEach((resource) => byKey.set(depotKey(resource.city, resource.county), { ...resource, type }))
+
+    this.indexes.set(type, { tree: this.buildTree(byKey), byKey })
+    this.notify()
+  }
+
+  /**
+   * Syncs every type from a mixed resource list, e.g. the dashboard state
+   */
+  sync(resources: EmergencyResource[]): void {
+    EMERGENCY_TYPES.forEach((type) => {
+      const ofType = resources.filter((resource) => resource.type === type)
+      if (ofType.length > 0 || this.indexes.has(type)) {
+        this.setResources(type, ofType)
+      }
+    })
+  }
+
+  /**
+   * Applies a quantity change to an indexed depot
+   *
+   * @param delta - Units added (positive) or removed (negative)
+   */
+  adjustQuantity(type: EmergencyType, city: string, county: string, delta: number): void {
+    const indexed = this.indexes.get(type)?.byKey.get(depotKey(city, county))
+    if (!indexed) return
+
+    indexed.quantity = Math.max(0, indexed.quantity + delta)
+    this.notify()
+  }
+
+  /**
+   * Nearest depots of a type to a point, closest first
+   */
+  nearest(type: EmergencyType, latitude: number, longitude: number, query: ResourceQuery = {}): RankedResource[] {
+    const index = this.indexes.get(type)
+    if (!index) return []
+
+    const minQuantity = query.minQuantity ?? 1
+    return index.tree
+      .nearest(
+        this.model.project(latitude, longitude),
+        query.k ?? Number.POSITIVE_INFINITY,
+        (resource) => resource.quantity >= minQuantity && (!query.accept || query.accept(resource)),
+      )
+      .map(({ item }) => this.rank(item, latitude, longitude))
+  }
+
+  /**
+   * Depots of any type within a radius of a point, closest first
+   *
+   * @param radius - Maximum distance in the distance model's unit (exclusive)
+   */
+  withinRadius(latitude: number, longitude: number, radius: number, query: ResourceQuery = {}): RankedResource[] {
+    const minQuantity = query.minQuantity ?? 0
+    const target = this.model.project(latitude, longitude)
+
+    return [...this.indexes.values()]
+      .flatMap((index) =>
+        index.tree.withinRadius(
+          target,
+          this.model.projectDistance(radius),
+          (resource) => resource.quantity >= minQuantity && (!query.accept || query.accept(resource)),
+        ),
+      )
+      .map(({ item }) => this.rank(item, latitude, longitude))
+      .filter((ranked) => ranked.distance < radius)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, query.k ?? Number.POSITIVE_INFINITY)
+  }
+
+  /**
+   * Current state of an indexed depot
+   */
+  get(type: EmergencyType, city: string, county: string): EmergencyResource | undefined {
+    const indexed = this.indexes.get(type)?.byKey.get(depotKey(city, county))
+    return indexed && { ...indexed }
+  }
+
+  private handleEvent(event: ApiEvent): void {
+    if (event.kind === "resources") {
+      this.setResources(event.type, event.resources)
+    } else if (event.kind === "dispatch") {
+      this.adjustQuantity(event.type, event.request.sourceCity, event.request.sourceCounty, -event.request.quantity)
+    }
+  }
+
+  private buildTree(byKey: Map<string, EmergencyResource>): KdTree<EmergencyResource> {
+    return new KdTree(
+      [...byKey.values()].map((resource) => ({
+        coords: this.model.project(resource.latitude, resource.longitude),
+        item: resource,
+      })),
+    )
+  }
+
+  /**
+   * Copies an indexed depot together with its exact distance to a point
+   */
+  private rank(resource: EmergencyResource, latitude: number, longitude: number): RankedResource {
+    return {
+      resource: { ...resource },
+      distance: this.model.measure(resource.latitude, resource.longitude, latitude, longitude),
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+function depotKey(city: string, county: string): string {
+  return `${county}:${city}`
+}
+
+// Index shared by the dashboard components
+export const resourceIndex = new ResourceIndex()
+
+// For headless runs that need an isolated index
+export const createResourceIndex = (model?: DistanceModel): ResourceIndex => {
+  return new ResourceIndex(model)
+}
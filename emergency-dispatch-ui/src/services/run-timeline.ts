@@ -0,0 +1,231 @@
+/**
+ * Run Timeline
+ *
+ * Keeps the timestamped stream of API events of the current run so the
+ * dashboard can be rewound: reconstructRunAt rebuilds the open calls with
+ * their dispatched counters, the depot inventory, the control status and the
+ * dispatches made, exactly as they were at any moment of the run.
+ */
+import type { ApiEvent, ControlStatus, EmergencyCall, EmergencyResource, EmergencyType } from "@/types"
+import { subscribeToApiEvents } from "./api"
+import { createScoringRules, ScoreTracker } from "./scoring"
+
+export interface TimelineEvent {
+  /** Epoch milliseconds when the event happened */
+  at: number
+  event: ApiEvent
+}
+
+export interface TimelineDispatch {
+  at: number
+  type: EmergencyType
+  quantity: number
+  source: { city: string; county: string; latitude: number; longitude: number }
+  target: { city: string; county: string; latitude: number; longitude: number }
+  /** Units beyond the target call's remaining need */
+  excess: number
+}
+
+export interface TimelineSnapshot {
+  at: number
+  emergencies: EmergencyCall[]
+  resources: EmergencyResource[]
+  status: ControlStatus
+  dispatches: TimelineDispatch[]
+  /** Calls that expired before being fully served */
+  missed: EmergencyCall[]
+  /** False when the timeline does not start with a reset, so totals only cover part of the run */
+  complete: boolean
+}
+
+type TimelineListener = () => void
+
+const depotKey = (type: EmergencyType, city: string, county: string) => `${type}:${county}:${city}`
+
+/**
+ * Formats a duration in milliseconds as HH:MM:SS
+ */
+function formatRunningTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  return [Math.floor(totalSeconds / 3600), Math.floor((totalSeconds % 3600) / 60), totalSeconds % 60]
+    .map((part) => part.toString().padStart(2, "0"))
+    .join(":")
+}
+
+/**
+ * Rebuilds the state of a run at a moment of its event stream
+ *
+ * @param events - Events of one run, oldest first
+ * @param at - Moment to rebuild, in epoch milliseconds
+ * @param base - Latest /control/status, used for fields the events do not carry
+ */
+export function reconstructRunAt(
+  events: TimelineEvent[],
+  at: number,
+  base: ControlStatus | null = null,
+): TimelineSnapshot {
+  const reset = events.find((entry) => entry.event.kind === "reset")
+  const settings =
+    reset?.event.kind === "reset"
+      ? reset.event
+      : { seed: base?.seed ?? "", targetDispatches: base?.targetDispatches ?? 0, maxActiveCalls: base?.maxActiveCalls ?? 0 }
+
+  const tracker = new ScoreTracker(createScoringRules(settings.maxActiveCalls))
+  const depots = new Map<string, EmergencyResource>()
+  const dispatches: TimelineDispatch[] = []
+
+  // Depot coordinates never change, so any snapshot of the run can locate a source
+  events.forEach(({ event }) => {
+    if (event.kind !== "resources") return
+    event.resources.forEach((resource) => {
+      const key = depotKey(event.type, resource.city, resource.county)
+      if (!depots.has(key)) depots.set(key, { ...resource, type: event.type })
+    })
+  })
+
+  // Inventory is the latest snapshot per type, minus what was sent after it
+  const inventory = new Map<EmergencyType, EmergencyResource[]>()
+
+  for (const { at: eventAt, event } of events) {
+    if (eventAt > at) break
+
+    switch (event.kind) {
+      case "resources":
+        inventory.set(
+          event.type,
+          event.resources.map((resource) => ({ ...resource, type: event.type })),
+        )
+        break
+
+      case "call":
+        tracker.recordCall(event.call)
+        break
+
+      case "dispatch": {
+        const { request } = event
+        const depot = depots.get(depotKey(event.type, request.sourceCity, request.sourceCounty))
+        if (!depot) break
+
+        const outcome = tracker.recordDispatch(
+          event.type,
+          depot,
+          { city: request.targetCity, county: request.targetCounty },
+          request.quantity,
+        )
+
+        const stock = inventory
+          .get(event.type)
+          ?.find((resource) => resource.city === request.sourceCity && resource.county === request.sourceCounty)
+        if (stock) stock.quantity = Math.max(0, stock.quantity - request.quantity)
+
+        if (outcome) {
+          dispatches.push({
+            at: eventAt,
+            type: event.type,
+            quantity: request.quantity,
+            source: { city: depot.city, county: depot.county, latitude: depot.latitude, longitude: depot.longitude },
+            target: {
+              city: outcome.call.city,
+              county: outcome.call.county,
+              latitude: outcome.call.latitude,
+              longitude: outcome.call.longitude,
+            },
+            excess: outcome.excess,
+          })
+        }
+        break
+      }
+    }
+  }
+
+  const summary = tracker.getSummary()
+  const openCalls = tracker.getOpenCalls()
+  const lastAt = events.length > 0 ? events[events.length - 1].at : at
+  const status: ControlStatus = {
+    httpRequests: 0,
+    emulatorVersion: 0,
+    signature: "",
+    checksum: "",
+    ...base,
+    status: at < lastAt ? "Running" : (base?.status ?? "Running"),
+    runningTime: formatRunningTime(at - (reset?.at ?? events[0]?.at ?? at)),
+    seed: settings.seed,
+    requestCount: openCalls.length,
+    maxActiveCalls: settings.maxActiveCalls,
+    targetDispatches: settings.targetDispatches,
+    totalDispatches: summary.totalDispatches,
+    distance: summary.distance,
+    penalty: summary.penalty,
+    errors: summary.errors,
+  }
+
+  return {
+    at,
+    emergencies: openCalls,
+    resources: [...inventory.values()].flat(),
+    status,
+    dispatches,
+    missed: tracker.getMissedCalls(),
+    complete: reset !== undefined,
+  }
+}
+
+export class RunTimeline {
+  private events: TimelineEvent[] = []
+  private listeners = new Set<TimelineListener>()
+  private unsubscribeApi: (() => void) | null = null
+
+  /**
+   * Starts recording API events
+   *
+   * @returns Function that stops recording
+   */
+  start(): () => void {
+    if (!this.unsubscribeApi) {
+      this.unsubscribeApi = subscribeToApiEvents((event) => this.handleEvent(event))
+    }
+    return () => this.stop()
+  }
+
+  stop(): void {
+    this.unsubscribeApi?.()
+    this.unsubscribeApi = null
+  }
+
+  /**
+   * Events of the current run, oldest first
+   */
+  getEvents(): TimelineEvent[] {
+    return [...this.events]
+  }
+
+  /**
+   * First and last event times, or null before anything happened
+   */
+  getRange(): { start: number; end: number } | null {
+    if (this.events.length === 0) return null
+    return { start: this.events[0].at, end: this.events[this.events.length - 1].at }
+  }
+
+  /**
+   * Registers a listener called whenever an event is recorded
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: TimelineListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private handleEvent(event: ApiEvent): void {
+    // A reset starts a new run
+    if (event.kind === "reset") this.events = []
+    this.events.push({ at: Date.now(), event })
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Timeline shared by the dashboard components
+export const runTimeline = new RunTimeline()
@@ -0,0 +1,238 @@
+/**
+ * Scoring Session
+ *
+ * Listens to the API layer and scores the current run locally with the shared
+ * ScoreTracker, so the UI can project the final score and cross-check the
+ * numbers reported by /control/status. Penalty values are taken from the
+ * server's totals once they determine them; the local score is rescored then.
+ */
+import { logger } from "@/components/logger"
+import type { ApiEvent, ControlStatus, EmergencyType, ScoreProjection, ScoringEvent } from "@/types"
+import { DISTANCE_MODELS, type DistanceModelId } from "@/utils/distance"
+import { subscribeToApiEvents } from "./api"
+import {
+  calculateScore,
+  compareScores,
+  createScoringRules,
+  getRemainingNeed,
+  inferPenalties,
+  ScoreTracker,
+  type ScoringRuleName,
+  type ScoringRules,
+} from "./scoring"
+
+type SessionListener = () => void
+
+export class ScoringSession {
+  private rules: ScoringRules = createScoringRules(0)
+  private tracker = new ScoreTracker(this.rules)
+  private log: ScoringEvent[] = []
+  private seed: string | null = null
+  private targetDispatches = 0
+  private complete = false
+  // Travelled distance of the run under every distance model
+  private distanceByModel = emptyDistances()
+  // Depot coordinates from the latest search results, keyed by type and location
+  private depots = new Map<string, { latitude: number; longitude: number }>()
+  private listeners = new Set<SessionListener>()
+  private unsubscribeApi: (() => void) | null = null
+
+  /**
+   * Starts listening to API events
+   *
+   * @returns Function that stops listening
+   */
+  start(): () => void {
+    if (!this.unsubscribeApi) {
+      this.unsubscribeApi = subscribeToApiEvents((event) => this.handleEvent(event))
+    }
+    return () => this.stop()
+  }
+
+  stop(): void {
+    this.unsubscribeApi?.()
+    this.unsubscribeApi = null
+  }
+
+  /**
+   * Registers a listener called whenever the local score changes
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Total distance of the scored dispatches, measured with the given model
+   */
+  getDistance(model: DistanceModelId): number {
+    return this.distanceByModel[model]
+  }
+
+  /**
+   * Dispatch log of the current run, in the order events happened
+   */
+  getLog(): ScoringEvent[] {
+    return [...this.log]
+  }
+
+  /**
+   * Ages of the open calls, with the number of newer calls that gets a call missed
+   *
+   * @returns Null until the session saw the run start
+   */
+  getCallAges(): { callLifetime: number; newerCalls: Map<string, number> } | null {
+    if (this.seed === null) return null
+    return { callLifetime: this.rules.callLifetime, newerCalls: this.tracker.getAges() }
+  }
+
+  /**
+   * Takes the penalty values the server's totals determine, and rescores the run with them
+   *
+   * @param server - Latest /control/status payload
+   */
+  observeStatus(server: ControlStatus): void {
+    if (!this.complete || server.seed !== this.seed) return
+
+    const rules = inferPenalties(server, this.rules)
+    if (rules.assumed.length === this.rules.assumed.length) return
+
+    logger.info("Scoring penalties taken from the server", { penalties: rules.penalties, assumed: rules.assumed })
+    this.rules = rules
+    this.tracker = new ScoreTracker(rules)
+    this.log.forEach((event) => {
+      if (event.kind === "call") {
+        this.tracker.recordCall(event.call)
+      } else {
+        this.tracker.recordDispatch(
+          event.type,
+          event.source,
+          { city: event.request.targetCity, county: event.request.targetCounty },
+          event.request.quantity,
+        )
+      }
+    })
+    this.listeners.forEach((listener) => listener())
+  }
+
+  /**
+   * Projects the final score and compares the local totals with the server
+   *
+   * @param server - Latest /control/status payload, if any
+   */
+  getProjection(server: ControlStatus | null): ScoreProjection {
+    const local = this.tracker.getSummary()
+    const openCalls = this.tracker.getOpenCalls()
+    const currentScore = calculateScore(local)
+
+    const target = this.targetDispatches || server?.targetDispatches || 0
+    const remainingUnits = Math.max(0, target - local.totalDispatches)
+    const costPerUnit = local.totalDispatches > 0 ? currentScore / local.totalDispatches : 0
+
+    const atRiskPenalty =
+      openCalls.filter((call) => call.requests.some((req) => getRemainingNeed(call, req.Type) > 0)).length *
+      this.rules.penalties.missedCall
+
+    // Only compare runs this session saw from the start
+    const comparable = this.complete && server !== null && server.seed === this.seed
+
+    return {
+      local,
+      currentScore,
+      projectedScore: currentScore + costPerUnit * remainingUnits,
+      atRiskPenalty,
+      openCalls: openCalls.length,
+      complete: this.complete,
+      mismatches: comparable ? compareScores(local, server, this.rules.assumed) : [],
+      assumptions: this.rules.assumed.map((name) => describeRule(name, this.rules)),
+    }
+  }
+
+  private handleEvent(event: ApiEvent): void {
+    switch (event.kind) {
+      case "reset":
+        this.seed = event.seed
+        this.targetDispatches = event.targetDispatches
+        this.rules = createScoringRules(event.maxActiveCalls)
+        this.tracker = new ScoreTracker(this.rules)
+        this.log = []
+        this.distanceByModel = emptyDistances()
+        this.complete = true
+        break
+
+      case "resources":
+        event.resources.forEach((resource) => {
+          this.depots.set(depotKey(event.type, resource.city, resource.county), {
+            latitude: resource.latitude,
+            longitude: resource.longitude,
+          })
+        })
+        return
+
+      case "call":
+        this.tracker.recordCall(event.call)
+        this.log.push({ kind: "call", call: event.call })
+        break
+
+      case "dispatch": {
+        const source = this.depots.get(depotKey(event.type, event.request.sourceCity, event.request.sourceCounty))
+        const outcome =
+          source &&
+          this.tracker.recordDispatch(
+            event.type,
+            source,
+            { city: event.request.targetCity, county: event.request.targetCounty },
+            event.request.quantity,
+          )
+
+        if (!source || !outcome) {
+          this.complete = false
+          logger.warn("Dispatch could not be scored locally", {
+            type: event.type,
+            request: event.request,
+            reason: source ? "unknown target call" : "unknown source depot",
+          })
+          break
+        }
+
+        this.log.push({ kind: "dispatch", type: event.type, request: event.request, source })
+        Object.values(DISTANCE_MODELS).forEach((model) => {
+          this.distanceByModel[model.id] +=
+            model.measure(source.latitude, source.longitude, outcome.call.latitude, outcome.call.longitude) *
+            event.request.quantity
+        })
+        break
+      }
+    }
+
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+function describeRule(name: ScoringRuleName, rules: ScoringRules): string {
+  switch (name) {
+    case "distance":
+      return "distance in great-circle km"
+    case "callLifetime":
+      return `calls missed after ${rules.callLifetime} newer calls`
+    case "missedCall":
+      return `${rules.penalties.missedCall} points per missed call`
+    case "overDispatchedUnit":
+      return `${rules.penalties.overDispatchedUnit} points per over-dispatched unit`
+  }
+}
+
+function emptyDistances(): Record<DistanceModelId, number> {
+  return { planar: 0, haversine: 0, "travel-time": 0 }
+}
+
+function depotKey(type: EmergencyType, city: string, county: string): string {
+  return `${type}:${county}:${city}`
+}
+
+// Session shared by the dashboard components
+export const scoringSession = new ScoringSession()
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest"
+import type { EmergencyCall } from "@/types"
+import {
+  SCORING_PENALTIES,
+  compareScores,
+  createScoringRules,
+  getRemainingNeed,
+  inferPenalties,
+  replayDispatchLog,
+  ScoreTracker,
+} from "./scoring"
+
+const call = (id: string, city: string, requests: EmergencyCall["requests"]): EmergencyCall => ({
+  id,
+  city,
+  county: "Cluj",
+  latitude: 46.77,
+  longitude: 23.6,
+  requests,
+})
+
+const depot = { latitude: 46.77, longitude: 23.6 }
+
+describe("getRemainingNeed", () => {
+  it("sums every request of the type", () => {
+    const split = call("a", "Dej", [
+      { Type: "Fire", Quantity: 2 },
+      { Type: "Fire", Quantity: 3 },
+      { Type: "Medical", Quantity: 1 },
+    ])
+    expect(getRemainingNeed(split, "Fire")).toBe(5)
+    expect(getRemainingNeed({ ...split, dispatched: { Fire: 4 } as EmergencyCall["dispatched"] }, "Fire")).toBe(1)
+  })
+
+  it("never goes below zero", () => {
+    const served = call("a", "Dej", [{ Type: "Police", Quantity: 1 }])
+    expect(getRemainingNeed({ ...served, dispatched: { Police: 3 } as EmergencyCall["dispatched"] }, "Police")).toBe(0)
+    expect(getRemainingNeed(served, "Rescue")).toBe(0)
+  })
+})
+
+describe("ScoreTracker", () => {
+  it("fills the oldest call at the target that still needs the type", () => {
+    const tracker = new ScoreTracker(createScoringRules(5))
+    const older = tracker.recordCall(call("first", "Dej", [{ Type: "Fire", Quantity: 1 }]))
+    const newer = tracker.recordCall(call("second", "Dej", [{ Type: "Fire", Quantity: 2 }]))
+
+    const first = tracker.recordDispatch("Fire", depot, { city: "Dej", county: "Cluj" }, 1)
+    const second = tracker.recordDispatch("Fire", depot, { city: "Dej", county: "Cluj" }, 1)
+
+    expect(first).toMatchObject({ excess: 0, fulfilled: true })
+    expect(first?.call).toBe(older)
+    expect(second?.call).toBe(newer)
+    expect(second?.fulfilled).toBe(false)
+  })
+
+  it("charges units sent beyond the remaining need", () => {
+    const tracker = new ScoreTracker(createScoringRules(5))
+    tracker.recordCall(call("a", "Dej", [{ Type: "Fire", Quantity: 1 }, { Type: "Medical", Quantity: 1 }]))
+
+    const outcome = tracker.recordDispatch("Fire", depot, { city: "Dej", county: "Cluj" }, 3)
+
+    expect(outcome?.excess).toBe(2)
+    expect(tracker.getSummary().errors.overDispatched).toBe(2)
+    expect(tracker.getSummary().penalty).toBe(2 * SCORING_PENALTIES.overDispatchedUnit)
+  })
+
+  it("misses calls once callLifetime newer calls arrived", () => {
+    const tracker = new ScoreTracker(createScoringRules(1, { callLifetime: 2 }))
+    tracker.recordCall(call("old", "Dej", [{ Type: "Fire", Quantity: 1 }]))
+    tracker.recordCall(call("b", "Turda", [{ Type: "Fire", Quantity: 1 }]))
+    expect(tracker.getSummary().errors.missed).toBe(0)
+
+    tracker.recordCall(call("c", "Turda", [{ Type: "Fire", Quantity: 1 }]))
+
+    expect(tracker.getSummary().errors.missed).toBe(1)
+    expect(tracker.getSummary().penalty).toBe(SCORING_PENALTIES.missedCall)
+  })
+
+  it("ignores dispatches to places without an open call", () => {
+    const tracker = new ScoreTracker(createScoringRules(5))
+    expect(tracker.recordDispatch("Fire", depot, { city: "Dej", county: "Cluj" }, 1)).toBeNull()
+    expect(tracker.getSummary().totalDispatches).toBe(0)
+  })
+})
+
+describe("replayDispatchLog", () => {
+  it("scores a log like a live tracker", () => {
+    const arrival = call("a", "Dej", [{ Type: "Fire", Quantity: 1 }])
+    const request = { sourceCounty: "Cluj", sourceCity: "Turda", targetCounty: "Cluj", targetCity: "Dej", quantity: 2 }
+
+    const summary = replayDispatchLog(
+      [
+        { kind: "call", call: arrival },
+        { kind: "dispatch", type: "Fire", request, source: depot },
+      ],
+      createScoringRules(5),
+    )
+
+    expect(summary).toMatchObject({ totalDispatches: 2, errors: { missed: 0, overDispatched: 1 } })
+    expect(summary.distance).toBe(0)
+  })
+})
+
+describe("inferPenalties", () => {
+  const rules = createScoringRules(5)
+
+  it("learns a penalty when only its kind of error was charged", () => {
+    const learned = inferPenalties({ penalty: 900, errors: { missed: 3, overDispatched: 0 } }, rules)
+    expect(learned.penalties.missedCall).toBe(300)
+    expect(learned.assumed).not.toContain("missedCall")
+    expect(learned.assumed).toContain("overDispatchedUnit")
+  })
+
+  it("learns the other penalty once one is known", () => {
+    const known = inferPenalties({ penalty: 600, errors: { missed: 2, overDispatched: 0 } }, rules)
+    const learned = inferPenalties({ penalty: 700, errors: { missed: 2, overDispatched: 5 } }, known)
+    expect(learned.penalties.overDispatchedUnit).toBe(20)
+    expect(learned.assumed).toEqual(["distance", "callLifetime"])
+  })
+
+  it("keeps the assumptions when both kinds were charged and neither is known", () => {
+    const learned = inferPenalties({ penalty: 700, errors: { missed: 2, overDispatched: 5 } }, rules)
+    expect(learned.penalties).toEqual(SCORING_PENALTIES)
+    expect(learned.assumed).toEqual(rules.assumed)
+  })
+})
+
+describe("compareScores", () => {
+  const server = { distance: 100, penalty: 500, totalDispatches: 4, errors: { missed: 1, overDispatched: 0 } }
+
+  it("reports nothing when the summaries agree", () => {
+    expect(compareScores({ ...server }, server)).toEqual([])
+  })
+
+  it("names the assumed rules a mismatch may come from", () => {
+    const mismatches = compareScores({ ...server, penalty: 400 }, server, ["missedCall"])
+    expect(mismatches).toEqual(["penalty: local 400 vs server 500 (local missedCall assumed)"])
+  })
+})
@@ -0,0 +1,312 @@
+/**
+ * Scoring Engine
+ *
+ * Single source of truth for how a run is scored. The emulator scores live
+ * requests with it and the UI replays its own dispatch log through it, so both
+ * arrive at the same distance, penalty and error counts.
+ *
+ * Rules:
+ * - distance is the great-circle distance (km) from source to call, per unit
+ * - a call still not fully served once `callLifetime` newer calls have arrived
+ *   is missed and charged `penalties.missedCall`
+ * - every unit above a call's remaining need is over-dispatched and charged
+ *   `penalties.overDispatchedUnit`
+ *
+ * The main API does not publish its scoring rules, and /control/status only
+ * reports totals. These rules are the ones the emulator applies; against a
+ * real server they are assumptions, and a local score is an estimate. Penalty
+ * values are inferred from the server's status where the totals allow it (see
+ * inferPenalties); the rules still assumed are listed with every score.
+ */
+import type { EmergencyCall, EmergencyType, ScoreSummary, ScoringEvent } from "@/types"
+import { calculateGreatCircleDistance } from "@/utils/distance"
+
+// Penalty points charged per scoring error. Chosen for the emulator: the main API documents neither value.
+export const SCORING_PENALTIES = {
+  missedCall: 500,
+  overDispatchedUnit: 50,
+}
+
+// Calls may wait this many times the active call limit in newer calls. Chosen for the emulator, undocumented upstream.
+const CALL_LIFETIME_FACTOR = 2
+
+/**
+ * Rules a local score depends on:
+ * - distance: great-circle kilometres per unit
+ * - callLifetime: how many newer calls get a call missed
+ * - missedCall, overDispatchedUnit: the penalty values
+ */
+export type ScoringRuleName = "distance" | "callLifetime" | "missedCall" | "overDispatchedUnit"
+
+export interface ScoringRules {
+  /** Newer calls that may arrive before an unfinished call is missed */
+  callLifetime: number
+  penalties: typeof SCORING_PENALTIES
+  /** Rules taken from local assumptions rather than the server */
+  assumed: ScoringRuleName[]
+}
+
+const ALL_RULES: ScoringRuleName[] = ["distance", "callLifetime", "missedCall", "overDispatchedUnit"]
+
+export interface ScoredCall extends EmergencyCall {
+  /** Arrival order of the call, starting at 1 */
+  sequence: number
+  dispatched: Record<EmergencyType, number>
+}
+
+export interface DispatchOutcome {
+  call: ScoredCall
+  /** Distance charged for this dispatch (all units) */
+  distance: number
+  /** Units sent beyond the call's remaining need */
+  excess: number
+  /** Whether the call left the queue because it is fully served */
+  fulfilled: boolean
+}
+
+/**
+ * Builds the scoring rules for a simulation
+ *
+ * @param maxActiveCalls - The simulation's active call limit
+ * @param overrides - Optional rule overrides
+ */
+export function createScoringRules(maxActiveCalls: number, overrides: Partial<ScoringRules> = {}): ScoringRules {
+  return {
+    callLifetime: Math.max(1, maxActiveCalls * CALL_LIFETIME_FACTOR),
+    penalties: SCORING_PENALTIES,
+    assumed: ALL_RULES,
+    ...overrides,
+  }
+}
+
+/**
+ * Works out penalty values from a server's totals. A penalty is known once
+ * errors of only its kind were charged, or once the other one is known.
+ *
+ * @param server - Penalty and error counts reported by /control/status
+ * @param rules - Rules in use; penalties that are no longer assumed are kept
+ * @returns The rules with every penalty the totals determine taken from the server
+ */
+export function inferPenalties(server: Pick<ScoreSummary, "penalty" | "errors">, rules: ScoringRules): ScoringRules {
+  const { missed, overDispatched } = server.errors
+  const penalties = { ...rules.penalties }
+  const assumed = new Set(rules.assumed)
+  const isValid = (value: number) => Number.isFinite(value) && value > 0
+
+  const learn = (name: "missedCall" | "overDispatchedUnit", value: number) => {
+    if (!assumed.has(name) || !isValid(value)) return
+    penalties[name] = value
+    assumed.delete(name)
+  }
+
+  if (missed > 0 && overDispatched === 0) learn("missedCall", server.penalty / missed)
+  if (overDispatched > 0 && missed === 0) learn("overDispatchedUnit", server.penalty / overDispatched)
+  if (missed > 0 && overDispatched > 0) {
+    if (!assumed.has("missedCall")) {
+      learn("overDispatchedUnit", (server.penalty - missed * penalties.missedCall) / overDispatched)
+    } else if (!assumed.has("overDispatchedUnit")) {
+      learn("missedCall", (server.penalty - overDispatched * penalties.overDispatchedUnit) / missed)
+    }
+  }
+
+  return { ...rules, penalties, assumed: ALL_RULES.filter((name) => assumed.has(name)) }
+}
+
+/**
+ * Remaining need of a call for one emergency type, over every request of the type
+ */
+export function getRemainingNeed(call: Pick<EmergencyCall, "requests" | "dispatched">, type: EmergencyType): number {
+  const requested = call.requests.filter((req) => req.Type === type).reduce((sum, req) => sum + req.Quantity, 0)
+  return Math.max(0, requested - (call.dispatched?.[type] || 0))
+}
+
+/**
+ * Tracks open calls and score totals while calls arrive and units are dispatched
+ */
+export class ScoreTracker {
+  private openCalls: ScoredCall[] = []
+  private missedCalls: ScoredCall[] = []
+  private sequence = 0
+  private totals: ScoreSummary = {
+    distance: 0,
+    penalty: 0,
+    totalDispatches: 0,
+    errors: { missed: 0, overDispatched: 0 },
+  }
+
+  constructor(private rules: ScoringRules) {}
+
+  /**
+   * Registers a newly arrived call and expires calls that waited too long
+   *
+   * @returns The tracked call
+   */
+  recordCall(call: EmergencyCall): ScoredCall {
+    this.sequence += 1
+
+    this.openCalls = this.openCalls.filter((open) => {
+      if (this.sequence - open.sequence < this.rules.callLifetime) return true
+
+      this.totals.errors.missed += 1
+      this.totals.penalty += this.rules.penalties.missedCall
+      this.missedCalls.push(open)
+      return false
+    })
+
+    const scored: ScoredCall = {
+      ...call,
+      requests: call.requests.map((req) => ({ ...req })),
+      sequence: this.sequence,
+      dispatched: Object.fromEntries(call.requests.map((req) => [req.Type, 0])) as Record<EmergencyType, number>,
+    }
+    this.openCalls.push(scored)
+
+    return scored
+  }
+
+  /**
+   * Finds the call a dispatch to the given city would be applied to:
+   * the oldest open call there that still needs the type, else the oldest one
+   */
+  findTarget(type: EmergencyType, city: string, county: string): ScoredCall | undefined {
+    const atTarget = this.openCalls.filter((call) => call.city === city && call.county === county)
+    return atTarget.find((call) => getRemainingNeed(call, type) > 0) ?? atTarget[0]
+  }
+
+  /**
+   * Applies a dispatch to its target call
+   *
+   * @returns The outcome, or null if there is no open call at the target
+   */
+  recordDispatch(
+    type: EmergencyType,
+    source: { latitude: number; longitude: number },
+    target: { city: string; county: string },
+    quantity: number,
+  ): DispatchOutcome | null {
+    const call = this.findTarget(type, target.city, target.county)
+    if (!call) return null
+
+    const excess = Math.max(0, quantity - getRemainingNeed(call, type))
+    const distance =
+      calculateGreatCircleDistance(source.latitude, source.longitude, call.latitude, call.longitude) * quantity
+
+    call.dispatched[type] = (call.dispatched[type] || 0) + quantity
+    this.totals.totalDispatches += quantity
+    this.totals.distance += distance
+
+    if (excess > 0) {
+      this.totals.errors.overDispatched += excess
+      this.totals.penalty += excess * this.rules.penalties.overDispatchedUnit
+    }
+
+    const fulfilled = call.requests.every((req) => getRemainingNeed(call, req.Type) === 0)
+    if (fulfilled) {
+      this.openCalls = this.openCalls.filter((open) => open !== call)
+    }
+
+    return { call, distance, excess, fulfilled }
+  }
+
+  /**
+   * Calls that are neither fulfilled nor missed yet, oldest first
+   */
+  getOpenCalls(): ScoredCall[] {
+    return [...this.openCalls]
+  }
+
+  /**
+   * Newer calls that arrived since each open call, by call id
+   */
+  getAges(): Map<string, number> {
+    return new Map(this.openCalls.map((call) => [call.id, this.sequence - call.sequence]))
+  }
+
+  /**
+   * Calls that expired before being fully served, in the order they were missed
+   */
+  getMissedCalls(): ScoredCall[] {
+    return [...this.missedCalls]
+  }
+
+  getSummary(): ScoreSummary {
+    return {
+      ...this.totals,
+      errors: { ...this.totals.errors },
+    }
+  }
+}
+
+/**
+ * Replays a dispatch log and returns the score the server would report
+ *
+ * @param events - Calls and dispatches in the order they happened
+ * @param rules - Scoring rules of the simulation
+ */
+export function replayDispatchLog(events: ScoringEvent[], rules: ScoringRules): ScoreSummary {
+  const tracker = new ScoreTracker(rules)
+
+  events.forEach((event) => {
+    if (event.kind === "call") {
+      tracker.recordCall(event.call)
+    } else {
+      tracker.recordDispatch(
+        event.type,
+        event.source,
+        { city: event.request.targetCity, county: event.request.targetCounty },
+        event.request.quantity,
+      )
+    }
+  })
+
+  return tracker.getSummary()
+}
+
+/**
+ * Single number used to rank runs: lower is better
+ */
+export function calculateScore(summary: Pick<ScoreSummary, "distance" | "penalty">): number {
+  return summary.distance + summary.penalty
+}
+
+/**
+ * Lists the score fields where a local summary disagrees with the server
+ *
+ * @param local - Summary computed from the local dispatch log
+ * @param server - Summary reported by /control/status
+ * @param assumed - Rules the local summary assumed; mismatches they may explain say so
+ * @returns Human-readable mismatch descriptions (empty when both agree)
+ */
+export function compareScores(local: ScoreSummary, server: ScoreSummary, assumed: ScoringRuleName[] = []): string[] {
+  const mismatches: string[] = []
+  const distanceTolerance = Math.max(0.01, Math.abs(server.distance) * 0.0001)
+  const note = (names: ScoringRuleName[]) => {
+    const causes = names.filter((name) => assumed.includes(name))
+    return causes.length > 0 ? ` (local ${causes.join(", ")} assumed)` : ""
+  }
+
+  if (Math.abs(local.distance - server.distance) > distanceTolerance) {
+    mismatches.push(
+      `distance: local ${local.distance.toFixed(2)} vs server ${server.distance.toFixed(2)}${note(["distance"])}`,
+    )
+  }
+  if (local.penalty !== server.penalty) {
+    mismatches.push(
+      `penalty: local ${local.penalty} vs server ${server.penalty}` +
+        note(["missedCall", "overDispatchedUnit", "callLifetime"]),
+    )
+  }
+  if (local.totalDispatches !== server.totalDispatches) {
+    mismatches.push(`dispatches: local ${local.totalDispatches} vs server ${server.totalDispatches}`)
+  }
+  if (local.errors.missed !== server.errors.missed) {
+    mismatches.push(`missed: local ${local.errors.missed} vs server ${server.errors.missed}${note(["callLifetime"])}`)
+  }
+  if (local.errors.overDispatched !== server.errors.overDispatched) {
+    mismatches.push(
+      `over-dispatched: local ${local.errors.overDispatched} vs server ${server.errors.overDispatched}`,
+    )
+  }
+
+  return mismatches
+}
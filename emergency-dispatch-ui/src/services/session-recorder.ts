@@ -0,0 +1,86 @@
+/**
+ * Session Recorder
+ *
+ * Captures every request and response made through the API layer, with
+ * timestamps, into a portable SessionRecording. Recordings are replayed with
+ * the session replay transport for post-mortems of bad runs.
+ */
+import { logger } from "@/components/logger"
+import type { ApiExchange, SessionRecording } from "@/types"
+import { observeApiExchanges } from "./api"
+
+type RecorderListener = () => void
+
+export class SessionRecorder {
+  private exchanges: ApiExchange[] = []
+  private startedAt: number | null = null
+  private stopObserving: (() => void) | null = null
+  private listeners = new Set<RecorderListener>()
+
+  /**
+   * Starts a new recording, discarding any previous one
+   */
+  start(): void {
+    this.stopObserving?.()
+    this.exchanges = []
+    this.startedAt = Date.now()
+    this.stopObserving = observeApiExchanges((exchange) => {
+      this.exchanges.push(exchange)
+      this.notify()
+    })
+
+    logger.info("Session recording started")
+    this.notify()
+  }
+
+  /**
+   * Stops recording
+   *
+   * @returns The finished recording, or null if nothing was being recorded
+   */
+  stop(): SessionRecording | null {
+    if (!this.stopObserving || this.startedAt === null) return null
+
+    this.stopObserving()
+    this.stopObserving = null
+
+    const recording: SessionRecording = {
+      version: 1,
+      startedAt: this.startedAt,
+      endedAt: Date.now(),
+      exchanges: this.exchanges,
+    }
+    logger.info("Session recording stopped", { exchanges: recording.exchanges.length })
+
+    this.exchanges = []
+    this.startedAt = null
+    this.notify()
+    return recording
+  }
+
+  isRecording(): boolean {
+    return this.stopObserving !== null
+  }
+
+  getExchangeCount(): number {
+    return this.exchanges.length
+  }
+
+  /**
+   * Registers a listener called when recording starts, stops or captures an exchange
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: RecorderListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const sessionRecorder = new SessionRecorder()
@@ -0,0 +1,177 @@
+/**
+ * Session Replay
+ *
+ * Feeds a SessionRecording back through a fake transport so the dashboard,
+ * map and stats re-render the recorded session. Replay runs on a clock that
+ * starts with the replay (optionally sped up):
+ *
+ * - Snapshot reads (queue, status, resources, ...) return the latest response
+ *   recorded for that URL at the current replay time.
+ * - Requests that change state (/calls/next, /control/reset, POSTs) consume
+ *   the recorded responses in order, once their time has come; beyond that
+ *   the replay answers 409, as it never reaches a real backend.
+ */
+import { logger } from "@/components/logger"
+import type { ApiExchange, ApiTransport, SessionRecording } from "@/types"
+import { getApiTransport, setApiTransport } from "./api"
+import { isReadOnlyRequest } from "./request-coordinator"
+
+export interface ReplayProgress {
+  /** Milliseconds of the recording replayed so far */
+  elapsed: number
+  /** Length of the recording in milliseconds */
+  duration: number
+  speed: number
+}
+
+type ReplayListener = () => void
+
+// How often progress listeners are notified while a replay runs
+const PROGRESS_INTERVAL_MS = 500
+
+const requestKey = (method: string, url: string) => `${method.toUpperCase()} ${url}`
+
+/**
+ * Reads and validates a replay file
+ *
+ * @throws Error if the text is not a session recording
+ */
+export function parseSessionRecording(text: string): SessionRecording {
+  const recording = JSON.parse(text) as SessionRecording
+  if (recording?.version !== 1 || !Array.isArray(recording.exchanges) || typeof recording.startedAt !== "number") {
+    throw new Error("Not a session recording (expected version 1 with exchanges)")
+  }
+  return recording
+}
+
+/**
+ * Creates a transport that answers from a recording
+ *
+ * @param recording - The session to replay
+ * @param getElapsed - Milliseconds of the recording replayed so far
+ */
+export function createReplayTransport(recording: SessionRecording, getElapsed: () => number): ApiTransport {
+  const byKey = new Map<string, ApiExchange[]>()
+  recording.exchanges.forEach((exchange) => {
+    const key = requestKey(exchange.method, exchange.url)
+    byKey.set(key, [...(byKey.get(key) ?? []), exchange])
+  })
+  const consumed = new Map<string, number>()
+  const offsetOf = (exchange: ApiExchange) => exchange.timestamp - recording.startedAt
+
+  const respond = (exchange: ApiExchange): Response => {
+    if (exchange.status === 0) {
+      throw new TypeError(exchange.error || "fetch failed")
+    }
+
+    return new Response(exchange.responseBody || null, {
+      status: exchange.status,
+      statusText: exchange.statusText,
+      headers: exchange.contentType ? { "Content-Type": exchange.contentType } : undefined,
+    })
+  }
+
+  const notRecorded = (detail: string) =>
+    new Response(JSON.stringify({ detail }), { status: 409, headers: { "Content-Type": "application/json" } })
+
+  return async (input, init) => {
+    const method = init?.method || "GET"
+    const key = requestKey(method, input)
+    const candidates = byKey.get(key) ?? []
+    const elapsed = getElapsed()
+
+    // Reads may be answered by any recorded response up to now
+    if (isReadOnlyRequest(method, input)) {
+      if (candidates.length === 0) return notRecorded(`Replay has no response for ${key}`)
+      const latest = candidates.filter((exchange) => offsetOf(exchange) <= elapsed).pop()
+      return respond(latest ?? candidates[0])
+    }
+
+    const next = consumed.get(key) ?? 0
+    const exchange = candidates[next]
+    if (!exchange || offsetOf(exchange) > elapsed) {
+      return notRecorded(`Replay is read-only: ${key} was not recorded at this point`)
+    }
+
+    consumed.set(key, next + 1)
+    return respond(exchange)
+  }
+}
+
+export class SessionReplay {
+  private recording: SessionRecording | null = null
+  private startedAt = 0
+  private speed = 1
+  private previousTransport: ApiTransport | null = null
+  private progressTimer: ReturnType<typeof setInterval> | null = null
+  private listeners = new Set<ReplayListener>()
+
+  /**
+   * Routes all API requests to the recording, replacing the current transport until stop()
+   *
+   * @param recording - The session to replay
+   * @param speed - Replay speed multiplier (1 = real time)
+   */
+  start(recording: SessionRecording, speed = 1): void {
+    if (this.recording) this.stop()
+
+    this.recording = recording
+    this.speed = speed
+    this.startedAt = Date.now()
+    this.previousTransport = getApiTransport()
+    setApiTransport(createReplayTransport(recording, () => this.getElapsed()))
+
+    this.progressTimer = setInterval(() => this.notify(), PROGRESS_INTERVAL_MS)
+    logger.info("Session replay started", { exchanges: recording.exchanges.length, speed })
+    this.notify()
+  }
+
+  /**
+   * Ends the replay and restores the transport that was active before it
+   */
+  stop(): void {
+    if (!this.recording) return
+
+    if (this.progressTimer) clearInterval(this.progressTimer)
+    this.progressTimer = null
+    setApiTransport(this.previousTransport)
+    this.previousTransport = null
+    this.recording = null
+
+    logger.info("Session replay stopped")
+    this.notify()
+  }
+
+  isActive(): boolean {
+    return this.recording !== null
+  }
+
+  getProgress(): ReplayProgress | null {
+    if (!this.recording) return null
+
+    const duration = this.recording.endedAt - this.recording.startedAt
+    return { elapsed: Math.min(this.getElapsed(), duration), duration, speed: this.speed }
+  }
+
+  /**
+   * Registers a listener called when the replay starts, stops or advances
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: ReplayListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private getElapsed(): number {
+    return (Date.now() - this.startedAt) * this.speed
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const sessionReplay = new SessionReplay()
@@ -0,0 +1,88 @@
+/**
+ * Simulation Recovery
+ *
+ * Saves the state of a running simulation in the "recovery" store of the
+ * app's IndexedDB database, so a reloaded dashboard can offer to resume it.
+ */
+import { logger } from "@/components/logger"
+import type { SavedSimulationState } from "@/types"
+import { appStorage } from "./app-storage"
+
+const KEYS = {
+  STATE: "simulationState",
+  START_TIME: "simulationStartTime",
+  NOTIFICATION_SHOWN: "recoveryNotificationShown",
+}
+
+/**
+ * What a previous page left behind
+ */
+export interface SavedRecovery {
+  state: SavedSimulationState | null
+  /** ISO timestamp the timer started at */
+  startTime: string | null
+  /** Whether the resume prompt was already shown for this state */
+  notificationShown: boolean
+}
+
+// Changes to the saved state run one at a time, so counters updated after each dispatch add up
+let writes: Promise<void> = Promise.resolve()
+
+function queueWrite(write: () => Promise<void>): Promise<void> {
+  writes = writes.then(write).catch((error) => logger.error("Failed to save simulation recovery state", { error }))
+  return writes
+}
+
+/**
+ * Reads the saved simulation, start time and prompt flag
+ */
+export async function loadRecovery(): Promise<SavedRecovery> {
+  await writes
+  const [state, startTime, notificationShown] = await Promise.all([
+    appStorage.getValue<SavedSimulationState>("recovery", KEYS.STATE),
+    appStorage.getValue<string>("recovery", KEYS.START_TIME),
+    appStorage.getValue<boolean>("recovery", KEYS.NOTIFICATION_SHOWN),
+  ])
+  return { state: state ?? null, startTime: startTime ?? null, notificationShown: Boolean(notificationShown) }
+}
+
+export function saveSimulationState(state: SavedSimulationState): Promise<void> {
+  return queueWrite(() => appStorage.setValue("recovery", KEYS.STATE, state))
+}
+
+/**
+ * Updates the saved state of a running simulation; does nothing if none is saved
+ */
+export function updateSimulationState(changes: Partial<SavedSimulationState>): Promise<void> {
+  return queueWrite(async () => {
+    const state = await appStorage.getValue<SavedSimulationState>("recovery", KEYS.STATE)
+    if (state?.isRunning) {
+      await appStorage.setValue("recovery", KEYS.STATE, { ...state, ...changes })
+    }
+  })
+}
+
+/**
+ * Removes the saved state and the prompt flag
+ */
+export function clearSimulationState(): Promise<void> {
+  return queueWrite(async () => {
+    await appStorage.delete("recovery", KEYS.STATE)
+    await appStorage.delete("recovery", KEYS.NOTIFICATION_SHOWN)
+  })
+}
+
+export function saveSimulationStartTime(startTime: Date): Promise<void> {
+  return queueWrite(() => appStorage.setValue("recovery", KEYS.START_TIME, startTime.toISOString()))
+}
+
+export function clearSimulationStartTime(): Promise<void> {
+  return queueWrite(() => appStorage.delete("recovery", KEYS.START_TIME))
+}
+
+/**
+ * Records that the resume prompt was shown, so a later page load does not show it again
+ */
+export function markRecoveryNotificationShown(): Promise<void> {
+  return queueWrite(() => appStorage.setValue("recovery", KEYS.NOTIFICATION_SHOWN, true))
+}
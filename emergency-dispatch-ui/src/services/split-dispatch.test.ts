@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { EmergencyCall, EmergencyResource } from "@/types"
+import { DISTANCE_MODELS } from "@/utils/distance"
+import { dispatchResource } from "./api"
+import { OverDispatchError } from "./dispatch-guard"
+import { executeSplitDispatch, planSplitDispatch } from "./split-dispatch"
+
+vi.mock("./api", () => ({ dispatchResource: vi.fn() }))
+
+// Planar distances are in degrees, so a depot's latitude is its distance per unit to the call
+const model = DISTANCE_MODELS.planar
+
+// Asked for 5 Fire units and got 1, so 4 are still needed
+const dej: EmergencyCall = {
+  id: "Cluj:Dej#1",
+  county: "Cluj",
+  city: "Dej",
+  latitude: 0,
+  longitude: 0,
+  requests: [{ Type: "Fire", Quantity: 5 }],
+  dispatched: { Fire: 1 } as EmergencyCall["dispatched"],
+}
+
+const depot = (city: string, latitude: number, quantity: number): EmergencyResource => ({
+  id: `Fire:Cluj:${city}`,
+  type: "Fire",
+  county: "Cluj",
+  city,
+  latitude,
+  longitude: 0,
+  quantity,
+})
+
+const resources = [depot("Far", 0.3, 10), depot("Near", 0.1, 2), depot("Mid", 0.2, 1), depot("Empty", 0, 0)]
+
+const legs = (plan: { legs: { source: EmergencyResource; quantity: number }[] }) =>
+  plan.legs.map((leg) => [leg.source.city, leg.quantity])
+
+beforeEach(() => {
+  vi.resetAllMocks()
+})
+
+describe("planSplitDispatch", () => {
+  it("covers the remaining need from the nearest stocked depots outward", () => {
+    const plan = planSplitDispatch(dej, "Fire", resources, model)
+
+    expect(legs(plan)).toEqual([
+      ["Near", 2],
+      ["Mid", 1],
+      ["Far", 1],
+    ])
+    expect(plan).toMatchObject({ requested: 4, unmet: 0 })
+    expect(plan.totalDistance).toBeCloseTo(0.1 * 2 + 0.2 + 0.3)
+  })
+
+  it("takes no more than a depot holds and reports what no depot can cover", () => {
+    const plan = planSplitDispatch(dej, "Fire", resources, model, 20)
+
+    expect(legs(plan)).toEqual([
+      ["Near", 2],
+      ["Mid", 1],
+      ["Far", 10],
+    ])
+    expect(plan.unmet).toBe(7)
+  })
+
+  it("ignores depots of other types", () => {
+    const plan = planSplitDispatch(dej, "Police", resources, model)
+
+    expect(plan.legs).toEqual([])
+    expect(plan.unmet).toBe(0)
+  })
+})
+
+describe("executeSplitDispatch", () => {
+  it("plans a refused part again from the depots left, without exceeding the need or their stock", async () => {
+    vi.mocked(dispatchResource).mockRejectedValueOnce({ url: "/fire/dispatch", status: 400, message: "Not enough" })
+    vi.mocked(dispatchResource).mockResolvedValue({})
+
+    const batch = await executeSplitDispatch(planSplitDispatch(dej, "Fire", resources, model), resources, model)
+
+    const tried = batch.results.map(({ dispatch, success }) => [dispatch.source.city, dispatch.quantity, success])
+    expect(tried).toEqual([
+      ["Near", 2, false],
+      ["Mid", 1, true],
+      ["Far", 3, true],
+    ])
+    expect(batch).toMatchObject({ state: "completed", sent: 4, requested: 4 })
+  })
+
+  it("stops when a dispatch gets no clear answer, so no unit is sent twice", async () => {
+    vi.mocked(dispatchResource).mockResolvedValueOnce({})
+    vi.mocked(dispatchResource).mockRejectedValueOnce({ url: "/fire/dispatch", status: 503, message: "Unavailable" })
+
+    const batch = await executeSplitDispatch(planSplitDispatch(dej, "Fire", resources, model), resources, model)
+
+    expect(dispatchResource).toHaveBeenCalledTimes(2)
+    expect(batch).toMatchObject({ state: "partial", sent: 2 })
+    expect(batch.reason).toBe("Stopped after the dispatch from Mid got no clear answer")
+  })
+
+  it("stops when the dispatch guard finds the call needs fewer units than planned", async () => {
+    const plan = planSplitDispatch(dej, "Fire", resources, model)
+    const request = { sourceCounty: "Cluj", sourceCity: "Near", targetCounty: "Cluj", targetCity: "Dej", quantity: 2 }
+    vi.mocked(dispatchResource).mockRejectedValueOnce(
+      new OverDispatchError("Dej needs 1 more Fire unit(s)", "Fire", request, 1),
+    )
+
+    const batch = await executeSplitDispatch(plan, resources, model)
+
+    expect(dispatchResource).toHaveBeenCalledTimes(1)
+    expect(batch).toMatchObject({ state: "failed", sent: 0, reason: "Dej needs 1 more Fire unit(s)" })
+  })
+})
@@ -0,0 +1,204 @@
+/**
+ * Split Dispatch
+ *
+ * Fulfils the whole remaining need of one request from as many depots as it
+ * takes. Every unit costs its distance, so taking units from the nearest
+ * stocked depots outward is the cheapest combination. The dispatches of a
+ * request are sent one after another as a batch:
+ *
+ * - A depot that refuses its part (e.g. it ran short meanwhile) is skipped,
+ *   and the rest of the need is planned again from the remaining depots.
+ * - A dispatch whose outcome is uncertain (no response, a server error or an
+ *   open circuit) stops the batch, so units are never sent twice.
+ * - A dispatch the dispatch guard refuses stops the batch: the call needs fewer
+ *   units than planned, e.g. because another dashboard served it meanwhile.
+ */
+import { logger } from "@/components/logger"
+import type { ApiError, EmergencyCall, EmergencyResource, EmergencyType } from "@/types"
+import type { DistanceModel } from "@/utils/distance"
+import { dispatchResource } from "./api"
+import type { PlanExecutionResult, PlannedDispatch } from "./assignment-optimizer"
+import { OverDispatchError } from "./dispatch-guard"
+import { createIdempotencyKey } from "./dispatch-ledger"
+import { getRemainingNeed } from "./scoring"
+
+export interface SplitDispatchPlan {
+  type: EmergencyType
+  call: EmergencyCall
+  /** Units the plan should send */
+  requested: number
+  /** Dispatches in sending order, nearest depot first */
+  legs: PlannedDispatch[]
+  /** Units no stocked depot can cover */
+  unmet: number
+  totalDistance: number
+}
+
+/**
+ * - completed: the whole request was sent
+ * - partial: some units were sent
+ * - failed: nothing was sent
+ */
+export type SplitDispatchState = "completed" | "partial" | "failed"
+
+export interface SplitDispatchBatch {
+  id: string
+  type: EmergencyType
+  call: EmergencyCall
+  requested: number
+  /** Every dispatch tried, in sending order, including the ones planned again after a refusal */
+  results: PlanExecutionResult[]
+  sent: number
+  /** Distance of the sent units, in the plan's model unit */
+  totalDistance: number
+  state: SplitDispatchState
+  /** Why the batch ended before the request was covered */
+  reason?: string
+}
+
+/**
+ * Whether a failed dispatch may have been applied, or the API cannot be reached at all
+ */
+function isUncertain(error: unknown): boolean {
+  if (typeof error !== "object" || error === null || !("url" in error)) return false
+  const apiError = error as ApiError
+  return (
+    apiError.category === "circuit_open" ||
+    apiError.status === undefined ||
+    apiError.status >= 500 ||
+    apiError.status === 429
+  )
+}
+
+// ApiErrors are plain objects, so read the message without instanceof
+const errorMessage = (error: unknown) => (error as { message?: string } | null)?.message ?? String(error)
+
+/**
+ * Plans the cheapest set of dispatches covering a request
+ *
+ * @param resources - Current inventory; depots of other types are ignored
+ * @param quantity - Units to cover (default: the call's remaining need of the type)
+ */
+export function planSplitDispatch(
+  call: EmergencyCall,
+  type: EmergencyType,
+  resources: EmergencyResource[],
+  model: DistanceModel,
+  quantity: number = getRemainingNeed(call, type),
+): SplitDispatchPlan {
+  const ranked = resources
+    .filter((resource) => resource.type === type && resource.quantity > 0)
+    .map((resource) => ({
+      resource,
+      unitDistance: model.measure(resource.latitude, resource.longitude, call.latitude, call.longitude),
+    }))
+    .sort((a, b) => a.unitDistance - b.unitDistance)
+
+  const legs: PlannedDispatch[] = []
+  let left = quantity
+  for (const { resource, unitDistance } of ranked) {
+    if (left <= 0) break
+
+    const units = Math.min(left, resource.quantity)
+    legs.push({ type, source: resource, call, quantity: units, distance: unitDistance * units })
+    left -= units
+  }
+
+  return {
+    type,
+    call,
+    requested: quantity,
+    legs,
+    unmet: Math.max(0, left),
+    totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+  }
+}
+
+/**
+ * Sends a split dispatch plan as one batch
+ *
+ * @param plan - Plan computed from the same inventory
+ * @param resources - Inventory to plan again from when a depot refuses its part
+ * @param model - Distance model of the plan
+ * @param onProgress - Called after each dispatch with its result
+ * @returns What was sent where; never throws
+ */
+export async function executeSplitDispatch(
+  plan: SplitDispatchPlan,
+  resources: EmergencyResource[],
+  model: DistanceModel,
+  onProgress?: (result: PlanExecutionResult) => void,
+): Promise<SplitDispatchBatch> {
+  const id = createIdempotencyKey()
+  const { type, call } = plan
+  const stock = new Map(resources.filter((resource) => resource.type === type).map((resource) => [resource.id, resource]))
+  const results: PlanExecutionResult[] = []
+  let legs = [...plan.legs]
+  let left = plan.requested
+  let reason = plan.unmet > 0 ? `No depot has ${plan.unmet} more ${type} unit(s)` : undefined
+
+  const record = (result: PlanExecutionResult) => {
+    results.push(result)
+    onProgress?.(result)
+  }
+
+  logger.info("Split dispatch started", { batch: id, type, call: call.id, units: plan.requested, legs: legs.length })
+
+  while (left > 0 && legs.length > 0) {
+    const [leg, ...rest] = legs
+    legs = rest
+
+    try {
+      await dispatchResource(type, {
+        sourceCounty: leg.source.county,
+        sourceCity: leg.source.city,
+        targetCounty: call.county,
+        targetCity: call.city,
+        quantity: leg.quantity,
+      })
+      left -= leg.quantity
+      stock.set(leg.source.id, { ...leg.source, quantity: leg.source.quantity - leg.quantity })
+      record({ dispatch: leg, success: true })
+    } catch (error) {
+      record({ dispatch: leg, success: false, error: errorMessage(error) })
+
+      // The units may have left, or the API is down: planning again could send them twice
+      if (isUncertain(error)) {
+        reason = `Stopped after the dispatch from ${leg.source.city} got no clear answer`
+        break
+      }
+      if (error instanceof OverDispatchError) {
+        reason = error.message
+        break
+      }
+
+      // Cover what the refusing depot should have sent from the depots left
+      stock.delete(leg.source.id)
+      const replanned = planSplitDispatch(call, type, [...stock.values()], model, left)
+      legs = replanned.legs
+      if (replanned.unmet > 0) reason = `No depot has ${replanned.unmet} more ${type} unit(s)`
+    }
+  }
+
+  const sent = plan.requested - left
+  const batch: SplitDispatchBatch = {
+    id,
+    type,
+    call,
+    requested: plan.requested,
+    results,
+    sent,
+    totalDistance: results.filter((result) => result.success).reduce((sum, result) => sum + result.dispatch.distance, 0),
+    state: left === 0 ? "completed" : sent > 0 ? "partial" : "failed",
+    reason: left === 0 ? undefined : reason,
+  }
+
+  logger.info("Split dispatch finished", {
+    batch: id,
+    state: batch.state,
+    sent,
+    requested: plan.requested,
+    failed: results.filter((result) => !result.success).length,
+  })
+  return batch
+}
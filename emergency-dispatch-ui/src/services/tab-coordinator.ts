@@ -0,0 +1,365 @@
+/**
+ * Tab Coordinator
+ *
+ * Keeps dashboard tabs of one browser from working against each other. Tabs
+ * talk over a BroadcastChannel:
+ *
+ * - Every tab sends a heartbeat. The oldest live tab is the leader, and only
+ *   the leader polls and auto-fetches; the others follow what it shares.
+ *   When the leader closes or stops answering, the next oldest takes over.
+ * - Dispatches, queue reads and inventory changes are mirrored to every tab.
+ * - A tab locks a call while it dispatches to it, so other tabs cannot
+ *   dispatch to the same call at the same time.
+ *
+ * Without BroadcastChannel the tab is alone and always leads.
+ */
+import { logger } from "@/components/logger"
+import type { TabUpdate } from "@/types"
+import { createIdempotencyKey } from "./dispatch-ledger"
+
+const CHANNEL_NAME = "emercery-tabs"
+const HEARTBEAT_MS = 1000
+// A tab not heard from for this long is considered closed
+const PEER_TIMEOUT_MS = 3500
+// How long a new tab listens for the others before taking part in the election
+const ELECTION_MS = 1500
+// Locks of a tab that crashed mid-dispatch expire after this long
+const LOCK_TTL_MS = 30000
+// How long a tab waits for competing claims on a call before it dispatches
+const LOCK_SETTLE_MS = 100
+
+interface CallLock {
+  callId: string
+  tabId: string
+  claimedAt: number
+  expiresAt: number
+}
+
+interface Peer {
+  tabId: string
+  openedAt: number
+  lastSeen: number
+}
+
+type TabMessage =
+  // hello asks the other tabs to answer at once instead of at their next heartbeat
+  | { kind: "heartbeat"; tabId: string; openedAt: number; locks: CallLock[]; hello?: boolean }
+  | { kind: "bye"; tabId: string }
+  | { kind: "lock"; lock: CallLock }
+  | { kind: "unlock"; callId: string; tabId: string }
+  | { kind: "update"; tabId: string; update: TabUpdate }
+
+type StateListener = () => void
+type UpdateListener = (update: TabUpdate) => void
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Earlier claims win, ties go to the smaller tab id, so every tab settles a conflict the same way
+const precedes = (a: CallLock, b: CallLock) => a.claimedAt < b.claimedAt || (a.claimedAt === b.claimedAt && a.tabId < b.tabId)
+
+// The oldest tab leads, ties go to the smaller tab id
+const outranks = (a: Omit<Peer, "lastSeen">, b: Omit<Peer, "lastSeen">) =>
+  a.openedAt < b.openedAt || (a.openedAt === b.openedAt && a.tabId < b.tabId)
+
+export class TabCoordinator {
+  readonly tabId = createIdempotencyKey()
+  private openedAt = Date.now()
+  private channel: BroadcastChannel | null = null
+  private heartbeat: ReturnType<typeof setInterval> | null = null
+  private peers = new Map<string, Peer>()
+  private locks = new Map<string, CallLock>()
+  private leader = true
+  private elected: Promise<void> = Promise.resolve()
+  private settled = true
+  private listeners = new Set<StateListener>()
+  private updateListeners = new Set<UpdateListener>()
+  private users = 0
+
+  /**
+   * Joins the other tabs while at least one caller uses the coordinator
+   *
+   * @returns Function that leaves again after the last caller
+   */
+  retain(): () => void {
+    this.users += 1
+    if (this.users === 1) this.start()
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.users -= 1
+      if (this.users === 0) this.stop()
+    }
+  }
+
+  /**
+   * Registers a listener called when the leader, the open tabs or the call locks change
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Registers a listener for the updates other tabs share
+   *
+   * @returns Function that removes the listener
+   */
+  subscribeToUpdates(listener: UpdateListener): () => void {
+    this.updateListeners.add(listener)
+    return () => {
+      this.updateListeners.delete(listener)
+    }
+  }
+
+  /**
+   * Whether this tab drives polling and auto-fetch
+   */
+  isLeader(): boolean {
+    return this.leader
+  }
+
+  /**
+   * Resolves once the first election after joining is decided
+   *
+   * @returns Whether this tab leads
+   */
+  async waitForElection(): Promise<boolean> {
+    await this.elected
+    return this.leader
+  }
+
+  /**
+   * Number of open dashboard tabs, this one included
+   */
+  getTabCount(): number {
+    return this.peers.size + 1
+  }
+
+  /**
+   * Shares a change with every other tab
+   */
+  publish(update: TabUpdate): void {
+    this.post({ kind: "update", tabId: this.tabId, update })
+  }
+
+  /**
+   * Claims a call for a dispatch from this tab
+   *
+   * @returns False if another tab is dispatching to the call
+   */
+  async lockCall(callId: string): Promise<boolean> {
+    this.expireLocks()
+    if (this.isLockedElsewhere(callId)) return false
+    if (!this.channel) {
+      this.setLock(this.claim(callId))
+      return true
+    }
+
+    const lock = this.claim(callId)
+    this.setLock(lock)
+    this.post({ kind: "lock", lock })
+
+    // Another tab may have claimed the call at the same moment; both keep the earlier claim
+    await sleep(LOCK_SETTLE_MS)
+    const won = this.locks.get(callId)?.tabId === this.tabId
+    if (!won) logger.info("Call is being dispatched from another tab", { callId })
+    return won
+  }
+
+  /**
+   * Releases a call claimed by this tab
+   */
+  unlockCall(callId: string): void {
+    if (this.locks.get(callId)?.tabId !== this.tabId) return
+    this.locks.delete(callId)
+    this.post({ kind: "unlock", callId, tabId: this.tabId })
+    this.notify()
+  }
+
+  /**
+   * Whether another tab is dispatching to a call
+   */
+  isLockedElsewhere(callId: string): boolean {
+    const lock = this.locks.get(callId)
+    return Boolean(lock && lock.tabId !== this.tabId && lock.expiresAt > Date.now())
+  }
+
+  /**
+   * Ids of the calls other tabs are dispatching to
+   */
+  getLockedCallIds(): Set<string> {
+    return new Set([...this.locks.values()].filter((lock) => lock.tabId !== this.tabId).map((lock) => lock.callId))
+  }
+
+  private start(): void {
+    if (typeof BroadcastChannel === "undefined") return
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME)
+    this.channel.onmessage = (message: MessageEvent<TabMessage>) => this.handleMessage(message.data)
+
+    // Stay a follower until the tabs already open have answered
+    this.leader = false
+    this.settled = false
+    this.elected = sleep(ELECTION_MS).then(() => {
+      this.settled = true
+      this.elect()
+    })
+
+    this.sendHeartbeat(true)
+    this.heartbeat = setInterval(() => {
+      this.prune()
+      this.sendHeartbeat(false)
+    }, HEARTBEAT_MS)
+    window.addEventListener("pagehide", this.leave)
+  }
+
+  private stop(): void {
+    if (!this.channel) return
+
+    this.leave()
+    window.removeEventListener("pagehide", this.leave)
+    if (this.heartbeat) clearInterval(this.heartbeat)
+    this.heartbeat = null
+    this.channel?.close()
+    this.channel = null
+    this.peers.clear()
+    this.locks.clear()
+    this.settled = true
+    this.leader = true
+  }
+
+  // Tells the other tabs to re-elect and release this tab's locks right away
+  private leave = () => {
+    this.post({ kind: "bye", tabId: this.tabId })
+  }
+
+  private post(message: TabMessage): void {
+    try {
+      this.channel?.postMessage(message)
+    } catch (error) {
+      logger.warn("Failed to reach other dashboard tabs", { error, kind: message.kind })
+    }
+  }
+
+  private sendHeartbeat(hello: boolean): void {
+    const locks = [...this.locks.values()].filter((lock) => lock.tabId === this.tabId)
+    this.post({ kind: "heartbeat", tabId: this.tabId, openedAt: this.openedAt, locks, hello })
+  }
+
+  private handleMessage(message: TabMessage): void {
+    switch (message.kind) {
+      case "heartbeat": {
+        const known = this.peers.has(message.tabId)
+        this.peers.set(message.tabId, { tabId: message.tabId, openedAt: message.openedAt, lastSeen: Date.now() })
+        message.locks.forEach((lock) => this.receiveLock(lock))
+        if (message.hello) this.sendHeartbeat(false)
+        if (!known) this.elect(true)
+        break
+      }
+      case "bye":
+        this.forgetPeer(message.tabId)
+        this.elect(true)
+        break
+      case "lock":
+        this.receiveLock(message.lock)
+        break
+      case "unlock":
+        if (this.locks.get(message.callId)?.tabId === message.tabId) {
+          this.locks.delete(message.callId)
+          this.notify()
+        }
+        break
+      case "update":
+        this.updateListeners.forEach((listener) => {
+          try {
+            listener(message.update)
+          } catch (error) {
+            logger.warn("Tab update listener failed", { error, kind: message.update.kind })
+          }
+        })
+        break
+    }
+  }
+
+  private receiveLock(lock: CallLock): void {
+    const held = this.locks.get(lock.callId)
+    if (held && held.tabId !== lock.tabId && held.expiresAt > Date.now() && !precedes(lock, held)) return
+    this.setLock(lock)
+  }
+
+  private claim(callId: string): CallLock {
+    const claimedAt = Date.now()
+    return { callId, tabId: this.tabId, claimedAt, expiresAt: claimedAt + LOCK_TTL_MS }
+  }
+
+  private setLock(lock: CallLock): void {
+    this.locks.set(lock.callId, lock)
+    this.notify()
+  }
+
+  private forgetPeer(tabId: string): void {
+    this.peers.delete(tabId)
+    this.locks.forEach((lock, callId) => {
+      if (lock.tabId === tabId) this.locks.delete(callId)
+    })
+  }
+
+  private expireLocks(): boolean {
+    const now = Date.now()
+    let expired = false
+    this.locks.forEach((lock, callId) => {
+      if (lock.expiresAt <= now) {
+        this.locks.delete(callId)
+        expired = true
+      }
+    })
+    return expired
+  }
+
+  // Drops tabs that stopped sending heartbeats, then re-elects
+  private prune(): void {
+    const now = Date.now()
+    let changed = this.expireLocks()
+    this.peers.forEach((peer) => {
+      if (now - peer.lastSeen > PEER_TIMEOUT_MS) {
+        logger.warn("Dashboard tab stopped responding", { tabId: peer.tabId })
+        this.forgetPeer(peer.tabId)
+        changed = true
+      }
+    })
+    this.elect(changed)
+  }
+
+  /**
+   * Recomputes the leader from the live tabs
+   *
+   * @param changed - Whether listeners should hear about a changed tab set even if the leader stays
+   */
+  private elect(changed = false): void {
+    const self = { tabId: this.tabId, openedAt: this.openedAt }
+    const leader = this.settled && [...this.peers.values()].every((peer) => outranks(self, peer))
+
+    if (leader !== this.leader) {
+      this.leader = leader
+      logger.info(leader ? "This tab now leads the dashboard tabs" : "Another dashboard tab leads", {
+        tabId: this.tabId,
+        tabs: this.getTabCount(),
+      })
+      changed = true
+    }
+    if (changed) this.notify()
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+// Coordinator shared by every panel of the page
+export const tabCoordinator = new TabCoordinator()
@@ -0,0 +1,90 @@
+/**
+ * Triage Rule Settings
+ *
+ * Holds the triage rules edited in the UI and persists them in localStorage.
+ * The emergency queue, auto-fetch and the in-browser auto-dispatch engine all
+ * read from here.
+ */
+import { logger } from "@/components/logger"
+import { DEFAULT_TRIAGE_RULES, TRIAGE_FACTORS, type TriageRules } from "./triage"
+
+const STORAGE_KEY = "triageRules"
+
+type RulesListener = (rules: TriageRules) => void
+
+const listeners = new Set<RulesListener>()
+let current: TriageRules | null = null
+
+/**
+ * Fills missing or unusable values from the defaults
+ */
+function normalizeRules(value: unknown): TriageRules {
+  const stored = (value ?? {}) as Partial<TriageRules>
+  const usable = (number: unknown): number is number => typeof number === "number" && Number.isFinite(number)
+
+  const weights = { ...DEFAULT_TRIAGE_RULES.weights }
+  TRIAGE_FACTORS.forEach(({ name }) => {
+    const weight = stored.weights?.[name]
+    if (usable(weight) && weight >= 0) weights[name] = weight
+  })
+
+  return {
+    weights,
+    urgencyStart: usable(stored.urgencyStart)
+      ? Math.min(Math.max(stored.urgencyStart, 0), 0.95)
+      : DEFAULT_TRIAGE_RULES.urgencyStart,
+  }
+}
+
+/**
+ * Reads the persisted rules, falling back to the defaults
+ */
+function loadRules(): TriageRules {
+  if (typeof window === "undefined") return DEFAULT_TRIAGE_RULES
+
+  const stored = localStorage.getItem(STORAGE_KEY)
+  if (!stored) return DEFAULT_TRIAGE_RULES
+
+  try {
+    return normalizeRules(JSON.parse(stored))
+  } catch (error) {
+    logger.warn("Stored triage rules are unreadable, using the defaults", { error })
+    return DEFAULT_TRIAGE_RULES
+  }
+}
+
+/**
+ * Returns the current triage rules
+ */
+export function getTriageRules(): TriageRules {
+  if (current === null) {
+    current = loadRules()
+  }
+  return current
+}
+
+/**
+ * Changes and persists the triage rules
+ */
+export function setTriageRules(rules: TriageRules): void {
+  current = normalizeRules(rules)
+  if (typeof window !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current))
+  }
+  logger.info("Triage rules changed", { rules: current })
+
+  const changed = current
+  listeners.forEach((listener) => listener(changed))
+}
+
+/**
+ * Subscribes to triage rule changes
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToTriageRules(listener: RulesListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
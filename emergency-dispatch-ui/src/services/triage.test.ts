@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest"
+import type { EmergencyCall, EmergencyResource, EmergencyType } from "@/types"
+import { DISTANCE_MODELS } from "@/utils/distance"
+import type { PlannedDispatch } from "./assignment-optimizer"
+import { DEFAULT_TRIAGE_RULES, orderByPriority, triageCalls, type TriageRules } from "./triage"
+
+// Planar distances are in degrees, so a depot 0.5° away sits at the Fair limit
+const model = DISTANCE_MODELS.planar
+
+const call = (id: string, requests: [EmergencyType, number][], dispatched = 0): EmergencyCall => ({
+  id,
+  county: "Cluj",
+  city: id,
+  latitude: 0,
+  longitude: 0,
+  requests: requests.map(([Type, Quantity]) => ({ Type, Quantity })),
+  dispatched: { Fire: dispatched } as EmergencyCall["dispatched"],
+})
+
+const depot = (type: EmergencyType, latitude: number, city = "Depot"): EmergencyResource => ({
+  id: `${type}:Cluj:${city}`,
+  type,
+  county: "Cluj",
+  city,
+  latitude,
+  longitude: 0,
+  quantity: 5,
+})
+
+const only = (name: keyof TriageRules["weights"]): TriageRules => ({
+  ...DEFAULT_TRIAGE_RULES,
+  weights: { units: 0, types: 0, age: 0, distance: 0, urgency: 0, [name]: 1 },
+})
+
+describe("triageCalls", () => {
+  it("scores each factor of what a call still needs", () => {
+    const [result] = triageCalls(
+      [call("a", [["Fire", 2], ["Medical", 1]])],
+      [depot("Fire", 0.25)],
+      model,
+      DEFAULT_TRIAGE_RULES,
+      { callLifetime: 10 },
+    )
+
+    const factors = Object.fromEntries(result.factors.map((factor) => [factor.name, factor]))
+    expect(factors.units).toMatchObject({ value: 3, points: 6, label: "3 unit(s)" })
+    expect(factors.types).toMatchObject({ value: 2, points: 6 })
+    // Medical has no stock, so it is the worst served type
+    expect(factors.distance).toMatchObject({ value: 2, points: 20, label: "no Medical in stock" })
+    expect(factors.age).toBeUndefined()
+    expect(result.factors[0].name).toBe("distance")
+    expect(result.score).toBe(32)
+  })
+
+  it("measures distance to the nearest stocked depot in Fair ratings", () => {
+    const depots = [depot("Fire", 2, "Far"), depot("Fire", 0.25, "Near")]
+
+    const [result] = triageCalls([call("a", [["Fire", 1]])], depots, model, only("distance"), { callLifetime: 10 })
+
+    expect(result.factors).toEqual([{ name: "distance", value: 0.5, points: 0.5, label: "nearest Fire 0.25°" }])
+  })
+
+  it("ranks fully served calls last with no factors and breaks ties by age", () => {
+    const calls = [call("served", [["Fire", 1]], 1), call("older", [["Fire", 1]]), call("newer", [["Fire", 1]])]
+
+    const ranking = triageCalls(calls, [depot("Fire", 0)], model, only("units"), { callLifetime: 10 })
+
+    expect(ranking.map((result) => [result.call.id, result.rank, result.score])).toEqual([
+      ["older", 1, 1],
+      ["newer", 2, 1],
+      ["served", 3, 0],
+    ])
+    expect(ranking[2].factors).toEqual([])
+  })
+
+  it("raises urgency over the last part of a call's lifetime", () => {
+    const calls = [call("missing", [["Fire", 1]]), call("halfway", [["Fire", 1]]), call("fresh", [["Fire", 1]])]
+    const newerCalls = new Map([
+      ["missing", 3],
+      ["halfway", 1],
+      ["fresh", 0],
+    ])
+
+    const ranking = triageCalls(calls, [depot("Fire", 0)], model, only("urgency"), { callLifetime: 4, newerCalls })
+
+    const byId = Object.fromEntries(ranking.map((result) => [result.call.id, result]))
+    expect(byId.missing).toMatchObject({ score: 1, callsToMiss: 1, newerCalls: 3 })
+    expect(byId.missing.factors[0].label).toBe("missed in 1 call(s)")
+    expect(byId.halfway.score).toBe(0)
+    expect(byId.fresh).toMatchObject({ score: 0, callsToMiss: 4 })
+  })
+
+  it("counts the calls behind a call when arrivals are not known", () => {
+    const calls = [call("a", [["Fire", 1]]), call("b", [["Fire", 1]]), call("c", [["Fire", 1]])]
+
+    const ranking = triageCalls(calls, [], model, only("age"), { callLifetime: 10 })
+
+    expect(ranking.map((result) => [result.call.id, result.newerCalls])).toEqual([
+      ["a", 2],
+      ["b", 1],
+      ["c", 0],
+    ])
+  })
+})
+
+describe("orderByPriority", () => {
+  it("serves each target as early as its most pressing call and keeps the order within it", () => {
+    const calm = call("calm", [["Fire", 1]])
+    const older = { ...call("older", [["Fire", 1]]), city: "Dej" }
+    const pressing = { ...call("pressing", [["Fire", 1]]), city: "Dej" }
+    const source = depot("Fire", 0)
+    const planned: PlannedDispatch[] = [calm, older, pressing].map((target) => ({
+      type: "Fire",
+      source,
+      call: target,
+      quantity: 1,
+      distance: 0,
+    }))
+    const ranking = triageCalls([calm, older, pressing], [], model, only("age"), {
+      callLifetime: 10,
+      newerCalls: new Map([
+        ["calm", 0],
+        ["older", 1],
+        ["pressing", 5],
+      ]),
+    })
+
+    expect(orderByPriority(planned, ranking).map((dispatch) => dispatch.call.id)).toEqual(["older", "pressing", "calm"])
+  })
+})
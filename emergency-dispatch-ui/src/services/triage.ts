@@ -0,0 +1,189 @@
+/**
+ * Call Triage
+ *
+ * Scores open calls so the most pressing ones are served first. A call's
+ * score is the sum of its weighted factors:
+ *
+ * - units: units it still needs
+ * - types: distinct emergency types it still needs
+ * - age: newer calls that arrived since it
+ * - distance: distance from the call to the nearest stocked depot of its worst
+ *   served type, in multiples of the distance model's Fair rating. A type no
+ *   depot has in stock counts as twice the Fair rating.
+ * - urgency: rises from 0 to 1 over the last part of the call's lifetime and
+ *   reaches 1 when the next call to arrive would get it missed
+ *
+ * Fully served calls score 0. Ties go to the older call. Triage has no UI
+ * dependencies, so the auto-dispatch engine ranks its queue the same way.
+ */
+import type { EmergencyCall, EmergencyResource, EmergencyType } from "@/types"
+import type { DistanceModel } from "@/utils/distance"
+import { getDispatchTargetKey, type PlannedDispatch } from "./assignment-optimizer"
+import { createResourceIndex } from "./resource-index"
+import { getRemainingNeed } from "./scoring"
+
+export type TriageFactorName = "units" | "types" | "age" | "distance" | "urgency"
+
+export interface TriageRules {
+  /** Points per unit of each factor's value */
+  weights: Record<TriageFactorName, number>
+  /** Share of a call's lifetime after which urgency starts to rise (0 to 1) */
+  urgencyStart: number
+}
+
+export interface TriageContext {
+  /** Newer calls that may arrive before an unfinished call is missed */
+  callLifetime: number
+  /** Newer calls that arrived since each call, by call id. Other calls count the calls behind them in the queue. */
+  newerCalls?: Map<string, number>
+}
+
+export interface TriageFactor {
+  name: TriageFactorName
+  /** Value before weighting */
+  value: number
+  points: number
+  /** Short human-readable reason, e.g. "4 units" */
+  label: string
+}
+
+export interface TriageResult {
+  call: EmergencyCall
+  score: number
+  /** Position in the ranking, starting at 1 */
+  rank: number
+  /** Factors that added points, largest first */
+  factors: TriageFactor[]
+  newerCalls: number
+  /** Newer calls that may still arrive before the call is missed */
+  callsToMiss: number
+}
+
+export const TRIAGE_FACTORS: { name: TriageFactorName; label: string }[] = [
+  { name: "units", label: "Units needed" },
+  { name: "types", label: "Types needed" },
+  { name: "age", label: "Age in queue" },
+  { name: "distance", label: "Distance to nearest unit" },
+  { name: "urgency", label: "Close to missed" },
+]
+
+export const DEFAULT_TRIAGE_RULES: TriageRules = {
+  weights: { units: 2, types: 3, age: 1, distance: 10, urgency: 50 },
+  urgencyStart: 0.5,
+}
+
+// Distance value of a type no depot has in stock, in multiples of the Fair rating
+const UNSTOCKED_DISTANCE = 2
+
+const EMERGENCY_TYPES: EmergencyType[] = ["Medical", "Police", "Fire", "Rescue", "Utility"]
+
+const reach = (entry: { nearest?: { distance: number } }) =>
+  entry.nearest ? entry.nearest.distance : Number.POSITIVE_INFINITY
+
+/**
+ * Scores and ranks open calls
+ *
+ * @param calls - Open calls with their dispatched counts, oldest first
+ * @param inventory - Available units of every type
+ * @param model - Distance model used to find the nearest depots
+ * @returns Every call, most pressing first
+ */
+export function triageCalls(
+  calls: EmergencyCall[],
+  inventory: EmergencyResource[],
+  model: DistanceModel,
+  rules: TriageRules,
+  context: TriageContext,
+): TriageResult[] {
+  const index = createResourceIndex(model)
+  EMERGENCY_TYPES.forEach((type) => index.setResources(type, inventory))
+  const fairLimit = model.ratingTiers[2]
+  const lifetime = Math.max(1, context.callLifetime)
+
+  const scored = calls.map((call, position) => {
+    const newerCalls = context.newerCalls?.get(call.id) ?? calls.length - 1 - position
+    const callsToMiss = Math.max(0, lifetime - newerCalls)
+    const needed = [...new Set(call.requests.map((request) => request.Type))].filter(
+      (type) => getRemainingNeed(call, type) > 0,
+    )
+    if (needed.length === 0) return { call, position, score: 0, factors: [], newerCalls, callsToMiss }
+
+    const units = needed.reduce((sum, type) => sum + getRemainingNeed(call, type), 0)
+
+    // The type whose nearest stocked depot is farthest decides how hard the call is to serve
+    const worst = needed
+      .map((type) => ({ type, nearest: index.nearest(type, call.latitude, call.longitude, { k: 1 })[0] }))
+      .reduce((a, b) => (reach(b) > reach(a) ? b : a))
+    const distance = worst.nearest ? worst.nearest.distance / fairLimit : UNSTOCKED_DISTANCE
+
+    // 1 once the next call to arrive would get this one missed
+    const progress = Math.min(1, (newerCalls + 1) / lifetime)
+    const start = Math.min(Math.max(rules.urgencyStart, 0), 0.99)
+    const urgency = Math.max(0, (progress - start) / (1 - start))
+
+    const values: Record<TriageFactorName, { value: number; label: string }> = {
+      units: { value: units, label: `${units} unit(s)` },
+      types: { value: needed.length, label: `${needed.length} type(s)` },
+      age: { value: newerCalls, label: `${newerCalls} call(s) old` },
+      distance: {
+        value: distance,
+        label: worst.nearest
+          ? `nearest ${worst.type} ${model.format(worst.nearest.distance)}`
+          : `no ${worst.type} in stock`,
+      },
+      urgency: { value: urgency, label: `missed in ${callsToMiss} call(s)` },
+    }
+
+    const factors = TRIAGE_FACTORS.map(({ name }) => ({
+      name,
+      ...values[name],
+      points: values[name].value * (rules.weights[name] ?? 0),
+    }))
+      .filter((factor) => factor.points > 0)
+      .sort((a, b) => b.points - a.points)
+
+    return {
+      call,
+      position,
+      score: factors.reduce((sum, factor) => sum + factor.points, 0),
+      factors,
+      newerCalls,
+      callsToMiss,
+    }
+  })
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.position - b.position)
+    .map(({ call, score, factors, newerCalls, callsToMiss }, rank) => ({
+      call,
+      score,
+      rank: rank + 1,
+      factors,
+      newerCalls,
+      callsToMiss,
+    }))
+}
+
+/**
+ * Orders planned dispatches by the priority of their calls. Dispatches to one
+ * target keep their order, so the API still fills the calls there oldest first.
+ *
+ * @param planned - Dispatches in execution order
+ * @param ranking - Triage of the calls the dispatches were planned for
+ */
+export function orderByPriority(planned: PlannedDispatch[], ranking: TriageResult[]): PlannedDispatch[] {
+  const rankOf = new Map(ranking.map((result) => [result.call, result.rank]))
+
+  // A target is served as early as its most pressing call needs
+  const targetRank = new Map<string, number>()
+  planned.forEach((dispatch) => {
+    const key = getDispatchTargetKey(dispatch)
+    const rank = rankOf.get(dispatch.call) ?? ranking.length + 1
+    targetRank.set(key, Math.min(targetRank.get(key) ?? rank, rank))
+  })
+
+  return planned
+    .map((dispatch, order) => ({ dispatch, order, rank: targetRank.get(getDispatchTargetKey(dispatch)) ?? 0 }))
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .map(({ dispatch }) => dispatch)
+}
@@ -36,6 +36,8 @@ export interface EmergencyRequest {
 }
 
 export interface EmergencyCall {
+  /** Stable identifier: sent by the server, or assigned by the API layer when it sends none (see entity-ids) */
+  id: string
   city: string
   county: string
   latitude: number
@@ -45,6 +47,8 @@ export interface EmergencyCall {
 }
 
 export interface EmergencyResource {
+  /** Stable identifier: sent by the server, or derived from type and place */
+  id: string
   county: string
   city: string
   latitude: number
@@ -56,6 +60,9 @@ export interface EmergencyResource {
 // Alias for backward compatibility
 export type AmbulanceLocation = EmergencyResource
 
+// Call as read from the main API, before the client gives it an id
+export type EmergencyCallPayload = Omit<EmergencyCall, "id">
+
 export interface ControlStatus {
   status: string
   runningTime: string
@@ -77,7 +84,8 @@ export interface ControlStatus {
 }
 
 export interface SimulationConfig {
-  api_url: string
+  /** Main API URL the auto-dispatch backend talks to; defaults to the active profile's */
+  api_url?: string
   seed: string
   targetDispatches: number
   maxActiveCalls: number
@@ -85,6 +93,28 @@ export interface SimulationConfig {
   status_interval: number
 }
 
+/**
+ * Progress report of an auto-dispatch run, as returned by /simulate/status
+ */
+export interface SimulationStatus {
+  status: string
+  params: {
+    api_url: string
+    seed: string
+    targetDispatches: number
+    maxActiveCalls: number
+  }
+  stats: {
+    totalDispatches: number
+    distance: number
+    runningTime: string
+    requestCount: number
+  }
+}
+
+// Where automatic dispatch runs: the :8000 Python service or a TypeScript loop in the browser
+export type AutoDispatchEngineKind = "remote" | "in-browser"
+
 // Updated DispatchRequest interface to match the API expectations
 export interface DispatchRequest {
   sourceCounty: string
@@ -94,6 +124,218 @@ export interface DispatchRequest {
   quantity: number
 }
 
+/**
+ * Score totals as reported by /control/status
+ */
+export type ScoreSummary = Pick<ControlStatus, "distance" | "penalty" | "totalDispatches" | "errors">
+
+/**
+ * Entry of a dispatch log that the scoring engine can replay
+ */
+export type ScoringEvent =
+  | { kind: "call"; call: EmergencyCall }
+  | {
+      kind: "dispatch"
+      type: EmergencyType
+      request: DispatchRequest
+      source: { latitude: number; longitude: number }
+    }
+
+/**
+ * Locally computed score compared against the server's ControlStatus
+ */
+export interface ScoreProjection {
+  local: ScoreSummary
+  currentScore: number
+  // Current score plus the average cost per unit extrapolated to targetDispatches
+  projectedScore: number
+  // Penalty charged if every open call ends up missed
+  atRiskPenalty: number
+  openCalls: number
+  // False when the log misses the reset or a dispatch could not be scored
+  complete: boolean
+  mismatches: string[]
+  // Scoring rules taken from local assumptions rather than the server; while any are listed the score is an estimate
+  assumptions: string[]
+}
+
+/**
+ * Notification emitted by the API layer after a successful control, call, search or dispatch request
+ */
+export type ApiEvent =
+  | { kind: "reset"; seed: string; targetDispatches: number; maxActiveCalls: number }
+  | { kind: "call"; call: EmergencyCall }
+  | { kind: "resources"; type: EmergencyType; resources: EmergencyResource[] }
+  | { kind: "dispatch"; type: EmergencyType; request: DispatchRequest }
+
+/**
+ * Change pushed by the live event stream (/api/events). The stream carries
+ * calls as the API sent them; the browser gives them ids before panels see them.
+ */
+export type LiveEvent<Call = EmergencyCall> =
+  // Changed fields of /control/status; the first event of a stream or run carries every field
+  | { kind: "status"; changes: Partial<ControlStatus> }
+  // Open calls, with the ones that arrived since the previous event
+  | { kind: "calls"; arrived: Call[]; queue: Call[] }
+  // Dispatches completed since the previous event and the distance they added
+  | { kind: "dispatches"; count: number; distance: number; totalDispatches: number }
+  | { kind: "inventory"; type: EmergencyType; resources: EmergencyResource[] }
+  | { kind: "auto-dispatch"; status: SimulationStatus | null }
+
+/**
+ * Lifecycle of a dispatch in the local ledger:
+ * - pending: sent, outcome not known yet
+ * - confirmed: the server applied it, either answering or as found by reconciliation
+ * - failed: the server did not apply it
+ * - unconfirmed: reconciliation could not tell; it is never retried automatically
+ */
+export type DispatchLedgerState = "pending" | "confirmed" | "failed" | "unconfirmed"
+
+export interface DispatchLedgerEntry {
+  /** Idempotency key sent with every attempt of this dispatch */
+  key: string
+  type: EmergencyType
+  request: DispatchRequest
+  state: DispatchLedgerState
+  attempts: number
+  /** Whether the outcome was settled by reading the queue and depots instead of a response */
+  reconciled: boolean
+  /** Epoch milliseconds */
+  createdAt: number
+  updatedAt: number
+  error?: string
+}
+
+/**
+ * Lifecycle of a dispatch intent queued while the API was unreachable:
+ * - pending: waiting for the API to come back
+ * - submitting: revalidated and being sent
+ * - dispatched: sent and confirmed
+ * - dropped: no longer valid against fresh inventory and call needs, never sent
+ * - failed: sent but rejected, or its outcome could not be confirmed
+ */
+export type OutboxIntentState = "pending" | "submitting" | "dispatched" | "dropped" | "failed"
+
+export interface OutboxIntent {
+  id: string
+  type: EmergencyType
+  request: DispatchRequest
+  state: OutboxIntentState
+  /** Epoch milliseconds when the operator queued it */
+  queuedAt: number
+  settledAt?: number
+  /** Why the intent was dropped or failed */
+  reason?: string
+}
+
+/**
+ * Log line persisted by the logger; metadata fields are spread into the record
+ */
+export interface LogRecord {
+  timestamp: string
+  level: "debug" | "info" | "warn" | "error"
+  message: string
+  sessionId: string
+  [field: string]: unknown
+}
+
+/**
+ * Error tracked by the logger with the page it happened on
+ */
+export interface ErrorRecord {
+  timestamp: string
+  message: string
+  sessionId: string
+  userAgent: string
+  url: string
+  [field: string]: unknown
+}
+
+/**
+ * Response time of one API request
+ */
+export interface ApiTimingRecord {
+  timestamp: string
+  url: string
+  method: string
+  responseTime: number
+  status: number
+  success: boolean
+}
+
+/**
+ * Call seen leaving the queue unserved, kept across sessions to learn when calls get missed
+ */
+export interface MissObservation {
+  timestamp: string
+  /** Newer calls that had arrived when the miss was seen */
+  newerCalls: number
+  /** Active call limit of the run */
+  maxActiveCalls: number
+  /** Milliseconds the call spent in the queue */
+  ageMs: number
+  /** Milliseconds it spent partially served; 0 if no unit reached it */
+  partialMs: number
+}
+
+/**
+ * Value stored under a fixed key, such as a cached snapshot or recovery state
+ */
+export interface KeyedRecord<T = unknown> {
+  key: string
+  value: T
+  /** Epoch milliseconds of the last write */
+  updatedAt: number
+}
+
+/**
+ * Running simulation saved by the dashboard so a reloaded page can offer to resume it
+ */
+export interface SavedSimulationState {
+  seed: string
+  targetDispatches: number
+  maxActiveCalls: number
+  totalDispatched: number
+  totalDistance: number
+  startTime: string
+  isRunning: boolean
+  isAutoDispatch: boolean
+  /** ISO timestamp of the last save; states older than an hour are not offered */
+  lastUpdated: string
+}
+
+/**
+ * Call or depot in the resource cache, stored once under its id
+ */
+export interface CachedEntity<T> extends KeyedRecord<T> {
+  /** Position in the list it was cached with, to restore the list's order */
+  position: number
+}
+
+/**
+ * Change one dashboard tab shares with the other tabs of the same browser
+ */
+export type TabUpdate =
+  // A run was started or stopped, or switched between manual and auto dispatch
+  | { kind: "run"; running: boolean; isAutoDispatch: boolean }
+  | { kind: "auto-fetch"; enabled: boolean; seconds: number }
+  | { kind: "status"; status: ControlStatus }
+  | { kind: "queue"; queue: EmergencyCall[] }
+  | { kind: "inventory"; resources: EmergencyResource[]; stats: ResourceAvailability[] }
+  // A dispatch this tab made; tabs may use different distance models, so each measures it from the endpoints
+  | {
+      kind: "dispatch"
+      callId: string
+      resourceId: string
+      type: EmergencyType
+      quantity: number
+      source: { latitude: number; longitude: number }
+      target: { latitude: number; longitude: number }
+    }
+
+// State of the live event stream; "down" means panels fall back to polling
+export type LiveStreamState = "connecting" | "open" | "down"
+
 // New interface for tracking emergency status
 export interface EmergencyStatus {
   total: number
@@ -109,6 +351,12 @@ export interface ApiError extends Error {
   method: string
   retries: number
   originalError?: Error
+  /** Set when the request was refused without reaching the server because its circuit is open */
+  category?: "circuit_open"
+  /** Milliseconds until the endpoint accepts requests again, if known */
+  retryAfterMs?: number
+  /** HTTP status of the last response, absent if none arrived (network error or timeout) */
+  status?: number
 }
 
 /**
@@ -119,6 +367,63 @@ export interface ApiResponse<T> {
   status: number
   headers: Headers
   responseTime: number
+  /** Dispatch guard checkpoint taken when the read that answered was sent; absent for writes */
+  checkpoint?: number
+}
+
+export type EnvironmentProfileId = "local" | "emulator" | "staging" | "competition"
+
+/**
+ * Named set of backend endpoints and request policy
+ */
+export interface EnvironmentProfile {
+  id: EnvironmentProfileId
+  label: string
+  description: string
+  mainApiUrl: string
+  autoDispatchApiUrl: string
+  /** Serve the main API from the in-process emulator */
+  useEmulator: boolean
+  /** Request timeout in milliseconds */
+  timeoutMs: number
+  /** Attempts per request, including the first */
+  maxRetries: number
+  /** Base delay of the exponential retry backoff in milliseconds */
+  retryDelayMs: number
+}
+
+/**
+ * Fetch-compatible function used by the API layer to reach a backend
+ */
+export type ApiTransport = (input: string, init?: RequestInit) => Promise<Response>
+
+/**
+ * One request/response pair made through the API layer
+ */
+export interface ApiExchange {
+  /** Epoch milliseconds when the request was sent */
+  timestamp: number
+  duration: number
+  method: string
+  url: string
+  requestBody?: string
+  /** 0 when the request failed without a response */
+  status: number
+  statusText: string
+  contentType: string | null
+  responseBody: string
+  error?: string
+}
+
+/**
+ * Portable recording of every API exchange of a session
+ */
+export interface SessionRecording {
+  version: 1
+  /** Epoch milliseconds when recording started */
+  startedAt: number
+  endedAt: number
+  exchanges: ApiExchange[]
 }
 
 /**
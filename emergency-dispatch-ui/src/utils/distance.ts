@@ -4,4 +4,103 @@ export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2
     const dy = lon2 - lon1
     return Math.sqrt(dx * dx + dy * dy)
   }
-  
\ No newline at end of file
+
+const EARTH_RADIUS_KM = 6371
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+/**
+ * Great-circle (haversine) distance in kilometres
+ */
+export function calculateGreatCircleDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1)
+  const dLon = toRadians(lon2 - lon1)
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2)
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+// Detour of the road network over the straight line and average response speed
+const ROAD_DETOUR_FACTOR = 1.3
+const AVERAGE_SPEED_KMH = 60
+
+export type DistanceModelId = "planar" | "haversine" | "travel-time"
+
+/**
+ * A way of measuring how far a unit is from an emergency
+ */
+export interface DistanceModel {
+  id: DistanceModelId
+  label: string
+  unit: string
+  measure(lat1: number, lon1: number, lat2: number, lon2: number): number
+  /** Upper bounds of the Excellent, Good and Fair ratings, in the model's unit */
+  ratingTiers: [number, number, number]
+  format(value: number): string
+  /**
+   * Maps a coordinate into a space where Euclidean distance ranks points in
+   * the same order as `measure`, so spatial indexes can search in it
+   */
+  project(latitude: number, longitude: number): number[]
+  /** Converts a distance in the model's unit into the projected space */
+  projectDistance(distance: number): number
+}
+
+// Point on the unit sphere; chord length grows monotonically with great-circle distance
+const toUnitVector = (latitude: number, longitude: number): number[] => {
+  const lat = toRadians(latitude)
+  const lon = toRadians(longitude)
+  return [Math.cos(lat) * Math.cos(lon), Math.cos(lat) * Math.sin(lon), Math.sin(lat)]
+}
+
+// Chord length on the unit sphere for a great-circle distance in km
+const kmToChord = (km: number) => 2 * Math.sin(Math.min(Math.PI, km / EARTH_RADIUS_KM) / 2)
+
+const kmToMinutes = (km: number) => ((km * ROAD_DETOUR_FACTOR) / AVERAGE_SPEED_KMH) * 60
+
+export const DISTANCE_MODELS: Record<DistanceModelId, DistanceModel> = {
+  planar: {
+    id: "planar",
+    label: "Planar (degrees)",
+    unit: "°",
+    measure: calculateDistance,
+    ratingTiers: [0.1, 0.3, 0.5],
+    format: (value) => `${value.toFixed(2)}°`,
+    project: (latitude, longitude) => [latitude, longitude],
+    projectDistance: (distance) => distance,
+  },
+  haversine: {
+    id: "haversine",
+    label: "Great circle (km)",
+    unit: "km",
+    measure: calculateGreatCircleDistance,
+    ratingTiers: [10, 30, 50],
+    format: (value) => `${value.toFixed(1)} km`,
+    project: toUnitVector,
+    projectDistance: kmToChord,
+  },
+  "travel-time": {
+    id: "travel-time",
+    label: "Travel time (min)",
+    unit: "min",
+    measure: (lat1, lon1, lat2, lon2) => kmToMinutes(calculateGreatCircleDistance(lat1, lon1, lat2, lon2)),
+    ratingTiers: [15, 35, 60],
+    format: (value) => `${Math.round(value)} min`,
+    project: toUnitVector,
+    projectDistance: (minutes) => kmToChord((minutes / 60) * (AVERAGE_SPEED_KMH / ROAD_DETOUR_FACTOR)),
+  },
+}
+
+export const DEFAULT_DISTANCE_MODEL: DistanceModelId = "haversine"
+
+/**
+ * Rates a distance against a model's tiers
+ */
+export function rateDistance(model: DistanceModel, distance: number): "Excellent" | "Good" | "Fair" | "Poor" {
+  const [excellent, good, fair] = model.ratingTiers
+  if (distance < excellent) return "Excellent"
+  if (distance < good) return "Good"
+  if (distance < fair) return "Fair"
+  return "Poor"
+}
@@ -1,5 +1,6 @@
 import { logger } from "@/components/logger"
 import { toast } from "sonner"
+import type { ApiError } from "@/types"
 
 // Global error categories for easy referencing
 export enum ErrorCategory {
@@ -8,6 +9,8 @@ export enum ErrorCategory {
   TIMEOUT = "timeout",
   AUTH = "auth",
   VALIDATION = "validation",
+  // Refused locally because the endpoint's circuit breaker is open
+  CIRCUIT_OPEN = "circuit_open",
   UNKNOWN = "unknown",
 }
 
@@ -24,7 +27,10 @@ export const ErrorHandler = {
     let userFriendlyMessage = "An unexpected error occurred. Please try again."
 
     // Categorize the error
-    if (
+    if ((error as Partial<ApiError>).category === "circuit_open") {
+      category = ErrorCategory.CIRCUIT_OPEN
+      userFriendlyMessage = "The server is failing repeatedly; requests are paused briefly to let it recover."
+    } else if (
       errorMessage.includes("fetch failed") ||
       errorMessage.includes("Network") ||
       errorMessage.includes("ECONNREFUSED")
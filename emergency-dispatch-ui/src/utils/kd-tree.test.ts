@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+import { KdTree, type KdPoint } from "./kd-tree"
+import { createSeededRandom } from "./seeded-random"
+
+const random = createSeededRandom("kd-tree")
+const points: KdPoint<number>[] = Array.from({ length: 300 }, (_, item) => ({
+  coords: [random.next() * 100, random.next() * 100],
+  item,
+}))
+const tree = new KdTree(points)
+
+// Every point with its distance to the target, closest first, as the tree should rank them
+const bruteForce = (target: number[], accept: (item: number) => boolean = () => true) =>
+  points
+    .filter((point) => accept(point.item))
+    .map((point) => ({
+      item: point.item,
+      distance: Math.hypot(point.coords[0] - target[0], point.coords[1] - target[1]),
+    }))
+    .sort((a, b) => a.distance - b.distance)
+
+describe("KdTree", () => {
+  it("finds the same nearest neighbours as a linear scan", () => {
+    for (let query = 0; query < 25; query++) {
+      const target = [random.next() * 120 - 10, random.next() * 120 - 10]
+      const expected = bruteForce(target).slice(0, 7)
+      const found = tree.nearest(target, 7)
+
+      expect(found.map((neighbour) => neighbour.item)).toEqual(expected.map((neighbour) => neighbour.item))
+      found.forEach((neighbour, index) => expect(neighbour.distance).toBeCloseTo(expected[index].distance, 9))
+    }
+  })
+
+  it("skips items the predicate rejects", () => {
+    const even = (item: number) => item % 2 === 0
+    const found = tree.nearest([50, 50], 5, even)
+
+    expect(found.map((neighbour) => neighbour.item)).toEqual(
+      bruteForce([50, 50], even)
+        .slice(0, 5)
+        .map((neighbour) => neighbour.item),
+    )
+  })
+
+  it("ranks every item when k is infinite", () => {
+    expect(tree.nearest([0, 0], Number.POSITIVE_INFINITY)).toHaveLength(points.length)
+    expect(tree.nearest([0, 0], 0)).toEqual([])
+  })
+
+  it("finds the points strictly inside a radius, closest first", () => {
+    const target = [30, 70]
+    const expected = bruteForce(target).filter((neighbour) => neighbour.distance < 15)
+
+    expect(tree.withinRadius(target, 15).map((neighbour) => neighbour.item)).toEqual(
+      expected.map((neighbour) => neighbour.item),
+    )
+  })
+
+  it("answers empty for an empty point set", () => {
+    const empty = new KdTree<number>([])
+    expect(empty.size).toBe(0)
+    expect(empty.nearest([1, 1], 3)).toEqual([])
+    expect(empty.withinRadius([1, 1], 10)).toEqual([])
+  })
+})
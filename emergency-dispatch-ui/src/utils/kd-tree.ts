@@ -0,0 +1,165 @@
+/**
+ * KD-Tree
+ *
+ * Static k-dimensional tree for nearest-neighbour and radius queries. The tree
+ * is built once from a point set; items can be skipped per query through a
+ * predicate, so changing an item's state (e.g. depleted units) never requires
+ * a rebuild.
+ */
+
+export interface KdPoint<T> {
+  coords: number[]
+  item: T
+}
+
+export interface KdNeighbour<T> {
+  item: T
+  /** Euclidean distance in the tree's coordinate space */
+  distance: number
+}
+
+interface KdNode<T> {
+  point: KdPoint<T>
+  axis: number
+  left: KdNode<T> | null
+  right: KdNode<T> | null
+}
+
+export class KdTree<T> {
+  private root: KdNode<T> | null
+  private dimensions: number
+  readonly size: number
+
+  constructor(points: KdPoint<T>[]) {
+    this.dimensions = points[0]?.coords.length ?? 0
+    this.size = points.length
+    this.root = this.build([...points], 0)
+  }
+
+  /**
+   * Finds the k nearest items, closest first
+   *
+   * @param target - Query coordinates
+   * @param k - Maximum number of results (Infinity for a full ranking)
+   * @param accept - Optional predicate; rejected items are skipped
+   */
+  nearest(target: number[], k: number, accept?: (item: T) => boolean): KdNeighbour<T>[] {
+    if (k <= 0 || !this.root) return []
+
+    // Max-heap by squared distance, so the worst of the current best is at the top
+    const best: { item: T; distanceSq: number }[] = []
+
+    const visit = (node: KdNode<T> | null) => {
+      if (!node) return
+
+      const distanceSq = squaredDistance(node.point.coords, target)
+      if ((!accept || accept(node.point.item)) && (best.length < k || distanceSq < best[0].distanceSq)) {
+        heapPush(best, { item: node.point.item, distanceSq })
+        if (best.length > k) heapPop(best)
+      }
+
+      const delta = target[node.axis] - node.point.coords[node.axis]
+      const [near, far] = delta < 0 ? [node.left, node.right] : [node.right, node.left]
+      visit(near)
+      // Only cross the splitting plane if it is closer than the current worst result
+      if (best.length < k || delta * delta < best[0].distanceSq) {
+        visit(far)
+      }
+    }
+
+    visit(this.root)
+
+    return best
+      .sort((a, b) => a.distanceSq - b.distanceSq)
+      .map(({ item, distanceSq }) => ({ item, distance: Math.sqrt(distanceSq) }))
+  }
+
+  /**
+   * Finds all items within a radius, closest first
+   *
+   * @param target - Query coordinates
+   * @param radius - Maximum Euclidean distance (exclusive)
+   * @param accept - Optional predicate; rejected items are skipped
+   */
+  withinRadius(target: number[], radius: number, accept?: (item: T) => boolean): KdNeighbour<T>[] {
+    const radiusSq = radius * radius
+    const found: { item: T; distanceSq: number }[] = []
+
+    const visit = (node: KdNode<T> | null) => {
+      if (!node) return
+
+      const distanceSq = squaredDistance(node.point.coords, target)
+      if (distanceSq < radiusSq && (!accept || accept(node.point.item))) {
+        found.push({ item: node.point.item, distanceSq })
+      }
+
+      const delta = target[node.axis] - node.point.coords[node.axis]
+      visit(delta < 0 ? node.left : node.right)
+      if (delta * delta < radiusSq) {
+        visit(delta < 0 ? node.right : node.left)
+      }
+    }
+
+    visit(this.root)
+
+    return found
+      .sort((a, b) => a.distanceSq - b.distanceSq)
+      .map(({ item, distanceSq }) => ({ item, distance: Math.sqrt(distanceSq) }))
+  }
+
+  /**
+   * Builds a balanced subtree by splitting on the median of alternating axes
+   */
+  private build(points: KdPoint<T>[], depth: number): KdNode<T> | null {
+    if (points.length === 0) return null
+
+    const axis = depth % this.dimensions
+    points.sort((a, b) => a.coords[axis] - b.coords[axis])
+    const median = Math.floor(points.length / 2)
+
+    return {
+      point: points[median],
+      axis,
+      left: this.build(points.slice(0, median), depth + 1),
+      right: this.build(points.slice(median + 1), depth + 1),
+    }
+  }
+}
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    const delta = a[i] - b[i]
+    sum += delta * delta
+  }
+  return sum
+}
+
+function heapPush<E extends { distanceSq: number }>(heap: E[], entry: E) {
+  heap.push(entry)
+  let index = heap.length - 1
+  while (index > 0) {
+    const parent = (index - 1) >> 1
+    if (heap[parent].distanceSq >= heap[index].distanceSq) break
+    ;[heap[parent], heap[index]] = [heap[index], heap[parent]]
+    index = parent
+  }
+}
+
+function heapPop<E extends { distanceSq: number }>(heap: E[]) {
+  const last = heap.pop()
+  if (!last || heap.length === 0) return
+
+  heap[0] = last
+  let index = 0
+  while (true) {
+    const left = index * 2 + 1
+    const right = left + 1
+    let largest = index
+    if (left < heap.length && heap[left].distanceSq > heap[largest].distanceSq) largest = left
+    if (right < heap.length && heap[right].distanceSq > heap[largest].distanceSq) largest = right
+    if (largest === index) break
+    ;[heap[largest], heap[index]] = [heap[index], heap[largest]]
+    index = largest
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest"
+import { MinCostFlow } from "./min-cost-flow"
+import { createSeededRandom } from "./seeded-random"
+
+interface Transport {
+  supplies: number[]
+  demands: number[]
+  costs: number[][]
+}
+
+/**
+ * Best (flow, cost) over every integer allocation of a small transport problem
+ */
+function bruteForce({ supplies, demands, costs }: Transport): { flow: number; cost: number } {
+  const cells = supplies.flatMap((_, s) => demands.map((_, d) => [s, d]))
+  const allocation = new Array<number>(cells.length).fill(0)
+  let best = { flow: 0, cost: 0 }
+
+  const visit = (cell: number) => {
+    if (cell === cells.length) {
+      const shipped = (index: number, of: 0 | 1) =>
+        cells.reduce((sum, pair, position) => (pair[of] === index ? sum + allocation[position] : sum), 0)
+      if (supplies.some((capacity, s) => shipped(s, 0) > capacity)) return
+      if (demands.some((need, d) => shipped(d, 1) > need)) return
+
+      const flow = allocation.reduce((sum, quantity) => sum + quantity, 0)
+      const cost = cells.reduce((sum, [s, d], position) => sum + allocation[position] * costs[s][d], 0)
+      if (flow > best.flow || (flow === best.flow && cost < best.cost)) best = { flow, cost }
+      return
+    }
+
+    const [s, d] = cells[cell]
+    for (let quantity = 0; quantity <= Math.min(supplies[s], demands[d]); quantity++) {
+      allocation[cell] = quantity
+      visit(cell + 1)
+    }
+    allocation[cell] = 0
+  }
+
+  visit(0)
+  return best
+}
+
+function solve({ supplies, demands, costs }: Transport) {
+  const sink = supplies.length + demands.length + 1
+  const flow = new MinCostFlow(sink + 1)
+  supplies.forEach((capacity, s) => flow.addEdge(0, 1 + s, capacity, 0))
+  demands.forEach((need, d) => flow.addEdge(1 + supplies.length + d, sink, need, 0))
+  const edges = supplies.map((_, s) =>
+    demands.map((need, d) => flow.addEdge(1 + s, 1 + supplies.length + d, need, costs[s][d])),
+  )
+  return { result: flow.solve(0, sink), flow, edges }
+}
+
+describe("MinCostFlow", () => {
+  it("sends the maximum flow at the lowest cost", () => {
+    // Two paths of capacity 2: cost 1 + 1 and cost 1 + 5; a 3rd unit has no path
+    const flow = new MinCostFlow(4)
+    flow.addEdge(0, 1, 2, 1)
+    flow.addEdge(0, 2, 2, 1)
+    const cheap = flow.addEdge(1, 3, 2, 1)
+    const dear = flow.addEdge(2, 3, 1, 5)
+
+    expect(flow.solve(0, 3)).toEqual({ flow: 3, cost: 2 * 2 + 6 })
+    expect(flow.getFlow(cheap)).toBe(2)
+    expect(flow.getFlow(dear)).toBe(1)
+  })
+
+  it("reroutes earlier flow when a cheaper overall assignment exists", () => {
+    // Only the first depot serves the second call cheaply; giving it to the first call would cost 1 + 10
+    const { result, flow, edges } = solve({ supplies: [1, 1], demands: [1, 1], costs: [[1, 2], [1, 10]] })
+
+    expect(result).toEqual({ flow: 2, cost: 3 })
+    expect(flow.getFlow(edges[0][1])).toBe(1)
+    expect(flow.getFlow(edges[1][0])).toBe(1)
+  })
+
+  it("matches an exhaustive search on random transport problems", () => {
+    const random = createSeededRandom("min-cost-flow")
+
+    for (let round = 0; round < 40; round++) {
+      const problem: Transport = {
+        supplies: Array.from({ length: random.int(1, 3) }, () => random.int(0, 3)),
+        demands: Array.from({ length: random.int(1, 2) }, () => random.int(1, 3)),
+        costs: [],
+      }
+      problem.costs = problem.supplies.map(() => problem.demands.map(() => random.int(0, 9)))
+
+      expect(solve(problem).result).toEqual(bruteForce(problem))
+    }
+  })
+
+  it("sends nothing when the sink cannot be reached", () => {
+    const flow = new MinCostFlow(3)
+    flow.addEdge(0, 1, 5, 1)
+    expect(flow.solve(0, 2)).toEqual({ flow: 0, cost: 0 })
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Min-Cost Flow
+ *
+ * Successive shortest paths with Johnson potentials and a binary-heap Dijkstra.
+ * Sends as much flow as possible from source to sink and, among all maximum
+ * flows, finds one of minimum total cost. Edge costs must be non-negative.
+ */
+
+interface FlowEdge {
+  to: number
+  capacity: number
+  cost: number
+  flow: number
+  /** Index of the reverse edge in `edges` */
+  reverse: number
+}
+
+export class MinCostFlow {
+  private edges: FlowEdge[] = []
+  private adjacency: number[][]
+
+  constructor(private nodeCount: number) {
+    this.adjacency = Array.from({ length: nodeCount }, () => [])
+  }
+
+  /**
+   * Adds a directed edge
+   *
+   * @returns Edge id, usable with getFlow
+   */
+  addEdge(from: number, to: number, capacity: number, cost: number): number {
+    const id = this.edges.length
+    this.edges.push({ to, capacity, cost, flow: 0, reverse: id + 1 })
+    this.edges.push({ to: from, capacity: 0, cost: -cost, flow: 0, reverse: id })
+    this.adjacency[from].push(id)
+    this.adjacency[to].push(id + 1)
+    return id
+  }
+
+  /**
+   * Flow currently assigned to an edge
+   */
+  getFlow(edgeId: number): number {
+    return this.edges[edgeId].flow
+  }
+
+  /**
+   * Computes a min-cost maximum flow
+   *
+   * @returns Total flow and its total cost
+   */
+  solve(source: number, sink: number): { flow: number; cost: number } {
+    const potential = new Array<number>(this.nodeCount).fill(0)
+    let totalFlow = 0
+    let totalCost = 0
+
+    while (true) {
+      const distance = new Array<number>(this.nodeCount).fill(Number.POSITIVE_INFINITY)
+      const viaEdge = new Array<number>(this.nodeCount).fill(-1)
+      distance[source] = 0
+
+      const heap: [number, number][] = [[0, source]]
+      while (heap.length > 0) {
+        const [dist, node] = popMin(heap)
+        if (dist > distance[node]) continue
+
+        for (const edgeId of this.adjacency[node]) {
+          const edge = this.edges[edgeId]
+          if (edge.capacity - edge.flow <= 0) continue
+
+          const next = dist + edge.cost + potential[node] - potential[edge.to]
+          if (next < distance[edge.to] - 1e-9) {
+            distance[edge.to] = next
+            viaEdge[edge.to] = edgeId
+            pushMin(heap, [next, edge.to])
+          }
+        }
+      }
+
+      if (distance[sink] === Number.POSITIVE_INFINITY) break
+
+      for (let node = 0; node < this.nodeCount; node++) {
+        if (distance[node] < Number.POSITIVE_INFINITY) potential[node] += distance[node]
+      }
+
+      // Bottleneck capacity along the path
+      let push = Number.POSITIVE_INFINITY
+      for (let node = sink; node !== source; ) {
+        const edge = this.edges[viaEdge[node]]
+        push = Math.min(push, edge.capacity - edge.flow)
+        node = this.edges[edge.reverse].to
+      }
+
+      for (let node = sink; node !== source; ) {
+        const edge = this.edges[viaEdge[node]]
+        edge.flow += push
+        this.edges[edge.reverse].flow -= push
+        totalCost += push * edge.cost
+        node = this.edges[edge.reverse].to
+      }
+      totalFlow += push
+    }
+
+    return { flow: totalFlow, cost: totalCost }
+  }
+}
+
+function pushMin(heap: [number, number][], entry: [number, number]) {
+  heap.push(entry)
+  let index = heap.length - 1
+  while (index > 0) {
+    const parent = (index - 1) >> 1
+    if (heap[parent][0] <= heap[index][0]) break
+    ;[heap[parent], heap[index]] = [heap[index], heap[parent]]
+    index = parent
+  }
+}
+
+function popMin(heap: [number, number][]): [number, number] {
+  const top = heap[0]
+  const last = heap.pop() as [number, number]
+  if (heap.length > 0) {
+    heap[0] = last
+    let index = 0
+    while (true) {
+      const left = index * 2 + 1
+      const right = left + 1
+      let smallest = index
+      if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left
+      if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right
+      if (smallest === index) break
+      ;[heap[smallest], heap[index]] = [heap[index], heap[smallest]]
+      index = smallest
+    }
+  }
+  return top
+}
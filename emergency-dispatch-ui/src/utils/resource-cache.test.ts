@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import type { EmergencyCall } from "@/types"
+import { ResourceCache } from "./resource-cache"
+
+// Two calls wait in Dej at once; only their ids tell them apart
+const dej = (id: string, dispatched: number): EmergencyCall => ({
+  id,
+  county: "Cluj",
+  city: "Dej",
+  latitude: 47.14,
+  longitude: 23.87,
+  requests: [{ Type: "Fire", Quantity: 2 }],
+  dispatched: { Fire: dispatched } as EmergencyCall["dispatched"],
+})
+
+// Without IndexedDB the app storage keeps records in memory
+beforeEach(() => ResourceCache.clearCache())
+
+describe("ResourceCache", () => {
+  it("keeps two calls in one city apart and updates only the one dispatched to", async () => {
+    await ResourceCache.saveEmergencies([dej("Cluj:Dej#1", 0), dej("Cluj:Dej#2", 0)])
+
+    await ResourceCache.updateEmergencyInCache(dej("Cluj:Dej#2", 1))
+
+    expect(await ResourceCache.getEmergencies()).toEqual([dej("Cluj:Dej#1", 0), dej("Cluj:Dej#2", 1)])
+  })
+
+  it("does not add a call that is not cached", async () => {
+    await ResourceCache.saveEmergencies([dej("Cluj:Dej#1", 0)])
+
+    await ResourceCache.updateEmergencyInCache(dej("Cluj:Dej#3", 1))
+
+    expect(await ResourceCache.getEmergencies()).toEqual([dej("Cluj:Dej#1", 0)])
+  })
+})
@@ -3,21 +3,61 @@
  *
  * Provides a client-side cache for emergency resources and calls
  * to maintain continuity when API calls fail
+ *
+ * The cache is normalised: every call and depot is stored once under its id
+ * in the "emergencies" and "resources" stores of the app's IndexedDB
+ * database, so updating one after a dispatch does not touch the others.
  */
 
 import { logger } from "@/components/logger"
+import { appStorage, type AppStoreSchema } from "@/services/app-storage"
 import type { EmergencyCall, EmergencyResource } from "@/types"
 
-// Cache keys
-const CACHE_KEYS = {
-  RESOURCES: "emercery_cached_resources",
-  EMERGENCIES: "emercery_cached_emergencies",
-  TIMESTAMP: "emercery_cache_timestamp",
-}
+type EntityStore = "emergencies" | "resources"
+type Entity<S extends EntityStore> = AppStoreSchema[S]["value"]
 
 // Cache expiration time (10 minutes)
 const CACHE_EXPIRATION = 10 * 60 * 1000
 
+/**
+ * Replaces a cached list, one record per entity
+ */
+function writeList<S extends EntityStore>(store: S, entities: Entity<S>[]): Promise<void> {
+  const updatedAt = Date.now()
+  const records = entities.map((entity, position) => ({ key: entity.id, value: entity, updatedAt, position }))
+  return appStorage.replaceAll(store, records as AppStoreSchema[S][])
+}
+
+/**
+ * Reads a cached list in its original order, leaving out entities cached too long ago
+ *
+ * @returns The list, or null if nothing fresh is cached
+ */
+async function readList<S extends EntityStore>(store: S, label: string): Promise<Entity<S>[] | null> {
+  const records = await appStorage.getAll(store)
+  if (records.length === 0) return null
+
+  const now = Date.now()
+  const fresh = records.filter((record) => now - record.updatedAt <= CACHE_EXPIRATION)
+  if (fresh.length === 0) {
+    logger.debug(`${label} cache expired`, { count: records.length })
+    return null
+  }
+
+  const entities = fresh.sort((a, b) => a.position - b.position).map((record) => record.value as Entity<S>)
+  logger.debug(`${label} loaded from cache`, { count: entities.length, expired: records.length - fresh.length })
+  return entities
+}
+
+/**
+ * Replaces one cached entity, keeping its place in the list
+ *
+ * @returns False if the entity is not cached
+ */
+function updateEntity<S extends EntityStore>(store: S, entity: Entity<S>): Promise<boolean> {
+  return appStorage.update(store, entity.id, (record) => ({ ...record, value: entity, updatedAt: Date.now() }))
+}
+
 /**
  * ResourceCache utility for maintaining state through API failures
  */
@@ -25,10 +65,9 @@ export const ResourceCache = {
   /**
    * Save resources to cache
    */
-  saveResources(resources: EmergencyResource[]): void {
+  async saveResources(resources: EmergencyResource[]): Promise<void> {
     try {
-      localStorage.setItem(CACHE_KEYS.RESOURCES, JSON.stringify(resources))
-      localStorage.setItem(CACHE_KEYS.TIMESTAMP, Date.now().toString())
+      await writeList("resources", resources)
       logger.debug("Resources cached", { count: resources.length })
     } catch (error) {
       logger.error("Failed to cache resources", { error })
@@ -39,25 +78,9 @@ export const ResourceCache = {
    * Get resources from cache
    * Returns null if cache is expired or empty
    */
-  getResources(): EmergencyResource[] | null {
+  async getResources(): Promise<EmergencyResource[] | null> {
     try {
-      // Check if cache exists and is not expired
-      const timestamp = localStorage.getItem(CACHE_KEYS.TIMESTAMP)
-      if (!timestamp) return null
-
-      const cacheAge = Date.now() - Number.parseInt(timestamp)
-      if (cacheAge > CACHE_EXPIRATION) {
-        logger.debug("Resources cache expired", { cacheAge })
-        return null
-      }
-
-      const cachedData = localStorage.getItem(CACHE_KEYS.RESOURCES)
-      if (!cachedData) return null
-
-      const resources = JSON.parse(cachedData) as EmergencyResource[]
-      logger.debug("Resources loaded from cache", { count: resources.length, cacheAge })
-
-      return resources
+      return await readList("resources", "Resources")
     } catch (error) {
       logger.error("Failed to get resources from cache", { error })
       return null
@@ -67,10 +90,9 @@ export const ResourceCache = {
   /**
    * Save emergencies to cache
    */
-  saveEmergencies(emergencies: EmergencyCall[]): void {
+  async saveEmergencies(emergencies: EmergencyCall[]): Promise<void> {
     try {
-      localStorage.setItem(CACHE_KEYS.EMERGENCIES, JSON.stringify(emergencies))
-      localStorage.setItem(CACHE_KEYS.TIMESTAMP, Date.now().toString())
+      await writeList("emergencies", emergencies)
       logger.debug("Emergencies cached", { count: emergencies.length })
     } catch (error) {
       logger.error("Failed to cache emergencies", { error })
@@ -81,25 +103,9 @@ export const ResourceCache = {
    * Get emergencies from cache
    * Returns null if cache is expired or empty
    */
-  getEmergencies(): EmergencyCall[] | null {
+  async getEmergencies(): Promise<EmergencyCall[] | null> {
     try {
-      // Check if cache exists and is not expired
-      const timestamp = localStorage.getItem(CACHE_KEYS.TIMESTAMP)
-      if (!timestamp) return null
-
-      const cacheAge = Date.now() - Number.parseInt(timestamp)
-      if (cacheAge > CACHE_EXPIRATION) {
-        logger.debug("Emergencies cache expired", { cacheAge })
-        return null
-      }
-
-      const cachedData = localStorage.getItem(CACHE_KEYS.EMERGENCIES)
-      if (!cachedData) return null
-
-      const emergencies = JSON.parse(cachedData) as EmergencyCall[]
-      logger.debug("Emergencies loaded from cache", { count: emergencies.length, cacheAge })
-
-      return emergencies
+      return await readList("emergencies", "Emergencies")
     } catch (error) {
       logger.error("Failed to get emergencies from cache", { error })
       return null
@@ -109,11 +115,9 @@ export const ResourceCache = {
   /**
    * Clear all cached data
    */
-  clearCache(): void {
+  async clearCache(): Promise<void> {
     try {
-      localStorage.removeItem(CACHE_KEYS.RESOURCES)
-      localStorage.removeItem(CACHE_KEYS.EMERGENCIES)
-      localStorage.removeItem(CACHE_KEYS.TIMESTAMP)
+      await Promise.all([appStorage.clear("resources"), appStorage.clear("emergencies")])
       logger.debug("Cache cleared")
     } catch (error) {
       logger.error("Failed to clear cache", { error })
@@ -124,21 +128,11 @@ export const ResourceCache = {
    * Update a specific resource in the cache
    * Useful after a dispatch to maintain consistency
    */
-  updateResourceInCache(updatedResource: EmergencyResource): void {
+  async updateResourceInCache(updatedResource: EmergencyResource): Promise<void> {
     try {
-      const resources = this.getResources()
-      if (!resources) return
-
-      // Find and update the resource
-      const index = resources.findIndex(
-        (r) =>
-          r.city === updatedResource.city && r.county === updatedResource.county && r.type === updatedResource.type,
-      )
-
-      if (index !== -1) {
-        resources[index] = updatedResource
-        this.saveResources(resources)
+      if (await updateEntity("resources", updatedResource)) {
         logger.debug("Resource updated in cache", {
+          id: updatedResource.id,
           resource: `${updatedResource.city}, ${updatedResource.county}`,
           type: updatedResource.type,
         })
@@ -152,20 +146,11 @@ export const ResourceCache = {
    * Update a specific emergency in the cache
    * Useful after a dispatch to maintain consistency
    */
-  updateEmergencyInCache(updatedEmergency: EmergencyCall): void {
+  async updateEmergencyInCache(updatedEmergency: EmergencyCall): Promise<void> {
     try {
-      const emergencies = this.getEmergencies()
-      if (!emergencies) return
-
-      // Find and update the emergency
-      const index = emergencies.findIndex(
-        (e) => e.city === updatedEmergency.city && e.county === updatedEmergency.county,
-      )
-
-      if (index !== -1) {
-        emergencies[index] = updatedEmergency
-        this.saveEmergencies(emergencies)
+      if (await updateEntity("emergencies", updatedEmergency)) {
         logger.debug("Emergency updated in cache", {
+          id: updatedEmergency.id,
           emergency: `${updatedEmergency.city}, ${updatedEmergency.county}`,
         })
       }
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import { array, formatSchemaIssues, number, object, oneOf, string, validate, withFallback } from "./schema"
+
+describe("schema checks", () => {
+  it("accepts values of the right shape without issues", () => {
+    const schema = object({ name: string({ nonEmpty: true }), size: number({ min: 0, integer: true }) })
+
+    expect(validate(schema, { name: "Dej", size: 3, extra: true })).toEqual({
+      value: { name: "Dej", size: 3, extra: true },
+      issues: [],
+    })
+  })
+
+  it("reports missing fields and wrong types with their paths", () => {
+    const schema = object({ name: string(), place: object({ lat: number() }) })
+
+    const { issues } = validate(schema, { place: { lat: "46.5" } })
+
+    expect(issues).toEqual([
+      { path: "name", message: "expected string, got undefined", received: undefined, patched: false },
+      { path: "place.lat", message: "expected finite number, got string", received: "46.5", patched: false },
+    ])
+  })
+
+  it("checks number bounds, integers, empty strings and allowed values", () => {
+    const messages = (schema: Parameters<typeof validate>[0], value: unknown) =>
+      validate(schema, value).issues.map((issue) => issue.message)
+
+    expect(messages(number({ min: 0 }), -1)).toEqual(["expected a number >= 0"])
+    expect(messages(number({ max: 90 }), 91)).toEqual(["expected a number <= 90"])
+    expect(messages(number({ integer: true }), 1.5)).toEqual(["expected an integer"])
+    expect(messages(number(), Number.NaN)).toEqual(["expected finite number, got number"])
+    expect(messages(string({ nonEmpty: true }), "  ")).toEqual(["expected a non-empty string"])
+    expect(messages(oneOf(["Fire", "Police"]), "Flood")).toEqual(["expected one of Fire, Police"])
+    expect(validate(object({}), []).issues[0]).toMatchObject({ path: "(root)", message: "expected object, got array" })
+  })
+
+  it("replaces a bad value with its fallback and marks the issue patched", () => {
+    const schema = object({ quantity: withFallback(number({ min: 0 }), 0) })
+
+    const { value, issues } = validate(schema, { quantity: "lots" })
+
+    expect(value).toEqual({ quantity: 0 })
+    expect(issues).toMatchObject([{ path: "quantity", patched: true }])
+  })
+
+  it("falls back only when a nested fallback could not patch the value", () => {
+    const inner = object({ quantity: withFallback(number(), 0) })
+    const schema = withFallback(inner, { quantity: -1 })
+
+    expect(validate(schema, { quantity: "x" }).value).toEqual({ quantity: 0 })
+    expect(validate(schema, "x").value).toEqual({ quantity: -1 })
+  })
+
+  it("drops list entries that stay invalid when asked to", () => {
+    const entry = object({ name: string() })
+
+    const dropped = validate(array(entry, { dropInvalid: true }), [{ name: "Dej" }, { name: 4 }])
+    const kept = validate(array(entry), [{ name: "Dej" }, { name: 4 }])
+
+    expect(dropped.value).toEqual([{ name: "Dej" }])
+    expect(dropped.issues).toMatchObject([{ path: "[1].name", patched: true }])
+    expect(kept.value).toHaveLength(2)
+    expect(kept.issues).toMatchObject([{ path: "[1].name", patched: false }])
+  })
+
+  it("formats issues one per field", () => {
+    const { issues } = validate(object({ a: string(), b: withFallback(number(), 0) }), { b: null })
+
+    expect(formatSchemaIssues(issues)).toBe(
+      "a: expected string, got undefined; b: expected finite number, got null (patched)",
+    )
+  })
+})
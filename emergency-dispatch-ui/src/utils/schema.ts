@@ -0,0 +1,167 @@
+/**
+ * Declarative Schemas
+ *
+ * Small combinators for describing the shape of untrusted JSON and checking
+ * values against it. Checking never throws: every violation is collected as a
+ * field-level issue, and schemas wrapped in withFallback replace a bad value
+ * with a default so lenient callers can keep going with patched data.
+ */
+
+export interface SchemaIssue {
+  /** Location of the bad value, e.g. "[3].requests[0].Quantity" */
+  path: string
+  message: string
+  received: unknown
+  /** Whether the bad value was replaced by a fallback */
+  patched: boolean
+}
+
+export interface Schema<T> {
+  /**
+   * Checks a value, appending any violations to `issues`
+   *
+   * @returns The value, with fallbacks applied where violations were patched
+   */
+  check(value: unknown, path: string, issues: SchemaIssue[]): T
+}
+
+export interface SchemaResult<T> {
+  value: T
+  issues: SchemaIssue[]
+}
+
+/**
+ * Thrown when a payload is rejected because it does not match its schema
+ */
+export class SchemaValidationError extends Error {
+  constructor(
+    message: string,
+    readonly issues: SchemaIssue[],
+  ) {
+    super(message)
+    this.name = "SchemaValidationError"
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+const fail = <T>(issues: SchemaIssue[], path: string, message: string, value: unknown): T => {
+  issues.push({ path: path || "(root)", message, received: value, patched: false })
+  return value as T
+}
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "string") return fail(issues, path, `expected string, got ${describe(value)}`, value)
+      if (options.nonEmpty && value.trim() === "") return fail(issues, path, "expected a non-empty string", value)
+      return value
+    },
+  }
+}
+
+export function number(options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return fail(issues, path, `expected finite number, got ${describe(value)}`, value)
+      }
+      if (options.integer && !Number.isInteger(value)) return fail(issues, path, "expected an integer", value)
+      if (options.min !== undefined && value < options.min) {
+        return fail(issues, path, `expected a number >= ${options.min}`, value)
+      }
+      if (options.max !== undefined && value > options.max) {
+        return fail(issues, path, `expected a number <= ${options.max}`, value)
+      }
+      return value
+    },
+  }
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (!values.includes(value as T)) return fail(issues, path, `expected one of ${values.join(", ")}`, value)
+      return value as T
+    },
+  }
+}
+
+/**
+ * Array of items; with dropInvalid, items that still violate the schema after
+ * their own fallbacks are left out (and their issues count as patched)
+ */
+export function array<T>(item: Schema<T>, options: { dropInvalid?: boolean } = {}): Schema<T[]> {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) return fail(issues, path, `expected array, got ${describe(value)}`, value)
+
+      const items: T[] = []
+      value.forEach((entry, index) => {
+        const local: SchemaIssue[] = []
+        const checked = item.check(entry, `${path}[${index}]`, local)
+        const drop = options.dropInvalid === true && local.some((issue) => !issue.patched)
+
+        issues.push(...local.map((issue) => (drop ? { ...issue, patched: true } : issue)))
+        if (!drop) items.push(checked)
+      })
+      return items
+    },
+  }
+}
+
+/**
+ * Object with the given fields; fields not in the shape are kept as they are
+ */
+export function object<T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    check(value, path, issues) {
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        return fail(issues, path, `expected object, got ${describe(value)}`, value)
+      }
+
+      const input = value as Record<string, unknown>
+      const output: Record<string, unknown> = { ...input }
+      for (const key of Object.keys(shape) as (keyof T & string)[]) {
+        output[key] = shape[key].check(input[key], path ? `${path}.${key}` : key, issues)
+      }
+      return output as T
+    },
+  }
+}
+
+/**
+ * Replaces the value with `fallback` when it violates the schema.
+ * Violations already patched by nested fallbacks do not trigger it.
+ */
+export function withFallback<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return {
+    check(value, path, issues) {
+      const local: SchemaIssue[] = []
+      const checked = schema.check(value, path, local)
+      const needsFallback = local.some((issue) => !issue.patched)
+
+      issues.push(...local.map((issue) => (needsFallback ? { ...issue, patched: true } : issue)))
+      return needsFallback ? fallback : checked
+    },
+  }
+}
+
+/**
+ * Checks a value against a schema
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaResult<T> {
+  const issues: SchemaIssue[] = []
+  return { value: schema.check(value, "", issues), issues }
+}
+
+/**
+ * Formats issues as one line per field, for logs and error messages
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}${issue.patched ? " (patched)" : ""}`).join("; ")
+}
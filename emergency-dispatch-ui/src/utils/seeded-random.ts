@@ -0,0 +1,64 @@
+/**
+ * Seeded Random Utility
+ *
+ * Small deterministic pseudo-random generator so that anything driven by a
+ * simulation seed (call streams, depot inventories) is reproducible.
+ */
+
+export interface SeededRandom {
+  /** Next float in [0, 1) */
+  next(): number
+  /** Next integer in [min, max] (inclusive) */
+  int(min: number, max: number): number
+  /** Pick one item from a non-empty list */
+  pick<T>(items: readonly T[]): T
+  /** Return a shuffled copy of the list */
+  shuffle<T>(items: readonly T[]): T[]
+}
+
+/**
+ * Hashes a seed string into a 32-bit unsigned integer (FNV-1a)
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Creates a mulberry32 generator for the given seed
+ *
+ * @param seed - Any string; the same seed always yields the same sequence
+ */
+export function createSeededRandom(seed: string): SeededRandom {
+  let state = hashSeed(seed)
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1))
+
+  return {
+    next,
+    int,
+    pick<T>(items: readonly T[]): T {
+      return items[int(0, items.length - 1)]
+    },
+    shuffle<T>(items: readonly T[]): T[] {
+      const copy = [...items]
+      for (let i = copy.length - 1; i > 0; i--) {
+        const j = int(0, i)
+        ;[copy[i], copy[j]] = [copy[j], copy[i]]
+      }
+      return copy
+    },
+  }
+}
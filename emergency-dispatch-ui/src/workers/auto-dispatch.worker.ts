@@ -0,0 +1,44 @@
+/**
+ * Auto-Dispatch Worker
+ *
+ * Runs the AutoDispatchEngine off the main thread so long simulations do not
+ * block rendering. The page sends start/stop requests and receives status
+ * updates in the /simulate/status shape.
+ */
+import {
+  AutoDispatchEngine,
+  type AutoDispatchWorkerEvent,
+  type AutoDispatchWorkerRequest,
+} from "@/services/auto-dispatch-engine"
+
+const worker = self as unknown as Worker
+let engine: AutoDispatchEngine | null = null
+
+const post = (event: AutoDispatchWorkerEvent) => worker.postMessage(event)
+
+worker.onmessage = async (message: MessageEvent<AutoDispatchWorkerRequest>) => {
+  const request = message.data
+
+  if (request.type === "stop") {
+    engine?.stop()
+    return
+  }
+
+  engine?.stop()
+  const current = new AutoDispatchEngine(request.config)
+  engine = current
+  current.subscribe((status) => post({ type: "status", status }))
+
+  try {
+    const status = await current.run()
+    post({ type: "finished", status })
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+      status: current.getStatus(),
+    })
+  } finally {
+    if (engine === current) engine = null
+  }
+}